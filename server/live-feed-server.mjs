@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+// Stand-in scoreboard controller for developing the builder's live data feed
+// offline. Replays a recorded game and serves it two ways:
+//
+//   WebSocket  ws://localhost:8787        snapshot on connect, then a patch per frame
+//   HTTP       http://localhost:8787/gamedata   current gameData as JSON (for polling)
+//
+// Usage: node server/live-feed-server.mjs [recording.json] [--port 8787] [--speed 1] [--no-loop]
+//
+// A recording is { "name", "frames": [{ "at": seconds, "changes": { "gameData.path": value } }] }.
+// No dependencies: the WebSocket handshake and framing are done by hand (server to
+// client text frames only, which is all the feed needs).
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const DEFAULT_RECORDING = join(dirname(fileURLToPath(import.meta.url)), 'recordings', 'basketball-first-half.json');
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function parseArgs(argv) {
+  const options = { recording: DEFAULT_RECORDING, port: 8787, speed: 1, loop: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--speed') options.speed = Number(argv[++i]);
+    else if (arg === '--no-loop') options.loop = false;
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else options.recording = arg;
+  }
+  if (!(options.port > 0) || !(options.speed > 0)) {
+    throw new Error('--port and --speed must be positive numbers');
+  }
+  return options;
+}
+
+function setPath(data, path, value) {
+  const keys = path.split('.');
+  let current = data;
+  keys.slice(0, -1).forEach((key, index) => {
+    if (current[key] === undefined || current[key] === null) current[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket
+// ---------------------------------------------------------------------------
+
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+const CLOSE_FRAME = Buffer.from([0x88, 0x00]);
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log('Usage: node server/live-feed-server.mjs [recording.json] [--port 8787] [--speed 1] [--no-loop]');
+    return;
+  }
+  const recording = JSON.parse(readFileSync(options.recording, 'utf8'));
+  const frames = recording.frames ?? [];
+  if (frames.length === 0) throw new Error(`${options.recording} has no frames`);
+
+  const clients = new Set();
+  let gameData = {};
+  let frameIndex = 0;
+  let startedAt = Date.now();
+
+  const broadcast = message => {
+    const frame = encodeTextFrame(JSON.stringify(message));
+    clients.forEach(socket => socket.write(frame));
+  };
+
+  const restart = () => {
+    gameData = {};
+    frameIndex = 0;
+    startedAt = Date.now();
+  };
+
+  // Play every frame that is due; a loop restart sends a fresh snapshot
+  const tick = () => {
+    const elapsed = ((Date.now() - startedAt) / 1000) * options.speed;
+    while (frameIndex < frames.length && frames[frameIndex].at <= elapsed) {
+      const { changes } = frames[frameIndex];
+      Object.entries(changes).forEach(([path, value]) => setPath(gameData, path, value));
+      broadcast({ type: 'patch', changes });
+      frameIndex++;
+    }
+    if (frameIndex >= frames.length && options.loop) {
+      console.log('Recording finished - looping');
+      restart();
+      broadcast({ type: 'gameData', data: gameData });
+    }
+  };
+
+  const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    if (request.method === 'GET' && request.url?.split('?')[0] === '/gamedata') {
+      response.setHeader('Content-Type', 'application/json');
+      response.setHeader('Cache-Control', 'no-store');
+      response.end(JSON.stringify({ type: 'gameData', data: gameData }));
+      return;
+    }
+    response.statusCode = 404;
+    response.end('Not found - use GET /gamedata or a WebSocket connection');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (!key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'));
+    clients.add(socket);
+    console.log(`Client connected (${clients.size})`);
+    socket.write(encodeTextFrame(JSON.stringify({ type: 'gameData', data: gameData })));
+
+    // Client frames are only read to notice a close (opcode 0x8)
+    socket.on('data', data => {
+      if ((data[0] & 0x0f) === 0x8) {
+        socket.write(CLOSE_FRAME);
+        socket.end();
+      }
+    });
+    const drop = () => {
+      if (clients.delete(socket)) console.log(`Client disconnected (${clients.size})`);
+    };
+    socket.on('close', drop);
+    socket.on('error', drop);
+  });
+
+  server.on('error', error => {
+    console.error(error.code === 'EADDRINUSE' ? `Port ${options.port} is in use - pick another with --port` : error.message);
+    process.exit(1);
+  });
+  server.listen(options.port, () => {
+    console.log(`Replaying "${recording.name ?? options.recording}" (${frames.length} frames) at ${options.speed}x`);
+    console.log(`  WebSocket: ws://localhost:${options.port}`);
+    console.log(`  HTTP:      http://localhost:${options.port}/gamedata`);
+  });
+  setInterval(tick, 100);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+// Stand-in for the TV app's layout server, for testing "Send to TV" without a TV.
+// Implements the chunked transfer protocol from src/utils/tvTransfer.ts:
+//
+//   POST /layout/transfers                 start (or resume) a transfer, keyed by the layout's SHA-256
+//   PUT  /layout/transfers/{id}/chunks/{n} one chunk, checked against its X-Chunk-SHA256 header
+//   POST /layout/transfers/{id}/complete   unzip, hash, parse and "load" the layout; echoes { sha256 }
+//   POST /layout                           the old single-request upload
+//   GET  /layout                           the layout being shown, as it was sent
+//   POST /layout/session                   open a watch-mode session
+//   POST /layout/session/{id}/delta        apply the changed components; 409 if out of step
+//   DELETE /layout/session/{id}            close it
+//   GET  /status                           health ping: { name, layout: { name, sha256, loadedAt } | null }
+//
+// Usage: node server/mock-tv-server.mjs [--port 3080] [--name "Mock TV"] [--fail-rate 0] [--max-body 0] [--out layout.json]
+//
+//   --fail-rate  share of chunk uploads to drop with a 503 (0-1), to exercise retries and resume
+//   --max-body   reject any request body over this many bytes with a 413, like a TV with a small buffer
+//   --out        write each loaded layout to this file
+//
+// Run several on different ports (--port 3081 --name "Corner") to try sending to multiple devices.
+// Transfers are kept in memory, so restarting the server forgets partial uploads.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { gunzipSync } from 'node:zlib';
+import { writeFileSync } from 'node:fs';
+
+const USAGE = 'Usage: node server/mock-tv-server.mjs [--port 3080] [--name "Mock TV"] [--fail-rate 0] [--max-body 0] [--out layout.json]';
+
+function parseArgs(argv) {
+  const options = { port: 3080, name: 'Mock TV', failRate: 0, maxBody: 0, out: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') options.port = Number(argv[++i]);
+    else if (arg === '--name') options.name = argv[++i];
+    else if (arg === '--fail-rate') options.failRate = Number(argv[++i]);
+    else if (arg === '--max-body') options.maxBody = Number(argv[++i]);
+    else if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else throw new Error(`Unknown option ${arg}\n${USAGE}`);
+  }
+  if (!(options.port > 0)) throw new Error('--port must be a positive number');
+  if (!(options.failRate >= 0 && options.failRate <= 1)) throw new Error('--fail-rate must be between 0 and 1');
+  if (!(options.maxBody >= 0)) throw new Error('--max-body must be a number of bytes');
+  return options;
+}
+
+const sha256 = data => createHash('sha256').update(data).digest('hex');
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function readBody(request, maxBody) {
+  return new Promise((resolve, reject) => {
+    const parts = [];
+    let size = 0;
+    request.on('data', part => {
+      size += part.length;
+      parts.push(part);
+    });
+    request.on('end', () => {
+      if (maxBody > 0 && size > maxBody) reject(new HttpError(413, `Body of ${size} bytes is over the ${maxBody} byte limit`));
+      else resolve(Buffer.concat(parts));
+    });
+    request.on('error', reject);
+  });
+}
+
+function parseJson(buffer) {
+  try {
+    return JSON.parse(buffer.toString('utf8'));
+  } catch (error) {
+    throw new HttpError(400, `Invalid JSON: ${error.message}`);
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // transferId -> { sha256, size, encoding, chunkSize, chunkCount, chunks: Map<index, Buffer> }
+  const transfers = new Map();
+  let loaded = null;
+  let loadedJson = null;
+  const sessions = new Set();
+
+  const loadLayout = (json, how) => {
+    const layout = parseJson(Buffer.from(json));
+    if (!layout || !Array.isArray(layout.components)) throw new HttpError(422, 'Layout has no components array');
+    loaded = { name: layout.name, sha256: sha256(json), loadedAt: new Date().toISOString() };
+    loadedJson = json;
+    console.log(`Loaded "${layout.name}" - ${layout.components.length} components, ${json.length} bytes (${how})`);
+    if (options.out) writeFileSync(options.out, json);
+  };
+
+  const startTransfer = body => {
+    const { sha256: hash, size, encoding, chunkSize, chunkCount } = parseJson(body);
+    if (!/^[0-9a-f]{64}$/.test(hash ?? '')) throw new HttpError(400, 'sha256 must be a hex SHA-256 digest');
+    if (encoding !== 'gzip' && encoding !== 'identity') throw new HttpError(400, `Unsupported encoding "${encoding}"`);
+    if (!(size > 0) || !(chunkSize > 0) || chunkCount !== Math.ceil(size / chunkSize)) {
+      throw new HttpError(400, 'size, chunkSize and chunkCount do not add up');
+    }
+
+    // Same layout, same transfer: a resend picks up where the last attempt stopped
+    const existing = transfers.get(hash);
+    if (existing && existing.size === size && existing.chunkSize === chunkSize && existing.encoding === encoding) {
+      console.log(`Resuming ${hash.slice(0, 12)} - ${existing.chunks.size}/${chunkCount} chunks already here`);
+    } else {
+      transfers.set(hash, { sha256: hash, size, encoding, chunkSize, chunkCount, chunks: new Map() });
+      console.log(`Transfer ${hash.slice(0, 12)} started - ${size} bytes ${encoding} in ${chunkCount} chunk(s)`);
+    }
+    const transfer = transfers.get(hash);
+    return { transferId: hash, receivedChunks: [...transfer.chunks.keys()] };
+  };
+
+  const getTransfer = id => {
+    const transfer = transfers.get(id);
+    if (!transfer) throw new HttpError(404, `Unknown transfer ${id} - start it again`);
+    return transfer;
+  };
+
+  const receiveChunk = (transfer, index, body, checksum) => {
+    if (!(index >= 0 && index < transfer.chunkCount)) {
+      throw new HttpError(400, `Chunk index ${index} is outside 0-${transfer.chunkCount - 1}`);
+    }
+    if (Math.random() < options.failRate) throw new HttpError(503, 'Simulated network failure (--fail-rate)');
+    const expectedSize = Math.min(transfer.chunkSize, transfer.size - index * transfer.chunkSize);
+    if (body.length !== expectedSize) throw new HttpError(400, `Chunk is ${body.length} bytes, expected ${expectedSize}`);
+    if (checksum && sha256(body) !== checksum) throw new HttpError(400, 'Chunk checksum does not match X-Chunk-SHA256');
+    transfer.chunks.set(index, body);
+    return { received: index };
+  };
+
+  const completeTransfer = transfer => {
+    const missing = [];
+    for (let index = 0; index < transfer.chunkCount; index++) {
+      if (!transfer.chunks.has(index)) missing.push(index);
+    }
+    if (missing.length > 0) throw new HttpError(409, `Missing chunk(s) ${missing.join(', ')}`);
+
+    const joined = Buffer.concat([...Array(transfer.chunkCount).keys()].map(index => transfer.chunks.get(index)));
+    let json;
+    try {
+      json = transfer.encoding === 'gzip' ? gunzipSync(joined) : joined;
+    } catch (error) {
+      throw new HttpError(422, `Could not unzip the layout: ${error.message}`);
+    }
+    const hash = sha256(json);
+    transfers.delete(transfer.sha256);
+    // A mismatch is reported through the echoed hash, like the TV app does
+    if (hash === transfer.sha256) loadLayout(json, `${transfer.chunkCount} chunk(s), ${transfer.encoding}`);
+    else console.warn(`Checksum mismatch for ${transfer.sha256.slice(0, 12)} - got ${hash.slice(0, 12)}`);
+    return { sha256: hash };
+  };
+
+  // Rebuild the layout from a LayoutDelta (see src/utils/tvTransfer.ts) and check it hashes as promised
+  const applyDelta = delta => {
+    if (!loadedJson || loaded.sha256 !== delta.baseSha256) {
+      throw new HttpError(409, `Out of step - showing ${loaded?.sha256.slice(0, 12) ?? 'nothing'}, delta is for ${String(delta.baseSha256).slice(0, 12)}`);
+    }
+    const current = new Map(JSON.parse(loadedJson).components.map(component => [component.id, component]));
+    const upserts = new Map((delta.upsert ?? []).map(component => [component.id, component]));
+    const components = (delta.componentIds ?? []).map(id => upserts.get(id) ?? current.get(id));
+    if (components.some(component => !component)) throw new HttpError(409, 'Delta refers to a component the TV does not have');
+    const json = JSON.stringify({ ...delta.layout, components });
+    if (sha256(json) !== delta.sha256) throw new HttpError(409, 'Checksum mismatch after applying the delta');
+    const removed = [...current.keys()].filter(id => !delta.componentIds.includes(id)).length;
+    loadLayout(Buffer.from(json), `delta: ${upserts.size} changed, ${removed} removed`);
+    return { sha256: delta.sha256 };
+  };
+
+  const route = async (request, url) => {
+    if (request.method === 'GET' && url === '/status') return { name: options.name, layout: loaded };
+    const body = await readBody(request, options.maxBody);
+    if (request.method === 'POST' && url === '/layout') {
+      loadLayout(body, 'single request');
+      return { ok: true };
+    }
+    if (request.method === 'POST' && url === '/layout/transfers') return startTransfer(body);
+    const chunkMatch = url.match(/^\/layout\/transfers\/([^/]+)\/chunks\/(\d+)$/);
+    if (request.method === 'PUT' && chunkMatch) {
+      return receiveChunk(getTransfer(chunkMatch[1]), Number(chunkMatch[2]), body, request.headers['x-chunk-sha256']);
+    }
+    if (request.method === 'POST' && url === '/layout/session') {
+      const sessionId = `session-${Date.now()}`;
+      sessions.add(sessionId);
+      console.log(`Watch session ${sessionId} opened`);
+      return { sessionId };
+    }
+    const sessionMatch = url.match(/^\/layout\/session\/([^/]+)(\/delta)?$/);
+    if (sessionMatch) {
+      if (!sessions.has(sessionMatch[1])) throw new HttpError(404, `Unknown session ${sessionMatch[1]}`);
+      if (request.method === 'POST' && sessionMatch[2]) return applyDelta(parseJson(body));
+      if (request.method === 'DELETE' && !sessionMatch[2]) {
+        sessions.delete(sessionMatch[1]);
+        console.log(`Watch session ${sessionMatch[1]} closed`);
+        return { ok: true };
+      }
+    }
+    const completeMatch = url.match(/^\/layout\/transfers\/([^/]+)\/complete$/);
+    if (request.method === 'POST' && completeMatch) return completeTransfer(getTransfer(completeMatch[1]));
+    throw new HttpError(404, `No route for ${request.method} ${url}`);
+  };
+
+  const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Chunk-SHA256');
+    if (request.method === 'OPTIONS') {
+      response.statusCode = 204;
+      response.end();
+      return;
+    }
+    const url = request.url?.split('?')[0] ?? '/';
+    // Sent back byte for byte, so its hash matches the one the builder recorded
+    if (request.method === 'GET' && url === '/layout') {
+      response.statusCode = loadedJson ? 200 : 404;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(loadedJson ?? JSON.stringify({ error: 'No layout loaded yet' }));
+      return;
+    }
+    route(request, url)
+      .then(result => {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(result));
+      })
+      .catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status !== 503) console.warn(`${request.method} ${url} -> ${status} ${error.message}`);
+        response.statusCode = status;
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify({ error: error.message }));
+      });
+  });
+
+  server.on('error', error => {
+    console.error(error.code === 'EADDRINUSE' ? `Port ${options.port} is in use - pick another with --port` : error.message);
+    process.exit(1);
+  });
+  server.listen(options.port, () => {
+    console.log(`${options.name} listening on http://localhost:${options.port}`);
+    if (options.failRate > 0) console.log(`  Dropping ${Math.round(options.failRate * 100)}% of chunks`);
+    if (options.maxBody > 0) console.log(`  Rejecting bodies over ${options.maxBody} bytes`);
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
@@ -1,13 +1,38 @@
-import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { ComponentConfig, LayoutConfig, LAYOUT_TYPES } from './types';
+import React, { useState, useCallback, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import { ComponentConfig, LayoutConfig, DesignTokens, LayoutTimeline, LAYOUT_TYPES } from './types';
 import Canvas from './components/Canvas';
 import PropertyPanel from './components/PropertyPanel';
 import LayerPanel from './components/LayerPanel';
 import ExportModal from './components/ExportModal';
 import PresetModal from './components/PresetModal';
 import KeyboardShortcutsModal from './components/KeyboardShortcutsModal';
+import ProblemsPanel from './components/ProblemsPanel';
+import GameSimulator from './components/GameSimulator';
+import LiveDataFeed from './components/LiveDataFeed';
+import TvDeviceManager from './components/TvDeviceManager';
+import TvWatchIndicator from './components/TvWatchIndicator';
+import type { TvDevice } from './utils/tvDevices';
+import type { LiveFeedStatus } from './utils/liveDataFeed';
 import { ToastProvider, useToast } from './components/Toast';
-import { expandLayoutForExport, repairTemplateReferences } from './utils/slotTemplates';
+import { repairTemplateReferences } from './utils/slotTemplates';
+import { migrateLayout, migrateStoredValue, LAYOUT_SCHEMA_VERSION } from './utils/layoutMigrations';
+import { validateLayout, formatValidationIssue } from './utils/layoutValidation';
+import { applyTokensToComponents } from './utils/designTokens';
+import { lintLayout } from './utils/layoutLinter';
+import { createMockGameData } from './shared/components/customDataDisplay/mockGameData';
+import {
+  getScenes,
+  isInScene,
+  getActiveSceneId,
+  getSceneLayout,
+  getNextSceneName,
+  withActiveScene,
+  addScene,
+  removeScene,
+  renameScene,
+  setComponentScenes,
+  setSceneTimeline,
+} from './utils/scenes';
 import './App.css';
 
 // Panel resize constants
@@ -77,215 +102,22 @@ function App() {
   }, []);
 
   const [layout, setLayout] = useState<LayoutConfig>({
+    schemaVersion: LAYOUT_SCHEMA_VERSION,
     name: 'basketball', // Layout type identifier used by TV app
     components: [],
     backgroundColor: '#000000',
     dimensions: DEFAULT_DIMENSIONS
   });
 
+  // The canvas and layer panel show one scene at a time (see utils/scenes)
+  const activeSceneId = getActiveSceneId(layout);
+  const scenes = useMemo(() => getScenes(layout), [layout]);
+  const sceneLayout = useMemo(() => getSceneLayout(layout, activeSceneId), [layout, activeSceneId]);
+
   // Game data state for live preview
-  const [gameData, setGameData] = useState({
-    homeTeam: {
-      name: 'HOME',
-      score: 1,
-      fouls: 4,
-      timeouts: 3,
-      bonus: true,
-      doubleBonus: false,
-      possession: false,
-      color: '#c41e3a',
-      hits: 0,        // Baseball
-      errors: 0,      // Baseball
-      cornerKicks: 0  // Soccer
-    },
-    awayTeam: {
-      name: 'AWAY',
-      score: 0,
-      fouls: 6,
-      timeouts: 2,
-      bonus: false,
-      doubleBonus: true,
-      possession: true,
-      color: '#003f7f',
-      hits: 0,        // Baseball
-      errors: 0,      // Baseball
-      cornerKicks: 0  // Soccer
-    },
-    gameClock: '5:42',
-    activityClock: '1:30',
-    timeoutClock: '0:30',
-    timeOfDay: '2:45 PM',
-    timerName: 'Timer Name',
-    sessionName: 'Session Name',
-    nextUp: 'Next Up',
-    period: '4',  // Can be number or text like 'OT', 'SD', '2OT'
-    shotClock: 14,
-    quarter: 4,
-    half: 2,
-    set: 3,
-    isOvertimeActive: true,  // Boolean for visibility toggling when in overtime
-    // Football
-    down: 1,
-    yardsToGo: 10,
-    ballOn: 35,
-    // Baseball
-    balls: 0,
-    strikes: 0,
-    outs: 0,
-    firstBase: false,
-    secondBase: false,
-    thirdBase: false,
-    onBase: '000',
-    gamePeriodScores: [
-      { period: 1, homeScore: 0, awayScore: 0 },
-      { period: 2, homeScore: 0, awayScore: 0 },
-      { period: 3, homeScore: 0, awayScore: 0 },
-      { period: 4, homeScore: 0, awayScore: 0 },
-      { period: 5, homeScore: 0, awayScore: 0 },
-      { period: 6, homeScore: 0, awayScore: 0 },
-      { period: 7, homeScore: 0, awayScore: 0 },
-      { period: 8, homeScore: 0, awayScore: 0 },
-      { period: 9, homeScore: 0, awayScore: 0 },
-    ],
-    inningSlots: [
-      { period: 1, homeScore: 0, awayScore: 0, isCurrentInning: true, isTopHalf: true },
-      { period: 2, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 3, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 4, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 5, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 6, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 7, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 8, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-      { period: 9, homeScore: 0, awayScore: 0, isCurrentInning: false, isTopHalf: false },
-    ],
-    inningDisplayCount: 9,
-    home_sets_won: 0,
-    away_sets_won: 0,
-    home_player_points: 0,
-    away_player_points: 0,
-    home_player_name: 'Green',
-    away_player_name: 'Red',
-    home_team_color: '#c41e3a',
-    away_team_color: '#003f7f',
-    // Lacrosse/Hockey shots and saves
-    home_shots: 0,
-    away_shots: 0,
-    home_saves: 0,
-    away_saves: 0,
-    // Rugby
-    home_tries: 0,
-    away_tries: 0,
-    home_penalty_goals: 0,
-    away_penalty_goals: 0,
-    home_dropped_goals: 0,
-    away_dropped_goals: 0,
-    home_conversions: 0,
-    away_conversions: 0,
-    // Penalty slots for lacrosse/hockey preview
-    penaltySlots: {
-      home: {
-        count: 0,
-        isState0: true,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        slot0: { jersey: 90, time: '0:45', active: false },
-        slot1: { jersey: 3, time: '1:30', active: false },
-        slot2: { jersey: 17, time: '2:15', active: false },
-      },
-      away: {
-        count: 0,
-        isState0: true,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        slot0: { jersey: 14, time: '1:00', active: false },
-        slot1: { jersey: 22, time: '1:45', active: false },
-        slot2: { jersey: 8, time: '2:30', active: false },
-      },
-    },
-    // Shootout slots for soccer/hockey/water polo preview
-    home_shootout_made: 0,
-    away_shootout_made: 0,
-    shootoutSlots: [
-      { round: 1, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-      { round: 2, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-      { round: 3, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-      { round: 4, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-      { round: 5, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-    ],
-    // Leaderboard slots for player stats preview (includes both basketball and volleyball stats)
-    leaderboardSlots: {
-      home: {
-        count: 6,
-        isState0: false,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        isState4: false,
-        isState5: false,
-        isState6: true,
-        slot0: { jersey: '23', name: 'M. Jordan', points: 30, fouls: 2, isTopScorer: true, active: true, aces: 5, kills: 18, blocks: 2 },
-        slot1: { jersey: '33', name: 'S. Pippen', points: 22, fouls: 3, isTopScorer: false, active: true, aces: 3, kills: 12, blocks: 4 },
-        slot2: { jersey: '91', name: 'D. Rodman', points: 8, fouls: 4, isTopScorer: false, active: true, aces: 2, kills: 8, blocks: 6 },
-        slot3: { jersey: '7', name: 'T. Kukoc', points: 12, fouls: 1, isTopScorer: false, active: true, aces: 4, kills: 6, blocks: 1 },
-        slot4: { jersey: '25', name: 'S. Kerr', points: 6, fouls: 0, isTopScorer: false, active: true, aces: 1, kills: 10, blocks: 3 },
-        slot5: { jersey: '10', name: 'B. Harper', points: 4, fouls: 1, isTopScorer: false, active: true, aces: 2, kills: 5, blocks: 2 },
-      },
-      away: {
-        count: 6,
-        isState0: false,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        isState4: false,
-        isState5: false,
-        isState6: true,
-        slot0: { jersey: '32', name: 'K. Malone', points: 28, fouls: 3, isTopScorer: true, active: true, aces: 4, kills: 15, blocks: 3 },
-        slot1: { jersey: '12', name: 'J. Stockton', points: 18, fouls: 2, isTopScorer: false, active: true, aces: 2, kills: 14, blocks: 5 },
-        slot2: { jersey: '4', name: 'J. Hornacek', points: 14, fouls: 1, isTopScorer: false, active: true, aces: 6, kills: 7, blocks: 2 },
-        slot3: { jersey: '53', name: 'M. Eaton', points: 4, fouls: 4, isTopScorer: false, active: true, aces: 1, kills: 9, blocks: 4 },
-        slot4: { jersey: '35', name: 'A. Carr', points: 10, fouls: 2, isTopScorer: false, active: true, aces: 3, kills: 11, blocks: 1 },
-        slot5: { jersey: '24', name: 'T. Bailey', points: 2, fouls: 0, isTopScorer: false, active: true, aces: 1, kills: 6, blocks: 3 },
-      },
-    },
-    // Volleyball leaderboard slots for player stats preview (aces, kills, blocks)
-    volleyballLeaderboardSlots: {
-      home: {
-        count: 5,
-        isState0: false,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        isState4: false,
-        isState5: true,
-        slot0: { jersey: '10', name: 'K. Plummer', aces: 5, kills: 18, blocks: 2, active: true },
-        slot1: { jersey: '2', name: 'M. Ratterman', aces: 3, kills: 12, blocks: 4, active: true },
-        slot2: { jersey: '15', name: 'T. Shoji', aces: 2, kills: 8, blocks: 6, active: true },
-        slot3: { jersey: '8', name: 'J. Smith', aces: 4, kills: 6, blocks: 1, active: true },
-        slot4: { jersey: '22', name: 'R. Chen', aces: 1, kills: 10, blocks: 3, active: true },
-      },
-      away: {
-        count: 5,
-        isState0: false,
-        isState1: false,
-        isState2: false,
-        isState3: false,
-        isState4: false,
-        isState5: true,
-        slot0: { jersey: '7', name: 'A. Johnson', aces: 4, kills: 15, blocks: 3, active: true },
-        slot1: { jersey: '11', name: 'S. Williams', aces: 2, kills: 14, blocks: 5, active: true },
-        slot2: { jersey: '3', name: 'D. Garcia', aces: 6, kills: 7, blocks: 2, active: true },
-        slot3: { jersey: '19', name: 'M. Lee', aces: 1, kills: 9, blocks: 4, active: true },
-        slot4: { jersey: '5', name: 'C. Brown', aces: 3, kills: 11, blocks: 1, active: true },
-      },
-    },
-    // Current player for featured player display (leaderboard cycling)
-    currentPlayer: {
-      home: { jersey: '23', name: 'M. Jordan', points: 30, fouls: 2, isTopScorer: true, imageUrl: '/images/test_leaderboard/player_home_1.png', aces: 5, kills: 18, blocks: 2 },
-      away: { jersey: '32', name: 'K. Malone', points: 28, fouls: 3, isTopScorer: true, imageUrl: '/images/test_leaderboard/player_away_1.png', aces: 4, kills: 15, blocks: 3 },
-    }
-  });
+  const [gameData, setGameData] = useState(createMockGameData);
+  // The simulator is off while a live feed owns the preview data
+  const [liveFeedStatus, setLiveFeedStatus] = useState<LiveFeedStatus>('disconnected');
 
   // Remove expensive console.log - causes performance issues
 
@@ -323,6 +155,10 @@ function App() {
   const [showExportModal, setShowExportModal] = useState(false);
   const [showPresetModal, setShowPresetModal] = useState(false);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
+  const [showTvDevices, setShowTvDevices] = useState(false);
+  // TV that gets every edit (watch mode); sends wait while a drag is in progress
+  const [watchDevice, setWatchDevice] = useState<TvDevice | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [templateRefreshKey, setTemplateRefreshKey] = useState(0);
   const [draggedComponent, setDraggedComponent] = useState<ComponentConfig | null>(null);
 
@@ -331,6 +167,25 @@ function App() {
 
   // Toast notifications
   const toast = useToast();
+
+  // Lint problems for the problems panel; deferred so drags don't wait on the linter
+  const deferredLayout = useDeferredValue(layout);
+  const lintProblems = useMemo(() => lintLayout(deferredLayout), [deferredLayout, templateRefreshKey]);
+
+  // Select a component from the problems panel, switching to a scene that shows it
+  const selectProblemComponent = useCallback((componentId: string) => {
+    const component = layout.components.find(c => c.id === componentId);
+    if (!component) return;
+    if (!isInScene(component, activeSceneId)) {
+      const sceneId = getScenes(layout).find(scene => isInScene(component, scene.id))?.id;
+      if (!sceneId) {
+        toast.warning(`"${component.displayName || component.type}" isn't in any scene`);
+        return;
+      }
+      setLayout(prev => ({ ...prev, activeSceneId: sceneId }));
+    }
+    setSelectedComponents([componentId]);
+  }, [layout, activeSceneId, toast]);
   
   // Undo/Redo system - keep track of last 50 actions each
   const [undoHistory, setUndoHistory] = useState<UndoAction[]>([]);
@@ -339,8 +194,6 @@ function App() {
   // Component naming counter system
   
   // TV endpoint controls
-  const [tvIpAddress, setTvIpAddress] = useState('192.168.1.100'); // Default IP
-  const [isSendingToTv, setIsSendingToTv] = useState(false);
 
   // Panel resize state
   const [leftPanelWidth, setLeftPanelWidth] = useState(DEFAULT_LEFT_PANEL_WIDTH);
@@ -470,250 +323,6 @@ function App() {
     });
   }, []);
 
-  // Send layout to TV endpoint
-  const sendLayoutToTv = useCallback(async () => {
-    if (!tvIpAddress.trim()) {
-      toast.warning('Please enter a valid TV IP address');
-      return;
-    }
-
-    setIsSendingToTv(true);
-    try {
-      // Remove port if already included in IP address, then add :3080
-      const cleanIp = tvIpAddress.replace(/:.*$/, '');
-
-      // Debug payload size and content
-      const layoutJson = JSON.stringify(layout);
-      const payloadSize = new Blob([layoutJson]).size;
-      console.log('📦 Layout payload size:', payloadSize, 'bytes');
-      console.log('📋 Layout components count:', layout.components?.length || 0);
-      console.log('📄 Layout structure:', {
-        name: layout.name,
-        dimensions: layout.dimensions,
-        componentCount: layout.components?.length || 0,
-        hasComponents: !!layout.components
-      });
-
-      // Validate JSON can be parsed back
-      try {
-        const testParse = JSON.parse(layoutJson);
-        console.log('✅ JSON validation passed');
-
-        // Check for required fields
-        if (!testParse.name || !testParse.components || !testParse.dimensions) {
-          console.warn('⚠️ Missing required fields:', {
-            hasName: !!testParse.name,
-            hasComponents: !!testParse.components,
-            hasDimensions: !!testParse.dimensions
-          });
-        }
-      } catch (jsonError) {
-        console.error('JSON validation failed:', jsonError);
-        toast.error('Invalid layout data - JSON formatting error');
-        return;
-      }
-
-      // Warn if payload is very large
-      if (payloadSize > 1024 * 1024) { // 1MB
-        console.warn('⚠️ Large payload detected:', (payloadSize / 1024 / 1024).toFixed(2), 'MB');
-      }
-
-      // Log a sample of the JSON for debugging
-      console.log('📄 JSON sample (first 500 chars):', layoutJson.substring(0, 500));
-
-      // Binary search to find the breaking point efficiently
-      console.log('🔍 Binary search for maximum working component count...');
-
-      const totalComponents = layout.components?.length || 0;
-      let workingCount = 5; // We know 5 works
-      let failingCount = totalComponents;
-
-      while (workingCount + 1 < failingCount) {
-        const testCount = Math.floor((workingCount + failingCount) / 2);
-
-        const testLayout = {
-          name: layout.name,
-          components: layout.components?.slice(0, testCount) || [],
-          dimensions: layout.dimensions,
-          backgroundColor: layout.backgroundColor
-        };
-
-        const testJson = JSON.stringify(testLayout);
-        const testSize = new Blob([testJson]).size;
-        console.log(`🔍 Testing ${testCount} components (${testSize} bytes)`);
-
-        try {
-          const testResponse = await fetch(`http://${cleanIp}:3080/layout`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: testJson,
-          });
-
-          if (testResponse.ok) {
-            console.log(`✅ ${testCount} components: SUCCESS`);
-            workingCount = testCount;
-          } else {
-            const errorText = await testResponse.text();
-            console.log(`❌ ${testCount} components: FAILED - ${testResponse.status} ${errorText}`);
-            failingCount = testCount;
-          }
-        } catch (testError) {
-          console.log(`❌ ${testCount} components: ERROR - ${testError}`);
-          failingCount = testCount;
-        }
-      }
-
-      console.log(`🎯 Maximum working: ${workingCount} components, Breaks at: ${failingCount} components`);
-      if (failingCount < totalComponents) {
-        console.log('🚨 Breaking component:', layout.components?.[failingCount - 1]);
-      }
-
-      console.log('🎯 Progressive test completed, trying to fix and send full layout...');
-
-      // First expand any slotList components into concrete components for the TV
-      const expandedLayout = {
-        ...layout,
-        components: expandLayoutForExport(layout.components || [])
-      };
-
-      // Comprehensive JSON cleaning system to handle ALL Swift parsing issues
-      const cleanLayoutForServer = (layoutToClean: any) => {
-        return {
-          name: layoutToClean.name || "basketball",
-          components: (layoutToClean.components || []).map((component: any) => {
-            // Start with only the essential fields Swift expects
-            const cleanComponent: any = {
-              id: component.id,
-              type: component.type || "custom",
-              position: {
-                x: Number(component.position?.x || 0),
-                y: Number(component.position?.y || 0)
-              },
-              size: {
-                width: Number(component.size?.width || 100),
-                height: Number(component.size?.height || 50)
-              },
-              props: {}
-            };
-
-            // Add optional fields only if they exist and are valid
-            if (component.displayName && typeof component.displayName === 'string') {
-              cleanComponent.displayName = component.displayName;
-            }
-
-            if (typeof component.layer === 'number') {
-              cleanComponent.layer = component.layer;
-            }
-
-            if (typeof component.visible === 'boolean') {
-              cleanComponent.visible = component.visible;
-            }
-
-            // Comprehensively clean props - merge from all possible sources
-            const allProps = {
-              ...component.props,
-              // Move root-level team color fields into props
-              ...(component.useTeamColor !== undefined && { useTeamColor: component.useTeamColor }),
-              ...(component.teamColorSide !== undefined && { teamColorSide: component.teamColorSide })
-            };
-
-            // Clean and validate each prop
-            Object.keys(allProps).forEach(key => {
-              const value = allProps[key];
-
-              // Skip undefined, null, or empty objects
-              if (value === undefined || value === null) return;
-              if (typeof value === 'object' && Object.keys(value).length === 0) return;
-
-              // Convert problematic string values
-              if (value === "none" && (key === 'dataPath' || key === 'imagePath')) {
-                cleanComponent.props[key] = "";
-                return;
-              }
-
-              if (value === "none" && key === 'objectFit') {
-                cleanComponent.props[key] = "fill";
-                return;
-              }
-
-              // Clean strings
-              if (typeof value === 'string') {
-                const cleaned = value.trim();
-                if (cleaned.length > 0) {
-                  cleanComponent.props[key] = cleaned;
-                }
-                return;
-              }
-
-              // Keep numbers and booleans as-is
-              if (typeof value === 'number' || typeof value === 'boolean') {
-                cleanComponent.props[key] = value;
-                return;
-              }
-
-              // For objects, only include if they have content
-              if (typeof value === 'object' && Object.keys(value).length > 0) {
-                cleanComponent.props[key] = value;
-              }
-            });
-
-            return cleanComponent;
-          }),
-          dimensions: {
-            width: Number(layoutToClean.dimensions?.width || 1920),
-            height: Number(layoutToClean.dimensions?.height || 1080)
-          },
-          backgroundColor: layoutToClean.backgroundColor || "#000000"
-        };
-      };
-
-      const cleanedLayout = cleanLayoutForServer(expandedLayout);
-
-      const cleanedJson = JSON.stringify(cleanedLayout);
-      const cleanedSize = new Blob([cleanedJson]).size;
-      console.log('🧹 Cleaned layout size:', cleanedSize, 'bytes');
-
-      const response = await fetch(`http://${cleanIp}:3080/layout`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: cleanedJson,
-      });
-
-      if (!response.ok) {
-        // Try to get more details from the response
-        let errorDetails = '';
-        try {
-          const responseText = await response.text();
-          if (responseText) {
-            errorDetails = ` - ${responseText}`;
-          }
-        } catch (e) {
-          // Ignore if we can't read response
-        }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}${errorDetails}`);
-      }
-
-      console.log('Layout sent successfully to TV');
-      toast.success('Layout sent successfully to TV!');
-    } catch (error) {
-      console.error('Error sending layout to TV:', error);
-
-      // Check if this is a network restriction error (common in Brave browser)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('ERR_ADDRESS_UNREACHABLE')) {
-        toast.error('Network blocked by browser. Try disabling Brave shields or use Chrome/Safari.', 8000);
-      } else {
-        toast.error(`Failed to send layout to TV: ${errorMessage}`);
-      }
-    } finally {
-      setIsSendingToTv(false);
-    }
-  }, [layout, tvIpAddress, toast]);
-
   // Quick save preset function
   const quickSavePreset = useCallback(() => {
     const PRESETS_STORAGE_KEY = 'scoreboard-layout-presets';
@@ -761,7 +370,10 @@ function App() {
     'sv-component-templates',
     'canvas-background-image',
     'canvas-background-visible',
-    'scoreboard-layout-presets'
+    'scoreboard-layout-presets',
+    'sv-gamedata-scenarios',
+    'sv-tv-devices',
+    'sv-custom-fonts'
   ];
 
   // Export all localStorage data
@@ -798,19 +410,26 @@ function App() {
       reader.onload = (event) => {
         try {
           const data = JSON.parse(event.target?.result as string);
-          let importedCount = 0;
 
-          Object.entries(data).forEach(([key, value]) => {
-            if (LOCAL_STORAGE_KEYS.includes(key) && typeof value === 'string') {
-              localStorage.setItem(key, value);
-              importedCount++;
-            }
-          });
+          // Upgrade presets and templates from older backups before writing anything,
+          // so a bad entry doesn't leave storage half-restored. Entries that can't be
+          // upgraded are restored as they were rather than dropped.
+          const entries = Object.entries(data)
+            .filter(([key, value]) => LOCAL_STORAGE_KEYS.includes(key) && typeof value === 'string')
+            .map(([key, value]) => [key, migrateStoredValue(key, value as string)] as const);
+
+          entries.forEach(([key, { value }]) => localStorage.setItem(key, value));
+          const importedCount = entries.length;
+          const errors = entries.flatMap(([, { errors }]) => errors);
 
+          if (errors.length > 0) {
+            console.warn('Restored without upgrading:\n' + errors.join('\n'));
+            toast.warning(`${errors.length} preset(s)/template(s) couldn't be upgraded and were restored as-is, e.g. ${errors[0]}`);
+          }
           toast.success(`Imported ${importedCount} settings. Refreshing page...`);
           setTimeout(() => window.location.reload(), 1500);
         } catch (error) {
-          toast.error('Failed to import data: Invalid JSON file');
+          toast.error(`Failed to import data: ${error instanceof Error ? error.message : 'Invalid JSON file'}`);
         }
       };
       reader.readAsText(file);
@@ -892,7 +511,8 @@ function App() {
 
       return {
         ...prev,
-        components: [...(prev.components || []), newComponent]
+        // New components go into the scene being edited unless extraProps already placed them
+        components: [...(prev.components || []), newComponent.sceneIds ? newComponent : withActiveScene(newComponent, prev)]
       };
     });
 
@@ -923,8 +543,8 @@ function App() {
     setLayout(prev => {
       const component = (prev.components || []).find(c => c.id === id);
       if (component) {
-        // Check if this is a position/size update (drag/resize operation)
-        const isPropertyUpdate = Object.keys(roundedUpdates).some(key => !['position', 'size'].includes(key));
+        // Check if this is a position/size/rotation update (drag/resize/rotate operation)
+        const isPropertyUpdate = Object.keys(roundedUpdates).some(key => !['position', 'size', 'rotation'].includes(key));
 
         if (isPropertyUpdate) {
           // Property updates always save undo state
@@ -950,6 +570,7 @@ function App() {
         isDraggingRef.current = true;
         return currentLayout; // Return unchanged
       });
+      setIsDragging(true);
     }
   }, []);
 
@@ -960,6 +581,7 @@ function App() {
       isDraggingRef.current = false;
       dragStartStateRef.current = null;
     }
+    setIsDragging(false);
   }, [saveStateForUndo]);
 
   const deleteComponent = useCallback((id: string) => {
@@ -1232,13 +854,14 @@ function App() {
         // Keep position exactly the same (no offset, no grid snap)
         const position = { ...comp.position };
 
-        return {
+        // Pasted components land in the scene being edited
+        return withActiveScene({
           ...comp,
           id: newId,
           displayName: uniqueName,
           parentId: newParentId,
           position
-        };
+        }, prev);
       });
 
       // Select the newly pasted root components
@@ -1294,7 +917,9 @@ function App() {
         displayName: groupName,
         position: { x: Math.round(minX), y: Math.round(minY) },
         size: { width: Math.round(maxX - minX), height: Math.round(maxY - minY) },
-        layer: maxSelectedLayer
+        layer: maxSelectedLayer,
+        // Shared only when every grouped component is shared, otherwise it belongs to the scene being edited
+        sceneIds: selectedComps.every(c => !c.sceneIds) ? undefined : [getActiveSceneId(prev)]
       };
 
       // Update selected components to be children of the group
@@ -1420,7 +1045,23 @@ function App() {
 
 
 
-  const loadCustomPreset = useCallback((customLayout: LayoutConfig) => {
+  const loadCustomPreset = useCallback((rawLayout: LayoutConfig) => {
+    // Upgrade layouts saved with an older schema version before touching them
+    let customLayout: LayoutConfig;
+    try {
+      customLayout = migrateLayout(rawLayout);
+    } catch (error) {
+      toast.error(`Failed to load layout: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    // Report props with the wrong shape (the layout still loads - renderers fall back to defaults)
+    const issues = validateLayout(customLayout);
+    if (issues.length > 0) {
+      console.warn(`Layout "${customLayout.name}" has ${issues.length} validation issue(s):\n` + issues.map(formatValidationIssue).join('\n'));
+      toast.warning(`${issues.length} validation issue(s) in loaded layout, e.g. ${formatValidationIssue(issues[0])}`, 6000);
+    }
+
     // Repair template references for slotList components (helps when templates were imported separately)
     const { components: repairedComponents, repaired, brokenRefs } = repairTemplateReferences(customLayout.components || []);
 
@@ -1444,6 +1085,23 @@ function App() {
     }
   }, [saveStateForUndo, toast]);
 
+  // Replace the design token table and re-resolve every prop bound to a token.
+  // rebind lets renames/deletes rewrite component bindings in the same undo step.
+  const handleUpdateTokens = useCallback((
+    tokens: DesignTokens,
+    rebind?: (components: ComponentConfig[]) => ComponentConfig[]
+  ) => {
+    setLayout(prev => {
+      saveStateForUndo('UPDATE_LAYOUT', 'Update design tokens', prev);
+      const components = rebind ? rebind(prev.components) : prev.components;
+      return {
+        ...prev,
+        tokens,
+        components: applyTokensToComponents(components, tokens),
+      };
+    });
+  }, [saveStateForUndo]);
+
   // Handler to properly merge partial layout updates (used by Canvas for resolution changes)
   const handleUpdateLayout = useCallback((updates: Partial<LayoutConfig>) => {
     setLayout(prev => ({
@@ -1454,6 +1112,46 @@ function App() {
     }));
   }, []);
 
+  // Scenes
+  const switchScene = useCallback((sceneId: string) => {
+    setLayout(prev => ({ ...prev, activeSceneId: sceneId }));
+    setSelectedComponents([]);
+  }, []);
+
+  const addNewScene = useCallback(() => {
+    setLayout(prev => {
+      saveStateForUndo('UPDATE_LAYOUT', 'Add scene', prev);
+      return addScene(prev, getNextSceneName(prev));
+    });
+    setSelectedComponents([]);
+  }, [saveStateForUndo]);
+
+  const removeSceneById = useCallback((sceneId: string) => {
+    const scene = scenes.find(s => s.id === sceneId);
+    if (!scene || !window.confirm(`Remove the "${scene.name}" scene? Components that only appear in it will be deleted.`)) {
+      return;
+    }
+    setLayout(prev => {
+      saveStateForUndo('UPDATE_LAYOUT', `Remove scene ${scene.name}`, prev);
+      return removeScene(prev, sceneId);
+    });
+    setSelectedComponents([]);
+  }, [scenes, saveStateForUndo]);
+
+  const updateActiveSceneTimeline = useCallback((timeline: LayoutTimeline | undefined, description: string) => {
+    setLayout(prev => {
+      saveStateForUndo('UPDATE_LAYOUT', description, prev);
+      return setSceneTimeline(prev, getActiveSceneId(prev), timeline);
+    });
+  }, [saveStateForUndo]);
+
+  const updateComponentScenes = useCallback((componentId: string, sceneIds: string[] | undefined) => {
+    setLayout(prev => {
+      saveStateForUndo('UPDATE_COMPONENT', 'Change component scenes', prev);
+      return { ...prev, components: setComponentScenes(prev.components, componentId, sceneIds) };
+    });
+  }, [saveStateForUndo]);
+
   // Show fake 404 if not unlocked
   if (!isUnlocked) {
     return <Fake404Overlay onDismiss={handleUnlock} />;
@@ -1467,17 +1165,18 @@ function App() {
         <div className="header-section header-branding">
           <h1 className="header-title">Layout Builder</h1>
           <div className="header-divider" aria-hidden="true" />
+          {/* Sets the layout type of the scene being edited */}
           <label htmlFor="layout-type-select" className="sr-only">Layout Type</label>
           <select
             id="layout-type-select"
-            value={LAYOUT_TYPES.some(t => t.value === layout.name) ? layout.name : '__custom__'}
+            value={LAYOUT_TYPES.some(t => t.value === sceneLayout.name) ? sceneLayout.name : '__custom__'}
             onChange={(e) => {
               if (e.target.value === '__custom__') {
-                if (LAYOUT_TYPES.some(t => t.value === layout.name)) {
-                  setLayout(prev => ({ ...prev, name: '' }));
+                if (LAYOUT_TYPES.some(t => t.value === sceneLayout.name)) {
+                  setLayout(prev => renameScene(prev, getActiveSceneId(prev), ''));
                 }
               } else {
-                setLayout(prev => ({ ...prev, name: e.target.value }));
+                setLayout(prev => renameScene(prev, getActiveSceneId(prev), e.target.value));
               }
             }}
             className="header-select"
@@ -1488,11 +1187,11 @@ function App() {
             ))}
             <option value="__custom__">Custom...</option>
           </select>
-          {!LAYOUT_TYPES.some(t => t.value === layout.name) && (
+          {!LAYOUT_TYPES.some(t => t.value === sceneLayout.name) && (
             <input
               type="text"
-              value={layout.name}
-              onChange={(e) => setLayout(prev => ({ ...prev, name: e.target.value }))}
+              value={sceneLayout.name}
+              onChange={(e) => setLayout(prev => renameScene(prev, getActiveSceneId(prev), e.target.value))}
               className="header-input"
               placeholder="Custom type"
               aria-label="Custom layout type identifier"
@@ -1546,6 +1245,21 @@ function App() {
             >
               Export
             </button>
+            <button
+              onClick={() => setShowTvDevices(true)}
+              className="header-btn header-btn-warning"
+              aria-label="Send the layout to the venue's TVs"
+            >
+              Send to TVs
+            </button>
+            {watchDevice && (
+              <TvWatchIndicator
+                device={watchDevice}
+                layout={layout}
+                paused={isDragging}
+                onStop={() => setWatchDevice(null)}
+              />
+            )}
             <span style={{ width: '1px', height: '20px', backgroundColor: '#444', margin: '0 4px' }} aria-hidden="true" />
             <button
               onClick={() => setShowKeyboardShortcuts(true)}
@@ -1567,7 +1281,7 @@ function App() {
               aria-label="Layers panel"
             >
               <MemoizedLayerPanel
-                layout={layout}
+                layout={sceneLayout}
                 selectedComponents={selectedComponents}
                 onSelectComponents={handleSelectComponents}
                 onUpdateComponent={updateComponent}
@@ -1590,7 +1304,7 @@ function App() {
             </aside>
 
             <MemoizedCanvas
-              layout={layout}
+              layout={sceneLayout}
               selectedComponents={selectedComponents}
               onSelectComponents={handleSelectComponents}
               onUpdateComponent={updateComponent}
@@ -1604,6 +1318,12 @@ function App() {
               onEndDragOperation={endDragOperation}
               onUpdateLayout={handleUpdateLayout}
               gameData={gameData}
+              scenes={scenes}
+              activeSceneId={activeSceneId}
+              onSwitchScene={switchScene}
+              onAddScene={addNewScene}
+              onRemoveScene={removeSceneById}
+              onUpdateTimeline={updateActiveSceneTimeline}
             />
 
             <aside
@@ -1624,6 +1344,8 @@ function App() {
                 selectedComponents={selectedComponents}
                 onUpdateComponent={updateComponent}
                 onUpdateLayout={handleUpdateLayout}
+                onUpdateTokens={handleUpdateTokens}
+                onSetComponentScenes={updateComponentScenes}
                 gameData={gameData}
                 onUpdateGameData={setGameData}
                 panelWidth={rightPanelWidth}
@@ -1632,6 +1354,21 @@ function App() {
             </aside>
       </main>
 
+      <LiveDataFeed onUpdateGameData={setGameData} onStatusChange={setLiveFeedStatus} />
+
+      <GameSimulator
+        layoutType={sceneLayout.name}
+        gameData={gameData}
+        onUpdateGameData={setGameData}
+        disabled={liveFeedStatus !== 'disconnected'}
+      />
+
+      <ProblemsPanel
+        problems={lintProblems}
+        selectedComponents={selectedComponents}
+        onSelectComponent={selectProblemComponent}
+      />
+
       {showExportModal && (
         <MemoizedExportModal
           layout={layout}
@@ -1639,6 +1376,18 @@ function App() {
         />
       )}
 
+      {showTvDevices && (
+        <TvDeviceManager
+          layout={layout}
+          onClose={() => setShowTvDevices(false)}
+          watchingId={watchDevice?.id ?? null}
+          onWatch={(device) => {
+            setWatchDevice(device);
+            if (device) setShowTvDevices(false);
+          }}
+        />
+      )}
+
       {showPresetModal && (
         <MemoizedPresetModal
           layout={layout}
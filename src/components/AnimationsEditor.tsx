@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { ComponentAnimation } from '../types';
+import {
+  ANIMATION_DEFAULTS,
+  ANIMATION_EASINGS,
+  SLIDE_DIRECTIONS,
+} from '../shared/components/customDataDisplay/animations';
+import './AnimationsEditor.css';
+
+interface AnimationsEditorProps {
+  animations: ComponentAnimation[];
+  onChange: (animations: ComponentAnimation[]) => void;
+}
+
+const TRIGGER_LABELS: Record<ComponentAnimation['trigger'], string> = {
+  valueChange: 'Value changes',
+  visibilityChange: 'Visibility changes',
+  enter: 'First shown',
+};
+
+const EFFECT_LABELS: Record<ComponentAnimation['effect'], string> = {
+  flash: 'Flash',
+  pulse: 'Scale pulse',
+  slide: 'Slide',
+  fade: 'Fade',
+  countUp: 'Count up (numbers)',
+};
+
+// Number input that commits on blur/Enter; empty clears the setting
+function AnimationNumberInput({
+  value,
+  placeholder,
+  step,
+  onCommit,
+}: {
+  value: number | undefined;
+  placeholder?: string;
+  step?: number;
+  onCommit: (value: number | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      className="animation-input"
+      value={draft}
+      placeholder={placeholder}
+      step={step}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const parsed = draft.trim() === '' ? undefined : Number(draft);
+        if (parsed !== undefined && !Number.isFinite(parsed)) {
+          setDraft(value === undefined ? '' : String(value));
+          return;
+        }
+        if (parsed !== value) onCommit(parsed);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+    />
+  );
+}
+
+function AnimationsEditor({ animations, onChange }: AnimationsEditorProps) {
+  const updateAnimation = (id: string, updates: Partial<ComponentAnimation>) => {
+    onChange(animations.map(animation => (animation.id === id ? { ...animation, ...updates } : animation)));
+  };
+
+  const addAnimation = () => {
+    onChange([
+      ...animations,
+      { id: `anim_${crypto.randomUUID()}`, trigger: 'valueChange', effect: 'flash', duration: 400 },
+    ]);
+  };
+
+  return (
+    <div className="animations-editor">
+      {animations.length === 0 && (
+        <div className="animations-hint">
+          No animations. The preview plays them when the game data below changes.
+        </div>
+      )}
+
+      {animations.map(animation => (
+        <div key={animation.id} className="animation-item">
+          <div className="animation-row">
+            <label>When</label>
+            <select
+              value={animation.trigger}
+              onChange={(e) => updateAnimation(animation.id, { trigger: e.target.value as ComponentAnimation['trigger'] })}
+            >
+              {Object.entries(TRIGGER_LABELS).map(([trigger, label]) => (
+                <option key={trigger} value={trigger}>{label}</option>
+              ))}
+            </select>
+            <button
+              className="animation-remove-button"
+              title="Remove animation"
+              onClick={() => onChange(animations.filter(other => other.id !== animation.id))}
+            >
+              ×
+            </button>
+          </div>
+
+          <div className="animation-row">
+            <label>Effect</label>
+            <select
+              value={animation.effect}
+              onChange={(e) => updateAnimation(animation.id, { effect: e.target.value as ComponentAnimation['effect'] })}
+            >
+              {Object.entries(EFFECT_LABELS).map(([effect, label]) => (
+                <option key={effect} value={effect}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="animation-row">
+            <label>Duration</label>
+            <AnimationNumberInput
+              value={animation.duration}
+              step={50}
+              onCommit={(duration) => updateAnimation(animation.id, { duration: Math.max(0, duration ?? 0) })}
+            />
+            <span className="animation-unit">ms</span>
+          </div>
+
+          <div className="animation-row">
+            <label>Delay</label>
+            <AnimationNumberInput
+              value={animation.delay}
+              placeholder={String(ANIMATION_DEFAULTS.delay)}
+              step={50}
+              onCommit={(delay) => updateAnimation(animation.id, { delay: delay === undefined ? undefined : Math.max(0, delay) })}
+            />
+            <span className="animation-unit">ms</span>
+          </div>
+
+          <div className="animation-row">
+            <label>Easing</label>
+            <select
+              value={animation.easing || ANIMATION_DEFAULTS.easing}
+              onChange={(e) => updateAnimation(animation.id, { easing: e.target.value as ComponentAnimation['easing'] })}
+            >
+              {ANIMATION_EASINGS.map(easing => (
+                <option key={easing} value={easing}>{easing}</option>
+              ))}
+            </select>
+          </div>
+
+          {animation.effect === 'flash' && (
+            <div className="animation-row">
+              <label>Color</label>
+              <input
+                type="color"
+                value={animation.color || ANIMATION_DEFAULTS.color}
+                onChange={(e) => updateAnimation(animation.id, { color: e.target.value })}
+              />
+            </div>
+          )}
+
+          {animation.effect === 'pulse' && (
+            <div className="animation-row">
+              <label>Peak scale</label>
+              <AnimationNumberInput
+                value={animation.scale}
+                placeholder={String(ANIMATION_DEFAULTS.scale)}
+                step={0.05}
+                onCommit={(scale) => updateAnimation(animation.id, { scale })}
+              />
+            </div>
+          )}
+
+          {animation.effect === 'slide' && (
+            <>
+              <div className="animation-row">
+                <label>Direction</label>
+                <select
+                  value={animation.direction || ANIMATION_DEFAULTS.direction}
+                  onChange={(e) => updateAnimation(animation.id, { direction: e.target.value as ComponentAnimation['direction'] })}
+                >
+                  {SLIDE_DIRECTIONS.map(direction => (
+                    <option key={direction} value={direction}>{direction}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="animation-row">
+                <label>Distance</label>
+                <AnimationNumberInput
+                  value={animation.distance}
+                  placeholder={String(ANIMATION_DEFAULTS.distance)}
+                  onCommit={(distance) => updateAnimation(animation.id, { distance })}
+                />
+                <span className="animation-unit">px</span>
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      <button className="animation-add-button" onClick={addAnimation}>+ Add animation</button>
+    </div>
+  );
+}
+
+export default AnimationsEditor;
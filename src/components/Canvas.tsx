@@ -1,6 +1,18 @@
 import React, { useRef, useState, useCallback } from 'react';
-import { ComponentConfig, LayoutConfig } from '../types';
+import { ComponentConfig, LayoutConfig, LayoutScene, LayoutTimeline, BaseComponentProps, DataDisplayComponentProps } from '../types';
 import WebPreview from './WebPreview';
+import SceneTabs from './SceneTabs';
+import TimelinePanel from './TimelinePanel';
+import { getGradientCss } from '../shared/components/customDataDisplay/gradients';
+import {
+  getRotatedBounds,
+  getRotatedBoundsForBox,
+  getRotationTransform,
+  isPointInComponent,
+  isRotated,
+  normalizeRotation,
+  rotatePoint,
+} from '../utils/rotation';
 import './Canvas.css';
 
 interface CanvasProps {
@@ -18,6 +30,14 @@ interface CanvasProps {
   onEndDragOperation: (description: string) => void;
   onUpdateLayout: (updates: Partial<LayoutConfig>) => void;
   gameData?: any;
+  // Scenes of the layout document; `layout` is the active scene's view
+  scenes?: LayoutScene[];
+  activeSceneId?: string;
+  onSwitchScene?: (sceneId: string) => void;
+  onAddScene?: () => void;
+  onRemoveScene?: (sceneId: string) => void;
+  // Replace the active scene's timeline (undefined removes it)
+  onUpdateTimeline?: (timeline: LayoutTimeline | undefined, description: string) => void;
 }
 
 // Pixel-based grid settings
@@ -26,6 +46,12 @@ const DEFAULT_SNAP_THRESHOLD = 25; // Default snap threshold in pixels
 const SNAP_THRESHOLD_OPTIONS = [5, 10, 15, 20, 25, 35, 50]; // Snap strength options (higher = stickier)
 const GRID_SIZE_OPTIONS = [5, 10, 20]; // Grid spacing options in pixels
 
+// Wrapper box styling the canvas handle draws, read off any component kind
+type BoxStyleProps = BaseComponentProps & Pick<DataDisplayComponentProps,
+  'backgroundColor' | 'borderStyle' | 'borderColor' | 'borderWidth' |
+  'borderTopWidth' | 'borderRightWidth' | 'borderBottomWidth' | 'borderLeftWidth' |
+  'borderTopLeftRadius' | 'borderTopRightRadius' | 'borderBottomLeftRadius' | 'borderBottomRightRadius'>;
+
 // Smart guide types
 interface SmartGuide {
   type: 'center-h' | 'center-v' | 'edge-top' | 'edge-bottom' | 'edge-left' | 'edge-right' |
@@ -70,10 +96,22 @@ export default function Canvas({
   onStartDragOperation,
   onEndDragOperation,
   onUpdateLayout,
-  gameData
+  gameData,
+  scenes,
+  activeSceneId,
+  onSwitchScene,
+  onAddScene,
+  onRemoveScene,
+  onUpdateTimeline
 }: CanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
+
+  // Timeline playhead in ms (null = show the static layout, not a timeline frame)
+  const [timelineTime, setTimelineTime] = useState<number | null>(null);
+  React.useEffect(() => {
+    setTimelineTime(null);
+  }, [activeSceneId]);
   const layoutRef = useRef(layout);
   const selectedComponentsRef = useRef(selectedComponents);
 
@@ -83,6 +121,14 @@ export default function Canvas({
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [resizeHandle, setResizeHandle] = useState<string>('');
+  // Rotate-handle drag: pointer angle around the component center at the start, and its rotation then
+  const [rotateDrag, setRotateDrag] = useState<{
+    component: ComponentConfig;
+    centerX: number;
+    centerY: number;
+    startAngle: number;
+    startRotation: number;
+  } | null>(null);
   const [showGrid, setShowGrid] = useState(true);
   const [showHalfwayLines, setShowHalfwayLines] = useState(false);
   const [showBoundingBoxes, setShowBoundingBoxes] = useState(true); // Toggle for green selection outlines (default ON)
@@ -293,8 +339,18 @@ export default function Canvas({
     componentWidth: number,
     componentHeight: number,
     enableSnapping: boolean,
-    excludeComponentIds?: string[] // IDs of components to exclude from element-to-element checks (all selected components)
+    excludeComponentIds?: string[], // IDs of components to exclude from element-to-element checks (all selected components)
+    rotation: number = 0 // Rotation of the element in degrees - a rotated element snaps by its rotated bounding box
   ): { x: number; y: number; guides: ActiveGuides } => {
+    // Work in rotated-bounds space and shift back to the unrotated position at the end
+    const rotatedBounds = getRotatedBoundsForBox(rawX, rawY, componentWidth, componentHeight, rotation);
+    const boundsOffsetX = rotatedBounds.left - rawX;
+    const boundsOffsetY = rotatedBounds.top - rawY;
+    rawX = rotatedBounds.left;
+    rawY = rotatedBounds.top;
+    componentWidth = rotatedBounds.right - rotatedBounds.left;
+    componentHeight = rotatedBounds.bottom - rotatedBounds.top;
+
     const guides: SmartGuide[] = [];
     let snappedX = rawX;
     let snappedY = rawY;
@@ -320,8 +376,8 @@ export default function Canvas({
         snappedY = snapToGrid(snappedY, 'height');
       }
       return {
-        x: snappedX,
-        y: snappedY,
+        x: snappedX - boundsOffsetX,
+        y: snappedY - boundsOffsetY,
         guides: { guides: [], elementBounds: undefined }
       };
     }
@@ -381,12 +437,9 @@ export default function Canvas({
       // ========== ELEMENT-TO-ELEMENT SNAPPING ==========
       if (snapToElements) {
         for (const other of otherComponents) {
-        const otherLeft = other.position.x;
-        const otherRight = other.position.x + other.size.width;
-        const otherTop = other.position.y;
-        const otherBottom = other.position.y + other.size.height;
-        const otherCenterX = other.position.x + other.size.width / 2;
-        const otherCenterY = other.position.y + other.size.height / 2;
+        const { left: otherLeft, right: otherRight, top: otherTop, bottom: otherBottom } = getRotatedBounds(other);
+        const otherCenterX = (otherLeft + otherRight) / 2;
+        const otherCenterY = (otherTop + otherBottom) / 2;
 
         // Calculate vertical span for horizontal guides (min/max Y of both elements)
         const getVerticalSpan = () => ({
@@ -527,8 +580,8 @@ export default function Canvas({
     const finalCenterY = snappedY + componentHeight / 2;
 
     return {
-      x: snappedX,
-      y: snappedY,
+      x: snappedX - boundsOffsetX,
+      y: snappedY - boundsOffsetY,
       guides: {
         guides,
         elementBounds: {
@@ -638,12 +691,9 @@ export default function Canvas({
     // ========== ELEMENT-TO-ELEMENT SNAPPING ==========
     if (snapToElements) {
       for (const other of otherComponents) {
-        const otherLeft = other.position.x;
-        const otherRight = other.position.x + other.size.width;
-        const otherTop = other.position.y;
-        const otherBottom = other.position.y + other.size.height;
-        const otherCenterX = other.position.x + other.size.width / 2;
-        const otherCenterY = other.position.y + other.size.height / 2;
+        const { left: otherLeft, right: otherRight, top: otherTop, bottom: otherBottom } = getRotatedBounds(other);
+        const otherCenterX = (otherLeft + otherRight) / 2;
+        const otherCenterY = (otherTop + otherBottom) / 2;
 
         // --- Vertical edge snapping (X-axis) ---
         if (movingLeft && !snappedLeftEdge) {
@@ -947,13 +997,7 @@ export default function Canvas({
     // Find all components at this click position
     const componentsAtPosition = (layout.components || [])
       .filter(c => c.visible !== false)
-      .filter(c => {
-        const left = c.position.x;
-        const right = c.position.x + c.size.width;
-        const top = c.position.y;
-        const bottom = c.position.y + c.size.height;
-        return canvasX >= left && canvasX <= right && canvasY >= top && canvasY <= bottom;
-      })
+      .filter(c => isPointInComponent(canvasX, canvasY, c))
       .sort((a, b) => (b.layer || 0) - (a.layer || 0)); // Sort by layer, highest first
     
     // Store the components at this position for potential cycling on mouseUp
@@ -1333,10 +1377,11 @@ export default function Canvas({
           const initPos = initialComponentPositions.get(id);
           const comp = layoutRef.current.components.find(c => c.id === id);
           if (initPos && comp) {
-            minX = Math.min(minX, initPos.x);
-            minY = Math.min(minY, initPos.y);
-            maxX = Math.max(maxX, initPos.x + comp.size.width);
-            maxY = Math.max(maxY, initPos.y + comp.size.height);
+            const bounds = getRotatedBoundsForBox(initPos.x, initPos.y, comp.size.width, comp.size.height, comp.rotation);
+            minX = Math.min(minX, bounds.left);
+            minY = Math.min(minY, bounds.top);
+            maxX = Math.max(maxX, bounds.right);
+            maxY = Math.max(maxY, bounds.bottom);
           }
         });
 
@@ -1357,7 +1402,8 @@ export default function Canvas({
 
       // Use smart snapping with the bounding box dimensions
       // Pass all selected component IDs to exclude them from element-to-element snapping
-      const snapResult = smartSnap(snapRawX, snapRawY, snapWidth, snapHeight, true, selectedIds);
+      const snapRotation = selectedIds.length > 1 ? 0 : (draggedComponent.rotation || 0);
+      const snapResult = smartSnap(snapRawX, snapRawY, snapWidth, snapHeight, true, selectedIds, snapRotation);
 
       // Update active guides for visual feedback
       setActiveGuides(snapResult.guides);
@@ -1503,10 +1549,7 @@ export default function Canvas({
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
 
     selectedComponentData.forEach(comp => {
-      const left = comp.position.x;
-      const top = comp.position.y;
-      const right = comp.position.x + comp.size.width;
-      const bottom = comp.position.y + comp.size.height;
+      const { left, top, right, bottom } = getRotatedBounds(comp);
 
       minX = Math.min(minX, left);
       minY = Math.min(minY, top);
@@ -1924,6 +1967,17 @@ export default function Canvas({
 
     const minSize = 20;
 
+    // A rotated component resizes in its own (unrotated) frame: bring the pointer into it
+    const rotation = draggedComponent.rotation || 0;
+    const rotated = isRotated(draggedComponent);
+    const originalCenterX = currentLeft + currentWidth / 2;
+    const originalCenterY = currentTop + currentHeight / 2;
+    if (rotated) {
+      const local = rotatePoint(canvasX, canvasY, originalCenterX, originalCenterY, -rotation);
+      canvasX = local.x;
+      canvasY = local.y;
+    }
+
     // Calculate raw edge positions based on resize handle
     let rawLeft = currentLeft;
     let rawTop = currentTop;
@@ -1949,13 +2003,14 @@ export default function Canvas({
         break;
     }
 
-    // Apply smart snapping to the edges being resized (only when not maintaining aspect ratio)
+    // Apply smart snapping to the edges being resized (only when not maintaining aspect ratio,
+    // and not for rotated components whose edges aren't axis-aligned)
     let finalLeft = rawLeft;
     let finalTop = rawTop;
     let finalRight = rawRight;
     let finalBottom = rawBottom;
 
-    if (!shouldMaintainAspectRatio) {
+    if (!shouldMaintainAspectRatio && !rotated) {
       const snapResult = smartSnapResize(
         resizeHandle,
         rawLeft,
@@ -2102,6 +2157,19 @@ export default function Canvas({
       }
     }
 
+    // The box rotates around its new center, so shift it to keep the anchored point where it was on screen
+    if (rotated) {
+      const centerShiftX = originalCenterX - (finalLeft + finalRight) / 2;
+      const centerShiftY = originalCenterY - (finalTop + finalBottom) / 2;
+      const rotatedShift = rotatePoint(centerShiftX, centerShiftY, 0, 0, rotation);
+      const offsetX = centerShiftX - rotatedShift.x;
+      const offsetY = centerShiftY - rotatedShift.y;
+      finalLeft += offsetX;
+      finalRight += offsetX;
+      finalTop += offsetY;
+      finalBottom += offsetY;
+    }
+
     // Round to integers for pixel-perfect alignment
     const newX = Math.round(finalLeft);
     const newY = Math.round(finalTop);
@@ -2188,6 +2256,59 @@ export default function Canvas({
     }
   }, [handleComponentSelect, setDraggedComponent, onStartDragOperation, layout.components]);
 
+  // Angle (degrees, clockwise from the +x axis) of the pointer around a canvas point
+  const getPointerAngle = useCallback((clientX: number, clientY: number, centerX: number, centerY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const canvasX = (clientX - rect.left) / scale;
+    const canvasY = (clientY - rect.top) / scale;
+    return (Math.atan2(canvasY - centerY, canvasX - centerX) * 180) / Math.PI;
+  }, [scale]);
+
+  // Handle rotate handle mouse down
+  const handleRotateMouseDown = useCallback((e: React.MouseEvent, component: ComponentConfig) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const centerX = component.position.x + component.size.width / 2;
+    const centerY = component.position.y + component.size.height / 2;
+
+    onStartDragOperation(); // Save initial state for undo
+    setRotateDrag({
+      component,
+      centerX,
+      centerY,
+      startAngle: getPointerAngle(e.clientX, e.clientY, centerX, centerY),
+      startRotation: component.rotation || 0,
+    });
+    window.dispatchEvent(new CustomEvent('canvas-drag-start'));
+  }, [getPointerAngle, onStartDragOperation]);
+
+  // Rotate while the rotate handle is dragged (Shift snaps to 15 degree steps)
+  React.useEffect(() => {
+    if (!rotateDrag) return;
+
+    const handleDocumentMouseMove = (e: MouseEvent) => {
+      const angle = getPointerAngle(e.clientX, e.clientY, rotateDrag.centerX, rotateDrag.centerY);
+      let rotation = rotateDrag.startRotation + angle - rotateDrag.startAngle;
+      rotation = e.shiftKey ? Math.round(rotation / 15) * 15 : Math.round(rotation * 10) / 10;
+      onUpdateComponent(rotateDrag.component.id, { rotation: normalizeRotation(rotation) || undefined });
+    };
+
+    const handleDocumentMouseUp = () => {
+      onEndDragOperation(`Rotate ${rotateDrag.component.type} component`);
+      window.dispatchEvent(new CustomEvent('canvas-drag-end'));
+      setRotateDrag(null);
+    };
+
+    document.addEventListener('mousemove', handleDocumentMouseMove);
+    document.addEventListener('mouseup', handleDocumentMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleDocumentMouseMove);
+      document.removeEventListener('mouseup', handleDocumentMouseUp);
+    };
+  }, [rotateDrag, getPointerAngle, onUpdateComponent, onEndDragOperation]);
+
   // Helper function to check if a point is inside a visible component
   const getComponentAtPoint = useCallback((x: number, y: number) => {
     return (layout.components || [])
@@ -2196,15 +2317,7 @@ export default function Canvas({
         component.type !== 'group' &&
         !isAncestorHidden(component, layout.components || [])
       ) // Only check visible, non-group components with visible ancestors
-      .find(component => {
-        // Positions and sizes are already in pixels
-        const left = component.position.x;
-        const top = component.position.y;
-        const width = component.size.width;
-        const height = component.size.height;
-
-        return x >= left && x <= left + width && y >= top && y <= top + height;
-      });
+      .find(component => isPointInComponent(x, y, component));
   }, [layout.components, isAncestorHidden]);
 
   const handleCanvasMouseDown = useCallback((e: React.MouseEvent) => {
@@ -2701,10 +2814,12 @@ export default function Canvas({
     // Calculate border widths
     // Note: dynamicList uses borderWidth for items inside, not the wrapper
     const skipWrapperBorder = component.type === 'dynamicList';
-    const borderTopWidth = skipWrapperBorder ? 0 : (component.props?.borderTopWidth !== undefined ? component.props.borderTopWidth : (component.props?.borderWidth || 0));
-    const borderRightWidth = skipWrapperBorder ? 0 : (component.props?.borderRightWidth !== undefined ? component.props.borderRightWidth : (component.props?.borderWidth || 0));
-    const borderBottomWidth = skipWrapperBorder ? 0 : (component.props?.borderBottomWidth !== undefined ? component.props.borderBottomWidth : (component.props?.borderWidth || 0));
-    const borderLeftWidth = skipWrapperBorder ? 0 : (component.props?.borderLeftWidth !== undefined ? component.props.borderLeftWidth : (component.props?.borderWidth || 0));
+    // Text components declare every box prop; other kinds declare some or none
+    const boxProps: BoxStyleProps = component.props || {};
+    const borderTopWidth = skipWrapperBorder ? 0 : (boxProps.borderTopWidth !== undefined ? boxProps.borderTopWidth : (boxProps.borderWidth || 0));
+    const borderRightWidth = skipWrapperBorder ? 0 : (boxProps.borderRightWidth !== undefined ? boxProps.borderRightWidth : (boxProps.borderWidth || 0));
+    const borderBottomWidth = skipWrapperBorder ? 0 : (boxProps.borderBottomWidth !== undefined ? boxProps.borderBottomWidth : (boxProps.borderWidth || 0));
+    const borderLeftWidth = skipWrapperBorder ? 0 : (boxProps.borderLeftWidth !== undefined ? boxProps.borderLeftWidth : (boxProps.borderWidth || 0));
     
     // Check if any border has width > 0
     const hasBorder = borderTopWidth > 0 || borderRightWidth > 0 || borderBottomWidth > 0 || borderLeftWidth > 0;
@@ -2720,14 +2835,14 @@ export default function Canvas({
       borderRightWidth: borderRightWidth,
       borderBottomWidth: borderBottomWidth,
       borderLeftWidth: borderLeftWidth,
-      borderStyle: hasBorder ? (component.props?.borderStyle || 'solid') : 'none',
-      borderColor: hasBorder ? (component.props?.borderColor || '#666') : 'transparent',
+      borderStyle: hasBorder ? (boxProps.borderStyle || 'solid') : 'none',
+      borderColor: hasBorder ? (boxProps.borderColor || '#666') : 'transparent',
       boxShadow: (showBoundingBoxes && selectedComponents.includes(component.id)) ? '0 0 0 2px #4CAF50' : 'none',
-      backgroundColor: component.props?.backgroundColor || getComponentColor(component),
-      borderTopLeftRadius: component.props?.borderTopLeftRadius || 0,
-      borderTopRightRadius: component.props?.borderTopRightRadius || 0,
-      borderBottomLeftRadius: component.props?.borderBottomLeftRadius || 0,
-      borderBottomRightRadius: component.props?.borderBottomRightRadius || 0,
+      backgroundColor: boxProps.backgroundColor || getComponentColor(component),
+      borderTopLeftRadius: boxProps.borderTopLeftRadius || 0,
+      borderTopRightRadius: boxProps.borderTopRightRadius || 0,
+      borderBottomLeftRadius: boxProps.borderBottomLeftRadius || 0,
+      borderBottomRightRadius: boxProps.borderBottomRightRadius || 0,
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
@@ -2743,6 +2858,7 @@ export default function Canvas({
         key={component.id}
         style={{
           ...baseStyle,
+          transform: getRotationTransform(component),
           backgroundColor: 'transparent',
           pointerEvents: 'auto', // Always capture events for component interaction
           zIndex: getEffectiveLayer(component) + (isSelected ? 10000000 : 0), // Respect hierarchy layer order, selected on top
@@ -2799,7 +2915,22 @@ export default function Canvas({
               style={{ bottom: -4, right: -4 }}
             />
 
-            {/* Axis-constrained drag handles (arrows) */}
+            {/* Rotate handle - groups don't rotate (their children are positioned on their own) */}
+            {component.type !== 'group' && (
+              <>
+                <div className="rotate-handle-stem" />
+                <div
+                  className="rotate-handle"
+                  onMouseDown={(e) => handleRotateMouseDown(e, component)}
+                  title={`Rotate (${normalizeRotation(component.rotation || 0)}°) - hold Shift to snap to 15°`}
+                />
+              </>
+            )}
+          </>
+        )}
+        {/* Axis-constrained drag handles (arrows) - they move along the canvas axes, so only unrotated */}
+        {selectedComponents.includes(component.id) && selectedComponents.length === 1 && component.type !== 'slotList' && !isRotated(component) && (
+          <>
             {/* Top arrow - vertical movement only */}
             <div
               onMouseDown={(e) => handleAxisDragMouseDown(e, 'y', component)}
@@ -3110,6 +3241,16 @@ export default function Canvas({
           </div>
         </div>
       </div>
+
+      {scenes && activeSceneId && onSwitchScene && onAddScene && onRemoveScene && (
+        <SceneTabs
+          scenes={scenes}
+          activeSceneId={activeSceneId}
+          onSwitchScene={onSwitchScene}
+          onAddScene={onAddScene}
+          onRemoveScene={onRemoveScene}
+        />
+      )}
       
       <div
         ref={wrapperRef}
@@ -3136,6 +3277,7 @@ export default function Canvas({
             width: layout.dimensions.width,
             height: layout.dimensions.height,
             backgroundColor: showCanvasBackground && resolvedBackgroundImage ? 'transparent' : layout.backgroundColor,
+            backgroundImage: showCanvasBackground && resolvedBackgroundImage ? undefined : getGradientCss(layout.backgroundGradient),
             transform: `translate(${viewportOffset.x}px, ${viewportOffset.y}px) scale(${scale})`,
             transformOrigin: 'center center',
             position: 'relative',
@@ -3444,6 +3586,7 @@ export default function Canvas({
             selectedComponents={selectedComponents}
             onSelectComponents={onSelectComponents}
             gameData={gameData}
+            timelineTime={timelineTime}
           />
           {/* Creation rectangle overlay */}
           {isCreating && (
@@ -3685,6 +3828,17 @@ export default function Canvas({
           )}
         </div>
       </div>
+
+      {onUpdateTimeline && (
+        <TimelinePanel
+          layout={layout}
+          selectedComponents={selectedComponents}
+          onSelectComponents={onSelectComponents}
+          time={timelineTime}
+          onTimeChange={setTimelineTime}
+          onUpdateTimeline={onUpdateTimeline}
+        />
+      )}
     </div>
   </div>
   );
@@ -1,12 +1,29 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Gradient, GradientType } from '../types';
+import {
+  createGradient,
+  getGradientCss,
+  normalizeGradient,
+  DEFAULT_GRADIENT_ANGLE,
+} from '../shared/components/customDataDisplay/gradients';
 import './ColorPicker.css';
 
 interface ColorPickerProps {
   value: string;
   onChange: (color: string) => void;
   label?: string;
+  // Design token support: color tokens to offer, the token currently bound, and the bind handler
+  tokens?: Record<string, string>;
+  boundToken?: string;
+  onSelectToken?: (tokenName: string) => void;
+  // Gradient support: when onGradientChange is given the popup offers linear/radial fills.
+  // Applying a solid color clears the gradient; `value` stays the solid fallback.
+  gradient?: Gradient;
+  onGradientChange?: (gradient: Gradient | undefined) => void;
 }
 
+type FillMode = 'solid' | GradientType;
+
 interface HSV {
   h: number;
   s: number;
@@ -20,11 +37,16 @@ interface RGBA {
   a: number;
 }
 
-const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, label }) => {
+const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, label, tokens, boundToken, onSelectToken, gradient, onGradientChange }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [hsv, setHsv] = useState<HSV>({ h: 0, s: 100, v: 100 });
   const [alpha, setAlpha] = useState(1);
-  const [isDragging, setIsDragging] = useState<'hue' | 'satval' | 'alpha' | null>(null);
+  const [isDragging, setIsDragging] = useState<'hue' | 'satval' | 'alpha' | 'stop' | null>(null);
+
+  // Gradient editing: the HSV controls edit the selected stop's color while a gradient mode is active
+  const [fillMode, setFillMode] = useState<FillMode>('solid');
+  const [draftGradient, setDraftGradient] = useState<Gradient | null>(null);
+  const [selectedStop, setSelectedStop] = useState(0);
   
   // Store original color when picker opens
   const [originalColor, setOriginalColor] = useState(value);
@@ -39,6 +61,7 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
   const alphaBarRef = useRef<HTMLDivElement>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
   const swatchRef = useRef<HTMLButtonElement>(null);
+  const gradientBarRef = useRef<HTMLDivElement>(null);
 
   // Convert hex/rgba to RGBA object
   const parseColor = useCallback((color: string): RGBA => {
@@ -166,16 +189,84 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
   const updatePreview = useCallback((newHsv: HSV, newAlpha: number) => {
     setPreviewHsv(newHsv);
     setPreviewAlpha(newAlpha);
+    if (fillMode !== 'solid') {
+      const color = formatColor(hsvToRgba(newHsv, newAlpha));
+      setDraftGradient(draft => draft && {
+        ...draft,
+        stops: draft.stops.map((stop, index) => (index === selectedStop ? { ...stop, color } : stop)),
+      });
+    }
+  }, [fillMode, selectedStop, formatColor, hsvToRgba]);
+
+  // Load a color into the HSV controls without writing it anywhere
+  const loadPreviewColor = useCallback((color: string) => {
+    const rgba = parseColor(color);
+    setPreviewHsv(rgbaToHsv(rgba));
+    setPreviewAlpha(rgba.a);
+  }, [parseColor, rgbaToHsv]);
+
+  const selectStop = useCallback((index: number) => {
+    setSelectedStop(index);
+    const stop = draftGradient?.stops[index];
+    if (stop) loadPreviewColor(stop.color);
+  }, [draftGradient, loadPreviewColor]);
+
+  const changeFillMode = useCallback((mode: FillMode) => {
+    setFillMode(mode);
+    if (mode === 'solid') {
+      loadPreviewColor(originalColor);
+      return;
+    }
+    const draft = draftGradient
+      ? { ...draftGradient, type: mode, ...(mode === 'linear' && { angle: draftGradient.angle ?? DEFAULT_GRADIENT_ANGLE }) }
+      : createGradient(mode, formatColor(hsvToRgba(previewHsv, previewAlpha)));
+    setDraftGradient(draft);
+    setSelectedStop(0);
+    loadPreviewColor(draft.stops[0].color);
+  }, [draftGradient, originalColor, previewHsv, previewAlpha, formatColor, hsvToRgba, loadPreviewColor]);
+
+  // New stop halfway between the selected stop and its right neighbour (or its left one at the end)
+  const addStop = useCallback(() => {
+    if (!draftGradient) return;
+    const stops = [...draftGradient.stops].sort((a, b) => a.position - b.position);
+    const current = stops[selectedStop] || stops[stops.length - 1];
+    const neighbour = stops[selectedStop + 1] || stops[selectedStop - 1] || current;
+    const position = Math.round(((current.position + neighbour.position) / 2) * 100) / 100;
+    const newStops = [...stops, { color: current.color, position }].sort((a, b) => a.position - b.position);
+    setDraftGradient({ ...draftGradient, stops: newStops });
+    setSelectedStop(newStops.findIndex(stop => stop.position === position && stop.color === current.color));
+  }, [draftGradient, selectedStop]);
+
+  const removeStop = useCallback(() => {
+    if (!draftGradient || draftGradient.stops.length <= 2) return;
+    const stops = draftGradient.stops.filter((_, index) => index !== selectedStop);
+    setDraftGradient({ ...draftGradient, stops });
+    const nextIndex = Math.min(selectedStop, stops.length - 1);
+    setSelectedStop(nextIndex);
+    loadPreviewColor(stops[nextIndex].color);
+  }, [draftGradient, selectedStop, loadPreviewColor]);
+
+  const setStopPosition = useCallback((index: number, position: number) => {
+    setDraftGradient(draft => draft && {
+      ...draft,
+      stops: draft.stops.map((stop, i) => (i === index ? { ...stop, position: Math.min(1, Math.max(0, position)) } : stop)),
+    });
   }, []);
-  
+
   // Apply the color change
   const applyColor = useCallback(() => {
+    if (fillMode !== 'solid' && draftGradient && onGradientChange) {
+      onGradientChange(normalizeGradient(draftGradient));
+      setIsOpen(false);
+      return;
+    }
     const rgba = hsvToRgba(previewHsv, previewAlpha);
     onChange(formatColor(rgba));
+    if (gradient && onGradientChange) onGradientChange(undefined);
     setHsv(previewHsv);
     setAlpha(previewAlpha);
     setIsOpen(false);
-  }, [previewHsv, previewAlpha, hsvToRgba, formatColor, onChange]);
+  }, [fillMode, draftGradient, gradient, previewHsv, previewAlpha, hsvToRgba, formatColor, onChange, onGradientChange]);
   
   // Cancel and revert to original color
   // Calculate optimal popup position
@@ -184,7 +275,9 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
     
     const swatchRect = swatchRef.current.getBoundingClientRect();
     const popupWidth = 240;
-    const popupHeight = 280; // Approximate height including buttons
+    const hasTokens = !!(tokens && onSelectToken && Object.keys(tokens).length > 0);
+    // Approximate height including buttons (and token row, and gradient controls)
+    const popupHeight = (hasTokens ? 360 : 280) + (onGradientChange ? 110 : 0);
     
     // Start with default position below the swatch
     let top = swatchRect.bottom + 4;
@@ -212,7 +305,7 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
     }
     
     return { top, left };
-  }, []);
+  }, [tokens, onSelectToken, onGradientChange]);
 
   const cancelColor = useCallback(() => {
     const rgba = parseColor(originalColor);
@@ -221,6 +314,7 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
     setPreviewAlpha(rgba.a);
     setHsv(originalHsv);
     setAlpha(rgba.a);
+    setDraftGradient(null);
     setIsOpen(false);
   }, [originalColor, parseColor, rgbaToHsv]);
 
@@ -300,6 +394,10 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
         const x = Math.max(0, Math.min(rect.width, e.clientX - rect.left));
         const newAlpha = Math.round((x / rect.width) * 100) / 100;
         updatePreview(previewHsv, newAlpha);
+      } else if (isDragging === 'stop' && gradientBarRef.current) {
+        const rect = gradientBarRef.current.getBoundingClientRect();
+        const x = Math.max(0, Math.min(rect.width, e.clientX - rect.left));
+        setStopPosition(selectedStop, Math.round((x / rect.width) * 100) / 100);
       }
     };
 
@@ -316,7 +414,7 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, previewHsv, previewAlpha, updatePreview]);
+  }, [isDragging, previewHsv, previewAlpha, updatePreview, selectedStop, setStopPosition]);
 
   // Handle click outside to close (only when not dragging)
   useEffect(() => {
@@ -364,6 +462,8 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
   const currentColor = formatColor(currentRgba);
   const previewRgba = hsvToRgba(previewHsv, previewAlpha);
   const previewColor = formatColor(previewRgba);
+  const swatchGradientCss = onGradientChange ? getGradientCss(gradient) : undefined;
+  const editingGradient = fillMode !== 'solid' && draftGradient;
 
   return (
     <div className="color-picker-container" ref={pickerRef}>
@@ -377,6 +477,12 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
           if (!isOpen) {
             // Store the original color when opening
             setOriginalColor(currentColor);
+            // Start in the mode of the current fill
+            const currentGradient = onGradientChange ? normalizeGradient(gradient) : undefined;
+            setFillMode(currentGradient ? currentGradient.type : 'solid');
+            setDraftGradient(currentGradient || null);
+            setSelectedStop(0);
+            if (currentGradient) loadPreviewColor(currentGradient.stops[0].color);
             // Calculate and set position
             const position = calculatePosition();
             setPopupPosition(position);
@@ -386,8 +492,14 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
         style={{ backgroundColor: currentColor }}
       >
         <div className="color-picker-checkerboard" />
-        <div className="color-picker-color" style={{ backgroundColor: currentColor }} />
+        <div
+          className="color-picker-color"
+          style={{ backgroundColor: currentColor, backgroundImage: swatchGradientCss }}
+        />
       </button>
+      {boundToken && (
+        <span className="color-picker-token-badge" title="Bound to design token">@{boundToken}</span>
+      )}
 
       {isOpen && (
         <div 
@@ -397,6 +509,91 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
             left: `${popupPosition.left}px`
           }}
         >
+          {onGradientChange && (
+            <div className="color-picker-modes">
+              {(['solid', 'linear', 'radial'] as const).map(mode => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={`color-picker-mode ${fillMode === mode ? 'active' : ''}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    changeFillMode(mode);
+                  }}
+                >
+                  {mode === 'solid' ? 'Solid' : mode === 'linear' ? 'Linear' : 'Radial'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {editingGradient && (
+            <div className="color-picker-gradient">
+              <div
+                ref={gradientBarRef}
+                className="color-picker-gradient-bar"
+                style={{ backgroundImage: getGradientCss({ ...editingGradient, type: 'linear', angle: 90 }) }}
+              >
+                {editingGradient.stops.map((stop, index) => (
+                  <div
+                    key={index}
+                    className={`color-picker-gradient-stop ${index === selectedStop ? 'selected' : ''}`}
+                    style={{ left: `${stop.position * 100}%`, backgroundColor: stop.color }}
+                    title={`${stop.color} at ${Math.round(stop.position * 100)}%`}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      selectStop(index);
+                      setIsDragging('stop');
+                    }}
+                  />
+                ))}
+              </div>
+              <div className="color-picker-gradient-controls">
+                <label>
+                  Stop
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round((editingGradient.stops[selectedStop]?.position ?? 0) * 100)}
+                    onChange={(e) => setStopPosition(selectedStop, (Number(e.target.value) || 0) / 100)}
+                  />
+                  %
+                </label>
+                {editingGradient.type === 'linear' && (
+                  <label>
+                    Angle
+                    <input
+                      type="number"
+                      step={15}
+                      value={editingGradient.angle ?? DEFAULT_GRADIENT_ANGLE}
+                      onChange={(e) => setDraftGradient({ ...editingGradient, angle: Number(e.target.value) || 0 })}
+                    />
+                    °
+                  </label>
+                )}
+                <button type="button" className="color-picker-gradient-button" onClick={addStop} title="Add a stop after the selected one">
+                  +
+                </button>
+                <button
+                  type="button"
+                  className="color-picker-gradient-button"
+                  onClick={removeStop}
+                  disabled={editingGradient.stops.length <= 2}
+                  title="Remove the selected stop"
+                >
+                  −
+                </button>
+              </div>
+              <div
+                className="color-picker-gradient-preview"
+                style={{ backgroundImage: getGradientCss(editingGradient) }}
+              />
+            </div>
+          )}
+
           <div className="color-picker-main">
             <div
               ref={satValRef}
@@ -475,6 +672,28 @@ const ColorPicker: React.FC<ColorPickerProps> = React.memo(({ value, onChange, l
             />
           </div>
 
+          {tokens && onSelectToken && Object.keys(tokens).length > 0 && (
+            <div className="color-picker-tokens">
+              {Object.entries(tokens).map(([name, color]) => (
+                <button
+                  key={name}
+                  type="button"
+                  className={`color-picker-token ${boundToken === name ? 'active' : ''}`}
+                  title={`@${name} (${color})`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onSelectToken(name);
+                    setIsOpen(false);
+                  }}
+                >
+                  <span className="color-picker-token-swatch" style={{ backgroundColor: color }} />
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="color-picker-buttons">
             <button 
               className="color-picker-button cancel"
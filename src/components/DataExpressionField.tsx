@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import {
+  evaluateDataExpression,
+  getDataExpressionError,
+  isPlainDataPath,
+  DATA_EXPRESSION_FUNCTIONS,
+} from '../shared/components/customDataDisplay/dataExpressions';
+import './DataExpressionField.css';
+
+interface DataExpressionFieldProps {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  // Select value shown when the binding is empty ('' or 'none')
+  emptyValue?: string;
+  // Game data used to preview what the expression evaluates to
+  previewData?: any;
+  selectStyle?: React.CSSProperties;
+  children: React.ReactNode;
+}
+
+const EXPRESSION_OPTION = '__expression__';
+
+const formatPreview = (value: unknown) => {
+  if (value === null || value === undefined) return 'null';
+  return typeof value === 'string' ? `"${value}"` : String(value);
+};
+
+// Path dropdown with an "Expression..." option that switches to a free-form expression input
+function DataExpressionField({
+  value,
+  onChange,
+  emptyValue = '',
+  previewData,
+  selectStyle,
+  children,
+}: DataExpressionFieldProps) {
+  const isExpression = !!value && !isPlainDataPath(value);
+  const [editingExpression, setEditingExpression] = useState(isExpression);
+  const [draft, setDraft] = useState(value || '');
+
+  useEffect(() => {
+    setDraft(value || '');
+    if (isExpression) setEditingExpression(true);
+  }, [value, isExpression]);
+
+  const error = draft.trim() ? getDataExpressionError(draft.trim()) : null;
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed !== (value || '')) onChange(trimmed || emptyValue);
+  };
+
+  return (
+    <div className="data-expression-field">
+      <select
+        value={editingExpression ? EXPRESSION_OPTION : (value || emptyValue)}
+        style={selectStyle}
+        onChange={(e) => {
+          if (e.target.value === EXPRESSION_OPTION) {
+            setEditingExpression(true);
+            return;
+          }
+          setEditingExpression(false);
+          onChange(e.target.value);
+        }}
+      >
+        {children}
+        <option value={EXPRESSION_OPTION}>Expression...</option>
+      </select>
+      {editingExpression && (
+        <>
+          <input
+            type="text"
+            className={`data-expression-input ${error ? 'invalid' : ''}`}
+            value={draft}
+            placeholder='e.g. homeTeam.score - awayTeam.score'
+            spellCheck={false}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+              if (e.key === 'Escape') setDraft(value || '');
+            }}
+          />
+          {error ? (
+            <div className="data-expression-error">{error}</div>
+          ) : draft.trim() && previewData ? (
+            <div className="data-expression-preview">
+              = {formatPreview(evaluateDataExpression(previewData, draft.trim()))}
+            </div>
+          ) : (
+            <div className="data-expression-hint">
+              Paths, + - * / %, == != &lt; &gt;, &amp;&amp; || !, a ? b : c, a ?? b, "text".
+              Functions: {Object.keys(DATA_EXPRESSION_FUNCTIONS).join(', ')}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DataExpressionField;
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { ComponentConfig, DesignTokens, DesignTokenKind } from '../types';
+import {
+  EMPTY_DESIGN_TOKENS,
+  getNextTokenName,
+  renameTokenBindings,
+  removeTokenBindings,
+  countTokenUsage,
+} from '../utils/designTokens';
+import ColorPicker from './ColorPicker';
+import { useToast } from './Toast';
+import './DesignTokensEditor.css';
+
+interface DesignTokensEditorProps {
+  tokens?: DesignTokens;
+  components: ComponentConfig[];
+  fontOptions: { value: string; label: string }[];
+  onUpdateTokens: (tokens: DesignTokens, rebind?: (components: ComponentConfig[]) => ComponentConfig[]) => void;
+}
+
+const TOKEN_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+const SECTIONS: { kind: DesignTokenKind; title: string }[] = [
+  { kind: 'colors', title: 'Colors' },
+  { kind: 'fonts', title: 'Fonts' },
+  { kind: 'sizes', title: 'Sizes' },
+];
+
+// Token name input - commits on blur/Enter so renames don't fire on every keystroke
+function TokenNameInput({ name, onRename }: { name: string; onRename: (newName: string) => void }) {
+  const [localName, setLocalName] = useState(name);
+
+  useEffect(() => {
+    setLocalName(name);
+  }, [name]);
+
+  const commit = () => {
+    if (localName !== name) onRename(localName.trim());
+    // Accepted renames remount this row under the new key; rejected ones fall back
+    setLocalName(name);
+  };
+
+  return (
+    <input
+      className="token-name-input"
+      value={localName}
+      onChange={(e) => setLocalName(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setLocalName(name);
+      }}
+    />
+  );
+}
+
+// Size token value input - commits on blur/Enter
+function TokenSizeInput({ value, onCommit }: { value: number; onCommit: (value: number) => void }) {
+  const [localValue, setLocalValue] = useState(String(value));
+
+  useEffect(() => {
+    setLocalValue(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(localValue);
+    if (Number.isFinite(parsed) && parsed !== value) {
+      onCommit(parsed);
+    } else {
+      setLocalValue(String(value));
+    }
+  };
+
+  return (
+    <input
+      className="token-value-input"
+      type="number"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+    />
+  );
+}
+
+function DesignTokensEditor({ tokens = EMPTY_DESIGN_TOKENS, components, fontOptions, onUpdateTokens }: DesignTokensEditorProps) {
+  const toast = useToast();
+
+  const setTokenValue = (kind: DesignTokenKind, name: string, value: string | number) => {
+    onUpdateTokens({ ...tokens, [kind]: { ...tokens[kind], [name]: value } });
+  };
+
+  const addToken = (kind: DesignTokenKind) => {
+    const name = getNextTokenName(tokens, kind);
+    const initialValue = kind === 'colors' ? '#ffffff' : kind === 'fonts' ? (fontOptions[0]?.value ?? 'Score-Regular') : 24;
+    setTokenValue(kind, name, initialValue);
+  };
+
+  const renameToken = (kind: DesignTokenKind, oldName: string, newName: string) => {
+    if (!TOKEN_NAME_PATTERN.test(newName)) {
+      toast.warning('Token names must start with a letter and use only letters, numbers, - and _');
+      return;
+    }
+    if (newName in tokens[kind]) {
+      toast.warning(`A ${kind.slice(0, -1)} token named "${newName}" already exists`);
+      return;
+    }
+    // Rebuild the table so the renamed token keeps its position
+    const renamed = Object.fromEntries(
+      Object.entries(tokens[kind]).map(([name, value]) => [name === oldName ? newName : name, value])
+    );
+    onUpdateTokens(
+      { ...tokens, [kind]: renamed },
+      current => renameTokenBindings(current, kind, oldName, newName)
+    );
+  };
+
+  const deleteToken = (kind: DesignTokenKind, name: string) => {
+    const usage = countTokenUsage(components, kind, name);
+    if (usage > 0 && !window.confirm(`"${name}" is used by ${usage} prop(s). They will keep their current value but stop following the token. Delete it?`)) {
+      return;
+    }
+    const { [name]: _deleted, ...remaining } = tokens[kind];
+    onUpdateTokens(
+      { ...tokens, [kind]: remaining },
+      current => removeTokenBindings(current, kind, name)
+    );
+  };
+
+  const renderValueEditor = (kind: DesignTokenKind, name: string, value: string | number) => {
+    switch (kind) {
+      case 'colors':
+        return <ColorPicker value={String(value)} onChange={(color) => setTokenValue(kind, name, color)} />;
+      case 'fonts':
+        return (
+          <select className="token-value-input" value={String(value)} onChange={(e) => setTokenValue(kind, name, e.target.value)}>
+            {fontOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+      default:
+        return <TokenSizeInput value={Number(value)} onCommit={(size) => setTokenValue(kind, name, size)} />;
+    }
+  };
+
+  return (
+    <div className="design-tokens-editor">
+      <div className="design-tokens-hint">
+        Bind component colors, fonts and sizes to tokens; editing a token restyles everything bound to it.
+      </div>
+      {SECTIONS.map(({ kind, title }) => (
+        <div key={kind} className="design-tokens-group">
+          <div className="design-tokens-group-header">
+            <span>{title}</span>
+            <button className="token-add-button" onClick={() => addToken(kind)}>+ Add</button>
+          </div>
+          {Object.keys(tokens[kind]).length === 0 && (
+            <div className="design-tokens-empty">No {title.toLowerCase()} tokens</div>
+          )}
+          {Object.entries(tokens[kind]).map(([name, value]) => (
+            <div key={name} className="design-token-row">
+              <TokenNameInput name={name} onRename={(newName) => renameToken(kind, name, newName)} />
+              <div className="design-token-value">{renderValueEditor(kind, name, value)}</div>
+              <span className="design-token-usage" title="Props bound to this token">
+                {countTokenUsage(components, kind, name)}
+              </span>
+              <button className="token-delete-button" title="Delete token" onClick={() => deleteToken(kind, name)}>×</button>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default DesignTokensEditor;
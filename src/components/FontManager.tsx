@@ -0,0 +1,91 @@
+import { useRef, useState } from 'react';
+import { ComponentConfig } from '../types';
+import { isCustomFont } from '../shared/components/customDataDisplay/fontConfig';
+import {
+  addCustomFont,
+  removeCustomFont,
+  countFontUsage,
+  useFontOptions,
+  FONT_FILE_ACCEPT,
+} from '../utils/customFonts';
+import { useToast } from './Toast';
+import './FontManager.css';
+
+interface FontManagerProps {
+  components: ComponentConfig[];
+}
+
+function FontManager({ components }: FontManagerProps) {
+  const toast = useToast();
+  const fontOptions = useFontOptions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const customFonts = fontOptions.filter(option => isCustomFont(option.value));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    for (const file of Array.from(files)) {
+      try {
+        const name = await addCustomFont(file);
+        toast.success(`Added font "${name}"`);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Couldn't add "${file.name}"`);
+      }
+    }
+    setIsUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRemove = (name: string) => {
+    const usage = countFontUsage(components, name);
+    if (usage > 0 && !window.confirm(`"${name}" is used by ${usage} component(s). They will fall back to the default font. Remove it?`)) {
+      return;
+    }
+    try {
+      removeCustomFont(name);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Couldn't remove "${name}"`);
+    }
+  };
+
+  return (
+    <div className="font-manager">
+      <div className="font-manager-hint">
+        Uploaded fonts are stored in this browser and listed wherever a font can be picked. The TV app needs the same font installed.
+      </div>
+      {customFonts.length === 0 && (
+        <div className="font-manager-empty">No custom fonts</div>
+      )}
+      {customFonts.map(option => (
+        <div key={option.value} className="font-manager-row">
+          <span className="font-manager-sample" style={{ fontFamily: `'${option.value}'` }}>
+            {option.value}
+          </span>
+          <span className="font-manager-usage" title="Components using this font">
+            {countFontUsage(components, option.value)}
+          </span>
+          <button className="font-manager-delete" title="Remove font" onClick={() => handleRemove(option.value)}>×</button>
+        </div>
+      ))}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={FONT_FILE_ACCEPT}
+        multiple
+        style={{ display: 'none' }}
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <button
+        className="font-manager-upload"
+        disabled={isUploading}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {isUploading ? 'Loading…' : '+ Upload Font (TTF, OTF, WOFF)'}
+      </button>
+    </div>
+  );
+}
+
+export default FontManager;
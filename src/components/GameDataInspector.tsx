@@ -0,0 +1,198 @@
+import { useState, useEffect, useMemo } from 'react';
+import { GameDataFieldType, getGameDataField, setGameDataValue } from '../shared/gameDataCatalog';
+import './GameDataInspector.css';
+
+interface GameDataInspectorProps {
+  gameData: Record<string, any>;
+  onUpdateGameData: (gameData: Record<string, any>) => void;
+}
+
+// Search results are capped so a one-letter query doesn't render every field
+const MAX_SEARCH_RESULTS = 200;
+
+const CLOCK_PATTERN = /^\d{1,3}:\d{2}(\.\d)?$|^\d+(\.\d)?$/;
+
+const isBranch = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+// Catalog type for a path, falling back to the value's own type for fields the catalog doesn't know
+const getValueType = (path: string, value: unknown): GameDataFieldType => {
+  const type = getGameDataField(path)?.type;
+  if (type && type !== 'sequence') return type;
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  return 'string';
+};
+
+// Every leaf path in the data, depth first
+const collectLeafPaths = (value: unknown, path: string, paths: string[]) => {
+  if (isBranch(value)) {
+    Object.entries(value).forEach(([key, child]) => collectLeafPaths(child, path ? `${path}.${key}` : key, paths));
+  } else {
+    paths.push(path);
+  }
+  return paths;
+};
+
+const getPathValue = (data: Record<string, any>, path: string) =>
+  path.split('.').reduce<any>((current, key) => current?.[key], data);
+
+// Type-aware editor for one value; text and numbers commit on blur or Enter
+function ValueInput({ path, value, onCommit }: { path: string; value: unknown; onCommit: (value: unknown) => void }) {
+  const type = getValueType(path, value);
+  const [draft, setDraft] = useState(value === null || value === undefined ? '' : String(value));
+  useEffect(() => {
+    setDraft(value === null || value === undefined ? '' : String(value));
+  }, [value]);
+
+  const isValid = type === 'number' ? draft.trim() !== '' && !isNaN(Number(draft))
+    : type === 'clock' ? CLOCK_PATTERN.test(draft.trim())
+    : true;
+
+  const commit = () => {
+    if (!isValid) {
+      setDraft(String(value ?? ''));
+      return;
+    }
+    const next = type === 'number' ? Number(draft) : draft;
+    if (next !== value) onCommit(next);
+  };
+
+  if (type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        className="game-data-inspector-check"
+        checked={!!value}
+        onChange={e => onCommit(e.target.checked)}
+        aria-label={path}
+      />
+    );
+  }
+
+  return (
+    <span className="game-data-inspector-input-row">
+      {type === 'color' && (
+        <input
+          type="color"
+          className="game-data-inspector-color"
+          value={/^#[0-9a-f]{6}$/i.test(draft) ? draft : '#000000'}
+          onChange={e => onCommit(e.target.value)}
+          aria-label={`${path} color`}
+        />
+      )}
+      <input
+        type="text"
+        inputMode={type === 'number' ? 'decimal' : undefined}
+        className={`game-data-inspector-input ${type} ${isValid ? '' : 'invalid'}`}
+        value={draft}
+        placeholder={type === 'clock' ? 'm:ss' : undefined}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(String(value ?? ''));
+        }}
+        aria-label={path}
+      />
+    </span>
+  );
+}
+
+function LeafRow({ path, label, value, depth, onCommit }: { path: string; label: string; value: unknown; depth: number; onCommit: (path: string, value: unknown) => void }) {
+  const field = getGameDataField(path);
+  return (
+    <div
+      className={`game-data-inspector-row leaf ${field ? '' : 'unknown'}`}
+      style={{ paddingLeft: depth * 12 }}
+      title={field ? `${path}\n${field.description} (${field.type})` : `${path}\nNot a field the TV app sends`}
+    >
+      <span className="game-data-inspector-key">{label}</span>
+      <ValueInput path={path} value={value} onCommit={next => onCommit(path, next)} />
+    </div>
+  );
+}
+
+function BranchRow({ path, label, value, depth, expanded, onToggle, onCommit }: {
+  path: string;
+  label: string;
+  value: Record<string, any>;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+  onCommit: (path: string, value: unknown) => void;
+}) {
+  const isOpen = expanded.has(path);
+  const entries = Object.entries(value);
+  return (
+    <>
+      <div className="game-data-inspector-row branch" style={{ paddingLeft: depth * 12 }} onClick={() => onToggle(path)}>
+        <span className="game-data-inspector-arrow">{isOpen ? '▼' : '▶'}</span>
+        <span className="game-data-inspector-key">{label}</span>
+        <span className="game-data-inspector-summary">{Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}</span>
+      </div>
+      {isOpen && entries.map(([key, child]) => {
+        const childPath = `${path}.${key}`;
+        return isBranch(child)
+          ? <BranchRow key={key} path={childPath} label={key} value={child} depth={depth + 1} expanded={expanded} onToggle={onToggle} onCommit={onCommit} />
+          : <LeafRow key={key} path={childPath} label={key} value={child} depth={depth + 1} onCommit={onCommit} />;
+      })}
+    </>
+  );
+}
+
+// The preview gameData as an editable tree; a search flattens it to matching paths
+function GameDataInspector({ gameData, onUpdateGameData }: GameDataInspectorProps) {
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const commit = (path: string, value: unknown) => onUpdateGameData(setGameDataValue(gameData, path, value));
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return null;
+    return collectLeafPaths(gameData, '', []).filter(path =>
+      path.toLowerCase().includes(query) || getGameDataField(path)?.label.toLowerCase().includes(query)
+    );
+  }, [gameData, search]);
+
+  return (
+    <div className="game-data-inspector">
+      <input
+        type="text"
+        className="game-data-inspector-search"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        placeholder="Search fields..."
+        aria-label="Search gameData fields"
+      />
+      <div className="game-data-inspector-tree">
+        {searchResults ? (
+          <>
+            {searchResults.length === 0 && <div className="game-data-inspector-empty">No matching fields</div>}
+            {searchResults.slice(0, MAX_SEARCH_RESULTS).map(path => (
+              <LeafRow key={path} path={path} label={path} value={getPathValue(gameData, path)} depth={0} onCommit={commit} />
+            ))}
+            {searchResults.length > MAX_SEARCH_RESULTS && (
+              <div className="game-data-inspector-empty">{searchResults.length - MAX_SEARCH_RESULTS} more - refine the search</div>
+            )}
+          </>
+        ) : (
+          Object.entries(gameData).map(([key, value]) => isBranch(value)
+            ? <BranchRow key={key} path={key} label={key} value={value} depth={0} expanded={expanded} onToggle={toggle} onCommit={commit} />
+            : <LeafRow key={key} path={key} label={key} value={value} depth={0} onCommit={commit} />)
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GameDataInspector;
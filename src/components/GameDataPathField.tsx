@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import DataExpressionField from './DataExpressionField';
+import {
+  GAME_DATA_FIELDS,
+  SLOT_TEMPLATE_FIELDS,
+  GameDataField,
+  getGameDataField,
+  isFieldForSports,
+} from '../shared/gameDataCatalog';
+import { isPlainDataPath } from '../shared/components/customDataDisplay/dataExpressions';
+import { getLayoutSports, getLayoutTypeLabel } from '../utils/gameDataPaths';
+import './GameDataPathField.css';
+
+interface GameDataPathFieldProps {
+  value: string | undefined;
+  onChange: (value: string) => void;
+  // Select value and label for "no binding"
+  emptyValue?: string;
+  emptyLabel: string;
+  // Layout type (layout.name); the list starts out limited to the fields its sport sends
+  layoutType: string | undefined;
+  previewData?: any;
+  // Visibility bindings only list true/false fields
+  booleanOnly?: boolean;
+}
+
+const formatExample = (example: unknown) =>
+  typeof example === 'string' ? `"${example}"` : String(example);
+
+const groupFields = (fields: readonly GameDataField[]) => {
+  const groups = new Map<string, GameDataField[]>();
+  fields.forEach(field => {
+    const group = groups.get(field.group) || [];
+    group.push(field);
+    groups.set(field.group, group);
+  });
+  return Array.from(groups.entries());
+};
+
+// Data path picker listing the gameData catalog: searchable, limited to the layout's
+// sport unless "All sports" is ticked, with expressions still available
+function GameDataPathField({
+  value,
+  onChange,
+  emptyValue = '',
+  emptyLabel,
+  layoutType,
+  previewData,
+  booleanOnly = false,
+}: GameDataPathFieldProps) {
+  const [search, setSearch] = useState('');
+  const [allSports, setAllSports] = useState(false);
+  const sports = getLayoutSports(layoutType);
+
+  const groups = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const fields = [...GAME_DATA_FIELDS, ...SLOT_TEMPLATE_FIELDS].filter(field =>
+      (!booleanOnly || field.type === 'boolean') &&
+      (allSports || !sports || isFieldForSports(field, sports)) &&
+      (!query || [field.label, field.path, field.description, field.group].some(text => text.toLowerCase().includes(query)))
+    );
+    return groupFields(fields);
+  }, [search, allSports, sports, booleanOnly]);
+
+  const selectedField = value && value !== emptyValue
+    ? getGameDataField(value) || SLOT_TEMPLATE_FIELDS.find(field => field.path === value)
+    : undefined;
+  // Keep the current binding selectable when the search or sport filter hides it
+  const isListed = groups.some(([, fields]) => fields.some(field => field.path === value));
+  const showCurrent = !!value && value !== emptyValue && isPlainDataPath(value) && !isListed;
+
+  return (
+    <div className="game-data-path-field">
+      <div className="game-data-path-filters">
+        <input
+          type="search"
+          className="game-data-path-search"
+          value={search}
+          placeholder="Search fields..."
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {sports && (
+          <label className="game-data-path-all" title={`Also list fields ${getLayoutTypeLabel(layoutType)} layouts don't receive`}>
+            <input type="checkbox" checked={allSports} onChange={(e) => setAllSports(e.target.checked)} />
+            All sports
+          </label>
+        )}
+      </div>
+      <DataExpressionField
+        value={value}
+        emptyValue={emptyValue}
+        previewData={previewData}
+        onChange={onChange}
+      >
+        <option value={emptyValue}>{emptyLabel}</option>
+        {showCurrent && (
+          <option value={value}>{selectedField ? selectedField.label : `${value} (not in catalog)`}</option>
+        )}
+        {groups.map(([group, fields]) => (
+          <optgroup key={group} label={group}>
+            {fields.map(field => (
+              <option key={field.path} value={field.path} title={field.description}>
+                {field.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </DataExpressionField>
+      {selectedField && (
+        <div className="game-data-path-info">
+          {selectedField.description} · {selectedField.type}
+          {selectedField.example !== null && <> · e.g. {formatExample(selectedField.example)}</>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GameDataPathField;
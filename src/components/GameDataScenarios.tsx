@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { GameDataScenario, loadScenarios, saveScenario, deleteScenario } from '../utils/gameDataScenarios';
+import { useToast } from './Toast';
+import './GameDataScenarios.css';
+
+interface GameDataScenariosProps {
+  gameData: Record<string, any>;
+  onUpdateGameData: (gameData: Record<string, any>) => void;
+}
+
+// One-click preview data states, plus saving the current data as a named scenario
+function GameDataScenarios({ gameData, onUpdateGameData }: GameDataScenariosProps) {
+  const toast = useToast();
+  const [scenarios, setScenarios] = useState<GameDataScenario[]>(loadScenarios);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const apply = (scenario: GameDataScenario) => {
+    onUpdateGameData(structuredClone(scenario.data));
+    setActiveId(scenario.id);
+  };
+
+  const save = () => {
+    try {
+      const scenario = saveScenario(name, gameData);
+      setScenarios(loadScenarios());
+      setActiveId(scenario.id);
+      setName('');
+      toast.success(`Saved scenario "${scenario.name}"`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const remove = (scenario: GameDataScenario) => {
+    if (!window.confirm(`Delete scenario "${scenario.name}"?`)) return;
+    try {
+      deleteScenario(scenario.id);
+      setScenarios(loadScenarios());
+      if (activeId === scenario.id) setActiveId(null);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="game-data-scenarios">
+      <div className="game-data-scenarios-list">
+        {scenarios.map(scenario => (
+          <span key={scenario.id} className={`game-data-scenario ${scenario.id === activeId ? 'active' : ''} ${scenario.builtIn ? 'built-in' : ''}`}>
+            <button className="game-data-scenario-apply" onClick={() => apply(scenario)} title={`Switch the preview to "${scenario.name}"`}>
+              {scenario.name}
+            </button>
+            {!scenario.builtIn && (
+              <button className="game-data-scenario-delete" onClick={() => remove(scenario)} aria-label={`Delete ${scenario.name}`}>
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      <div className="game-data-scenarios-save">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') save();
+          }}
+          placeholder="Scenario name"
+          aria-label="Scenario name"
+        />
+        <button onClick={save} disabled={!name.trim()} title="Save the current preview data (same name replaces)">
+          Save Current
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default GameDataScenarios;
@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GAME_DATA_SPORTS, GameDataSport } from '../shared/gameDataCatalog';
+import {
+  SimulationEvent,
+  SimulationState,
+  createSimulation,
+  advanceSimulation,
+  applySimulationToGameData,
+  describeSimulation,
+  parseSimulationScript,
+  formatClock,
+  EXAMPLE_SIMULATION_SCRIPT,
+} from '../utils/gameSimulator';
+import { getLayoutSports } from '../utils/gameDataPaths';
+import { useToast } from './Toast';
+import './GameSimulator.css';
+
+interface GameSimulatorProps {
+  layoutType: string;
+  gameData: Record<string, any>;
+  onUpdateGameData: (gameData: Record<string, any>) => void;
+  disabled?: boolean; // Another data source (the live feed) owns the preview data
+}
+
+const SPEEDS = [1, 2, 5, 10, 30, 60];
+
+// Fast speeds run several simulated seconds per update instead of re-rendering more often
+const MIN_TICK_MS = 100;
+
+const STEP_SECONDS = 10;
+
+const defaultSport = (layoutType: string): GameDataSport => getLayoutSports(layoutType)?.[0] ?? 'basketball';
+
+// Play/pause/speed strip that runs a simulated game into the preview gameData
+function GameSimulator({ layoutType, gameData, onUpdateGameData, disabled = false }: GameSimulatorProps) {
+  const toast = useToast();
+  const [sport, setSport] = useState<GameDataSport>(() => defaultSport(layoutType));
+  const [simulation, setSimulation] = useState<SimulationState | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [random, setRandom] = useState(true);
+  const [showScript, setShowScript] = useState(false);
+  const [scriptText, setScriptText] = useState('');
+  const [script, setScript] = useState<SimulationEvent[]>([]);
+
+  // The interval reads these through refs so it isn't restarted on every tick
+  const simulationRef = useRef(simulation);
+  const gameDataRef = useRef(gameData);
+  const startGameDataRef = useRef<Record<string, any> | null>(null);
+  simulationRef.current = simulation;
+  gameDataRef.current = gameData;
+
+  // Follow the layout type until a game is started
+  useEffect(() => {
+    if (!simulationRef.current) setSport(defaultSport(layoutType));
+  }, [layoutType]);
+
+  const advance = useCallback((seconds: number) => {
+    const current = simulationRef.current ?? createSimulation(sport);
+    if (!startGameDataRef.current) startGameDataRef.current = gameDataRef.current;
+    const next = advanceSimulation(current, seconds, script, random);
+    simulationRef.current = next;
+    setSimulation(next);
+    onUpdateGameData(applySimulationToGameData(gameDataRef.current, next));
+    if (next.phase === 'final') {
+      setIsPlaying(false);
+      toast.info(`Simulation over - ${describeSimulation(next)}`);
+    }
+  }, [sport, script, random, onUpdateGameData, toast]);
+
+  useEffect(() => {
+    if (disabled) setIsPlaying(false);
+  }, [disabled]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const intervalMs = Math.max(1000 / speed, MIN_TICK_MS);
+    const secondsPerTick = Math.round((speed * intervalMs) / 1000);
+    const interval = window.setInterval(() => advance(secondsPerTick), intervalMs);
+    return () => window.clearInterval(interval);
+  }, [isPlaying, speed, advance]);
+
+  const togglePlaying = () => {
+    if (simulation?.phase === 'final') {
+      toast.warning('The game is over - reset to play again');
+      return;
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // Back to the gameData from before the game started
+  const reset = () => {
+    setIsPlaying(false);
+    setSimulation(null);
+    simulationRef.current = null;
+    if (startGameDataRef.current) {
+      onUpdateGameData(startGameDataRef.current);
+      startGameDataRef.current = null;
+    }
+  };
+
+  const changeSport = (next: GameDataSport) => {
+    reset();
+    setSport(next);
+  };
+
+  const applyScript = () => {
+    try {
+      const events = parseSimulationScript(scriptText);
+      setScript(events);
+      reset();
+      toast.success(events.length > 0 ? `Script loaded: ${events.length} event(s) - press play` : 'Script cleared');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const lastEntry = simulation?.log[simulation.log.length - 1];
+
+  return (
+    <div className={`game-simulator ${disabled ? 'disabled' : ''}`}>
+      <div className="game-simulator-bar">
+        <span className="game-simulator-label">Simulator</span>
+        <button
+          className={`game-simulator-btn ${isPlaying ? 'active' : ''}`}
+          onClick={togglePlaying}
+          disabled={disabled}
+          aria-label={isPlaying ? 'Pause simulation' : 'Play simulation'}
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        <button
+          className="game-simulator-btn"
+          onClick={() => advance(STEP_SECONDS)}
+          disabled={disabled || isPlaying || simulation?.phase === 'final'}
+          title={`Advance ${STEP_SECONDS} seconds`}
+        >
+          +{STEP_SECONDS}s
+        </button>
+        <button className="game-simulator-btn" onClick={reset} disabled={!simulation} title="Stop and restore the preview data">
+          Reset
+        </button>
+        <select
+          className="game-simulator-select"
+          value={speed}
+          onChange={e => setSpeed(Number(e.target.value))}
+          aria-label="Simulation speed"
+        >
+          {SPEEDS.map(value => (
+            <option key={value} value={value}>{value}×</option>
+          ))}
+        </select>
+        <select
+          className="game-simulator-select"
+          value={sport}
+          onChange={e => changeSport(e.target.value as GameDataSport)}
+          aria-label="Simulated sport"
+        >
+          {GAME_DATA_SPORTS.map(value => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+        <label className="game-simulator-check" title="Generate scores, fouls, timeouts and penalties on top of the script">
+          <input type="checkbox" checked={random} onChange={e => setRandom(e.target.checked)} />
+          Random events
+        </label>
+        <button
+          className={`game-simulator-btn ${showScript ? 'active' : ''}`}
+          onClick={() => setShowScript(!showScript)}
+          title="Scripted event list"
+        >
+          Script{script.length > 0 ? ` (${script.length})` : ''}
+        </button>
+        <span className="game-simulator-status">
+          {disabled ? 'Paused while the live feed is connected' : simulation ? describeSimulation(simulation) : 'Not started'}
+          {lastEntry && <span className="game-simulator-event"> · {formatClock(lastEntry.at)} {lastEntry.text}</span>}
+        </span>
+      </div>
+      {showScript && (
+        <div className="game-simulator-script">
+          <textarea
+            value={scriptText}
+            onChange={e => setScriptText(e.target.value)}
+            placeholder={JSON.stringify(EXAMPLE_SIMULATION_SCRIPT, null, 1)}
+            spellCheck={false}
+            aria-label="Simulation script"
+          />
+          <div className="game-simulator-script-help">
+            <p>
+              JSON array of events. <code>at</code> is seconds since the start (breaks and timeouts included);
+              <code>type</code> is score, foul, timeout, penalty, possession, endPeriod or set.
+            </p>
+            <p>
+              <code>team</code> is home or away; scores take <code>points</code>, penalties <code>jersey</code>,
+              and set events write <code>value</code> to any gameData <code>path</code>.
+            </p>
+            <div className="game-simulator-script-actions">
+              <button className="game-simulator-btn" onClick={() => setScriptText(JSON.stringify(EXAMPLE_SIMULATION_SCRIPT, null, 2))}>
+                Example
+              </button>
+              <button className="game-simulator-btn primary" onClick={applyScript}>
+                Load Script
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GameSimulator;
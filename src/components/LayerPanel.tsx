@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ComponentConfig, LayoutConfig, SlotTemplate, ComponentGroupTemplate } from '../types';
+import { ComponentConfig, LayoutConfig, SlotTemplate, ComponentGroupTemplate, StyleRule, isDataDisplayComponent } from '../types';
 import { loadTemplates, createTemplate, deleteTemplate, calculateBoundingBox } from '../utils/slotTemplates';
 import {
   loadComponentTemplates,
@@ -23,6 +23,47 @@ const resolveImagePath = (path: string): string => {
   return `${baseUrl}${path}`;
 };
 
+// Props for the "Toggle" preset: red by default, green while its style rule holds
+const createToggleComponentProps = () => ({
+  dataPath: 'none',
+  label: '',
+  fontSize: 24,
+  format: 'text',
+  prefix: '',
+  suffix: '',
+  backgroundColor: '#E74C3C',
+  textColor: '#ffffff',
+  textAlign: 'center',
+  borderWidth: 0,
+  borderColor: '#ffffff',
+  borderStyle: 'solid',
+  borderTopLeftRadius: 0,
+  borderTopRightRadius: 0,
+  borderBottomLeftRadius: 0,
+  borderBottomRightRadius: 0,
+  styleRules: [
+    {
+      id: `rule_${crypto.randomUUID()}`,
+      name: 'On',
+      when: 'homeTeam.bonus',
+      set: { backgroundColor: '#4CAF50' },
+    },
+  ],
+});
+
+// Badge listing a component's style rules (conditions in the tooltip)
+const renderStyleRulesBadge = (rules: StyleRule[] | undefined) => {
+  if (!rules?.length) return null;
+  return (
+    <span
+      className="layer-rules-badge"
+      title={rules.map(rule => `${rule.name || 'Rule'}: ${rule.when || '(no condition)'}`).join('\n')}
+    >
+      {rules.length} {rules.length === 1 ? 'rule' : 'rules'}
+    </span>
+  );
+};
+
 interface LayerPanelProps {
   layout: LayoutConfig;
   selectedComponents: string[];
@@ -61,7 +102,6 @@ export default function LayerPanel({
   const toast = useToast();
   const [editingNameId, setEditingNameId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string>('');
-  const [pendingToggleComponent, setPendingToggleComponent] = useState<boolean>(false);
   const [collapsedParents, setCollapsedParents] = useState<Set<string>>(new Set());
   const [dragState, setDragState] = useState<DragState>({
     draggedId: null,
@@ -214,6 +254,7 @@ export default function LayerPanel({
       if (comp.originalSize) extraProps.originalSize = comp.originalSize;
       if (comp.originalAspectRatio) extraProps.originalAspectRatio = comp.originalAspectRatio;
       if (comp.scaleAnchor) extraProps.scaleAnchor = comp.scaleAnchor;
+      if (comp.rotation) extraProps.rotation = comp.rotation;
       if (comp.visible !== undefined) extraProps.visible = comp.visible;
       if (comp.useTeamColor) extraProps.useTeamColor = comp.useTeamColor;
       if (comp.teamColorSide) extraProps.teamColorSide = comp.teamColorSide;
@@ -286,6 +327,7 @@ export default function LayerPanel({
       if (comp.originalSize) extraProps.originalSize = comp.originalSize;
       if (comp.originalAspectRatio) extraProps.originalAspectRatio = comp.originalAspectRatio;
       if (comp.scaleAnchor) extraProps.scaleAnchor = comp.scaleAnchor;
+      if (comp.rotation) extraProps.rotation = comp.rotation;
       if (comp.visible !== undefined) extraProps.visible = comp.visible;
       if (comp.useTeamColor) extraProps.useTeamColor = comp.useTeamColor;
       if (comp.teamColorSide) extraProps.teamColorSide = comp.teamColorSide;
@@ -307,47 +349,6 @@ export default function LayerPanel({
     onEndDragOperation?.(`Load component template: ${template.name}`);
   };
 
-  // Handle applying toggle properties to newly created component
-  React.useEffect(() => {
-    if (pendingToggleComponent && layout.components.length > 0) {
-      const newestComponent = layout.components[layout.components.length - 1];
-      if (newestComponent && !newestComponent.props?.canToggle) {
-        onUpdateComponent(newestComponent.id, {
-          props: {
-            ...newestComponent.props,
-            dataPath: 'none',
-            label: '',
-            fontSize: 24,
-            format: 'text',
-            prefix: '',
-            suffix: '',
-            backgroundColor: '#E74C3C',
-            textColor: '#ffffff',
-            textAlign: 'center',
-            borderWidth: 0,
-            borderColor: '#ffffff',
-            borderStyle: 'solid',
-            borderTopLeftRadius: 0,
-            borderTopRightRadius: 0,
-            borderBottomLeftRadius: 0,
-            borderBottomRightRadius: 0,
-            canToggle: true,
-            toggleState: false,
-            state1Props: {
-              backgroundColor: '#E74C3C',
-              textColor: '#ffffff'
-            },
-            state2Props: {
-              backgroundColor: '#4CAF50',
-              textColor: '#ffffff'
-            }
-          }
-        });
-        setPendingToggleComponent(false);
-      }
-    }
-  }, [layout.components.length, pendingToggleComponent, onUpdateComponent]);
-
   // Build hierarchical structure from flat list
   const buildHierarchy = () => {
     const components = layout.components || [];
@@ -814,28 +815,7 @@ export default function LayerPanel({
           <div className="component-actions">
             {editingNameId !== component.id && (
               <>
-                {component.props?.canToggle && (
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onUpdateComponent(component.id, {
-                        props: {
-                          ...component.props,
-                          toggleState: !component.props?.toggleState
-                        }
-                      });
-                    }}
-                    className="layer-action-btn"
-                    style={{
-                      backgroundColor: component.props?.toggleState ? '#4CAF50' : '#607D8B',
-                      fontSize: '10px',
-                      padding: '2px 4px'
-                    }}
-                    title={`Toggle state: ${component.props?.toggleState ? 'ON' : 'OFF'}`}
-                  >
-                    {component.props?.toggleState ? 'ON' : 'OFF'}
-                  </button>
-                )}
+                {renderStyleRulesBadge(isDataDisplayComponent(component) ? component.props?.styleRules : undefined)}
               </>
             )}
           </div>
@@ -1112,8 +1092,7 @@ export default function LayerPanel({
           <button
             className="component-menu-item"
             onClick={() => {
-              setPendingToggleComponent(true);
-              const id = onAddComponent('custom', undefined, { width: 500, height: 500 });
+              const id = onAddComponent('custom', undefined, { width: 500, height: 500 }, createToggleComponentProps());
               onSelectComponents([id]);
             }}
             draggable
@@ -1122,37 +1101,10 @@ export default function LayerPanel({
                 type: 'preset-component',
                 componentType: 'custom',
                 size: { width: 500, height: 500 },
-                props: {
-                  dataPath: 'none',
-                  label: '',
-                  fontSize: 24,
-                  format: 'text',
-                  prefix: '',
-                  suffix: '',
-                  backgroundColor: '#E74C3C',
-                  textColor: '#ffffff',
-                  textAlign: 'center',
-                  borderWidth: 0,
-                  borderColor: '#ffffff',
-                  borderStyle: 'solid',
-                  borderTopLeftRadius: 0,
-                  borderTopRightRadius: 0,
-                  borderBottomLeftRadius: 0,
-                  borderBottomRightRadius: 0,
-                  canToggle: true,
-                  toggleState: false,
-                  state1Props: {
-                    backgroundColor: '#E74C3C',
-                    textColor: '#ffffff'
-                  },
-                  state2Props: {
-                    backgroundColor: '#4CAF50',
-                    textColor: '#ffffff'
-                  }
-                }
+                props: createToggleComponentProps()
               }));
             }}
-            aria-label="Add toggle component with two states"
+            aria-label="Add component with a conditional style rule"
           >
             <div className="component-menu-icon" aria-hidden="true"></div>
             <div className="component-menu-label">Toggle</div>
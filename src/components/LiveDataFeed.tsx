@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  LiveFeedSettings,
+  LiveFeedStatus,
+  LiveFeedConnection,
+  LiveFeedTransport,
+  applyFeedMessage,
+  connectLiveFeed,
+  loadLiveFeedSettings,
+  saveLiveFeedSettings,
+  parseFieldMap,
+} from '../utils/liveDataFeed';
+import { useToast } from './Toast';
+import './LiveDataFeed.css';
+
+interface LiveDataFeedProps {
+  onUpdateGameData: React.Dispatch<React.SetStateAction<Record<string, any>>>;
+  onStatusChange?: (status: LiveFeedStatus) => void;
+}
+
+const STATUS_LABELS: Record<LiveFeedStatus, string> = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting...',
+  connected: 'Live',
+  reconnecting: 'Reconnecting',
+};
+
+const URL_PLACEHOLDERS: Record<LiveFeedTransport, string> = {
+  websocket: 'ws://localhost:8787',
+  http: 'http://localhost:8787/gamedata',
+};
+
+// Data source strip: connects the preview gameData to a scoreboard controller feed
+function LiveDataFeed({ onUpdateGameData, onStatusChange }: LiveDataFeedProps) {
+  const toast = useToast();
+  const [settings, setSettings] = useState<LiveFeedSettings>(loadLiveFeedSettings);
+  const [status, setStatus] = useState<LiveFeedStatus>('disconnected');
+  const [statusDetail, setStatusDetail] = useState('');
+  const [messageCount, setMessageCount] = useState(0);
+  const [showFieldMap, setShowFieldMap] = useState(false);
+  const [fieldMapText, setFieldMapText] = useState(() =>
+    Object.keys(settings.fieldMap).length > 0 ? JSON.stringify(settings.fieldMap, null, 2) : ''
+  );
+  const connectionRef = useRef<LiveFeedConnection | null>(null);
+
+  // Close the feed when the builder unmounts
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  const updateSettings = (updates: Partial<LiveFeedSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    saveLiveFeedSettings(next);
+  };
+
+  const reportStatus = (next: LiveFeedStatus, detail = '') => {
+    setStatus(next);
+    setStatusDetail(detail);
+    onStatusChange?.(next);
+  };
+
+  const connect = () => {
+    if (!settings.url.trim()) {
+      toast.warning('Enter the feed URL first');
+      return;
+    }
+    setMessageCount(0);
+    let lastError = '';
+    connectionRef.current = connectLiveFeed(settings, {
+      onStatus: reportStatus,
+      onMessage: message => {
+        setMessageCount(count => count + 1);
+        onUpdateGameData(current => {
+          try {
+            return applyFeedMessage(current, message, settings.fieldMap);
+          } catch (error) {
+            // Once per distinct problem, so a bad feed doesn't flood the console
+            if ((error as Error).message !== lastError) {
+              lastError = (error as Error).message;
+              console.warn(`Live feed: ${lastError}`, message);
+            }
+            return current;
+          }
+        });
+      },
+    });
+  };
+
+  const disconnect = () => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+  };
+
+  const applyFieldMap = () => {
+    try {
+      updateSettings({ fieldMap: parseFieldMap(fieldMapText) });
+      toast.success(connectionRef.current ? 'Field map saved - reconnect to use it' : 'Field map saved');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const isOpen = status !== 'disconnected';
+
+  return (
+    <div className="live-data-feed">
+      <div className="live-data-feed-bar">
+        <span className="live-data-feed-label">Live Data</span>
+        <select
+          className="live-data-feed-select"
+          value={settings.transport}
+          onChange={e => updateSettings({ transport: e.target.value as LiveFeedTransport })}
+          disabled={isOpen}
+          aria-label="Feed transport"
+        >
+          <option value="websocket">WebSocket</option>
+          <option value="http">HTTP poll</option>
+        </select>
+        <input
+          type="text"
+          className="live-data-feed-url"
+          value={settings.url}
+          onChange={e => updateSettings({ url: e.target.value })}
+          placeholder={URL_PLACEHOLDERS[settings.transport]}
+          disabled={isOpen}
+          aria-label="Feed URL"
+        />
+        {settings.transport === 'http' && (
+          <label className="live-data-feed-interval" title="Poll interval">
+            every
+            <input
+              type="number"
+              min={100}
+              step={100}
+              value={settings.pollIntervalMs}
+              onChange={e => updateSettings({ pollIntervalMs: Math.max(100, Number(e.target.value) || 1000) })}
+              disabled={isOpen}
+            />
+            ms
+          </label>
+        )}
+        <button
+          className={`live-data-feed-btn ${isOpen ? 'active' : ''}`}
+          onClick={isOpen ? disconnect : connect}
+        >
+          {isOpen ? 'Disconnect' : 'Connect'}
+        </button>
+        <button
+          className={`live-data-feed-btn ${showFieldMap ? 'active' : ''}`}
+          onClick={() => setShowFieldMap(!showFieldMap)}
+          title="Rename controller fields to gameData paths"
+        >
+          Field Map{Object.keys(settings.fieldMap).length > 0 ? ` (${Object.keys(settings.fieldMap).length})` : ''}
+        </button>
+        <span className={`live-data-feed-status ${status}`} title={statusDetail || STATUS_LABELS[status]}>
+          <span className="live-data-feed-dot" aria-hidden="true" />
+          {STATUS_LABELS[status]}
+          {status === 'connected' && ` · ${messageCount} messages`}
+          {statusDetail && <span className="live-data-feed-detail"> · {statusDetail}</span>}
+        </span>
+      </div>
+      {showFieldMap && (
+        <div className="live-data-feed-map">
+          <textarea
+            value={fieldMapText}
+            onChange={e => setFieldMapText(e.target.value)}
+            placeholder={'{\n  "HomeScore": "homeTeam.score",\n  "Clock.Display": "gameClock"\n}'}
+            spellCheck={false}
+            aria-label="Field map"
+          />
+          <div className="live-data-feed-map-help">
+            <p>
+              Leave empty when the feed already sends gameData field names. Otherwise list the controller
+              fields to use; anything not listed is ignored.
+            </p>
+            <button className="live-data-feed-btn primary" onClick={applyFieldMap}>Save Field Map</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LiveDataFeed;
@@ -3,6 +3,8 @@ import { LayoutConfig, SlotTemplate, ComponentGroupTemplate } from '../types';
 import { useToast } from './Toast';
 import { loadTemplates, saveTemplates } from '../utils/slotTemplates';
 import { loadComponentTemplates, saveComponentTemplates } from '../utils/componentTemplates';
+import { migrateLayout, migratePresetList, migrateSlotTemplate, migrateComponentTemplate } from '../utils/layoutMigrations';
+import { validateLayout, formatValidationIssue } from '../utils/layoutValidation';
 import './PresetModal.css';
 
 interface PresetModalProps {
@@ -30,6 +32,7 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
   const [presetName, setPresetName] = useState(layout.name || 'My Layout');
   const [activeTab, setActiveTab] = useState<'load' | 'json' | 'templates'>('load');
   const [jsonInput, setJsonInput] = useState('');
+  const [jsonIssues, setJsonIssues] = useState<string[]>([]);
   const [slotTemplates, setSlotTemplates] = useState<SlotTemplate[]>([]);
   const [componentTemplates, setComponentTemplates] = useState<ComponentGroupTemplate[]>([]);
   const slotFileInputRef = useRef<HTMLInputElement>(null);
@@ -130,8 +133,9 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const importedPresets = JSON.parse(e.target?.result as string);
-        if (Array.isArray(importedPresets)) {
+        const parsed = JSON.parse(e.target?.result as string);
+        if (Array.isArray(parsed)) {
+          const importedPresets = migratePresetList(parsed);
           const confirmed = window.confirm('Import presets? This will add to your existing presets.');
           if (confirmed) {
             const updatedPresets = [...savedPresets, ...importedPresets];
@@ -141,7 +145,7 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
           }
         }
       } catch (error) {
-        toast.error('Failed to import presets. Please check the file format.');
+        toast.error(`Failed to import presets: ${error instanceof Error ? error.message : 'Please check the file format.'}`);
       }
     };
     reader.readAsText(file);
@@ -196,10 +200,11 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const importedTemplates: SlotTemplate[] = JSON.parse(e.target?.result as string);
-        if (!Array.isArray(importedTemplates)) {
+        const parsed = JSON.parse(e.target?.result as string);
+        if (!Array.isArray(parsed)) {
           throw new Error('Invalid format');
         }
+        const importedTemplates: SlotTemplate[] = parsed.map(migrateSlotTemplate);
         // Validate basic structure
         const isValid = importedTemplates.every(t => t.id && t.name && Array.isArray(t.components));
         if (!isValid) {
@@ -256,10 +261,11 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const importedTemplates: ComponentGroupTemplate[] = JSON.parse(e.target?.result as string);
-        if (!Array.isArray(importedTemplates)) {
+        const parsed = JSON.parse(e.target?.result as string);
+        if (!Array.isArray(parsed)) {
           throw new Error('Invalid format');
         }
+        const importedTemplates: ComponentGroupTemplate[] = parsed.map(migrateComponentTemplate);
         // Validate basic structure
         const isValid = importedTemplates.every(t => t.id && t.name && Array.isArray(t.components));
         if (!isValid) {
@@ -315,18 +321,29 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
     }
 
     try {
-      const layoutData = JSON.parse(jsonInput.trim());
+      const parsed = JSON.parse(jsonInput.trim());
       
       // Basic validation
-      if (!layoutData || typeof layoutData !== 'object') {
+      if (!parsed || typeof parsed !== 'object') {
         throw new Error('Invalid JSON format');
       }
+
+      // Upgrade layouts pasted from older builder versions
+      const layoutData = migrateLayout(parsed);
       
       if (!layoutData.name || !layoutData.dimensions || !Array.isArray(layoutData.components)) {
         throw new Error('Missing required fields: name, dimensions, or components');
       }
 
-      const confirmed = window.confirm(`Load layout "${layoutData.name}"? This will replace your current layout.`);
+      // Show shape problems inline so they can be fixed in the pasted JSON
+      const issues = validateLayout(layoutData).map(formatValidationIssue);
+      setJsonIssues(issues);
+
+      const confirmed = window.confirm(
+        issues.length > 0
+          ? `Layout "${layoutData.name}" has ${issues.length} validation issue(s) (listed below the editor). Load anyway? This will replace your current layout.`
+          : `Load layout "${layoutData.name}"? This will replace your current layout.`
+      );
       if (confirmed) {
         // Ensure the layout name from JSON is preserved
         onLoadPreset({
@@ -504,19 +521,30 @@ function PresetModal({ layout, onClose, onLoadPreset, onBackup, onRestore, onTem
                 <label>Paste JSON Layout:</label>
                 <textarea
                   value={jsonInput}
-                  onChange={(e) => setJsonInput(e.target.value)}
+                  onChange={(e) => { setJsonInput(e.target.value); setJsonIssues([]); }}
                   placeholder="Paste your JSON layout here..."
                   className="json-textarea"
                   rows={12}
                   autoFocus
                 />
               </div>
+
+              {jsonIssues.length > 0 && (
+                <div className="validation-issues">
+                  <p>{jsonIssues.length} validation issue(s):</p>
+                  <ul>
+                    {jsonIssues.map((issue, i) => (
+                      <li key={i}>{issue}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
           
               <div className="modal-actions">
                 <button onClick={loadFromJson} className="load-button">
                   Load Layout
                 </button>
-                <button onClick={() => setJsonInput('')} className="clear-button">
+                <button onClick={() => { setJsonInput(''); setJsonIssues([]); }} className="clear-button">
                   Clear
                 </button>
                 <button onClick={onClose} className="cancel-button">
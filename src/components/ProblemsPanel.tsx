@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { LintProblem, countLintErrors } from '../utils/layoutLinter';
+import './ProblemsPanel.css';
+
+interface ProblemsPanelProps {
+  problems: LintProblem[];
+  selectedComponents: string[];
+  onSelectComponent: (componentId: string) => void;
+}
+
+const RULE_LABELS: Record<LintProblem['rule'], string> = {
+  'unknown-data-path': 'Data path',
+  'off-canvas': 'Off canvas',
+  'zero-size': 'Zero size',
+  'missing-image': 'Missing image',
+  'broken-template': 'Slot template',
+  'never-visible': 'Never visible',
+  'low-contrast': 'Contrast',
+};
+
+// Collapsible list of lint problems under the canvas; clicking one selects its component
+function ProblemsPanel({ problems, selectedComponents, onSelectComponent }: ProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const errorCount = countLintErrors(problems);
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <div className={`problems-panel ${isOpen ? 'open' : ''}`}>
+      <button className="problems-toggle" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+        {isOpen ? '▼' : '▶'} Problems
+        <span className={`problems-count error ${errorCount > 0 ? 'active' : ''}`}>{errorCount} errors</span>
+        <span className={`problems-count warning ${warningCount > 0 ? 'active' : ''}`}>{warningCount} warnings</span>
+      </button>
+      {isOpen && (
+        <ul className="problems-list">
+          {problems.length === 0 && <li className="problems-empty">No problems found</li>}
+          {problems.map((problem, index) => (
+            <li
+              key={`${problem.componentId}-${problem.rule}-${index}`}
+              className={`problems-item ${problem.severity} ${selectedComponents.includes(problem.componentId) ? 'selected' : ''}`}
+              onClick={() => onSelectComponent(problem.componentId)}
+              title="Select component"
+            >
+              <span className="problems-severity">{problem.severity === 'error' ? '✕' : '!'}</span>
+              <span className="problems-component">{problem.componentName}</span>
+              <span className="problems-message">{problem.message}</span>
+              <span className="problems-rule">{RULE_LABELS[problem.rule]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ProblemsPanel;
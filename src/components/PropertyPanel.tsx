@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
-import { ComponentConfig, LayoutConfig, SlotTemplate } from '../types';
+import { ComponentConfig, LayoutConfig, SlotTemplate, DesignTokens, StyleRule, DynamicListComponentProps, SlotListComponentProps, getPropByName, isDataDisplayComponent } from '../types';
 import { loadTemplates, saveTemplates } from '../utils/slotTemplates';
 import {
   loadAvailableImages,
@@ -10,7 +10,23 @@ import {
   hasSubsections,
   getAvailableImagesForSport,
 } from '../utils/imageUtils';
+import { getTokenValue, getTokenKindForProp, withoutTokenBinding, unbindToken } from '../utils/designTokens';
 import ColorPicker from './ColorPicker';
+import DesignTokensEditor from './DesignTokensEditor';
+import GameDataPathField from './GameDataPathField';
+import GameDataInspector from './GameDataInspector';
+import GameDataScenarios from './GameDataScenarios';
+import StyleRulesEditor from './StyleRulesEditor';
+import AnimationsEditor from './AnimationsEditor';
+import FontManager from './FontManager';
+import ValueFormatEditor from './ValueFormatEditor';
+import { getActiveStyleRule } from '../shared/components/customDataDisplay/styleRules';
+import { TEXT_EFFECT_DEFAULTS, FONT_WEIGHTS, hasTextShadow } from '../shared/components/customDataDisplay/textEffects';
+import { TEXT_LAYOUT_DEFAULTS } from '../shared/components/customDataDisplay/textLayout';
+import { getScenes, hasMultipleScenes } from '../utils/scenes';
+import { normalizeRotation } from '../utils/rotation';
+import { useFontOptions } from '../utils/customFonts';
+import { isFontRegistered } from '../shared/components/customDataDisplay/fontConfig';
 import './PropertyPanel.css';
 
 // Helper to resolve image paths with BASE_URL for loading
@@ -31,6 +47,8 @@ interface PropertyPanelProps {
   selectedComponents: string[];
   onUpdateComponent: (id: string, updates: Partial<ComponentConfig>) => void;
   onUpdateLayout: (layout: LayoutConfig) => void;
+  onUpdateTokens?: (tokens: DesignTokens, rebind?: (components: ComponentConfig[]) => ComponentConfig[]) => void;
+  onSetComponentScenes?: (componentId: string, sceneIds: string[] | undefined) => void;
   gameData?: any;
   onUpdateGameData?: (gameData: any) => void;
   panelWidth?: number;
@@ -69,6 +87,9 @@ const GameDataSection = ({ title, children, defaultOpen = false }: { title: stri
   );
 };
 
+// Component types rendered by CustomDataDisplay, which plays component animations
+const ANIMATED_COMPONENT_TYPES: ComponentConfig['type'][] = ['teamName', 'score', 'clock', 'period', 'fouls', 'custom'];
+
 // Reusable debounced input component - prevents form reset on every keystroke
 // Uses local state and only commits on blur or Enter
 interface DebouncedInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'value'> {
@@ -118,12 +139,16 @@ function PropertyPanel({
   selectedComponents,
   onUpdateComponent,
   onUpdateLayout,
+  onUpdateTokens,
+  onSetComponentScenes,
   gameData,
   onUpdateGameData,
   panelWidth = 320,
   templateRefreshKey
 }: PropertyPanelProps) {
   const useTwoColumns = panelWidth >= TWO_COLUMN_THRESHOLD;
+  // Built-in and uploaded fonts for the font family dropdown and font tokens
+  const fontOptions = useFontOptions();
   // Skip heavy computation during drag operations to improve performance
   const [isDragging, setIsDragging] = useState(false);
   
@@ -145,8 +170,8 @@ function PropertyPanel({
   // Create a frozen component reference that doesn't change during drag operations
   const [frozenComponent, setFrozenComponent] = useState<ComponentConfig | null>(null);
   
-  // State for tracking which state properties we're editing (1 or 2)
-  const [editingState, setEditingState] = useState<1 | 2>(1);
+  // Style rule whose overrides the visual controls are editing (null = base style)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
 
   // Slot templates state - refresh whenever selection changes
   const [slotTemplates, setSlotTemplates] = useState<SlotTemplate[]>(() => loadTemplates());
@@ -251,6 +276,27 @@ function PropertyPanel({
 
   // Create a stable component ID reference to prevent callback recreation
   const componentId = component?.id;
+
+  const editingRule: StyleRule | null = (component && isDataDisplayComponent(component)
+    ? component.props?.styleRules?.find(rule => rule.id === editingRuleId)
+    : undefined) || null;
+
+  // Go back to editing the base style when another component is selected
+  useEffect(() => {
+    setEditingRuleId(null);
+  }, [componentId]);
+
+  // Props with `update` applied to the edited rule's overrides, or to the base props
+  const withEditedProps = useCallback((update: (props: Record<string, any>) => Record<string, any>) => {
+    const props: Record<string, any> = component?.props || {};
+    if (!editingRule) return update(props);
+    return {
+      ...props,
+      styleRules: (props.styleRules as StyleRule[]).map(rule =>
+        rule.id === editingRule.id ? { ...rule, set: update(rule.set) } : rule
+      ),
+    };
+  }, [component, editingRule]);
   
   // Simple text input handlers - similar to number inputs
   const handleTextChange = useCallback(() => {
@@ -348,47 +394,19 @@ function PropertyPanel({
 
   const updateFontSize = useCallback((value: number) => {
     if (component && componentId) {
-      if (component.props?.canToggle) {
-        // Save to state-specific props for toggle components
-        const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-        updateComponentWithScrollPreservation(componentId, {
-          props: {
-            ...component.props,
-            [stateKey]: {
-              ...component.props[stateKey],
-              fontSize: value || 24
-            }
-          }
-        });
-      } else {
-        updateComponentWithScrollPreservation(componentId, {
-          props: { ...component.props, fontSize: value || 24 }
-        });
-      }
+      updateComponentWithScrollPreservation(componentId, {
+        props: withEditedProps(props => ({ ...props, fontSize: value || 24 }))
+      });
     }
-  }, [componentId, component, editingState]);
+  }, [componentId, component, withEditedProps]);
 
   const updateBorderWidth = useCallback((value: number) => {
     if (component && componentId) {
-      if (component.props?.canToggle) {
-        // Save to state-specific props for toggle components
-        const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-        updateComponentWithScrollPreservation(componentId, {
-          props: {
-            ...component.props,
-            [stateKey]: {
-              ...component.props[stateKey],
-              borderWidth: value
-            }
-          }
-        });
-      } else {
-        updateComponentWithScrollPreservation(componentId, {
-          props: { ...component.props, borderWidth: value }
-        });
-      }
+      updateComponentWithScrollPreservation(componentId, {
+        props: withEditedProps(props => ({ ...props, borderWidth: value }))
+      });
     }
-  }, [componentId, component, editingState]);
+  }, [componentId, component, withEditedProps]);
 
 
   // Simple number input handlers
@@ -431,7 +449,7 @@ function PropertyPanel({
           });
         }
         break;
-      // Non-visual props that don't change between toggle states
+      // Non-visual props that don't change between style rules
       case 'maxTimeouts':
       case 'itemSpacing':
         if (component && componentId) {
@@ -440,7 +458,7 @@ function PropertyPanel({
           });
         }
         break;
-      // Visual props that should respect toggle state
+      // Visual props that go to the edited style rule
       case 'borderRadius':
       case 'paddingTop':
       case 'paddingRight':
@@ -455,27 +473,13 @@ function PropertyPanel({
       case 'borderBottomLeftRadius':
       case 'borderBottomRightRadius':
         if (component && componentId) {
-          if (component.props?.canToggle) {
-            // Save to state-specific props for toggle components
-            const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-            updateComponentWithScrollPreservation(componentId, {
-              props: {
-                ...component.props,
-                [stateKey]: {
-                  ...component.props[stateKey],
-                  [field]: numValue
-                }
-              }
-            });
-          } else {
-            updateComponentWithScrollPreservation(componentId, {
-              props: { ...component.props, [field]: numValue }
-            });
-          }
+          updateComponentWithScrollPreservation(componentId, {
+            props: withEditedProps(props => ({ ...props, [field]: numValue }))
+          });
         }
         break;
     }
-  }, [component, componentId, updateX, updateY, updateWidth, updateHeight, updateLayer, updateFontSize, updateBorderWidth, updateComponentWithScrollPreservation, editingState]);
+  }, [component, componentId, updateX, updateY, updateWidth, updateHeight, updateLayer, updateFontSize, updateBorderWidth, updateComponentWithScrollPreservation, withEditedProps]);
 
   // Create a static color swatch for drag operations
   const StaticColorSwatch = ({ label, color }: { label: string, color: string }) => (
@@ -543,29 +547,22 @@ function PropertyPanel({
     let processedValue: any = value;
     if (['fontSize', 'borderWidth', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
          'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
-         'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius'].includes(field)) {
-      processedValue = parseInt(value) || 0;
+         'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius',
+         'maxLines'].includes(field)) {
+      processedValue = Math.max(0, parseInt(value) || 0);
+    } else if (field === 'minFontScale') {
+      processedValue = Math.min(1, Math.max(0, parseFloat(value) || 0));
+    } else if (field === 'lineHeight') {
+      processedValue = parseFloat(value) > 0 ? parseFloat(value) : TEXT_LAYOUT_DEFAULTS.lineHeight;
+    } else if (['letterSpacing', 'textStrokeWidth', 'textShadowOffsetX', 'textShadowOffsetY', 'textShadowBlur',
+                'textGlowRadius'].includes(field)) {
+      processedValue = parseFloat(value) || 0;
     }
 
-    if (component.props?.canToggle) {
-      // Store in state-specific properties
-      const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-      updateComponentWithScrollPreservation(componentId, {
-        props: {
-          ...component.props,
-          [stateKey]: {
-            ...component.props[stateKey],
-            [field]: processedValue
-          }
-        }
-      });
-    } else {
-      // Store directly in props
-      updateComponentWithScrollPreservation(componentId, {
-        props: { ...component.props, [field]: processedValue }
-      });
-    }
-  }, [component, componentId, editingState, updateComponentWithScrollPreservation]);
+    updateComponentWithScrollPreservation(componentId, {
+      props: withEditedProps(props => unbindToken({ ...props, [field]: processedValue }, field))
+    });
+  }, [component, componentId, withEditedProps, updateComponentWithScrollPreservation]);
 
   // Additional number handler for props that couldn't be handled in early handleNumberBlur
   const handleLateNumberBlur = useCallback((field: string, value: string) => {
@@ -578,74 +575,74 @@ function PropertyPanel({
   const updateStateProps = useCallback((field: string, value: any) => {
     if (!component || !componentId) return;
     
-    if (component.props?.canToggle) {
-      // Store in state-specific properties
-      const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-      const currentStateProps = component.props[stateKey] || {};
-      
-      updateComponentWithScrollPreservation(componentId, {
-        props: {
-          ...component.props,
-          [stateKey]: {
-            ...currentStateProps,
-            [field]: value
-          }
-        }
-      });
-    } else {
-      // Regular property update
-      updateComponentWithScrollPreservation(componentId, {
-        props: {
-          ...component.props,
-          [field]: value
-        }
-      });
-    }
-  }, [component, componentId, editingState, updateComponentWithScrollPreservation]);
+    updateComponentWithScrollPreservation(componentId, {
+      props: withEditedProps(props => unbindToken({ ...props, [field]: value }, field))
+    });
+  }, [component, componentId, withEditedProps, updateComponentWithScrollPreservation]);
+
+  // Bind a prop to a design token (null unbinds) for the current editing state.
+  // The token's value is written into the prop in the same update.
+  const bindStatePropToToken = useCallback((field: string, tokenName: string | null) => {
+    if (!component || !componentId) return;
+
+    const value = tokenName ? getTokenValue(layout.tokens, getTokenKindForProp(field), tokenName) : undefined;
+    const applyBinding = (props: Record<string, any>) => ({
+      ...props,
+      ...(value !== undefined && { [field]: value }),
+      tokenBindings: tokenName
+        ? { ...props.tokenBindings, [field]: tokenName }
+        : withoutTokenBinding(props.tokenBindings, field),
+    });
+
+    updateComponentWithScrollPreservation(componentId, {
+      props: withEditedProps(applyBinding)
+    });
+  }, [component, componentId, withEditedProps, layout.tokens, updateComponentWithScrollPreservation]);
   
   // Helper to get the current property value based on editing state
   const getStateValue = useCallback((field: string, defaultValue?: any) => {
     if (!component?.props) return defaultValue;
 
-    if (component.props?.canToggle) {
-      const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-      const stateProps = component.props[stateKey] || {};
-      if (stateProps[field] !== undefined) return stateProps[field];
-      if (component.props[field] !== undefined) return component.props[field];
-      return defaultValue;
+    if (editingRule) {
+      const overrides: Record<string, any> = editingRule.set;
+      if (overrides[field] !== undefined) return overrides[field];
     }
 
-    return component.props[field] !== undefined ? component.props[field] : defaultValue;
-  }, [component, editingState]);
+    const value = getPropByName(component, field);
+    return value !== undefined ? value : defaultValue;
+  }, [component, editingRule]);
+
+  // Token a prop is bound to in the current editing state, if any
+  const getStateTokenBinding = useCallback((field: string): string | undefined => {
+    return getStateValue('tokenBindings', {})?.[field];
+  }, [getStateValue]);
+
+  // Token props for a ColorPicker editing a state prop
+  const colorTokenProps = (field: string) => ({
+    tokens: layout.tokens?.colors,
+    boundToken: getStateTokenBinding(field),
+    onSelectToken: (tokenName: string) => bindStatePropToToken(field, tokenName),
+  });
 
   // Handler for image selection - sets native resolution and centers on canvas
-  // For toggleable components, only updates the image for the current editing state
+  // While editing a style rule, only the rule's image override changes
   const handleImageSelect = useCallback((newImagePath: string, isUrl: boolean = false) => {
     if (!component || !componentId) return;
 
-    // For toggleable components, update image in current state with a single update
+    // For style rules, update the image overrides with a single update
     // to avoid race conditions from multiple consecutive updateStateProps calls
-    if (component.props?.canToggle) {
-      const stateKey = editingState === 1 ? 'state1Props' : 'state2Props';
-      const currentStateProps = component.props[stateKey] || {};
-
+    if (editingRule) {
       const imageUpdates = isUrl
         ? { imageUrl: newImagePath, imageSource: 'url' }
         : { imagePath: newImagePath, imageSource: 'local' };
 
       updateComponentWithScrollPreservation(componentId, {
-        props: {
-          ...component.props,
-          [stateKey]: {
-            ...currentStateProps,
-            ...imageUpdates
-          }
-        }
+        props: withEditedProps(props => ({ ...props, ...imageUpdates }))
       });
       return;
     }
 
-    // For non-toggleable components with empty path, just clear
+    // For the base style with empty path, just clear
     if (!newImagePath) {
       if (isUrl) {
         updateStateProps('imageUrl', newImagePath);
@@ -655,7 +652,7 @@ function PropertyPanel({
       return;
     }
 
-    // For non-toggleable components, update with centering and native resolution
+    // For the base style, update with centering and native resolution
     // First update the image path/url
     if (isUrl) {
       updateStateProps('imageUrl', newImagePath);
@@ -706,7 +703,7 @@ function PropertyPanel({
       console.error('Failed to load image for dimension detection:', newImagePath);
     };
     img.src = resolveImagePath(newImagePath);
-  }, [component, componentId, editingState, layout.dimensions, updateStateProps, updateComponentWithScrollPreservation]);
+  }, [component, componentId, editingRule, withEditedProps, layout.dimensions, updateStateProps, updateComponentWithScrollPreservation]);
 
   const toggleSection = (section: string) => {
     const newCollapsed = new Set(collapsedSections);
@@ -1029,10 +1026,46 @@ function PropertyPanel({
           <h3>Preview Data</h3>
         </div>
         <div className="property-content" style={{ padding: '12px' }}>
+          {onUpdateTokens && (
+            <GameDataSection title="Design Tokens">
+              <DesignTokensEditor
+                tokens={layout.tokens}
+                components={layout.components}
+                fontOptions={fontOptions}
+                onUpdateTokens={onUpdateTokens}
+              />
+            </GameDataSection>
+          )}
+
+          <GameDataSection title="Fonts">
+            <FontManager components={layout.components} />
+          </GameDataSection>
+
+          <GameDataSection title="Layout Background">
+            <ColorPicker
+              label="Background"
+              value={layout.backgroundColor || '#000000'}
+              onChange={(color) => onUpdateLayout({ ...layout, backgroundColor: color })}
+              gradient={layout.backgroundGradient}
+              onGradientChange={(gradient) => onUpdateLayout({ ...layout, backgroundGradient: gradient })}
+            />
+          </GameDataSection>
+
           <div style={{ marginBottom: '12px', color: '#888', fontSize: '11px' }}>
             Adjust game data to preview different states
           </div>
 
+          {onUpdateGameData && gameData && (
+            <>
+              <GameDataSection title="Scenarios" defaultOpen={true}>
+                <GameDataScenarios gameData={gameData} onUpdateGameData={onUpdateGameData} />
+              </GameDataSection>
+              <GameDataSection title="All Fields">
+                <GameDataInspector gameData={gameData} onUpdateGameData={onUpdateGameData} />
+              </GameDataSection>
+            </>
+          )}
+
           {/* Team Names & Colors */}
           <GameDataSection title="Team Info" defaultOpen={true}>
             <GameDataInput label="Home Team Name" path="homeTeam.name" />
@@ -1850,137 +1883,41 @@ function PropertyPanel({
         )}
       </div>
       
-      {/* State Selector for toggleable components */}
-      {component.props?.canToggle && (
+      {/* Conditional style rules for data displays */}
+      {component.type === 'custom' && (
         <div style={{
           padding: '8px',
           backgroundColor: '#2a2a2a',
           borderBottom: '1px solid #444'
         }}>
-          <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
-            <button
-              onClick={() => setEditingState(1)}
-              style={{
-                flex: 1,
-                padding: '8px',
-                backgroundColor: editingState === 1 ? '#4CAF50' : '#333',
-                color: 'white',
-                border: '1px solid #555',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontWeight: editingState === 1 ? 'bold' : 'normal'
-              }}
-            >
-              Edit State 1
-            </button>
-            <button
-              onClick={() => setEditingState(2)}
-              style={{
-                flex: 1,
-                padding: '8px',
-                backgroundColor: editingState === 2 ? '#4CAF50' : '#333',
-                color: 'white',
-                border: '1px solid #555',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontWeight: editingState === 2 ? 'bold' : 'normal'
-              }}
-            >
-              Edit State 2
-            </button>
-            <button
-              onClick={() => updateComponentWithScrollPreservation(component.id, {
-                props: {
-                  ...component.props,
-                  toggleState: !component.props?.toggleState
-                }
-              })}
-              style={{
-                padding: '8px 16px',
-                backgroundColor: component.props?.toggleState ? '#FF9800' : '#607D8B',
-                color: 'white',
-                border: '1px solid #555',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontWeight: 'bold'
-              }}
-            >
-              {component.props?.toggleState ? 'ON' : 'OFF'}
-            </button>
-          </div>
-          <div style={{ marginTop: '8px' }}>
-            <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', color: '#aaa' }}>
-              Toggle Data Path
-            </label>
-            <select
-              value={component.props?.toggleDataPath || ''}
-              onChange={(e) => updateComponentWithScrollPreservation(component.id, {
-                props: {
-                  ...component.props,
-                  toggleDataPath: e.target.value || undefined
-                }
-              })}
-              style={{
-                width: '100%',
-                padding: '6px',
-                backgroundColor: '#333',
-                color: 'white',
-                border: '1px solid #555',
-                borderRadius: '4px'
-              }}
-            >
-              <option value="">Use Display Data Path</option>
-              <optgroup label="Game State">
-                <option value="isOvertimeActive">Overtime Active</option>
-              </optgroup>
-              <optgroup label="Home Team">
-                <option value="homeTeam.bonus">Home Bonus</option>
-                <option value="homeTeam.doubleBonus">Home Double Bonus</option>
-                <option value="homeTeam.possession">Home Possession</option>
-              </optgroup>
-              <optgroup label="Away Team">
-                <option value="awayTeam.bonus">Away Bonus</option>
-                <option value="awayTeam.doubleBonus">Away Double Bonus</option>
-                <option value="awayTeam.possession">Away Possession</option>
-              </optgroup>
-              <optgroup label="Home Penalty Slots">
-                <option value="penaltySlots.home.slot0.active">Home Penalty 1 Active</option>
-                <option value="penaltySlots.home.slot1.active">Home Penalty 2 Active</option>
-                <option value="penaltySlots.home.slot2.active">Home Penalty 3 Active</option>
-              </optgroup>
-              <optgroup label="Away Penalty Slots">
-                <option value="penaltySlots.away.slot0.active">Away Penalty 1 Active</option>
-                <option value="penaltySlots.away.slot1.active">Away Penalty 2 Active</option>
-                <option value="penaltySlots.away.slot2.active">Away Penalty 3 Active</option>
-              </optgroup>
-              <optgroup label="Baseball Diamond">
-                <option value="firstBase">First Base Occupied</option>
-                <option value="secondBase">Second Base Occupied</option>
-                <option value="thirdBase">Third Base Occupied</option>
-              </optgroup>
-              <optgroup label="Shootout Home State (0=miss, 1=made)">
-                <option value="shootoutSlots.0.homeState">Slot 1 Home State</option>
-                <option value="shootoutSlots.1.homeState">Slot 2 Home State</option>
-                <option value="shootoutSlots.2.homeState">Slot 3 Home State</option>
-                <option value="shootoutSlots.3.homeState">Slot 4 Home State</option>
-                <option value="shootoutSlots.4.homeState">Slot 5 Home State</option>
-              </optgroup>
-              <optgroup label="Shootout Away State (0=miss, 1=made)">
-                <option value="shootoutSlots.0.awayState">Slot 1 Away State</option>
-                <option value="shootoutSlots.1.awayState">Slot 2 Away State</option>
-                <option value="shootoutSlots.2.awayState">Slot 3 Away State</option>
-                <option value="shootoutSlots.3.awayState">Slot 4 Away State</option>
-                <option value="shootoutSlots.4.awayState">Slot 5 Away State</option>
-              </optgroup>
-              <optgroup label="Leaderboard Slot (auto-prefixed)">
-                <option value="isTopScorer">Top Scorer (Points)</option>
-                <option value="isTopAces">Top Aces</option>
-                <option value="isTopKills">Top Kills</option>
-                <option value="isTopBlocks">Top Blocks</option>
-                <option value="active">Slot Active</option>
-              </optgroup>
-            </select>
-          </div>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: '12px', color: '#aaa' }}>
+            Style Rules
+          </label>
+          <StyleRulesEditor
+            rules={component.props?.styleRules || []}
+            editingRuleId={editingRule?.id ?? null}
+            activeRuleId={getActiveStyleRule(component.props?.styleRules, gameData)?.id ?? null}
+            onEditRule={setEditingRuleId}
+            onChange={(rules) => updateComponentWithScrollPreservation(component.id, {
+              props: {
+                ...component.props,
+                styleRules: rules.length ? rules : undefined
+              }
+            })}
+          />
+          {editingRule && (
+            <div style={{
+              marginTop: '8px',
+              padding: '6px 8px',
+              backgroundColor: '#3a3320',
+              border: '1px solid #FF9800',
+              borderRadius: '4px',
+              fontSize: '11px',
+              color: '#FFB74D'
+            }}>
+              Editing overrides for "{editingRule.name || 'Unnamed rule'}" - style changes below only apply while its condition is true.
+            </div>
+          )}
         </div>
       )}
       
@@ -1998,6 +1935,41 @@ function PropertyPanel({
             style={{ maxWidth: '200px' }}
           />
         </div>
+        {hasMultipleScenes(layout) && onSetComponentScenes && (
+          <div className="property-field">
+            <label>Scenes</label>
+            <label>
+              <input
+                type="checkbox"
+                checked={!component.sceneIds}
+                onChange={(e) => onSetComponentScenes(
+                  component.id,
+                  e.target.checked ? undefined : getScenes(layout).map(scene => scene.id)
+                )}
+              />
+              Shared by all scenes
+            </label>
+            {component.sceneIds && getScenes(layout).map(scene => {
+              const sceneIds = component.sceneIds || [];
+              const included = sceneIds.includes(scene.id);
+              return (
+                <label key={scene.id}>
+                  <input
+                    type="checkbox"
+                    checked={included}
+                    // A component has to stay in at least one scene
+                    disabled={included && sceneIds.length === 1}
+                    onChange={(e) => onSetComponentScenes(
+                      component.id,
+                      e.target.checked ? [...sceneIds, scene.id] : sceneIds.filter(id => id !== scene.id)
+                    )}
+                  />
+                  {scene.name || 'Untitled'}
+                </label>
+              );
+            })}
+          </div>
+        )}
       </div>
       
       <div 
@@ -2056,6 +2028,21 @@ function PropertyPanel({
                 }}
               />
             </div>
+            {component.type !== 'group' && (
+              <div className="property-field">
+                <label>Rotation (°)</label>
+                <DebouncedInput
+                  type="number"
+                  step="1"
+                  value={normalizeRotation(component.rotation || 0)}
+                  onCommit={(val) => {
+                    updateComponentWithScrollPreservation(component.id, {
+                      rotation: normalizeRotation(parseFloat(val) || 0) || undefined
+                    });
+                  }}
+                />
+              </div>
+            )}
           </div>
 
           {/* Scale Percentage Section */}
@@ -2322,30 +2309,60 @@ function PropertyPanel({
         <PropertySection title="TEXT" sectionKey="text">
           <div className="property-field">
             <label>Font Size</label>
-            <input
-              key={`fontSize-${editingState}-${component?.id}`}
-              type="number"
-              defaultValue={getStateValue('fontSize', 24)}
-              onChange={(e) => handleStatePropsChange('fontSize', e.target.value)}
-              onBlur={(e) => handleStatePropsBlur('fontSize', e.target.value)}
-            />
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <input
+                key={`fontSize-${editingRuleId}-${component?.id}-${getStateValue('fontSize', 24)}`}
+                type="number"
+                defaultValue={getStateValue('fontSize', 24)}
+                onChange={(e) => handleStatePropsChange('fontSize', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('fontSize', e.target.value)}
+                style={{ flex: 1 }}
+              />
+              {Object.keys(layout.tokens?.sizes || {}).length > 0 && (
+                <select
+                  value={getStateTokenBinding('fontSize') || ''}
+                  onChange={(e) => bindStatePropToToken('fontSize', e.target.value || null)}
+                  title="Bind font size to a size token"
+                  style={{ width: '45%' }}
+                >
+                  <option value="">No token</option>
+                  {Object.entries(layout.tokens?.sizes || {}).map(([name, size]) => (
+                    <option key={name} value={name}>@{name} ({size})</option>
+                  ))}
+                </select>
+              )}
+            </div>
           </div>
 
           <div className="property-field">
             <label>Font Family</label>
             <select
-              value={getStateValue('fontFamily', 'Score-Regular')}
-              onChange={(e) => updateStateProps('fontFamily', e.target.value)}
+              value={getStateTokenBinding('fontFamily') ? `token:${getStateTokenBinding('fontFamily')}` : getStateValue('fontFamily', 'Score-Regular')}
+              onChange={(e) => {
+                // Token entries are prefixed so they can't collide with font names
+                if (e.target.value.startsWith('token:')) {
+                  bindStatePropToToken('fontFamily', e.target.value.slice('token:'.length));
+                } else {
+                  updateStateProps('fontFamily', e.target.value);
+                }
+              }}
             >
-              <option value="Score-Regular">Score-Regular (Numbers/Clocks)</option>
-              <option value="Helvetica-Bold">Helvetica Bold (System)</option>
-              <option value="Inter-Bold">Inter Bold (Clean/Modern)</option>
-              <option value="Roboto-Bold">Roboto Bold (Versatile)</option>
-              <option value="Montserrat-Bold">Montserrat Bold (Geometric)</option>
-              <option value="Oswald-Bold">Oswald Bold (Condensed)</option>
-              <option value="BebasNeue">Bebas Neue (Athletic)</option>
-              <option value="Anton">Anton (Impact)</option>
-              <option value="Teko-Bold">Teko Bold (Tech/Sport)</option>
+              {Object.keys(layout.tokens?.fonts || {}).length > 0 && (
+                <optgroup label="Design Tokens">
+                  {Object.entries(layout.tokens?.fonts || {}).map(([name, font]) => (
+                    <option key={name} value={`token:${name}`}>@{name} ({font})</option>
+                  ))}
+                </optgroup>
+              )}
+              <optgroup label="Fonts">
+                {fontOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+                {/* Custom fonts uploaded in another browser aren't registered here */}
+                {!getStateTokenBinding('fontFamily') && !isFontRegistered(getStateValue('fontFamily', 'Score-Regular')) && (
+                  <option value={getStateValue('fontFamily')}>{getStateValue('fontFamily')} (not installed)</option>
+                )}
+              </optgroup>
             </select>
           </div>
 
@@ -2360,11 +2377,42 @@ function PropertyPanel({
             </label>
           </div>
 
+          {getStateValue('autoFitText', false) && (
+            <div className="property-grid">
+              <div className="property-field">
+                <label>Min Font Scale</label>
+                <input
+                  key={`minFontScale-${editingRuleId}-${component?.id}-${getStateValue('minFontScale', 0)}`}
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  defaultValue={getStateValue('minFontScale', 0)}
+                  title="Smallest size as a fraction of Font Size (0 = no limit)"
+                  onChange={(e) => handleStatePropsChange('minFontScale', e.target.value)}
+                  onBlur={(e) => handleStatePropsBlur('minFontScale', e.target.value)}
+                />
+              </div>
+              <div className="property-field">
+                <label>Fit To Widest Value</label>
+                <input
+                  key={`autoFitSampleText-${editingRuleId}-${component?.id}`}
+                  type="text"
+                  defaultValue={getStateValue('autoFitSampleText', '')}
+                  placeholder="e.g., 88:88"
+                  title="Size text to fit this value too, so it doesn't jump as the value changes"
+                  onChange={(e) => handleStatePropsChange('autoFitSampleText', e.target.value)}
+                  onBlur={(e) => updateStateProps('autoFitSampleText', e.target.value || undefined)}
+                />
+              </div>
+            </div>
+          )}
+
           {getStateValue('autoFitText', false) && (
             <div className="property-field">
               <label>Preview Text (test how text will fit)</label>
               <input
-                key={`previewText-${editingState}-${component?.id}`}
+                key={`previewText-${editingRuleId}-${component?.id}`}
                 type="text"
                 defaultValue={getStateValue('previewText', '')}
                 placeholder="e.g., Jordan's Jaguars"
@@ -2419,15 +2467,16 @@ function PropertyPanel({
           {isDragging ? (
             <StaticColorSwatch
               label="Text Color"
-              color={component?.props?.textColor || '#ffffff'}
+              color={getStateValue('textColor', '#ffffff')}
             />
           ) : (
             <div className="property-field">
               <ColorPicker
-                key={`textColor-${editingState}-${component?.id}`}
+                key={`textColor-${editingRuleId}-${component?.id}`}
                 label="Text Color"
                 value={getStateValue('textColor', '#ffffff')}
                 onChange={(color) => updateStateProps('textColor', color)}
+                {...colorTokenProps('textColor')}
               />
             </div>
           )}
@@ -2444,11 +2493,184 @@ function PropertyPanel({
             </select>
           </div>
 
+          <div className="property-field">
+            <label>Vertical Alignment</label>
+            <select
+              value={getStateValue('verticalAlign', TEXT_LAYOUT_DEFAULTS.verticalAlign)}
+              onChange={(e) => updateStateProps('verticalAlign', e.target.value)}
+            >
+              <option value="top">Top</option>
+              <option value="middle">Middle</option>
+              <option value="bottom">Bottom</option>
+            </select>
+          </div>
+
+          <div className="property-field">
+            <label>
+              <input
+                type="checkbox"
+                checked={getStateValue('wrapText', false)}
+                onChange={(e) => updateStateProps('wrapText', e.target.checked)}
+              />
+              Wrap Text to Width
+            </label>
+          </div>
+
+          <div className="property-grid">
+            <div className="property-field">
+              <label>Max Lines (0 = no limit)</label>
+              <input
+                key={`maxLines-${editingRuleId}-${component?.id}-${getStateValue('maxLines', 0)}`}
+                type="number"
+                min="0"
+                defaultValue={getStateValue('maxLines', 0)}
+                onChange={(e) => handleStatePropsChange('maxLines', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('maxLines', e.target.value)}
+              />
+            </div>
+            <div className="property-field">
+              <label>Line Height</label>
+              <input
+                key={`lineHeight-${editingRuleId}-${component?.id}-${getStateValue('lineHeight', TEXT_LAYOUT_DEFAULTS.lineHeight)}`}
+                type="number"
+                min="0.5"
+                step="0.1"
+                defaultValue={getStateValue('lineHeight', TEXT_LAYOUT_DEFAULTS.lineHeight)}
+                onChange={(e) => handleStatePropsChange('lineHeight', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('lineHeight', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="property-grid">
+            <div className="property-field">
+              <label>Font Weight</label>
+              <select
+                value={getStateValue('fontWeight', TEXT_EFFECT_DEFAULTS.fontWeight)}
+                onChange={(e) => updateStateProps('fontWeight', parseInt(e.target.value))}
+              >
+                {FONT_WEIGHTS.map(weight => (
+                  <option key={weight} value={weight}>{weight}</option>
+                ))}
+              </select>
+            </div>
+            <div className="property-field">
+              <label>Letter Spacing</label>
+              <input
+                key={`letterSpacing-${editingRuleId}-${component?.id}-${getStateValue('letterSpacing', 0)}`}
+                type="number"
+                step="0.5"
+                defaultValue={getStateValue('letterSpacing', 0)}
+                onChange={(e) => handleStatePropsChange('letterSpacing', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('letterSpacing', e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Outline */}
+          <div className="property-field">
+            <label>Outline Width</label>
+            <input
+              key={`textStrokeWidth-${editingRuleId}-${component?.id}-${getStateValue('textStrokeWidth', 0)}`}
+              type="number"
+              min="0"
+              step="0.5"
+              defaultValue={getStateValue('textStrokeWidth', 0)}
+              onChange={(e) => handleStatePropsChange('textStrokeWidth', e.target.value)}
+              onBlur={(e) => handleStatePropsBlur('textStrokeWidth', e.target.value)}
+            />
+          </div>
+          {getStateValue('textStrokeWidth', 0) > 0 && !isDragging && (
+            <div className="property-field">
+              <ColorPicker
+                key={`textStrokeColor-${editingRuleId}-${component?.id}`}
+                label="Outline Color"
+                value={getStateValue('textStrokeColor', TEXT_EFFECT_DEFAULTS.textStrokeColor)}
+                onChange={(color) => updateStateProps('textStrokeColor', color)}
+                {...colorTokenProps('textStrokeColor')}
+              />
+            </div>
+          )}
+
+          {/* Drop shadow */}
+          <div className="property-grid">
+            <div className="property-field">
+              <label>Shadow X</label>
+              <input
+                key={`textShadowOffsetX-${editingRuleId}-${component?.id}-${getStateValue('textShadowOffsetX', 0)}`}
+                type="number"
+                defaultValue={getStateValue('textShadowOffsetX', 0)}
+                onChange={(e) => handleStatePropsChange('textShadowOffsetX', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('textShadowOffsetX', e.target.value)}
+              />
+            </div>
+            <div className="property-field">
+              <label>Shadow Y</label>
+              <input
+                key={`textShadowOffsetY-${editingRuleId}-${component?.id}-${getStateValue('textShadowOffsetY', 0)}`}
+                type="number"
+                defaultValue={getStateValue('textShadowOffsetY', 0)}
+                onChange={(e) => handleStatePropsChange('textShadowOffsetY', e.target.value)}
+                onBlur={(e) => handleStatePropsBlur('textShadowOffsetY', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="property-field">
+            <label>Shadow Blur</label>
+            <input
+              key={`textShadowBlur-${editingRuleId}-${component?.id}-${getStateValue('textShadowBlur', 0)}`}
+              type="number"
+              min="0"
+              defaultValue={getStateValue('textShadowBlur', 0)}
+              onChange={(e) => handleStatePropsChange('textShadowBlur', e.target.value)}
+              onBlur={(e) => handleStatePropsBlur('textShadowBlur', e.target.value)}
+            />
+          </div>
+          {hasTextShadow({
+            textShadowOffsetX: getStateValue('textShadowOffsetX'),
+            textShadowOffsetY: getStateValue('textShadowOffsetY'),
+            textShadowBlur: getStateValue('textShadowBlur'),
+          }) && !isDragging && (
+            <div className="property-field">
+              <ColorPicker
+                key={`textShadowColor-${editingRuleId}-${component?.id}`}
+                label="Shadow Color"
+                value={getStateValue('textShadowColor', TEXT_EFFECT_DEFAULTS.textShadowColor)}
+                onChange={(color) => updateStateProps('textShadowColor', color)}
+                {...colorTokenProps('textShadowColor')}
+              />
+            </div>
+          )}
+
+          {/* Glow */}
+          <div className="property-field">
+            <label>Glow Radius</label>
+            <input
+              key={`textGlowRadius-${editingRuleId}-${component?.id}-${getStateValue('textGlowRadius', 0)}`}
+              type="number"
+              min="0"
+              defaultValue={getStateValue('textGlowRadius', 0)}
+              onChange={(e) => handleStatePropsChange('textGlowRadius', e.target.value)}
+              onBlur={(e) => handleStatePropsBlur('textGlowRadius', e.target.value)}
+            />
+          </div>
+          {getStateValue('textGlowRadius', 0) > 0 && !isDragging && (
+            <div className="property-field">
+              <ColorPicker
+                key={`textGlowColor-${editingRuleId}-${component?.id}`}
+                label="Glow Color"
+                value={getStateValue('textGlowColor', TEXT_EFFECT_DEFAULTS.textGlowColor)}
+                onChange={(color) => updateStateProps('textGlowColor', color)}
+                {...colorTokenProps('textGlowColor')}
+              />
+            </div>
+          )}
+
           {getStateValue('label', undefined) !== undefined && (
             <div className="property-field">
               <label>Label</label>
               <input
-                key={`label-${editingState}-${component?.id}`}
+                key={`label-${editingRuleId}-${component?.id}`}
                 type="text"
                 defaultValue={getStateValue('label', '')}
                 onChange={(e) => handleStatePropsChange('label', e.target.value)}
@@ -2461,11 +2683,11 @@ function PropertyPanel({
             <>
               <div className="property-field">
                 <label>Custom Text</label>
-                <input
-                  key={`customText-${editingState}-${component?.id}`}
-                  type="text"
+                <textarea
+                  key={`customText-${editingRuleId}-${component?.id}`}
+                  rows={2}
                   defaultValue={getStateValue('customText', '')}
-                  placeholder="Static text (overrides data path)"
+                  placeholder="Static text (overrides data path, Enter for a new line)"
                   onChange={(e) => handleStatePropsChange('customText', e.target.value)}
                   onBlur={(e) => handleStatePropsBlur('customText', e.target.value)}
                 />
@@ -2474,7 +2696,7 @@ function PropertyPanel({
                 <div className="property-field">
                   <label>Prefix</label>
                   <input
-                    key={`prefix-${editingState}-${component?.id}`}
+                    key={`prefix-${editingRuleId}-${component?.id}`}
                     type="text"
                     defaultValue={getStateValue('prefix', '')}
                     placeholder="e.g., '$', '#'"
@@ -2485,7 +2707,7 @@ function PropertyPanel({
                 <div className="property-field">
                   <label>Suffix</label>
                   <input
-                    key={`suffix-${editingState}-${component?.id}`}
+                    key={`suffix-${editingRuleId}-${component?.id}`}
                     type="text"
                     defaultValue={getStateValue('suffix', '')}
                     placeholder="e.g., 'pts', '%'"
@@ -2497,7 +2719,7 @@ function PropertyPanel({
             </>
           )}
 
-          {component.props?.maxTimeouts !== undefined && (
+          {isDataDisplayComponent(component) && component.props?.maxTimeouts !== undefined && (
             <div className="property-field">
               <label>Max Timeouts</label>
               <input
@@ -2527,16 +2749,31 @@ function PropertyPanel({
           )}
         </PropertySection>
 
+        {/* VALUE FORMAT SECTION */}
+        <PropertySection title="VALUE FORMAT" sectionKey="value-format">
+          <ValueFormatEditor
+            key={`format-${editingRuleId}-${component.id}`}
+            format={getStateValue('format', 'text')}
+            options={getStateValue('formatOptions', {})}
+            onFormatChange={(format) => updateStateProps('format', format)}
+            onOptionsChange={(formatOptions) => updateStateProps('formatOptions', formatOptions)}
+          />
+        </PropertySection>
+
         {component.type === 'custom' && (
           <>
             {/* CUSTOM DATA SECTION */}
             <PropertySection title="CUSTOM DATA" sectionKey="custom-data">
               <div className="property-field">
                 <label>Data Path</label>
-                <select
-                  value={component.props?.dataPath || 'none'}
-                  onChange={(e) => {
-                    const newDataPath = e.target.value;
+                <GameDataPathField
+                  key={`dataPath-${component.id}`}
+                  value={component.props?.dataPath}
+                  emptyValue="none"
+                  emptyLabel="No Data (Display Only)"
+                  layoutType={layout.name}
+                  previewData={gameData}
+                  onChange={(newDataPath) => {
                     // Check if this is an image data path
                     const isImagePath = newDataPath.endsWith('.imageUrl') ||
                                         newDataPath.endsWith('.image') ||
@@ -2551,191 +2788,7 @@ function PropertyPanel({
                     }
                     updateComponentWithScrollPreservation(component.id, { props: updatedProps });
                   }}
-                >
-                  <option value="none">No Data (Display Only)</option>
-                  <optgroup label="Game Info">
-                    <option value="gameClock">Game Clock</option>
-                    <option value="timeoutClock">Timeout Clock</option>
-                    <option value="activityClock">Activity Clock</option>
-                    <option value="preGameClock">Pre-Game Clock</option>
-                    <option value="halftimeClock">Halftime Clock</option>
-                    <option value="periodBreakClock">Period Break Clock</option>
-                    <option value="shotClockClock">Shot Clock</option>
-                    <option value="timeOfDay">Time of Day (Local Clock)</option>
-                    <option value="period">Period/Quarter</option>
-                    <option value="isOvertimeActive">Overtime Active (boolean)</option>
-                    <option value="home_sets_won">Home Sets Won</option>
-                    <option value="away_sets_won">Away Sets Won</option>
-                  </optgroup>
-                  <optgroup label="Activity Timer">
-                    <option value="timerName">Timer Name</option>
-                    <option value="sessionName">Session Name</option>
-                    <option value="nextUp">Next Up</option>
-                  </optgroup>
-                  <optgroup label="Home Team">
-                    <option value="homeTeam.name">Home Team Name</option>
-                    <option value="homeTeam.score">Home Score</option>
-                    <option value="homeTeam.fouls">Home Fouls</option>
-                    <option value="homeTeam.timeouts">Home Timeouts</option>
-                    <option value="homeTeam.bonus">Home Bonus</option>
-                    <option value="homeTeam.doubleBonus">Home Double Bonus</option>
-                    <option value="homeTeam.possession">Home Possession</option>
-                    <option value="homeTeam.hits">Home Hits (Baseball)</option>
-                    <option value="homeTeam.errors">Home Errors (Baseball)</option>
-                    <option value="home_corner_kicks">Home Corner Kicks (Soccer)</option>
-                  </optgroup>
-                  <optgroup label="Away Team">
-                    <option value="awayTeam.name">Away Team Name</option>
-                    <option value="awayTeam.score">Away Score</option>
-                    <option value="awayTeam.fouls">Away Fouls</option>
-                    <option value="awayTeam.timeouts">Away Timeouts</option>
-                    <option value="awayTeam.bonus">Away Bonus</option>
-                    <option value="awayTeam.doubleBonus">Away Double Bonus</option>
-                    <option value="awayTeam.possession">Away Possession</option>
-                    <option value="awayTeam.hits">Away Hits (Baseball)</option>
-                    <option value="awayTeam.errors">Away Errors (Baseball)</option>
-                    <option value="away_corner_kicks">Away Corner Kicks (Soccer)</option>
-                  </optgroup>
-                  <optgroup label="Football">
-                    <option value="down">Down</option>
-                    <option value="yardsToGo">Yards to Go</option>
-                    <option value="ballOn">Ball On (Line of Scrimmage)</option>
-                  </optgroup>
-                  <optgroup label="Baseball">
-                    <option value="balls">Balls</option>
-                    <option value="strikes">Strikes</option>
-                    <option value="outs">Outs</option>
-                    <option value="firstBase">First Base</option>
-                    <option value="secondBase">Second Base</option>
-                    <option value="thirdBase">Third Base</option>
-                    <option value="onBase">On Base (String)</option>
-                  </optgroup>
-                  <optgroup label="Inning Slots (Home) - Auto-shifts for extra innings">
-                    <option value="inningSlots.0.homeScore">Slot 1 Home Score</option>
-                    <option value="inningSlots.1.homeScore">Slot 2 Home Score</option>
-                    <option value="inningSlots.2.homeScore">Slot 3 Home Score</option>
-                    <option value="inningSlots.3.homeScore">Slot 4 Home Score</option>
-                    <option value="inningSlots.4.homeScore">Slot 5 Home Score</option>
-                    <option value="inningSlots.5.homeScore">Slot 6 Home Score</option>
-                    <option value="inningSlots.6.homeScore">Slot 7 Home Score</option>
-                    <option value="inningSlots.7.homeScore">Slot 8 Home Score</option>
-                    <option value="inningSlots.8.homeScore">Slot 9 Home Score</option>
-                  </optgroup>
-                  <optgroup label="Inning Slots (Away) - Auto-shifts for extra innings">
-                    <option value="inningSlots.0.awayScore">Slot 1 Away Score</option>
-                    <option value="inningSlots.1.awayScore">Slot 2 Away Score</option>
-                    <option value="inningSlots.2.awayScore">Slot 3 Away Score</option>
-                    <option value="inningSlots.3.awayScore">Slot 4 Away Score</option>
-                    <option value="inningSlots.4.awayScore">Slot 5 Away Score</option>
-                    <option value="inningSlots.5.awayScore">Slot 6 Away Score</option>
-                    <option value="inningSlots.6.awayScore">Slot 7 Away Score</option>
-                    <option value="inningSlots.7.awayScore">Slot 8 Away Score</option>
-                    <option value="inningSlots.8.awayScore">Slot 9 Away Score</option>
-                  </optgroup>
-                  <optgroup label="Inning Slot Numbers - Auto-shifts for extra innings">
-                    <option value="inningSlots.0.period">Slot 1 Inning #</option>
-                    <option value="inningSlots.1.period">Slot 2 Inning #</option>
-                    <option value="inningSlots.2.period">Slot 3 Inning #</option>
-                    <option value="inningSlots.3.period">Slot 4 Inning #</option>
-                    <option value="inningSlots.4.period">Slot 5 Inning #</option>
-                    <option value="inningSlots.5.period">Slot 6 Inning #</option>
-                    <option value="inningSlots.6.period">Slot 7 Inning #</option>
-                    <option value="inningSlots.7.period">Slot 8 Inning #</option>
-                    <option value="inningSlots.8.period">Slot 9 Inning #</option>
-                  </optgroup>
-                  <optgroup label="Wrestling">
-                    <option value="home_player_points">Home Player Score</option>
-                    <option value="away_player_points">Away Player Score</option>
-                    <option value="home_player_name">Home Player Name</option>
-                    <option value="away_player_name">Away Player Name</option>
-                  </optgroup>
-                  <optgroup label="Rugby">
-                    <option value="home_tries">Home Tries</option>
-                    <option value="away_tries">Away Tries</option>
-                    <option value="home_penalty_goals">Home Penalty Goals</option>
-                    <option value="away_penalty_goals">Away Penalty Goals</option>
-                    <option value="home_dropped_goals">Home Dropped Goals</option>
-                    <option value="away_dropped_goals">Away Dropped Goals</option>
-                    <option value="home_conversions">Home Conversions</option>
-                    <option value="away_conversions">Away Conversions</option>
-                  </optgroup>
-                  <optgroup label="Shots & Saves (Lacrosse/Hockey)">
-                    <option value="home_shots">Home Shots</option>
-                    <option value="away_shots">Away Shots</option>
-                    <option value="home_saves">Home Saves</option>
-                    <option value="away_saves">Away Saves</option>
-                  </optgroup>
-                  <optgroup label="Home Penalties (Lacrosse/Hockey)">
-                    <option value="penaltySlots.home.count">Home Penalty Count</option>
-                    <option value="penaltySlots.home.slot0.jersey">Home Penalty 1 - Jersey</option>
-                    <option value="penaltySlots.home.slot0.time">Home Penalty 1 - Time</option>
-                    <option value="penaltySlots.home.slot0.active">Home Penalty 1 - Active</option>
-                    <option value="penaltySlots.home.slot1.jersey">Home Penalty 2 - Jersey</option>
-                    <option value="penaltySlots.home.slot1.time">Home Penalty 2 - Time</option>
-                    <option value="penaltySlots.home.slot1.active">Home Penalty 2 - Active</option>
-                    <option value="penaltySlots.home.slot2.jersey">Home Penalty 3 - Jersey</option>
-                    <option value="penaltySlots.home.slot2.time">Home Penalty 3 - Time</option>
-                    <option value="penaltySlots.home.slot2.active">Home Penalty 3 - Active</option>
-                  </optgroup>
-                  <optgroup label="Away Penalties (Lacrosse/Hockey)">
-                    <option value="penaltySlots.away.count">Away Penalty Count</option>
-                    <option value="penaltySlots.away.slot0.jersey">Away Penalty 1 - Jersey</option>
-                    <option value="penaltySlots.away.slot0.time">Away Penalty 1 - Time</option>
-                    <option value="penaltySlots.away.slot0.active">Away Penalty 1 - Active</option>
-                    <option value="penaltySlots.away.slot1.jersey">Away Penalty 2 - Jersey</option>
-                    <option value="penaltySlots.away.slot1.time">Away Penalty 2 - Time</option>
-                    <option value="penaltySlots.away.slot1.active">Away Penalty 2 - Active</option>
-                    <option value="penaltySlots.away.slot2.jersey">Away Penalty 3 - Jersey</option>
-                    <option value="penaltySlots.away.slot2.time">Away Penalty 3 - Time</option>
-                    <option value="penaltySlots.away.slot2.active">Away Penalty 3 - Active</option>
-                  </optgroup>
-                  <optgroup label="Shootout (Soccer/Hockey/Water Polo)">
-                    <option value="home_shootout_made">Home Shootout Made</option>
-                    <option value="away_shootout_made">Away Shootout Made</option>
-                    <option value="shootoutSlots.0.round">Slot 1 Round #</option>
-                    <option value="shootoutSlots.1.round">Slot 2 Round #</option>
-                    <option value="shootoutSlots.2.round">Slot 3 Round #</option>
-                    <option value="shootoutSlots.3.round">Slot 4 Round #</option>
-                    <option value="shootoutSlots.4.round">Slot 5 Round #</option>
-                  </optgroup>
-                  <optgroup label="Leaderboard - Basketball (for Slot Templates)">
-                    <option value="jersey">Player Jersey</option>
-                    <option value="name">Player Name</option>
-                    <option value="points">Player Points</option>
-                    <option value="fouls">Player Fouls</option>
-                    <option value="isTopScorer">Is Top Scorer (boolean)</option>
-                    <option value="imageUrl">Player Image</option>
-                  </optgroup>
-                  <optgroup label="Leaderboard - Volleyball (for Slot Templates)">
-                    <option value="jersey">Player Jersey</option>
-                    <option value="name">Player Name</option>
-                    <option value="aces">Player Aces</option>
-                    <option value="kills">Player Kills</option>
-                    <option value="blocks">Player Blocks</option>
-                    <option value="imageUrl">Player Image</option>
-                  </optgroup>
-                  <optgroup label="Active Player (Current Slot 0)">
-                    <option value="currentPlayer.home.name">Home Active Player Name</option>
-                    <option value="currentPlayer.home.jersey">Home Active Player Jersey</option>
-                    <option value="currentPlayer.home.points">Home Active Player Points</option>
-                    <option value="currentPlayer.home.imageUrl">Home Active Player Image</option>
-                    <option value="currentPlayer.away.name">Away Active Player Name</option>
-                    <option value="currentPlayer.away.jersey">Away Active Player Jersey</option>
-                    <option value="currentPlayer.away.points">Away Active Player Points</option>
-                    <option value="currentPlayer.away.imageUrl">Away Active Player Image</option>
-                  </optgroup>
-                  <optgroup label="Sponsorship">
-                    <option value="user_sequences.banner">Banner Ads</option>
-                    <option value="user_sequences.timeout">Timeout Ads</option>
-                    <option value="user_sequences.halftime">Halftime Ads</option>
-                    <option value="user_sequences.period-break">Period Break Ads</option>
-                    <option value="user_sequences.pre-game">Pre-Game Ads</option>
-                    <option value="user_sequences.standby">Standby Ads</option>
-                    <option value="user_sequences.general">General Ads</option>
-                    <option value="user_sequences.wrapper-16x9">Wrapper 16x9</option>
-                    <option value="user_sequences.wrapper-4x3">Wrapper 4x3</option>
-                  </optgroup>
-                </select>
+                />
               </div>
 
               {isDragging ? (
@@ -2755,7 +2808,9 @@ function PropertyPanel({
                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '4px' }}>
                       <label>Background Color</label>
                       <button
-                        onClick={() => updateStateProps('backgroundColor', 'none')}
+                        onClick={() => updateComponentWithScrollPreservation(component.id, {
+                          props: withEditedProps(props => ({ ...props, backgroundColor: 'none', backgroundGradient: undefined }))
+                        })}
                         style={{
                           fontSize: '11px',
                           padding: '2px 8px',
@@ -2772,6 +2827,9 @@ function PropertyPanel({
                     <ColorPicker
                       value={getStateValue('backgroundColor', '#000000')}
                       onChange={(color) => updateStateProps('backgroundColor', color)}
+                      gradient={getStateValue('backgroundGradient')}
+                      onGradientChange={(gradient) => updateStateProps('backgroundGradient', gradient)}
+                      {...colorTokenProps('backgroundColor')}
                     />
                   </div>
                   <div className="property-field">
@@ -2779,6 +2837,7 @@ function PropertyPanel({
                       label="Text Color"
                       value={getStateValue('textColor', '#ffffff')}
                       onChange={(color) => updateStateProps('textColor', color)}
+                      {...colorTokenProps('textColor')}
                     />
                   </div>
                 </>
@@ -2822,79 +2881,20 @@ function PropertyPanel({
                 <small style={{ color: '#888', display: 'block', marginBottom: '4px' }}>
                   Control when this component is shown based on game data
                 </small>
-                <select
-                  value={component.props?.visibilityPath || ''}
-                  onChange={(e) => updateComponentWithScrollPreservation(component.id, {
+                <GameDataPathField
+                  key={`visibilityPath-${component.id}`}
+                  value={component.props?.visibilityPath}
+                  emptyLabel="Always Visible"
+                  layoutType={layout.name}
+                  booleanOnly
+                  previewData={gameData}
+                  onChange={(newPath) => updateComponentWithScrollPreservation(component.id, {
                     props: {
                       ...component.props,
-                      visibilityPath: e.target.value || undefined
+                      visibilityPath: newPath || undefined
                     }
                   })}
-                >
-                  <option value="">Always Visible</option>
-                  <optgroup label="Home Penalty State">
-                    <option value="penaltySlots.home.isState0">Home: 0 Penalties</option>
-                    <option value="penaltySlots.home.isState1">Home: 1 Penalty</option>
-                    <option value="penaltySlots.home.isState2">Home: 2 Penalties</option>
-                    <option value="penaltySlots.home.isState3">Home: 3 Penalties</option>
-                  </optgroup>
-                  <optgroup label="Away Penalty State">
-                    <option value="penaltySlots.away.isState0">Away: 0 Penalties</option>
-                    <option value="penaltySlots.away.isState1">Away: 1 Penalty</option>
-                    <option value="penaltySlots.away.isState2">Away: 2 Penalties</option>
-                    <option value="penaltySlots.away.isState3">Away: 3 Penalties</option>
-                  </optgroup>
-                  <optgroup label="Home Penalty Slot Active">
-                    <option value="penaltySlots.home.slot0.active">Home Penalty 1 Active</option>
-                    <option value="penaltySlots.home.slot1.active">Home Penalty 2 Active</option>
-                    <option value="penaltySlots.home.slot2.active">Home Penalty 3 Active</option>
-                  </optgroup>
-                  <optgroup label="Away Penalty Slot Active">
-                    <option value="penaltySlots.away.slot0.active">Away Penalty 1 Active</option>
-                    <option value="penaltySlots.away.slot1.active">Away Penalty 2 Active</option>
-                    <option value="penaltySlots.away.slot2.active">Away Penalty 3 Active</option>
-                  </optgroup>
-                  <optgroup label="Leaderboard Slot Template">
-                    <option value="isTopScorer">Is Top Scorer</option>
-                    <option value="active">Slot Active</option>
-                  </optgroup>
-                  <optgroup label="Team State">
-                    <option value="homeTeam.possession">Home Has Possession</option>
-                    <option value="awayTeam.possession">Away Has Possession</option>
-                    <option value="homeTeam.bonus">Home In Bonus</option>
-                    <option value="awayTeam.bonus">Away In Bonus</option>
-                  </optgroup>
-                  <optgroup label="Baseball Diamond">
-                    <option value="firstBase">First Base Occupied</option>
-                    <option value="secondBase">Second Base Occupied</option>
-                    <option value="thirdBase">Third Base Occupied</option>
-                  </optgroup>
-                  <optgroup label="Baseball Inning State">
-                    <option value="inningSlots.0.isCurrentInning">Slot 1 Is Current Inning</option>
-                    <option value="inningSlots.1.isCurrentInning">Slot 2 Is Current Inning</option>
-                    <option value="inningSlots.2.isCurrentInning">Slot 3 Is Current Inning</option>
-                    <option value="inningSlots.3.isCurrentInning">Slot 4 Is Current Inning</option>
-                    <option value="inningSlots.4.isCurrentInning">Slot 5 Is Current Inning</option>
-                    <option value="inningSlots.5.isCurrentInning">Slot 6 Is Current Inning</option>
-                    <option value="inningSlots.6.isCurrentInning">Slot 7 Is Current Inning</option>
-                    <option value="inningSlots.7.isCurrentInning">Slot 8 Is Current Inning</option>
-                    <option value="inningSlots.8.isCurrentInning">Slot 9 Is Current Inning</option>
-                  </optgroup>
-                  <optgroup label="Shootout Slots - Home Active">
-                    <option value="shootoutSlots.0.homeActive">Slot 1 Home Active</option>
-                    <option value="shootoutSlots.1.homeActive">Slot 2 Home Active</option>
-                    <option value="shootoutSlots.2.homeActive">Slot 3 Home Active</option>
-                    <option value="shootoutSlots.3.homeActive">Slot 4 Home Active</option>
-                    <option value="shootoutSlots.4.homeActive">Slot 5 Home Active</option>
-                  </optgroup>
-                  <optgroup label="Shootout Slots - Away Active">
-                    <option value="shootoutSlots.0.awayActive">Slot 1 Away Active</option>
-                    <option value="shootoutSlots.1.awayActive">Slot 2 Away Active</option>
-                    <option value="shootoutSlots.2.awayActive">Slot 3 Away Active</option>
-                    <option value="shootoutSlots.3.awayActive">Slot 4 Away Active</option>
-                    <option value="shootoutSlots.4.awayActive">Slot 5 Away Active</option>
-                  </optgroup>
-                </select>
+                />
               </div>
             </PropertySection>
 
@@ -2956,7 +2956,7 @@ function PropertyPanel({
                 <label>Image URL</label>
                 <input
                   type="url"
-                  key={`imageUrl-${editingState}-${component?.id}`}
+                  key={`imageUrl-${editingRuleId}-${component?.id}`}
                   defaultValue={getStateValue('imageUrl', '')}
                   placeholder="Leave empty for local image"
                   onChange={(e) => handleStatePropsChange('imageUrl', e.target.value)}
@@ -3174,7 +3174,7 @@ function PropertyPanel({
                 <div className="property-field">
                   <label>Border Width (px)</label>
                   <input
-                    key={`borderWidth-${editingState}-${component?.id}`}
+                    key={`borderWidth-${editingRuleId}-${component?.id}`}
                     type="number"
                     min="0"
                     max="20"
@@ -3191,10 +3191,11 @@ function PropertyPanel({
                 ) : (
                   <div className="property-field">
                     <ColorPicker
-                      key={`borderColor-${editingState}-${component?.id}`}
+                      key={`borderColor-${editingRuleId}-${component?.id}`}
                       label="Border Color"
                       value={getStateValue('borderColor', '#ffffff')}
                       onChange={(color) => updateStateProps('borderColor', color)}
+                      {...colorTokenProps('borderColor')}
                     />
                   </div>
                 )}
@@ -3277,7 +3278,7 @@ function PropertyPanel({
                       -10
                     </button>
                     <input
-                      key={`paddingTop-${editingState}-${component?.id}`}
+                      key={`paddingTop-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('paddingTop', 0)}
                       min="0"
@@ -3303,7 +3304,7 @@ function PropertyPanel({
                       -10
                     </button>
                     <input
-                      key={`paddingRight-${editingState}-${component?.id}`}
+                      key={`paddingRight-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('paddingRight', 0)}
                       min="0"
@@ -3329,7 +3330,7 @@ function PropertyPanel({
                       -10
                     </button>
                     <input
-                      key={`paddingBottom-${editingState}-${component?.id}`}
+                      key={`paddingBottom-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('paddingBottom', 0)}
                       min="0"
@@ -3355,7 +3356,7 @@ function PropertyPanel({
                       -10
                     </button>
                     <input
-                      key={`paddingLeft-${editingState}-${component?.id}`}
+                      key={`paddingLeft-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('paddingLeft', 0)}
                       min="0"
@@ -3388,7 +3389,7 @@ function PropertyPanel({
                       -5
                     </button>
                     <input
-                      key={`borderTopLeftRadius-${editingState}-${component?.id}`}
+                      key={`borderTopLeftRadius-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('borderTopLeftRadius', 0)}
                       min="0"
@@ -3421,7 +3422,7 @@ function PropertyPanel({
                       -5
                     </button>
                     <input
-                      key={`borderTopRightRadius-${editingState}-${component?.id}`}
+                      key={`borderTopRightRadius-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('borderTopRightRadius', 0)}
                       min="0"
@@ -3454,7 +3455,7 @@ function PropertyPanel({
                       -5
                     </button>
                     <input
-                      key={`borderBottomLeftRadius-${editingState}-${component?.id}`}
+                      key={`borderBottomLeftRadius-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('borderBottomLeftRadius', 0)}
                       min="0"
@@ -3487,7 +3488,7 @@ function PropertyPanel({
                       -5
                     </button>
                     <input
-                      key={`borderBottomRightRadius-${editingState}-${component?.id}`}
+                      key={`borderBottomRightRadius-${editingRuleId}-${component?.id}`}
                       type="number"
                       defaultValue={getStateValue('borderBottomRightRadius', 0)}
                       min="0"
@@ -3512,6 +3513,17 @@ function PropertyPanel({
           </>
         )}
 
+        {ANIMATED_COMPONENT_TYPES.includes(component.type) && (
+          <PropertySection title="ANIMATIONS" sectionKey="animations">
+            <AnimationsEditor
+              animations={component.animations || []}
+              onChange={(animations) => updateComponentWithScrollPreservation(component.id, {
+                animations: animations.length ? animations : undefined
+              })}
+            />
+          </PropertySection>
+        )}
+
         {component.type === 'dynamicList' && (
           <>
             {/* DYNAMIC LIST SECTION */}
@@ -3651,7 +3663,7 @@ function PropertyPanel({
                 <select
                   value={component.props?.direction || 'horizontal'}
                   onChange={(e) => updateComponentWithScrollPreservation(component.id, {
-                    props: { ...component.props, direction: e.target.value }
+                    props: { ...component.props, direction: e.target.value as DynamicListComponentProps['direction'] }
                   })}
                 >
                   <option value="horizontal">Horizontal</option>
@@ -3664,7 +3676,7 @@ function PropertyPanel({
                 <select
                   value={component.props?.itemAlignment || 'start'}
                   onChange={(e) => updateComponentWithScrollPreservation(component.id, {
-                    props: { ...component.props, itemAlignment: e.target.value }
+                    props: { ...component.props, itemAlignment: e.target.value as DynamicListComponentProps['itemAlignment'] }
                   })}
                 >
                   <option value="start">Start (Left/Top)</option>
@@ -3963,7 +3975,7 @@ function PropertyPanel({
                 <select
                   value={component.props?.team || 'home'}
                   onChange={(e) => updateComponentWithScrollPreservation(component.id, {
-                    props: { ...component.props, team: e.target.value }
+                    props: { ...component.props, team: e.target.value as SlotListComponentProps['team'] }
                   })}
                 >
                   <option value="home">Home Team</option>
@@ -4304,60 +4316,17 @@ function PropertyPanel({
                 <small style={{ color: '#888', display: 'block', marginBottom: '4px' }}>
                   Show/hide all children based on a data value
                 </small>
-                <select
-                  value={component.props?.visibilityPath || ''}
-                  onChange={(e) => updateComponentWithScrollPreservation(component.id, {
-                    props: { ...component.props, visibilityPath: e.target.value || undefined }
+                <GameDataPathField
+                  key={`visibilityPath-${component.id}`}
+                  value={component.props?.visibilityPath}
+                  emptyLabel="Always Visible"
+                  layoutType={layout.name}
+                  booleanOnly
+                  previewData={gameData}
+                  onChange={(newPath) => updateComponentWithScrollPreservation(component.id, {
+                    props: { ...component.props, visibilityPath: newPath || undefined }
                   })}
-                >
-                  <option value="">Always Visible</option>
-                  <optgroup label="Home Penalty State">
-                    <option value="penaltySlots.home.isState0">Home: 0 Penalties</option>
-                    <option value="penaltySlots.home.isState1">Home: 1 Penalty</option>
-                    <option value="penaltySlots.home.isState2">Home: 2 Penalties</option>
-                    <option value="penaltySlots.home.isState3">Home: 3 Penalties</option>
-                  </optgroup>
-                  <optgroup label="Away Penalty State">
-                    <option value="penaltySlots.away.isState0">Away: 0 Penalties</option>
-                    <option value="penaltySlots.away.isState1">Away: 1 Penalty</option>
-                    <option value="penaltySlots.away.isState2">Away: 2 Penalties</option>
-                    <option value="penaltySlots.away.isState3">Away: 3 Penalties</option>
-                  </optgroup>
-                  <optgroup label="Home Penalty Slot Active">
-                    <option value="penaltySlots.home.slot0.active">Home Penalty 1 Active</option>
-                    <option value="penaltySlots.home.slot1.active">Home Penalty 2 Active</option>
-                    <option value="penaltySlots.home.slot2.active">Home Penalty 3 Active</option>
-                  </optgroup>
-                  <optgroup label="Away Penalty Slot Active">
-                    <option value="penaltySlots.away.slot0.active">Away Penalty 1 Active</option>
-                    <option value="penaltySlots.away.slot1.active">Away Penalty 2 Active</option>
-                    <option value="penaltySlots.away.slot2.active">Away Penalty 3 Active</option>
-                  </optgroup>
-                  <optgroup label="Leaderboard Slot Template">
-                    <option value="isTopScorer">Is Top Scorer</option>
-                    <option value="active">Slot Active</option>
-                  </optgroup>
-                  <optgroup label="Team State">
-                    <option value="homeTeam.possession">Home Has Possession</option>
-                    <option value="awayTeam.possession">Away Has Possession</option>
-                    <option value="homeTeam.bonus">Home In Bonus</option>
-                    <option value="awayTeam.bonus">Away In Bonus</option>
-                  </optgroup>
-                  <optgroup label="Shootout Slots - Home Active">
-                    <option value="shootoutSlots.0.homeActive">Slot 1 Home Active</option>
-                    <option value="shootoutSlots.1.homeActive">Slot 2 Home Active</option>
-                    <option value="shootoutSlots.2.homeActive">Slot 3 Home Active</option>
-                    <option value="shootoutSlots.3.homeActive">Slot 4 Home Active</option>
-                    <option value="shootoutSlots.4.homeActive">Slot 5 Home Active</option>
-                  </optgroup>
-                  <optgroup label="Shootout Slots - Away Active">
-                    <option value="shootoutSlots.0.awayActive">Slot 1 Away Active</option>
-                    <option value="shootoutSlots.1.awayActive">Slot 2 Away Active</option>
-                    <option value="shootoutSlots.2.awayActive">Slot 3 Away Active</option>
-                    <option value="shootoutSlots.3.awayActive">Slot 4 Away Active</option>
-                    <option value="shootoutSlots.4.awayActive">Slot 5 Away Active</option>
-                  </optgroup>
-                </select>
+                />
               </div>
             </PropertySection>
           </>
@@ -0,0 +1,52 @@
+import { LayoutScene, LAYOUT_TYPES } from '../types';
+import { MAIN_SCENE_ID } from '../utils/scenes';
+import './SceneTabs.css';
+
+interface SceneTabsProps {
+  scenes: LayoutScene[];
+  activeSceneId: string;
+  onSwitchScene: (sceneId: string) => void;
+  onAddScene: () => void;
+  onRemoveScene: (sceneId: string) => void;
+}
+
+// Human-readable label for a scene's layout type
+const getSceneLabel = (name: string) => LAYOUT_TYPES.find(type => type.value === name)?.label || name || 'Untitled';
+
+// Tab strip above the canvas for switching between the scenes of a layout document
+function SceneTabs({ scenes, activeSceneId, onSwitchScene, onAddScene, onRemoveScene }: SceneTabsProps) {
+  return (
+    <div className="scene-tabs" role="tablist" aria-label="Scenes">
+      <span className="scene-tabs-label">Scenes</span>
+      {scenes.map(scene => (
+        <div
+          key={scene.id}
+          className={`scene-tab ${scene.id === activeSceneId ? 'active' : ''}`}
+          role="tab"
+          aria-selected={scene.id === activeSceneId}
+          onClick={() => onSwitchScene(scene.id)}
+          title={`Layout type: ${scene.name || '(none)'}`}
+        >
+          {getSceneLabel(scene.name)}
+          {scene.id !== MAIN_SCENE_ID && (
+            <button
+              className="scene-tab-remove"
+              aria-label={`Remove ${getSceneLabel(scene.name)} scene`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemoveScene(scene.id);
+              }}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      <button className="scene-tab-add" onClick={onAddScene} title="Add a scene that can share components with the others">
+        + Scene
+      </button>
+    </div>
+  );
+}
+
+export default SceneTabs;
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { StyleRule } from '../types';
+import { getDataExpressionError } from '../shared/components/customDataDisplay/dataExpressions';
+import { withoutTokenBinding } from '../utils/designTokens';
+import './StyleRulesEditor.css';
+
+interface StyleRulesEditorProps {
+  rules: StyleRule[];
+  // Rule whose overrides the property controls currently edit (null = base style)
+  editingRuleId: string | null;
+  // Rule that matches the preview game data (null = none, the base style shows)
+  activeRuleId: string | null;
+  onChange: (rules: StyleRule[]) => void;
+  onEditRule: (ruleId: string | null) => void;
+}
+
+// Text input that commits on blur/Enter
+function RuleTextInput({
+  value,
+  placeholder,
+  className,
+  onCommit,
+}: {
+  value: string;
+  placeholder?: string;
+  className?: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      className={className}
+      value={draft}
+      placeholder={placeholder}
+      spellCheck={false}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+    />
+  );
+}
+
+function StyleRulesEditor({ rules, editingRuleId, activeRuleId, onChange, onEditRule }: StyleRulesEditorProps) {
+  const updateRule = (ruleId: string, updates: Partial<StyleRule>) => {
+    onChange(rules.map(rule => (rule.id === ruleId ? { ...rule, ...updates } : rule)));
+  };
+
+  const addRule = () => {
+    const rule: StyleRule = { id: `rule_${crypto.randomUUID()}`, name: `Rule ${rules.length + 1}`, when: '', set: {} };
+    onChange([...rules, rule]);
+    onEditRule(rule.id);
+  };
+
+  const removeRule = (ruleId: string) => {
+    onChange(rules.filter(rule => rule.id !== ruleId));
+    if (editingRuleId === ruleId) onEditRule(null);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeOverride = (rule: StyleRule, propName: string) => {
+    const { [propName]: _removed, ...set } = rule.set as Record<string, any>;
+    updateRule(rule.id, { set: { ...set, tokenBindings: withoutTokenBinding(set.tokenBindings, propName) } });
+  };
+
+  return (
+    <div className="style-rules-editor">
+      <div className="style-rules-hint">
+        Rules are checked top to bottom; the first one whose condition is true applies its overrides.
+      </div>
+
+      <div
+        className={`style-rule-base ${editingRuleId === null ? 'editing' : ''}`}
+        onClick={() => onEditRule(null)}
+      >
+        <span>Base style</span>
+        {activeRuleId === null && <span className="style-rule-active-badge">active</span>}
+      </div>
+
+      {rules.map((rule, index) => {
+        const error = rule.when.trim() ? getDataExpressionError(rule.when.trim()) : null;
+        const overrides = Object.keys(rule.set).filter(key => key !== 'tokenBindings');
+        return (
+          <div key={rule.id} className={`style-rule ${editingRuleId === rule.id ? 'editing' : ''}`}>
+            <div className="style-rule-header">
+              <span className="style-rule-index">{index + 1}</span>
+              <RuleTextInput
+                className="style-rule-name"
+                value={rule.name || ''}
+                placeholder="Rule name"
+                onCommit={(name) => updateRule(rule.id, { name: name.trim() || undefined })}
+              />
+              {activeRuleId === rule.id && <span className="style-rule-active-badge">active</span>}
+              <button className="style-rule-button" title="Move up" disabled={index === 0} onClick={() => moveRule(index, -1)}>↑</button>
+              <button className="style-rule-button" title="Move down" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>↓</button>
+              <button className="style-rule-button" title="Delete rule" onClick={() => removeRule(rule.id)}>×</button>
+            </div>
+
+            <label className="style-rule-label">When</label>
+            <RuleTextInput
+              className={`style-rule-condition ${error ? 'invalid' : ''}`}
+              value={rule.when}
+              placeholder="e.g. homeTeam.fouls >= 7"
+              onCommit={(when) => updateRule(rule.id, { when: when.trim() })}
+            />
+            {error && <div className="style-rule-error">{error}</div>}
+            {!rule.when.trim() && <div className="style-rule-warning">No condition - this rule never applies</div>}
+
+            <div className="style-rule-overrides">
+              {overrides.length === 0 && <span className="style-rule-empty">No overrides yet</span>}
+              {overrides.map(propName => (
+                <span key={propName} className="style-rule-override">
+                  {propName}
+                  <button title={`Remove ${propName} override`} onClick={() => removeOverride(rule, propName)}>×</button>
+                </span>
+              ))}
+            </div>
+
+            <button
+              className={`style-rule-edit-button ${editingRuleId === rule.id ? 'editing' : ''}`}
+              onClick={() => onEditRule(editingRuleId === rule.id ? null : rule.id)}
+            >
+              {editingRuleId === rule.id ? 'Done editing overrides' : 'Edit overrides'}
+            </button>
+          </div>
+        );
+      })}
+
+      <button className="style-rule-add-button" onClick={addRule}>+ Add rule</button>
+    </div>
+  );
+}
+
+export default StyleRulesEditor;
@@ -0,0 +1,460 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ComponentConfig, LayoutConfig, LayoutTimeline, TimelineKeyframe, TimelineTrack } from '../types';
+import {
+  TIMELINE_PROPERTIES,
+  TimelineProperty,
+  DEFAULT_KEYFRAME_EASING,
+  getTrackValues,
+  sortKeyframes,
+} from '../shared/timeline';
+import { ANIMATION_EASINGS } from '../shared/components/customDataDisplay/animations';
+import './TimelinePanel.css';
+
+interface TimelinePanelProps {
+  // The active scene's layout; its timeline is the one being edited
+  layout: LayoutConfig;
+  selectedComponents: string[];
+  onSelectComponents: (ids: string[]) => void;
+  // Playhead in ms; null = canvas shows the static layout
+  time: number | null;
+  onTimeChange: (time: number | null) => void;
+  onUpdateTimeline: (timeline: LayoutTimeline | undefined, description: string) => void;
+}
+
+const DEFAULT_DURATION = 3000;
+const TIME_SNAP = 50; // Keyframe drags and scrubbing snap to this many ms (hold Shift for 1ms)
+
+const PROPERTY_LABELS: Record<TimelineProperty, string> = {
+  x: 'X',
+  y: 'Y',
+  width: 'W',
+  height: 'H',
+  opacity: 'Opacity',
+  scale: 'Scale',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+
+const snapTime = (ms: number, precise: boolean) => (precise ? Math.round(ms) : Math.round(ms / TIME_SNAP) * TIME_SNAP);
+
+const getComponentLabel = (component: ComponentConfig) => component.displayName || component.type;
+
+// Number input that commits on blur/Enter; empty clears the value
+function KeyframeNumberInput({
+  value,
+  step,
+  onCommit,
+}: {
+  value: number | undefined;
+  step?: number;
+  onCommit: (value: number | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      className="timeline-input"
+      value={draft}
+      step={step}
+      placeholder="-"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const parsed = draft.trim() === '' ? undefined : Number(draft);
+        if (parsed !== undefined && !Number.isFinite(parsed)) {
+          setDraft(value === undefined ? '' : String(value));
+          return;
+        }
+        if (parsed !== value) onCommit(parsed);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+    />
+  );
+}
+
+// Keyframe timeline under the canvas: one row per animated component, scrubbing and playback
+function TimelinePanel({
+  layout,
+  selectedComponents,
+  onSelectComponents,
+  time,
+  onTimeChange,
+  onUpdateTimeline,
+}: TimelinePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [selectedKeyframe, setSelectedKeyframe] = useState<{ componentId: string; keyframeId: string } | null>(null);
+  // Keyframe being dragged along its row (committed on mouse up)
+  const [draggedKeyframe, setDraggedKeyframe] = useState<{ componentId: string; keyframeId: string; time: number } | null>(null);
+  const rulerRef = useRef<HTMLDivElement>(null);
+
+  const timeline = layout.timeline;
+  const duration = timeline?.duration ?? DEFAULT_DURATION;
+  const tracks = timeline?.tracks || [];
+  const playhead = time ?? 0;
+
+  const componentsById = new Map(layout.components.map(component => [component.id, component]));
+
+  // Tracked components first, then selected components that don't have a track yet
+  const rowIds = [
+    ...tracks.map(track => track.componentId).filter(id => componentsById.has(id)),
+    ...selectedComponents.filter(id => componentsById.has(id) && !tracks.some(track => track.componentId === id)),
+  ];
+
+  // Playback
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId: number;
+    let last: number | null = null;
+    let current = time ?? 0;
+    if (current >= duration) current = 0;
+
+    const tick = (timestamp: number) => {
+      if (last !== null) current += timestamp - last;
+      last = timestamp;
+      if (current >= duration) {
+        if (timeline?.loop) {
+          current %= duration;
+        } else {
+          onTimeChange(duration);
+          setIsPlaying(false);
+          return;
+        }
+      }
+      onTimeChange(current);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+    // Restart only when playback is toggled; the loop owns the playhead while running
+  }, [isPlaying]);
+
+  // Forget a selected keyframe that no longer exists (undo, scene switch)
+  useEffect(() => {
+    if (selectedKeyframe && !findKeyframe(selectedKeyframe.componentId, selectedKeyframe.keyframeId)) {
+      setSelectedKeyframe(null);
+    }
+  });
+
+  function findKeyframe(componentId: string, keyframeId: string): TimelineKeyframe | undefined {
+    return tracks.find(track => track.componentId === componentId)?.keyframes.find(keyframe => keyframe.id === keyframeId);
+  }
+
+  const commitTracks = (nextTracks: TimelineTrack[], description: string) => {
+    const nonEmpty = nextTracks.filter(track => track.keyframes.length > 0);
+    onUpdateTimeline(
+      nonEmpty.length > 0 ? { duration, ...(timeline?.loop && { loop: true }), tracks: nonEmpty } : undefined,
+      description
+    );
+  };
+
+  const updateKeyframe = (componentId: string, keyframeId: string, updates: Partial<TimelineKeyframe>, description: string) => {
+    commitTracks(
+      tracks.map(track => track.componentId !== componentId ? track : {
+        ...track,
+        keyframes: sortKeyframes(track.keyframes.map(keyframe => keyframe.id === keyframeId ? { ...keyframe, ...updates } : keyframe)),
+      }),
+      description
+    );
+  };
+
+  const deleteKeyframe = (componentId: string, keyframeId: string) => {
+    commitTracks(
+      tracks.map(track => track.componentId !== componentId ? track : {
+        ...track,
+        keyframes: track.keyframes.filter(keyframe => keyframe.id !== keyframeId),
+      }),
+      'Delete keyframe'
+    );
+    setSelectedKeyframe(null);
+  };
+
+  // Key every property of the selected components at the playhead, using what the canvas shows there
+  const addKeyframes = () => {
+    const ids = selectedComponents.filter(id => componentsById.has(id));
+    if (ids.length === 0) return;
+    const keyTime = Math.round(playhead);
+    let nextTracks = [...tracks];
+    let lastAdded: { componentId: string; keyframeId: string } | null = null;
+
+    ids.forEach(componentId => {
+      const component = componentsById.get(componentId)!;
+      const track = nextTracks.find(t => t.componentId === componentId);
+      const values = track ? getTrackValues(component, track, keyTime) : {
+        x: component.position.x,
+        y: component.position.y,
+        width: component.size.width,
+        height: component.size.height,
+        opacity: 1,
+        scale: 1,
+      };
+      const rounded = Object.fromEntries(
+        TIMELINE_PROPERTIES.map(property => [property, Math.round(values[property] * 100) / 100])
+      );
+      const existing = track?.keyframes.find(keyframe => Math.abs(keyframe.time - keyTime) < 1);
+      const keyframe: TimelineKeyframe = { id: existing?.id || `kf_${crypto.randomUUID()}`, time: keyTime, ...rounded };
+      const keyframes = sortKeyframes([...(track?.keyframes || []).filter(k => k.id !== keyframe.id), { ...existing, ...keyframe }]);
+      nextTracks = track
+        ? nextTracks.map(t => t.componentId === componentId ? { ...t, keyframes } : t)
+        : [...nextTracks, { componentId, keyframes }];
+      lastAdded = { componentId, keyframeId: keyframe.id };
+    });
+
+    commitTracks(nextTracks, ids.length === 1 ? 'Add keyframe' : `Add ${ids.length} keyframes`);
+    setSelectedKeyframe(lastAdded);
+    onTimeChange(keyTime);
+  };
+
+  const setTimelineOptions = (updates: Partial<LayoutTimeline>, description: string) => {
+    onUpdateTimeline({ duration, tracks, ...(timeline?.loop && { loop: true }), ...updates }, description);
+  };
+
+  // Time under the mouse, from the ruler's geometry (rows share its width)
+  const timeAtClientX = (clientX: number, precise: boolean) => {
+    const rect = rulerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.min(duration, snapTime(ratio * duration, precise));
+  };
+
+  const startScrub = (e: React.MouseEvent) => {
+    setIsPlaying(false);
+    onTimeChange(timeAtClientX(e.clientX, e.shiftKey));
+    const handleMove = (moveEvent: MouseEvent) => onTimeChange(timeAtClientX(moveEvent.clientX, moveEvent.shiftKey));
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const startKeyframeDrag = (e: React.MouseEvent, componentId: string, keyframe: TimelineKeyframe) => {
+    e.stopPropagation();
+    setIsPlaying(false);
+    setSelectedKeyframe({ componentId, keyframeId: keyframe.id });
+    onSelectComponents([componentId]);
+    onTimeChange(keyframe.time);
+
+    let dragTime = keyframe.time;
+    const handleMove = (moveEvent: MouseEvent) => {
+      dragTime = timeAtClientX(moveEvent.clientX, moveEvent.shiftKey);
+      setDraggedKeyframe({ componentId, keyframeId: keyframe.id, time: dragTime });
+      onTimeChange(dragTime);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setDraggedKeyframe(null);
+      if (dragTime !== keyframe.time) {
+        updateKeyframe(componentId, keyframe.id, { time: dragTime }, 'Move keyframe');
+      }
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const rulerTicks: number[] = [];
+  const tickStep = duration > 10000 ? 1000 : 500;
+  for (let t = 0; t <= duration; t += tickStep) rulerTicks.push(t);
+
+  const percent = (ms: number) => `${Math.min(100, Math.max(0, (ms / duration) * 100))}%`;
+  const activeKeyframe = selectedKeyframe && findKeyframe(selectedKeyframe.componentId, selectedKeyframe.keyframeId);
+
+  return (
+    <div className={`timeline-panel ${isOpen ? 'open' : ''}`}>
+      <div className="timeline-toolbar">
+        <button className="timeline-toggle" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? '▼' : '▶'} Timeline
+        </button>
+        <button
+          className="timeline-button"
+          title={isPlaying ? 'Pause' : 'Play'}
+          onClick={() => {
+            if (time === null) onTimeChange(0);
+            setIsPlaying(!isPlaying);
+          }}
+        >
+          {isPlaying ? '⏸' : '▶'}
+        </button>
+        <button
+          className="timeline-button"
+          title="Back to start"
+          onClick={() => {
+            setIsPlaying(false);
+            onTimeChange(0);
+          }}
+        >
+          ⏮
+        </button>
+        <span className="timeline-time">
+          {time === null ? '--' : formatSeconds(playhead)} / {formatSeconds(duration)}
+        </span>
+        {time !== null && (
+          <button
+            className="timeline-button"
+            title="Show the static layout again"
+            onClick={() => {
+              setIsPlaying(false);
+              onTimeChange(null);
+            }}
+          >
+            Exit preview
+          </button>
+        )}
+        <span className="timeline-spacer" />
+        <label className="timeline-option">
+          Duration
+          <KeyframeNumberInput
+            value={duration / 1000}
+            step={0.5}
+            onCommit={(seconds) => {
+              if (seconds === undefined || seconds <= 0) return;
+              setTimelineOptions({ duration: Math.round(seconds * 1000) }, 'Change timeline duration');
+            }}
+          />
+          s
+        </label>
+        <label className="timeline-option">
+          <input
+            type="checkbox"
+            checked={!!timeline?.loop}
+            disabled={!timeline}
+            onChange={(e) => setTimelineOptions({ loop: e.target.checked || undefined }, 'Toggle timeline loop')}
+          />
+          Loop
+        </label>
+        <button
+          className="timeline-button"
+          disabled={selectedComponents.length === 0}
+          title="Key position, size, opacity and scale of the selected components at the playhead"
+          onClick={addKeyframes}
+        >
+          ◆ Add keyframe
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="timeline-body">
+          <div className="timeline-rows">
+            <div className="timeline-row timeline-ruler-row">
+              <div className="timeline-row-label" />
+              <div ref={rulerRef} className="timeline-ruler" onMouseDown={startScrub}>
+                {rulerTicks.map(tick => (
+                  <span key={tick} className="timeline-tick" style={{ left: percent(tick) }}>
+                    {tick % 1000 === 0 ? `${tick / 1000}s` : ''}
+                  </span>
+                ))}
+                {time !== null && <div className="timeline-playhead" style={{ left: percent(playhead) }} />}
+              </div>
+            </div>
+
+            {rowIds.length === 0 && (
+              <div className="timeline-empty">
+                Select a component and press "Add keyframe" to start animating it.
+              </div>
+            )}
+
+            {rowIds.map(componentId => {
+              const component = componentsById.get(componentId)!;
+              const track = tracks.find(t => t.componentId === componentId);
+              return (
+                <div
+                  key={componentId}
+                  className={`timeline-row ${selectedComponents.includes(componentId) ? 'selected' : ''}`}
+                >
+                  <div className="timeline-row-label" onClick={() => onSelectComponents([componentId])}>
+                    {getComponentLabel(component)}
+                  </div>
+                  <div className="timeline-lane" onMouseDown={startScrub}>
+                    {track?.keyframes.map(keyframe => {
+                      const keyTime = draggedKeyframe?.keyframeId === keyframe.id ? draggedKeyframe.time : keyframe.time;
+                      const isSelected = selectedKeyframe?.keyframeId === keyframe.id;
+                      return (
+                        <span
+                          key={keyframe.id}
+                          className={`timeline-keyframe ${isSelected ? 'selected' : ''}`}
+                          style={{ left: percent(keyTime) }}
+                          title={`${formatSeconds(keyTime)} (drag to move, Shift for 1ms steps)`}
+                          onMouseDown={(e) => startKeyframeDrag(e, componentId, keyframe)}
+                        />
+                      );
+                    })}
+                    {time !== null && <div className="timeline-playhead" style={{ left: percent(playhead) }} />}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {activeKeyframe && selectedKeyframe && (
+            <div className="timeline-inspector">
+              <div className="timeline-inspector-title">
+                {getComponentLabel(componentsById.get(selectedKeyframe.componentId)!)} keyframe
+              </div>
+              <label className="timeline-field">
+                Time (ms)
+                <KeyframeNumberInput
+                  value={activeKeyframe.time}
+                  step={TIME_SNAP}
+                  onCommit={(value) => {
+                    if (value === undefined) return;
+                    const keyTime = Math.min(duration, Math.max(0, Math.round(value)));
+                    updateKeyframe(selectedKeyframe.componentId, activeKeyframe.id, { time: keyTime }, 'Move keyframe');
+                    onTimeChange(keyTime);
+                  }}
+                />
+              </label>
+              {TIMELINE_PROPERTIES.map(property => (
+                <label key={property} className="timeline-field">
+                  {PROPERTY_LABELS[property]}
+                  <KeyframeNumberInput
+                    value={activeKeyframe[property]}
+                    step={property === 'opacity' || property === 'scale' ? 0.1 : 1}
+                    onCommit={(value) => updateKeyframe(
+                      selectedKeyframe.componentId,
+                      activeKeyframe.id,
+                      { [property]: value },
+                      `Edit keyframe ${PROPERTY_LABELS[property].toLowerCase()}`
+                    )}
+                  />
+                </label>
+              ))}
+              <label className="timeline-field">
+                Easing in
+                <select
+                  value={activeKeyframe.easing || DEFAULT_KEYFRAME_EASING}
+                  onChange={(e) => updateKeyframe(
+                    selectedKeyframe.componentId,
+                    activeKeyframe.id,
+                    { easing: e.target.value as TimelineKeyframe['easing'] },
+                    'Edit keyframe easing'
+                  )}
+                >
+                  {ANIMATION_EASINGS.map(easing => (
+                    <option key={easing} value={easing}>{easing}</option>
+                  ))}
+                </select>
+              </label>
+              <div className="timeline-inspector-hint">Empty fields aren't keyed here.</div>
+              <button
+                className="timeline-button danger"
+                onClick={() => deleteKeyframe(selectedKeyframe.componentId, activeKeyframe.id)}
+              >
+                Delete keyframe
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TimelinePanel;
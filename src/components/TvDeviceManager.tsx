@@ -0,0 +1,424 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LayoutConfig, LAYOUT_TYPES } from '../types';
+import {
+  TvDevice,
+  TvDeviceInput,
+  TvDeviceHealth,
+  DEFAULT_TV_DEVICE,
+  loadTvDevices,
+  saveTvDevice,
+  deleteTvDevice,
+  recordTvSend,
+  pingTvDevice,
+  getTvDeviceUrl,
+  getDeviceSceneLayout,
+  formatLayoutVersion,
+} from '../utils/tvDevices';
+import { transferLayoutToTv, sha256Hex, TvTransferProgress } from '../utils/tvTransfer';
+import { buildTvPayload, checkTvPayload } from '../utils/tvPayload';
+import { findExportLintErrors } from '../utils/tvExport';
+import { getScenes } from '../utils/scenes';
+import TvLayoutCompare from './TvLayoutCompare';
+import { useToast } from './Toast';
+import './TvDeviceManager.css';
+
+interface TvDeviceManagerProps {
+  layout: LayoutConfig;
+  onClose: () => void;
+  watchingId: string | null; // Device in watch mode, if any
+  onWatch: (device: TvDevice | null) => void;
+}
+
+interface SendState {
+  progress?: TvTransferProgress;
+  error?: string;
+  sent?: boolean;
+}
+
+// Device form state; numbers stay strings while typing
+type DeviceForm = Record<keyof TvDeviceInput, string>;
+
+const toForm = (input: TvDeviceInput): DeviceForm => ({
+  name: input.name,
+  address: input.address,
+  port: String(input.port),
+  width: String(input.width),
+  height: String(input.height),
+  layoutType: input.layoutType,
+});
+
+const fromForm = (form: DeviceForm): TvDeviceInput => ({
+  name: form.name,
+  address: form.address,
+  port: Number(form.port),
+  width: Number(form.width),
+  height: Number(form.height),
+  layoutType: form.layoutType,
+});
+
+const getLayoutTypeLabel = (value: string) =>
+  value ? LAYOUT_TYPES.find(type => type.value === value)?.label || value : 'Scene being edited';
+
+const describeProgress = ({ phase, sentBytes, totalBytes }: TvTransferProgress) => {
+  if (phase === 'preparing') return 'Preparing...';
+  if (phase === 'verifying') return 'Verifying...';
+  return `Sending ${Math.round((sentBytes / Math.max(totalBytes, 1)) * 100)}%`;
+};
+
+// Browsers with strict shields (Brave) block requests to local network addresses
+const describeSendError = (message: string) =>
+  message.includes('Failed to fetch') || message.includes('ERR_ADDRESS_UNREACHABLE')
+    ? `${message} - the TV is off, unreachable, or the browser blocks local network requests (Brave shields)`
+    : message;
+
+// Saved venue TVs: add/edit devices, check they're online, and send each one its layout
+function TvDeviceManager({ layout, onClose, watchingId, onWatch }: TvDeviceManagerProps) {
+  const toast = useToast();
+  const [devices, setDevices] = useState<TvDevice[]>(loadTvDevices);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(loadTvDevices().map(device => device.id)));
+  const [health, setHealth] = useState<Record<string, TvDeviceHealth | 'pinging'>>({});
+  const [sendStates, setSendStates] = useState<Record<string, SendState>>({});
+  const [isSending, setIsSending] = useState(false);
+  const [form, setForm] = useState<DeviceForm | null>(() => (loadTvDevices().length === 0 ? toForm(DEFAULT_TV_DEVICE) : null));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  // Hash of what each device would be sent now, to tell whether its last send is current
+  const [currentVersions, setCurrentVersions] = useState<Record<string, string>>({});
+
+  const sceneNames = getScenes(layout).map(scene => scene.name).filter(Boolean);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(devices.map(async device => {
+      const scene = getDeviceSceneLayout(layout, device);
+      const json = scene ? JSON.stringify(buildTvPayload(scene)) : null;
+      return [device.id, json ? await sha256Hex(new TextEncoder().encode(json)) : ''] as const;
+    })).then(entries => {
+      if (!cancelled) setCurrentVersions(Object.fromEntries(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [layout, devices]);
+
+  const ping = useCallback(async (device: TvDevice) => {
+    setHealth(prev => ({ ...prev, [device.id]: 'pinging' }));
+    const result = await pingTvDevice(device);
+    setHealth(prev => ({ ...prev, [device.id]: result }));
+  }, []);
+
+  const pingAll = useCallback(() => {
+    loadTvDevices().forEach(ping);
+  }, [ping]);
+
+  useEffect(() => {
+    pingAll();
+  }, [pingAll]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isSending) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isSending]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const startEditing = (device?: TvDevice) => {
+    setEditingId(device?.id ?? null);
+    setForm(toForm(device ?? DEFAULT_TV_DEVICE));
+  };
+
+  const submitForm = () => {
+    if (!form) return;
+    try {
+      const updated = saveTvDevice(fromForm(form), editingId ?? undefined);
+      setDevices(updated);
+      const device = editingId ? updated.find(d => d.id === editingId) : updated[updated.length - 1];
+      if (device) {
+        setSelectedIds(prev => new Set(prev).add(device.id));
+        ping(device);
+      }
+      setForm(null);
+      setEditingId(null);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const removeDevice = (device: TvDevice) => {
+    if (!window.confirm(`Remove "${device.name}" (${device.address}) from the device list?`)) return;
+    try {
+      setDevices(deleteTvDevice(device.id));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const sendToSelected = async () => {
+    const targets = devices.filter(device => selectedIds.has(device.id));
+    if (targets.length === 0) {
+      toast.warning('Select the devices to send to');
+      return;
+    }
+
+    // One payload per layout type; devices without a matching scene fail straight away
+    const payloads = new Map<string, { scene: LayoutConfig; payload: ReturnType<typeof buildTvPayload> }>();
+    const initialStates: Record<string, SendState> = {};
+    targets.forEach(device => {
+      const scene = getDeviceSceneLayout(layout, device);
+      if (!scene) {
+        initialStates[device.id] = { error: `This layout has no "${getLayoutTypeLabel(device.layoutType)}" scene` };
+      } else if (!payloads.has(scene.name)) {
+        payloads.set(scene.name, { scene, payload: buildTvPayload(scene) });
+      }
+    });
+
+    // Confirm once for every scene being sent rather than once per device
+    // (linter errors are for the whole layout, so they're listed once)
+    const problems: string[] = [];
+    const lintErrors = findExportLintErrors(layout);
+    if (lintErrors.length > 0) problems.push(`${lintErrors.length} layout error(s), e.g. ${lintErrors[0]}`);
+    payloads.forEach(({ payload }, name) => {
+      const checks = checkTvPayload(layout, payload);
+      const label = getLayoutTypeLabel(name);
+      if (checks.schemaIssues.length > 0) problems.push(`${label}: ${checks.schemaIssues.length} schema issue(s), e.g. ${checks.schemaIssues[0]}`);
+      if (checks.dataPathIssues.length > 0) {
+        console.warn(`${label} binds to fields the TV app won't send (${checks.dataPathIssues.length}):\n` + checks.dataPathIssues.join('\n'));
+      }
+    });
+    if (problems.length > 0 && !window.confirm(`${problems.join('\n')}\n\nSee the Problems panel. The TVs may show a broken layout or reject it. Send anyway?`)) {
+      return;
+    }
+
+    setSendStates(initialStates);
+    setIsSending(true);
+    const sendable = targets.filter(device => !initialStates[device.id]);
+    const results = await Promise.all(sendable.map(async device => {
+      const { scene, payload } = payloads.get(getDeviceSceneLayout(layout, device)!.name)!;
+      const setState = (state: SendState) => setSendStates(prev => ({ ...prev, [device.id]: state }));
+      try {
+        const result = await transferLayoutToTv(getTvDeviceUrl(device), JSON.stringify(payload), progress => setState({ progress }));
+        setDevices(recordTvSend(device.id, scene.name, result.sha256));
+        setHealth(prev => ({ ...prev, [device.id]: { online: true, loadedVersion: result.sha256 } }));
+        setState({ sent: true });
+        return true;
+      } catch (error) {
+        console.error(`Error sending layout to ${device.name}:`, error);
+        setState({ error: describeSendError((error as Error).message) });
+        return false;
+      }
+    }));
+    setIsSending(false);
+
+    const sentCount = results.filter(Boolean).length;
+    if (sentCount === targets.length) toast.success(`Layout sent to ${sentCount} device(s)`);
+    else if (sentCount > 0) toast.warning(`Layout sent to ${sentCount} of ${targets.length} devices - see the device list`);
+    else toast.error('The layout could not be sent - see the device list');
+  };
+
+  const renderStatus = (device: TvDevice) => {
+    const state = health[device.id];
+    const title = state === 'pinging' ? 'Checking...' : !state ? 'Not checked' : state.online
+      ? `Online${state.latencyMs !== undefined ? ` (${state.latencyMs} ms)` : ''}`
+      : `Offline: ${state.error}`;
+    return (
+      <button
+        className={`tv-devices-dot ${state === 'pinging' ? 'pinging' : state?.online ? 'online' : state ? 'offline' : ''}`}
+        onClick={() => ping(device)}
+        title={`${title} - click to check again`}
+        aria-label={`${device.name}: ${title}`}
+      />
+    );
+  };
+
+  const renderSendInfo = (device: TvDevice) => {
+    const state = sendStates[device.id];
+    if (state?.progress) return <span className="tv-devices-progress">{describeProgress(state.progress)}</span>;
+    if (state?.error) return <span className="tv-devices-error" title={state.error}>{state.error}</span>;
+
+    if (!device.lastSentAt || !device.lastSentVersion) return <span className="tv-devices-muted">Never sent</span>;
+    const deviceHealth = health[device.id];
+    const tvVersion = deviceHealth && deviceHealth !== 'pinging' ? deviceHealth.loadedVersion : undefined;
+    const isCurrent = currentVersions[device.id] === device.lastSentVersion;
+    return (
+      <span title={`Sent ${new Date(device.lastSentAt).toLocaleString()} - ${device.lastSentVersion}`}>
+        {state?.sent && '✓ '}
+        {new Date(device.lastSentAt).toLocaleString()} · {formatLayoutVersion(device.lastSentVersion)}
+        {currentVersions[device.id] !== undefined && (
+          <span className={isCurrent ? 'tv-devices-current' : 'tv-devices-outdated'}>
+            {isCurrent ? ' up to date' : ' changed since'}
+          </span>
+        )}
+        {tvVersion && tvVersion !== device.lastSentVersion && (
+          <span className="tv-devices-outdated"> · TV shows {formatLayoutVersion(tvVersion)}</span>
+        )}
+      </span>
+    );
+  };
+
+  const resolutionWarning = (device: TvDevice) => {
+    const dimensions = getDeviceSceneLayout(layout, device)?.dimensions;
+    return dimensions && (dimensions.width !== device.width || dimensions.height !== device.height)
+      ? `The layout is ${dimensions.width}×${dimensions.height}`
+      : null;
+  };
+
+  const selectedCount = devices.filter(device => selectedIds.has(device.id)).length;
+  const comparingDevice = devices.find(device => device.id === comparingId);
+
+  return (
+    <div className="tv-devices-overlay" onClick={(e) => e.target === e.currentTarget && !isSending && onClose()}>
+      <div className="tv-devices-modal" role="dialog" aria-modal="true" aria-labelledby="tv-devices-title">
+        <div className="tv-devices-header">
+          <h2 id="tv-devices-title">TV Devices</h2>
+          <button className="tv-devices-close" onClick={onClose} disabled={isSending} aria-label="Close TV devices">×</button>
+        </div>
+
+        {comparingDevice ? (
+          <TvLayoutCompare device={comparingDevice} layout={layout} onBack={() => setComparingId(null)} />
+        ) : (
+          <>
+            <div className="tv-devices-toolbar">
+              <button className="tv-devices-btn" onClick={() => startEditing()} disabled={isSending}>+ Add Device</button>
+              <button className="tv-devices-btn" onClick={pingAll} disabled={devices.length === 0}>Ping All</button>
+              <span className="tv-devices-spacer" />
+              <button
+                className="tv-devices-btn primary"
+                onClick={sendToSelected}
+                disabled={isSending || selectedCount === 0}
+              >
+                {isSending ? 'Sending...' : `Send to ${selectedCount} Selected`}
+              </button>
+            </div>
+
+            {form && (
+              <div className="tv-devices-form">
+                <label>
+                  Name
+                  <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Main board" autoFocus />
+                </label>
+                <label>
+                  IP Address
+                  <input value={form.address} onChange={e => setForm({ ...form, address: e.target.value })} placeholder="192.168.1.100" />
+                </label>
+                <label className="narrow">
+                  Port
+                  <input type="number" value={form.port} onChange={e => setForm({ ...form, port: e.target.value })} />
+                </label>
+                <label className="narrow">
+                  Width
+                  <input type="number" value={form.width} onChange={e => setForm({ ...form, width: e.target.value })} />
+                </label>
+                <label className="narrow">
+                  Height
+                  <input type="number" value={form.height} onChange={e => setForm({ ...form, height: e.target.value })} />
+                </label>
+                <label>
+                  Layout Type
+                  <select value={form.layoutType} onChange={e => setForm({ ...form, layoutType: e.target.value })}>
+                    <option value="">Scene being edited</option>
+                    {Array.from(new Set([...sceneNames, ...LAYOUT_TYPES.map(type => type.value)])).map(value => (
+                      <option key={value} value={value}>
+                        {getLayoutTypeLabel(value)}{sceneNames.includes(value) ? '' : ' (no scene)'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="tv-devices-form-actions">
+                  <button className="tv-devices-btn" onClick={() => { setForm(null); setEditingId(null); }}>Cancel</button>
+                  <button className="tv-devices-btn primary" onClick={submitForm}>{editingId ? 'Save' : 'Add'}</button>
+                </div>
+              </div>
+            )}
+
+            <div className="tv-devices-content">
+              {devices.length === 0 ? (
+                <p className="tv-devices-empty">No devices yet. Add the venue's TVs once and they'll be here next time.</p>
+              ) : (
+                <table className="tv-devices-table">
+                  <thead>
+                    <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          checked={selectedCount === devices.length}
+                          onChange={e => setSelectedIds(e.target.checked ? new Set(devices.map(device => device.id)) : new Set())}
+                          aria-label="Select all devices"
+                        />
+                      </th>
+                      <th>Device</th>
+                      <th>Resolution</th>
+                      <th>Layout Type</th>
+                      <th>Last Sent</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {devices.map(device => {
+                      const warning = resolutionWarning(device);
+                      return (
+                        <tr key={device.id}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(device.id)}
+                              onChange={() => toggleSelected(device.id)}
+                              aria-label={`Select ${device.name}`}
+                            />
+                          </td>
+                          <td>
+                            <div className="tv-devices-name">{renderStatus(device)}{device.name}</div>
+                            <div className="tv-devices-muted">{device.address}:{device.port}</div>
+                          </td>
+                          <td>
+                            {device.width}×{device.height}
+                            {warning && <div className="tv-devices-warning">{warning}</div>}
+                          </td>
+                          <td>{getLayoutTypeLabel(device.layoutType)}</td>
+                          <td className="tv-devices-sent">{renderSendInfo(device)}</td>
+                          <td className="tv-devices-row-actions">
+                            <button
+                              className={`tv-devices-btn ${watchingId === device.id ? 'active' : ''}`}
+                              onClick={() => onWatch(watchingId === device.id ? null : device)}
+                              disabled={isSending}
+                              title={watchingId === device.id ? 'Stop sending every edit to this TV' : 'Send every edit to this TV while you work'}
+                            >
+                              {watchingId === device.id ? 'Watching' : 'Watch'}
+                            </button>
+                            <button className="tv-devices-btn" onClick={() => setComparingId(device.id)} title="Fetch the layout this TV is showing and compare it with the editor">
+                              Compare
+                            </button>
+                            <button className="tv-devices-btn" onClick={() => startEditing(device)} disabled={isSending}>Edit</button>
+                            <button
+                              className="tv-devices-btn danger"
+                              onClick={() => removeDevice(device)}
+                              disabled={isSending}
+                              aria-label={`Remove ${device.name}`}
+                            >
+                              ×
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TvDeviceManager;
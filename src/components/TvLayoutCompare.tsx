@@ -0,0 +1,242 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { LayoutConfig } from '../types';
+import WebPreview from './WebPreview';
+import { TvDevice, getTvDeviceUrl, getDeviceSceneLayout, formatLayoutVersion } from '../utils/tvDevices';
+import { fetchTvLayout, sha256Hex, TvLayoutSnapshot } from '../utils/tvTransfer';
+import { buildTvPayload } from '../utils/tvPayload';
+import { getScenes, getSceneLayout } from '../utils/scenes';
+import {
+  diffLayouts,
+  formatDiffValue,
+  ComponentChangeKind,
+  ComponentDiff,
+  COMPONENT_CHANGE_KINDS,
+} from '../utils/layoutDiff';
+import './TvLayoutCompare.css';
+
+interface TvLayoutCompareProps {
+  device: TvDevice;
+  layout: LayoutConfig;
+  onBack: () => void;
+}
+
+const THUMBNAIL_WIDTH = 400;
+
+interface LayoutThumbnailProps {
+  title: string;
+  subtitle: string;
+  layout: Record<string, any>;
+  diffs: ComponentDiff[];
+  side: 'before' | 'after';
+  highlightedId: string | null;
+  onHighlight: (id: string | null) => void;
+}
+
+// Read-only render of a TV layout with its changed components outlined
+function LayoutThumbnail({ title, subtitle, layout, diffs, side, highlightedId, onHighlight }: LayoutThumbnailProps) {
+  const width = layout.dimensions?.width || 1920;
+  const height = layout.dimensions?.height || 1080;
+  const scale = THUMBNAIL_WIDTH / width;
+
+  return (
+    <div className="tv-compare-thumbnail">
+      <div className="tv-compare-thumbnail-title">
+        {title} <span>{subtitle}</span>
+      </div>
+      <div className="tv-compare-thumbnail-frame" style={{ width: THUMBNAIL_WIDTH, height: height * scale }}>
+        <div
+          className="tv-compare-thumbnail-canvas"
+          style={{ width, height, transform: `scale(${scale})`, background: layout.backgroundColor || '#000' }}
+        >
+          <WebPreview layout={layout as LayoutConfig} selectedComponents={[]} onSelectComponents={() => {}} />
+          {diffs.map(diff => {
+            const component = diff[side];
+            if (!component) return null;
+            return (
+              <div
+                key={diff.id}
+                className={`tv-compare-outline ${diff.kinds[0]} ${highlightedId === diff.id ? 'highlighted' : ''}`}
+                style={{
+                  left: component.position?.x || 0,
+                  top: component.position?.y || 0,
+                  width: component.size?.width || 0,
+                  height: component.size?.height || 0,
+                  borderWidth: 2 / scale,
+                }}
+                onMouseEnter={() => onHighlight(diff.id)}
+                onMouseLeave={() => onHighlight(null)}
+                title={`${diff.name}: ${diff.kinds.join(', ')}`}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// What a TV is showing next to what the editor would send it, with a component-level diff
+function TvLayoutCompare({ device, layout, onBack }: TvLayoutCompareProps) {
+  const [snapshot, setSnapshot] = useState<TvLayoutSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<ComponentChangeKind>>(new Set());
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [editorVersion, setEditorVersion] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSnapshot(await fetchTvLayout(getTvDeviceUrl(device)));
+    } catch (fetchError) {
+      setSnapshot(null);
+      setError((fetchError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [device]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Compare against the scene of the layout type the TV is showing, falling back to the device's own
+  const editorPayload = useMemo(() => {
+    const sceneId = snapshot && getScenes(layout).find(scene => scene.name === snapshot.layout.name)?.id;
+    const scene = sceneId ? getSceneLayout(layout, sceneId) : getDeviceSceneLayout(layout, device);
+    return scene ? buildTvPayload(scene) : null;
+  }, [layout, device, snapshot]);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (editorPayload) {
+      sha256Hex(new TextEncoder().encode(JSON.stringify(editorPayload))).then(hash => {
+        if (!cancelled) setEditorVersion(hash);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [editorPayload]);
+
+  const diff = useMemo(
+    () => (snapshot && editorPayload ? diffLayouts(snapshot.layout, editorPayload) : null),
+    [snapshot, editorPayload]
+  );
+
+  const visibleDiffs = diff ? diff.components.filter(entry => entry.kinds.some(kind => !hiddenKinds.has(kind))) : [];
+
+  const toggleKind = (kind: ComponentChangeKind) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const describeTvVersion = (sha256: string) => {
+    if (sha256 === device.lastSentVersion) return `${formatLayoutVersion(sha256)} - the last layout sent from here`;
+    return `${formatLayoutVersion(sha256)} - not sent from this browser${device.lastSentVersion ? ` (last sent ${formatLayoutVersion(device.lastSentVersion)})` : ''}`;
+  };
+
+  return (
+    <div className="tv-compare">
+      <div className="tv-compare-toolbar">
+        <button className="tv-devices-btn" onClick={onBack}>← Devices</button>
+        <span className="tv-compare-device">{device.name} <span>{device.address}:{device.port}</span></span>
+        <span className="tv-devices-spacer" />
+        <button className="tv-devices-btn" onClick={load} disabled={isLoading}>{isLoading ? 'Fetching...' : 'Refresh'}</button>
+      </div>
+
+      {error && <p className="tv-compare-message error">{error}</p>}
+      {!error && !snapshot && isLoading && <p className="tv-compare-message">Fetching the layout from {device.name}...</p>}
+      {snapshot && !editorPayload && (
+        <p className="tv-compare-message error">The TV is showing "{snapshot.layout.name}" but this document has no scene to compare it with</p>
+      )}
+
+      {snapshot && editorPayload && diff && (
+        <>
+          <div className="tv-compare-previews">
+            <LayoutThumbnail
+              title="On the TV"
+              subtitle={`${snapshot.layout.name} · ${describeTvVersion(snapshot.sha256)}`}
+              layout={snapshot.layout}
+              diffs={visibleDiffs}
+              side="before"
+              highlightedId={highlightedId}
+              onHighlight={setHighlightedId}
+            />
+            <LayoutThumbnail
+              title="In the editor"
+              subtitle={`${editorPayload.name}${editorVersion ? ` · ${formatLayoutVersion(editorVersion)}` : ''}`}
+              layout={editorPayload}
+              diffs={visibleDiffs}
+              side="after"
+              highlightedId={highlightedId}
+              onHighlight={setHighlightedId}
+            />
+          </div>
+
+          <div className="tv-compare-summary">
+            {diff.components.length === 0 && diff.layoutChanges.length === 0 ? (
+              <span className="tv-devices-current">The TV is showing exactly what the editor would send</span>
+            ) : (
+              <>
+                {COMPONENT_CHANGE_KINDS.map(({ kind, label }) => {
+                  const count = diff.components.filter(entry => entry.kinds.includes(kind)).length;
+                  return (
+                    <button
+                      key={kind}
+                      className={`tv-compare-kind ${kind} ${hiddenKinds.has(kind) ? 'hidden' : ''}`}
+                      onClick={() => toggleKind(kind)}
+                      disabled={count === 0}
+                      aria-pressed={!hiddenKinds.has(kind)}
+                    >
+                      {label} {count}
+                    </button>
+                  );
+                })}
+                <span className="tv-devices-muted">{diff.unchangedCount} unchanged</span>
+              </>
+            )}
+          </div>
+
+          <div className="tv-compare-list">
+            {diff.layoutChanges.length > 0 && (
+              <div className="tv-compare-entry">
+                <div className="tv-compare-entry-name">Layout</div>
+                {diff.layoutChanges.map(change => (
+                  <div key={change.path} className="tv-compare-change">
+                    <code>{change.path}</code> {formatDiffValue(change.before)} → {formatDiffValue(change.after)}
+                  </div>
+                ))}
+              </div>
+            )}
+            {visibleDiffs.map(entry => (
+              <div
+                key={entry.id}
+                className={`tv-compare-entry ${highlightedId === entry.id ? 'highlighted' : ''}`}
+                onMouseEnter={() => setHighlightedId(entry.id)}
+                onMouseLeave={() => setHighlightedId(null)}
+              >
+                <div className="tv-compare-entry-name">
+                  {entry.name}
+                  {entry.kinds.map(kind => <span key={kind} className={`tv-compare-badge ${kind}`}>{kind}</span>)}
+                </div>
+                {entry.changes.map(change => (
+                  <div key={change.path} className="tv-compare-change">
+                    <code>{change.path}</code> {formatDiffValue(change.before)} → {formatDiffValue(change.after)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TvLayoutCompare;
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'react';
+import { LayoutConfig } from '../types';
+import { TvDevice, getTvDeviceUrl, getDeviceSceneLayout, recordTvSend, formatLayoutVersion } from '../utils/tvDevices';
+import { openTvWatchSession, TvWatchSession, TvWatchStatus } from '../utils/tvTransfer';
+import { buildTvPayload } from '../utils/tvPayload';
+import './TvWatchIndicator.css';
+
+interface TvWatchIndicatorProps {
+  device: TvDevice;
+  layout: LayoutConfig;
+  paused: boolean; // A drag is in progress - send once it ends
+  onStop: () => void;
+}
+
+// Edits are sent once the layout has been still this long
+const DEBOUNCE_MS = 400;
+
+const STATUS_LABELS: Record<TvWatchStatus, string> = {
+  connecting: 'Connecting',
+  sending: 'Sending',
+  live: 'Live',
+  error: 'Retrying',
+};
+
+// Header pill for watch mode: keeps one TV in step with the editor while it's shown
+function TvWatchIndicator({ device, layout, paused, onStop }: TvWatchIndicatorProps) {
+  const [status, setStatus] = useState<TvWatchStatus>('connecting');
+  const [detail, setDetail] = useState('');
+  const [lastSent, setLastSent] = useState<string | null>(null);
+  const sessionRef = useRef<TvWatchSession | null>(null);
+
+  useEffect(() => {
+    const session = openTvWatchSession(getTvDeviceUrl(device), {
+      onStatus: (next, nextDetail = '') => {
+        setStatus(next);
+        setDetail(nextDetail);
+      },
+      onSent: ({ sha256, name, mode }) => {
+        setLastSent(`${formatLayoutVersion(sha256)} (${mode === 'delta' ? 'changes only' : 'full layout'})`);
+        try {
+          recordTvSend(device.id, name, sha256);
+        } catch (error) {
+          console.warn('Could not record the send:', error);
+        }
+      },
+    });
+    sessionRef.current = session;
+    return () => {
+      session.close();
+      sessionRef.current = null;
+    };
+  }, [device]);
+
+  useEffect(() => {
+    if (paused) return;
+    const timer = window.setTimeout(() => {
+      const scene = getDeviceSceneLayout(layout, device);
+      if (!scene) {
+        setStatus('error');
+        setDetail(`This layout has no "${device.layoutType}" scene`);
+        return;
+      }
+      sessionRef.current?.push(buildTvPayload(scene));
+    }, DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [layout, device, paused]);
+
+  const label = paused ? 'Paused' : STATUS_LABELS[status];
+  const title = [
+    `Watch mode: every edit is sent to ${device.name} (${device.address}:${device.port})`,
+    paused ? 'Paused while dragging' : detail,
+    lastSent && `Last sent ${lastSent}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div className={`tv-watch ${paused ? 'paused' : status}`} title={title} role="status" aria-label={`${label}: ${device.name}`}>
+      <span className="tv-watch-dot" aria-hidden="true" />
+      <span className="tv-watch-label">{label}</span>
+      <span className="tv-watch-device">{device.name}</span>
+      <button className="tv-watch-stop" onClick={onStop} aria-label={`Stop sending edits to ${device.name}`} title="Stop watch mode">
+        ×
+      </button>
+    </div>
+  );
+}
+
+export default TvWatchIndicator;
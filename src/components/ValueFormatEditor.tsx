@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { ValueFormat, ValueFormatOptions, TextCase } from '../types';
+import { formatValue, VALUE_FORMAT_DEFAULTS } from '../shared/components/customDataDisplay/valueFormat';
+import './ValueFormatEditor.css';
+
+interface ValueFormatEditorProps {
+  format: ValueFormat;
+  options: ValueFormatOptions;
+  onFormatChange: (format: ValueFormat) => void;
+  onOptionsChange: (options: ValueFormatOptions | undefined) => void;
+}
+
+const FORMAT_LABELS: Record<ValueFormat, string> = {
+  text: 'Text',
+  number: 'Number',
+  time: 'Time (seconds)',
+  ordinal: 'Period (1st, 2nd, OT)',
+  boolean: 'Yes / No',
+};
+
+// Values run through the current settings so the effect of each option is visible
+const SAMPLE_VALUES: Record<ValueFormat, unknown[]> = {
+  text: ['Home Team'],
+  number: [7, 1234.5, -3],
+  time: [754, 45.25, 5.08],
+  ordinal: [1, 2, 5, 6],
+  boolean: [true, false],
+};
+
+// Text/number input that commits on blur/Enter; empty clears the option
+function FormatOptionInput({
+  value,
+  type,
+  placeholder,
+  onCommit,
+}: {
+  value: string | number | undefined;
+  type: 'text' | 'number';
+  placeholder?: string;
+  onCommit: (value: string | number | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  return (
+    <input
+      type={type}
+      className="value-format-input"
+      value={draft}
+      placeholder={placeholder}
+      min={type === 'number' ? 0 : undefined}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft === '') {
+          if (value !== undefined) onCommit(undefined);
+          return;
+        }
+        const parsed = type === 'number' ? Math.max(0, Math.floor(Number(draft))) : draft;
+        if (typeof parsed === 'number' && !Number.isFinite(parsed)) {
+          setDraft(value === undefined ? '' : String(value));
+          return;
+        }
+        if (parsed !== value) onCommit(parsed);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+    />
+  );
+}
+
+function ValueFormatEditor({ format, options, onFormatChange, onOptionsChange }: ValueFormatEditorProps) {
+  const setOption = <K extends keyof ValueFormatOptions>(key: K, value: ValueFormatOptions[K]) => {
+    const { [key]: _previous, ...rest } = options;
+    const next: ValueFormatOptions = value === undefined || value === false ? rest : { ...rest, [key]: value };
+    onOptionsChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const renderCheckbox = (key: 'thousandsSeparator' | 'plusSign' | 'timeTenths' | 'timePadMinutes', label: string) => (
+    <label className="value-format-checkbox">
+      <input
+        type="checkbox"
+        checked={!!options[key]}
+        onChange={(e) => setOption(key, e.target.checked)}
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="value-format-editor">
+      <div className="value-format-row">
+        <span>Format</span>
+        <select value={format} onChange={(e) => onFormatChange(e.target.value as ValueFormat)}>
+          {(Object.keys(FORMAT_LABELS) as ValueFormat[]).map(key => (
+            <option key={key} value={key}>{FORMAT_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      {format === 'number' && (
+        <>
+          <div className="value-format-row">
+            <span>Min digits</span>
+            <FormatOptionInput
+              type="number"
+              value={options.minDigits}
+              placeholder={String(VALUE_FORMAT_DEFAULTS.minDigits)}
+              onCommit={(value) => setOption('minDigits', value as number | undefined)}
+            />
+          </div>
+          <div className="value-format-row">
+            <span>Decimals</span>
+            <FormatOptionInput
+              type="number"
+              value={options.decimals}
+              placeholder="auto"
+              onCommit={(value) => setOption('decimals', value as number | undefined)}
+            />
+          </div>
+          {renderCheckbox('thousandsSeparator', 'Thousands separator (1,234)')}
+          {renderCheckbox('plusSign', 'Plus sign on positive values (+3)')}
+        </>
+      )}
+
+      {format === 'time' && (
+        <>
+          {renderCheckbox('timeTenths', 'Tenths under one minute (45.3)')}
+          {renderCheckbox('timePadMinutes', 'Leading zero on minutes (05:00)')}
+        </>
+      )}
+
+      {format === 'ordinal' && (
+        <>
+          <div className="value-format-row">
+            <span>Regulation periods</span>
+            <FormatOptionInput
+              type="number"
+              value={options.regulationPeriods}
+              placeholder={String(VALUE_FORMAT_DEFAULTS.regulationPeriods)}
+              onCommit={(value) => setOption('regulationPeriods', value as number | undefined)}
+            />
+          </div>
+          <div className="value-format-row">
+            <span>Overtime label</span>
+            <FormatOptionInput
+              type="text"
+              value={options.overtimeLabel}
+              placeholder={VALUE_FORMAT_DEFAULTS.overtimeLabel}
+              onCommit={(value) => setOption('overtimeLabel', value as string | undefined)}
+            />
+          </div>
+        </>
+      )}
+
+      {format === 'boolean' && (
+        <>
+          <div className="value-format-row">
+            <span>True label</span>
+            <FormatOptionInput
+              type="text"
+              value={options.trueLabel}
+              placeholder={VALUE_FORMAT_DEFAULTS.trueLabel}
+              onCommit={(value) => setOption('trueLabel', value as string | undefined)}
+            />
+          </div>
+          <div className="value-format-row">
+            <span>False label</span>
+            <FormatOptionInput
+              type="text"
+              value={options.falseLabel}
+              placeholder={VALUE_FORMAT_DEFAULTS.falseLabel}
+              onCommit={(value) => setOption('falseLabel', value as string | undefined)}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="value-format-row">
+        <span>Case</span>
+        <select
+          value={options.textCase || 'none'}
+          onChange={(e) => setOption('textCase', e.target.value === 'none' ? undefined : e.target.value as TextCase)}
+        >
+          <option value="none">As is</option>
+          <option value="upper">UPPERCASE</option>
+          <option value="lower">lowercase</option>
+        </select>
+      </div>
+
+      <div className="value-format-preview">
+        {SAMPLE_VALUES[format].map((sample, index) => (
+          <span key={index}>
+            {String(sample)} → <strong>{formatValue(sample, format, options)}</strong>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ValueFormatEditor;
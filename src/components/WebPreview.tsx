@@ -1,120 +1,29 @@
 import React from 'react';
 import { Text } from 'react-native';
-import { ComponentConfig, LayoutConfig } from '../types';
+import { ComponentConfig, LayoutConfig, isDataDisplayComponent } from '../types';
 import CustomDataDisplay from '../shared/components/CustomDataDisplay';
 import DynamicList from '../shared/components/DynamicList';
 import LeaderboardList from '../shared/components/LeaderboardList';
+import {
+  evaluateDataExpression,
+  getDataPathValue,
+  prefixDataExpression,
+} from '../shared/components/customDataDisplay/dataExpressions';
+import { applyStyleRules, prefixStyleRules } from '../shared/components/customDataDisplay/styleRules';
+import { mockGameData } from '../shared/components/customDataDisplay/mockGameData';
 import { getTemplate } from '../utils/slotTemplates';
+import { resolveTimelineFrame } from '../shared/timeline';
+import { getRotationTransform } from '../utils/rotation';
 
 interface WebPreviewProps {
   layout: LayoutConfig;
   selectedComponents: string[];
   onSelectComponents: (ids: string[]) => void;
   gameData?: any;
+  // Playhead of the layout timeline in ms; null/undefined renders the static layout
+  timelineTime?: number | null;
 }
 
-// Mock game data for preview
-const mockGameData = {
-  homeTeam: {
-    name: 'HOME TEAM',
-    score: 1,
-    color: '#c41e3a',
-    fouls: 7,
-  },
-  awayTeam: {
-    name: 'AWAY TEAM',
-    score: 0,
-    color: '#003f7f',
-    fouls: 5,
-  },
-  gameClock: '5:42.3',
-  period: 4,
-  // Mock penalty slots for lacrosse/hockey preview - all slots have test data
-  penaltySlots: {
-    home: {
-      count: 3,
-      isState0: false,
-      isState1: false,
-      isState2: false,
-      isState3: true,
-      slot0: { jersey: 90, time: '0:45', active: true },
-      slot1: { jersey: 3, time: '1:30', active: true },
-      slot2: { jersey: 17, time: '2:15', active: true },
-    },
-    away: {
-      count: 3,
-      isState0: false,
-      isState1: false,
-      isState2: false,
-      isState3: true,
-      slot0: { jersey: 14, time: '1:00', active: true },
-      slot1: { jersey: 22, time: '1:45', active: true },
-      slot2: { jersey: 8, time: '2:30', active: true },
-    },
-  },
-  // Mock shootout slots for soccer/hockey/water polo preview
-  home_shootout_made: 2,
-  away_shootout_made: 1,
-  shootoutSlots: [
-    { round: 1, homeActive: true, awayActive: true, homeState: 1, awayState: 0, isCurrentRound: false },
-    { round: 2, homeActive: true, awayActive: true, homeState: 0, awayState: 1, isCurrentRound: false },
-    { round: 3, homeActive: true, awayActive: false, homeState: 1, awayState: 0, isCurrentRound: true },
-    { round: 4, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-    { round: 5, homeActive: false, awayActive: false, homeState: 0, awayState: 0, isCurrentRound: false },
-  ],
-  // Mock leaderboard slots for preview (includes both basketball and volleyball stats)
-  leaderboardSlots: {
-    home: {
-      count: 6,
-      isState0: false,
-      isState1: false,
-      isState2: false,
-      isState3: false,
-      isState4: false,
-      isState5: false,
-      isState6: true,
-      slot0: { jersey: 23, name: 'M. JORDAN', points: 32, fouls: 2, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_home_1.png', aces: 5, kills: 18, blocks: 2 },
-      slot1: { jersey: 33, name: 'S. PIPPEN', points: 18, fouls: 3, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_home_2.png', aces: 3, kills: 12, blocks: 4 },
-      slot2: { jersey: 91, name: 'D. RODMAN', points: 8, fouls: 4, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_home_3.png', aces: 2, kills: 8, blocks: 6 },
-      slot3: { jersey: 7, name: 'T. KUKOC', points: 12, fouls: 1, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_home_4.png', aces: 4, kills: 6, blocks: 1 },
-      slot4: { jersey: 25, name: 'S. KERR', points: 6, fouls: 0, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_home_5.png', aces: 1, kills: 10, blocks: 3 },
-      slot5: { jersey: 10, name: 'B. HARPER', points: 4, fouls: 1, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_home_6.png', aces: 2, kills: 5, blocks: 2 },
-      // currentPlayer = slot0 (updates when cycling)
-      currentPlayer: { jersey: 23, name: 'M. JORDAN', points: 32, fouls: 2, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_home_1.png', aces: 5, kills: 18, blocks: 2 },
-    },
-    away: {
-      count: 6,
-      isState0: false,
-      isState1: false,
-      isState2: false,
-      isState3: false,
-      isState4: false,
-      isState5: false,
-      isState6: true,
-      slot0: { jersey: 32, name: 'K. MALONE', points: 28, fouls: 3, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_away_1.png', aces: 4, kills: 15, blocks: 3 },
-      slot1: { jersey: 12, name: 'J. STOCKTON', points: 14, fouls: 2, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_away_2.png', aces: 2, kills: 14, blocks: 5 },
-      slot2: { jersey: 4, name: 'B. RUSSELL', points: 10, fouls: 1, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_away_3.png', aces: 6, kills: 7, blocks: 2 },
-      slot3: { jersey: 14, name: 'J. HORNACEK', points: 8, fouls: 2, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_away_4.png', aces: 1, kills: 9, blocks: 4 },
-      slot4: { jersey: 55, name: 'G. OSTERTAG', points: 4, fouls: 4, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_away_5.png', aces: 3, kills: 11, blocks: 1 },
-      slot5: { jersey: 24, name: 'T. BAILEY', points: 2, fouls: 0, isTopScorer: false, active: true, imageUrl: '/images/test_leaderboard/player_away_6.png', aces: 1, kills: 6, blocks: 3 },
-      // currentPlayer = slot0 (updates when cycling)
-      currentPlayer: { jersey: 32, name: 'K. MALONE', points: 28, fouls: 3, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_away_1.png', aces: 4, kills: 15, blocks: 3 },
-    },
-  },
-  // Top-level currentPlayer for convenience
-  currentPlayer: {
-    home: { jersey: 23, name: 'M. JORDAN', points: 32, fouls: 2, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_home_1.png', aces: 5, kills: 18, blocks: 2 },
-    away: { jersey: 32, name: 'K. MALONE', points: 28, fouls: 3, isTopScorer: true, active: true, imageUrl: '/images/test_leaderboard/player_away_1.png', aces: 4, kills: 15, blocks: 3 },
-  },
-};
-
-// Helper function to get nested data using dot notation
-const getNestedData = (obj: any, path: string): any => {
-  return path.split('.').reduce((current, key) => {
-    return current && current[key] !== undefined ? current[key] : null;
-  }, obj);
-};
-
 // Calculate effective z-index based on exact position in flattened layer panel order.
 // This creates a 1:1 mapping: position in layer panel = z-index order.
 // Higher position in panel (top) = higher z-index = renders in front.
@@ -170,7 +79,7 @@ const areAncestorsVisible = (
 
     // If parent has visibilityPath set, check if it evaluates to true
     if (parent.props?.visibilityPath) {
-      const visibilityValue = getNestedData(gameData, parent.props.visibilityPath);
+      const visibilityValue = evaluateDataExpression(gameData, parent.props.visibilityPath);
       if (typeof visibilityValue === 'boolean' && !visibilityValue) {
         return false;
       }
@@ -188,7 +97,7 @@ const getComponentVisibility = (
   gameData: any
 ): boolean => {
   if (component.props?.visibilityPath) {
-    const visibilityValue = getNestedData(gameData, component.props.visibilityPath);
+    const visibilityValue = evaluateDataExpression(gameData, component.props.visibilityPath);
     if (typeof visibilityValue === 'boolean') {
       return visibilityValue;
     }
@@ -196,10 +105,15 @@ const getComponentVisibility = (
   return true;
 };
 
-function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }: WebPreviewProps) {
+function WebPreview({ layout, selectedComponents, onSelectComponents, gameData, timelineTime }: WebPreviewProps) {
   // Use provided gameData or fall back to mockGameData
   const effectiveGameData = gameData || mockGameData;
 
+  // Keyframed values at the playhead (empty when the timeline isn't being previewed)
+  const timelineFrame = timelineTime === null || timelineTime === undefined
+    ? {}
+    : resolveTimelineFrame(layout.components || [], layout.timeline, timelineTime);
+
   // Helper to wrap content in a positioned div
   const wrapContent = (
     content: React.ReactNode,
@@ -214,7 +128,11 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
   };
 
   const renderComponent = (config: ComponentConfig, index: number, effectiveLayer: number, isVisible: boolean = true) => {
-    const { type, position, size, props, team, id } = config;
+    // Destructured together so switching on `type` narrows `storedProps` to that kind's props
+    const { type, team, id, props: storedProps } = config;
+    const keyframed = timelineFrame[id];
+    const position = keyframed ? { x: keyframed.x, y: keyframed.y } : config.position;
+    const size = keyframed ? { width: keyframed.width, height: keyframed.height } : config.size;
 
     // Positions and sizes are already in pixels
     const left = position.x;
@@ -222,6 +140,11 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
     const width = size.width;
     const height = size.height;
 
+    // Rotation and keyframed scale both turn around the center of the box
+    const rotationTransform = getRotationTransform(config);
+    const scaleTransform = keyframed && keyframed.scale !== 1 ? `scale(${keyframed.scale})` : undefined;
+    const transform = [rotationTransform, scaleTransform].filter(Boolean).join(' ') || undefined;
+
     const baseStyle: React.CSSProperties = {
       position: 'absolute',
       left,
@@ -230,6 +153,8 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
       height,
       zIndex: effectiveLayer,  // Use effective layer that considers parent hierarchy
       isolation: 'isolate',  // Create stacking context to contain borders
+      transform,
+      ...(keyframed && { opacity: keyframed.opacity }),
     };
 
     // Use component ID as key for stable identity
@@ -237,6 +162,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
 
     switch (type) {
       case 'teamName': {
+        const props = storedProps || {};
         // Derive dataPath from team property, but allow customText to override
         const teamNameDataPath = team === 'away' ? 'awayTeam.name' : 'homeTeam.name';
         const teamNameBaseStyle: React.CSSProperties = {
@@ -302,6 +228,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           teamNameBaseStyle,
           componentKey
@@ -309,6 +236,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
       }
 
       case 'score': {
+        const props = storedProps || {};
         // Derive dataPath from team property
         const scoreDataPath = team === 'away' ? 'awayTeam.score' : 'homeTeam.score';
         const scoreBaseStyle: React.CSSProperties = {
@@ -365,6 +293,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           scoreBaseStyle,
           componentKey
@@ -372,6 +301,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
       }
 
       case 'clock': {
+        const props = storedProps || {};
         // Game clock - derive from gameClock
         const clockBaseStyle: React.CSSProperties = {
           ...baseStyle,
@@ -425,6 +355,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           clockBaseStyle,
           componentKey
@@ -432,6 +363,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
       }
 
       case 'period': {
+        const props = storedProps || {};
         const periodBaseStyle: React.CSSProperties = {
           ...baseStyle,
           boxSizing: 'border-box',
@@ -484,6 +416,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           periodBaseStyle,
           componentKey
@@ -491,6 +424,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
       }
 
       case 'fouls': {
+        const props = storedProps || {};
         // Derive dataPath from team property
         const foulsDataPath = team === 'away' ? 'awayTeam.fouls' : 'homeTeam.fouls';
         const foulsBaseStyle: React.CSSProperties = {
@@ -547,13 +481,15 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           foulsBaseStyle,
           componentKey
         );
       }
 
-      case 'dynamicList':
+      case 'dynamicList': {
+        const props = storedProps || {};
         return wrapContent(
           <DynamicList
             totalCountPath={props.totalCountPath}
@@ -582,37 +518,12 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
           baseStyle,
           componentKey
         );
+      }
 
       case 'custom': {
-        // For toggle components, compute effective toggle state and get state-specific props
-        let effectiveProps = props;
-        if (props.canToggle) {
-          // Compute effective toggle state (same logic as CustomDataDisplay)
-          let effectiveToggleState = false;
-          if (props.toggleDataPath) {
-            const rawValue = getNestedData(effectiveGameData, props.toggleDataPath);
-            if (typeof rawValue === 'boolean') {
-              effectiveToggleState = rawValue;
-            } else if (typeof rawValue === 'number') {
-              effectiveToggleState = rawValue !== 0;
-            }
-          } else if (props.dataPath) {
-            const rawValue = getNestedData(effectiveGameData, props.dataPath);
-            if (typeof rawValue === 'boolean') {
-              effectiveToggleState = rawValue;
-            } else if (typeof rawValue === 'number') {
-              effectiveToggleState = rawValue !== 0;
-            }
-          }
-          if (!effectiveToggleState && props.toggleState) {
-            effectiveToggleState = props.toggleState;
-          }
-          // Merge state-specific props
-          const stateProps = effectiveToggleState ? props.state2Props : props.state1Props;
-          if (stateProps) {
-            effectiveProps = { ...props, ...stateProps };
-          }
-        }
+        const props = storedProps || {};
+        // Border props come from the active style rule too, since the wrapper draws the border
+        const effectiveProps = applyStyleRules(props, props.styleRules, effectiveGameData);
 
         // Apply border to wrapper div to prevent z-index separation issues with react-native-web
         const customBaseStyle: React.CSSProperties = {
@@ -661,12 +572,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             useImageTint={props.useImageTint}
             useTeamColor={config.useTeamColor}
             teamColorSide={config.teamColorSide}
-            canToggle={props.canToggle}
-            toggleState={props.toggleState}
-            state1Props={props.state1Props}
-            state2Props={props.state2Props}
-            autoToggle={props.autoToggle}
-            toggleDataPath={props.toggleDataPath}
+            styleRules={props.styleRules}
             visibilityPath={props.visibilityPath}
             multiStateEnabled={props.multiStateEnabled}
             statePath={props.statePath}
@@ -688,13 +594,15 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
             fontFamily={props.fontFamily}
             autoContrastText={props.autoContrastText}
             isVisible={isVisible}
+            animations={config.animations}
           />,
           customBaseStyle,
           componentKey
         );
       }
 
-      case 'leaderboardList':
+      case 'leaderboardList': {
+        const props = storedProps || {};
         return wrapContent(
           <LeaderboardList
             team={team || 'home'}
@@ -719,8 +627,10 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
           baseStyle,
           componentKey
         );
+      }
 
       case 'slotList': {
+        const props = storedProps || {};
         // Render the actual template components for preview
         // Try to get template by ID first, then fallback to name for imported layouts
         const template = props.templateId ? getTemplate(props.templateId, props.templateName) : null;
@@ -774,7 +684,7 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
         for (let slotIndex = 0; slotIndex < slotCount; slotIndex++) {
           // Check if slot is active (when hideInactiveSlots is enabled)
           if (hideInactiveSlots) {
-            const slotData = getNestedData(effectiveGameData, `${prefix}.${teamLabel}.slot${slotIndex}`);
+            const slotData = getDataPathValue(effectiveGameData, `${prefix}.${teamLabel}.slot${slotIndex}`);
             if (!slotData?.active) {
               continue; // Skip this slot - it's not active
             }
@@ -804,12 +714,16 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
               props: templateComp.props ? { ...templateComp.props } : {},
             };
 
-            // Prefix data paths for preview
-            if (previewComp.props?.dataPath && previewComp.props.dataPath !== 'none') {
-              previewComp.props.dataPath = `${prefix}.${teamLabel}.slot${slotIndex}.${previewComp.props.dataPath}`;
+            // Prefix data paths (and every path inside expressions) for preview
+            const slotPrefix = `${prefix}.${teamLabel}.slot${slotIndex}`;
+            if (isDataDisplayComponent(previewComp) && previewComp.props?.dataPath && previewComp.props.dataPath !== 'none') {
+              previewComp.props.dataPath = prefixDataExpression(previewComp.props.dataPath, slotPrefix);
             }
             if (previewComp.props?.visibilityPath) {
-              previewComp.props.visibilityPath = `${prefix}.${teamLabel}.slot${slotIndex}.${previewComp.props.visibilityPath}`;
+              previewComp.props.visibilityPath = prefixDataExpression(previewComp.props.visibilityPath, slotPrefix);
+            }
+            if (isDataDisplayComponent(previewComp) && previewComp.props?.styleRules) {
+              previewComp.props.styleRules = prefixStyleRules(previewComp.props.styleRules, slotPrefix);
             }
 
             // Render the component - use template's layer + base effectiveLayer for proper z-ordering
@@ -834,8 +748,9 @@ function WebPreview({ layout, selectedComponents, onSelectComponents, gameData }
 
       default:
         // For other component types, show a placeholder
-        const placeholderBgColor = props?.backgroundColor || 'rgba(100, 100, 100, 0.5)';
-        const placeholderTextColor = props?.textColor || '#fff';
+        const placeholderProps = isDataDisplayComponent(config) ? config.props : undefined;
+        const placeholderBgColor = placeholderProps?.backgroundColor || 'rgba(100, 100, 100, 0.5)';
+        const placeholderTextColor = placeholderProps?.textColor || '#fff';
 
         return wrapContent(
           <div
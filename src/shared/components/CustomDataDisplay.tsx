@@ -11,6 +11,27 @@ import {
   getImageSource,
   getAnchorAlignment,
 } from './customDataDisplay/imageUtils';
+import { evaluateDataExpression, getDataPathValue } from './customDataDisplay/dataExpressions';
+import { getActiveStyleRule } from './customDataDisplay/styleRules';
+import {
+  useComponentAnimations,
+  getAnimationTransform,
+  roundCountUpValue,
+} from './customDataDisplay/animations';
+import { getGradientCss, getGradientMidColor } from './customDataDisplay/gradients';
+import {
+  getTextEffectFilter,
+  getTextStrokeAttributes,
+  TEXT_EFFECT_DEFAULTS,
+} from './customDataDisplay/textEffects';
+import { formatValue } from './customDataDisplay/valueFormat';
+import {
+  layoutTextLines,
+  fitFontSize,
+  getLineCenters,
+  createTextMeasurer,
+  TEXT_LAYOUT_DEFAULTS,
+} from './customDataDisplay/textLayout';
 import type { CustomDataDisplayProps } from './customDataDisplay/types';
 
 export default function CustomDataDisplay(props: CustomDataDisplayProps) {
@@ -19,11 +40,7 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     gameData,
     width = 100,
     height = 50,
-    canToggle = false,
-    toggleState = false,
-    state1Props = {},
-    state2Props = {},
-    toggleDataPath,
+    styleRules,
     visibilityPath,
     isVisible: isVisibleProp,
     useTeamColor = false,
@@ -34,6 +51,7 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     statePath,
     stateImages,
     autoContrastText = false,
+    animations,
     ...defaultProps
   } = props;
 
@@ -104,17 +122,10 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
 
   const effectiveGameData = gameData || mockGameData;
 
-  // Helper function to get nested data using dot notation
-  const getNestedData = (obj: any, path: string) => {
-    return path.split('.').reduce((current, key) => {
-      return current && current[key] !== undefined ? current[key] : null;
-    }, obj);
-  };
-
   // Visibility check
   const isVisible = isVisibleProp !== undefined ? isVisibleProp : (() => {
     if (visibilityPath && effectiveGameData) {
-      const visibilityValue = getNestedData(effectiveGameData, visibilityPath);
+      const visibilityValue = evaluateDataExpression(effectiveGameData, visibilityPath);
       if (typeof visibilityValue === 'boolean') {
         return visibilityValue;
       }
@@ -122,29 +133,13 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     return true;
   })();
 
-  // Compute effective toggle state
-  const effectiveToggleState = (() => {
-    if (!canToggle) return false;
-
-    if (toggleDataPath) {
-      const rawValue = getNestedData(effectiveGameData, toggleDataPath);
-      if (typeof rawValue === 'boolean') return rawValue;
-      if (typeof rawValue === 'number') return rawValue !== 0; // 0 = false, 1+ = true
-    }
-
-    if (dataPath) {
-      const rawValue = getNestedData(effectiveGameData, dataPath);
-      if (typeof rawValue === 'boolean') return rawValue;
-      if (typeof rawValue === 'number') return rawValue !== 0; // 0 = false, 1+ = true
-    }
-
-    return toggleState;
-  })();
+  // First style rule whose condition holds (null = render with the component's own props)
+  const activeStyleRule = getActiveStyleRule(styleRules, effectiveGameData);
 
   // Multi-state image support
   const multiStateImagePath = (() => {
     if (!multiStateEnabled || !statePath || !stateImages) return null;
-    const stateValue = getNestedData(effectiveGameData, statePath);
+    const stateValue = getDataPathValue(effectiveGameData, statePath);
     const stateKey = String(stateValue ?? 0);
     return stateImages[stateKey] || stateImages['0'] || null;
   })();
@@ -153,10 +148,10 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     ? { ...defaultProps, imagePath: multiStateImagePath }
     : defaultProps;
 
-  // Merge props based on toggle state
+  // Merge the active rule's overrides
   const baseProps = { dataPath, useTeamColor, teamColorSide, imageTintColor, useImageTint };
-  const visualProps = canToggle
-    ? (effectiveToggleState ? { ...propsWithMultiState, ...state2Props } : { ...propsWithMultiState, ...state1Props })
+  const visualProps = activeStyleRule
+    ? { ...propsWithMultiState, ...activeStyleRule.set }
     : propsWithMultiState;
   const activeProps = { ...baseProps, ...visualProps };
 
@@ -164,6 +159,7 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
   const {
     label,
     backgroundColor = 'transparent',
+    backgroundGradient,
     textColor = '#ffffff',
     fontSize = 24,
     format = 'text',
@@ -195,7 +191,15 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     borderBottomLeftRadius = 0,
     borderBottomRightRadius = 0,
     fontFamily = 'Score-Regular',
-    autoFitText = false
+    fontWeight = TEXT_EFFECT_DEFAULTS.fontWeight,
+    letterSpacing = TEXT_EFFECT_DEFAULTS.letterSpacing,
+    wrapText = TEXT_LAYOUT_DEFAULTS.wrapText,
+    maxLines = TEXT_LAYOUT_DEFAULTS.maxLines,
+    lineHeight = TEXT_LAYOUT_DEFAULTS.lineHeight,
+    verticalAlign = TEXT_LAYOUT_DEFAULTS.verticalAlign,
+    autoFitText = false,
+    minFontScale = 0,
+    autoFitSampleText
   } = activeProps;
 
   // Determine colors
@@ -214,21 +218,24 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
 
   const isBannerOrSequence = dataPath === 'user_sequences.banner' || dataPath === 'user_sequences.timeout';
   const effectiveBackgroundColor = isBannerOrSequence ? '#000000' : (teamColorForBackground || backgroundColor);
+  // Team colors and banners replace the gradient like they replace the background color
+  const backgroundGradientCss = isBannerOrSequence || teamColorForBackground
+    ? undefined
+    : getGradientCss(backgroundGradient);
 
   // Auto-contrast calculation
-  let contrastSourceColor: string | undefined = effectiveBackgroundColor;
+  let contrastSourceColor: string | undefined = backgroundGradientCss
+    ? getGradientMidColor(backgroundGradient)
+    : effectiveBackgroundColor;
   if (autoContrastText && teamColorSide && effectiveGameData) {
     const teamColorForContrast = getTeamColor(effectiveGameData, teamColorSide);
     contrastSourceColor = teamColorForContrast || contrastSourceColor;
   }
 
-  const hasExplicitStateTextColor = canToggle && (
-    (effectiveToggleState && state2Props?.textColor) ||
-    (!effectiveToggleState && state1Props?.textColor)
-  );
+  const hasRuleTextColor = !!activeStyleRule?.set.textColor;
 
   let effectiveTextColor: string;
-  if (hasExplicitStateTextColor) {
+  if (hasRuleTextColor) {
     effectiveTextColor = textColor;
   } else if (autoContrastText && contrastSourceColor && contrastSourceColor !== 'transparent') {
     effectiveTextColor = getContrastTextColor(contrastSourceColor);
@@ -243,8 +250,16 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
     : undefined;
 
   // Get the data value
-  const rawValue = getNestedData(effectiveGameData, dataPath);
-  const isBooleanToggle = canToggle && typeof rawValue === 'boolean';
+  const rawValue = evaluateDataExpression(effectiveGameData, dataPath);
+  // Boolean data on a component with style rules drives the rules rather than showing "true"/"false"
+  const isBooleanToggle = !!styleRules?.length && typeof rawValue === 'boolean';
+
+  // Value-change / visibility / entry animations
+  const { frame: animationFrame, animating, holdVisible } = useComponentAnimations(animations, rawValue, isVisible);
+  const hasVisibilityAnimation = !!animations?.some(animation => animation.trigger === 'visibilityChange');
+  const shownValue = animationFrame.countUpValue !== undefined
+    ? roundCountUpValue(animationFrame.countUpValue, Number(rawValue))
+    : rawValue;
 
   // Handle currentPlayer name paths
   const isCurrentPlayerName = dataPath === 'currentPlayer.home.name' || dataPath === 'currentPlayer.away.name';
@@ -252,26 +267,15 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
                       dataPath === 'currentPlayer.away.name' ? 'Away' : '--';
 
   // Format value
-  const formatValue = (value: any) => {
+  const formatShownValue = (value: any) => {
     if (value === null || value === undefined || value === '') {
       if (isCurrentPlayerName) return defaultName;
       return '--';
     }
-
-    switch (format) {
-      case 'number':
-        return Number(value).toString();
-      case 'time':
-        return typeof value === 'string' ? value : `${Math.floor(value / 60)}:${(value % 60).toString().padStart(2, '0')}`;
-      case 'boolean':
-        return value ? 'YES' : 'NO';
-      case 'text':
-      default:
-        return String(value);
-    }
+    return formatValue(value, format, activeProps.formatOptions);
   };
 
-  const formattedValue = formatValue(rawValue);
+  const formattedValue = formatShownValue(shownValue);
   const customText = activeProps.customText;
   const previewText = activeProps.previewText;
   const displayText = customText
@@ -314,20 +318,56 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
       return fontSize;
     }
 
-    const availableWidth = containerWidth - paddingLeft - paddingRight;
-    const availableHeight = containerHeight - paddingTop - paddingBottom;
-    const charWidthRatio = 0.6;
-    const widthBasedFontSize = availableWidth / (displayText.length * charWidthRatio);
-    const heightBasedFontSize = availableHeight;
+    // Fitting the widest expected value too keeps the size steady as the value changes
+    const texts = autoFitSampleText ? [displayText, `${prefix}${autoFitSampleText}${suffix}`] : [displayText];
+    const cssFontFamily = getFontConfig(fontFamily).web;
+    return fitFontSize(
+      texts,
+      size => createTextMeasurer(cssFontFamily, size, fontWeight, letterSpacing),
+      {
+        fontSize,
+        minFontScale,
+        maxWidth: containerWidth - paddingLeft - paddingRight,
+        maxHeight: containerHeight - paddingTop - paddingBottom,
+        lineHeight,
+        wrap: wrapText,
+        maxLines,
+      }
+    );
+  }, [autoFitText, autoFitSampleText, minFontScale, displayText, prefix, suffix, fontFamily, fontSize, fontWeight, letterSpacing, wrapText, maxLines, lineHeight, containerWidth, containerHeight, paddingLeft, paddingRight, paddingTop, paddingBottom]);
+
+  // Lines of text and where each one sits
+  const textLines = React.useMemo(() => {
+    if (!displayText) return [];
+    const measure = createTextMeasurer(getFontConfig(fontFamily).web, finalFontSize, fontWeight, letterSpacing);
+    return layoutTextLines(displayText, measure, {
+      wrap: wrapText,
+      maxWidth: containerWidth - paddingLeft - paddingRight,
+      maxLines,
+    });
+  }, [displayText, fontFamily, finalFontSize, fontWeight, letterSpacing, wrapText, maxLines, containerWidth, paddingLeft, paddingRight]);
+
+  const lineCenters = getLineCenters(textLines.length, {
+    fontSize: finalFontSize,
+    lineHeight,
+    verticalAlign,
+    height: containerHeight,
+    paddingTop,
+    paddingBottom,
+  });
 
-    return Math.min(widthBasedFontSize, heightBasedFontSize, fontSize);
-  }, [autoFitText, displayText, fontSize, containerWidth, containerHeight, paddingLeft, paddingRight, paddingTop, paddingBottom]);
+  const textX = textAlign === 'left'
+    ? paddingLeft
+    : textAlign === 'right'
+    ? containerWidth - paddingRight
+    : containerWidth / 2;
 
   return (
     <View style={{
       width: containerWidth,
       height: containerHeight,
       backgroundColor: effectiveBackgroundColor,
+      backgroundImage: backgroundGradientCss,
       justifyContent: imageSourceObj ? anchorAlignment.justifyContent : 'flex-start',
       alignItems: imageSourceObj ? anchorAlignment.alignItems : 'flex-start',
       overflow: imageSourceObj ? 'visible' : 'hidden',
@@ -347,8 +387,10 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
       paddingBottom: 0,
       paddingLeft: 0,
       position: 'relative',
-      opacity: isVisible ? 1 : 0,
-      transition: 'opacity 150ms ease-in-out',
+      opacity: (isVisible || holdVisible ? 1 : 0) * animationFrame.opacity,
+      // Visibility animations replace the default fade
+      transition: animating || hasVisibilityAnimation ? undefined : 'opacity 150ms ease-in-out',
+      transform: getAnimationTransform(animationFrame),
       flexDirection: 'column'
     }}>
       {imageSourceObj ? (
@@ -451,24 +493,41 @@ export default function CustomDataDisplay(props: CustomDataDisplayProps) {
           style={{ position: 'absolute', top: 0, left: 0 }}
         >
           <text
-            x={(() => {
-              if (textAlign === 'left') return paddingLeft;
-              if (textAlign === 'right') return containerWidth - paddingRight;
-              return containerWidth / 2;
-            })()}
-            y="50%"
-            dy={getFontConfig(fontFamily).dyOffset}
+            x={textX}
             textAnchor={textAlign === 'left' ? 'start' : textAlign === 'right' ? 'end' : 'middle'}
             fill={effectiveTextColor}
             fontSize={finalFontSize}
-            fontWeight="bold"
+            fontWeight={fontWeight}
             fontFamily={getFontConfig(fontFamily).web}
-            letterSpacing="0"
+            letterSpacing={letterSpacing}
+            {...getTextStrokeAttributes(activeProps)}
+            style={{ filter: getTextEffectFilter(activeProps) }}
           >
-            {displayText}
+            {textLines.map((line, index) => (
+              <tspan
+                key={index}
+                x={textX}
+                y={lineCenters[index]}
+                dy={getFontConfig(fontFamily).dyOffset}
+              >
+                {line}
+              </tspan>
+            ))}
           </text>
         </svg>
       )}
+      {animationFrame.flashOpacity > 0 && (
+        <div style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          backgroundColor: animationFrame.flashColor,
+          opacity: animationFrame.flashOpacity,
+          pointerEvents: 'none',
+        }} />
+      )}
     </View>
   );
 }
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text } from 'react-native';
 
-interface LeaderboardPlayer {
+export interface LeaderboardPlayer {
   id: string;
   jersey: string;
   name: string;
@@ -0,0 +1,285 @@
+/**
+ * Value-change, visibility and entry animations for CustomDataDisplay.
+ *
+ * Each animation is a trigger plus an effect. The math here is deliberately
+ * framework-free (progress in, style contributions out) so the TV app can
+ * reproduce the builder preview frame for frame:
+ *
+ * - valueChange: the data value changed (never on first render)
+ * - visibilityChange: visibilityPath flipped; fade/slide play in when shown and out when hidden
+ * - enter: the first time the component is shown
+ *
+ * Effects: flash (color overlay fading out), pulse (scale up and back),
+ * slide (move into place while fading in), fade, countUp (numbers tween from
+ * the previous value; from 0 for enter/visibility triggers).
+ */
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type {
+  AnimationEasing,
+  AnimationEffect,
+  AnimationTrigger,
+  ComponentAnimation,
+  SlideDirection,
+} from './types';
+
+export const ANIMATION_TRIGGERS: readonly AnimationTrigger[] = ['valueChange', 'visibilityChange', 'enter'];
+export const ANIMATION_EFFECTS: readonly AnimationEffect[] = ['flash', 'pulse', 'slide', 'fade', 'countUp'];
+export const ANIMATION_EASINGS: readonly AnimationEasing[] = ['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out'];
+export const SLIDE_DIRECTIONS: readonly SlideDirection[] = ['up', 'down', 'left', 'right'];
+
+/**
+ * Values used when an animation omits an optional field.
+ */
+export const ANIMATION_DEFAULTS = {
+  delay: 0,
+  easing: 'ease-out' as AnimationEasing,
+  color: '#ffffff',
+  scale: 1.2,
+  direction: 'up' as SlideDirection,
+  distance: 20,
+};
+
+// CSS easing keywords as cubic-bezier control points
+const EASING_CURVES: Record<AnimationEasing, [number, number, number, number] | null> = {
+  linear: null,
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const bezierAt = (t: number, p1: number, p2: number) =>
+  3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+
+/**
+ * Eased progress for linear progress t in [0, 1], matching CSS timing functions.
+ */
+export const applyEasing = (t: number, easing: AnimationEasing = ANIMATION_DEFAULTS.easing): number => {
+  const curve = EASING_CURVES[easing];
+  if (!curve || t <= 0 || t >= 1) return Math.min(1, Math.max(0, t));
+  const [x1, y1, x2, y2] = curve;
+  // Bisection on x(s) = t - x is monotonic for all CSS keyword curves
+  let low = 0;
+  let high = 1;
+  let s = t;
+  for (let i = 0; i < 20; i++) {
+    s = (low + high) / 2;
+    if (bezierAt(s, x1, x2) < t) low = s;
+    else high = s;
+  }
+  return bezierAt(s, y1, y2);
+};
+
+/**
+ * Combined effect of every running animation. Identity values mean "no change".
+ */
+export interface AnimationFrame {
+  opacity: number; // Multiplied into the component's opacity
+  translateX: number;
+  translateY: number;
+  scale: number;
+  flashColor?: string;
+  flashOpacity: number;
+  countUpValue?: number; // Replaces the displayed number while counting
+}
+
+export const IDLE_ANIMATION_FRAME: AnimationFrame = {
+  opacity: 1,
+  translateX: 0,
+  translateY: 0,
+  scale: 1,
+  flashOpacity: 0,
+};
+
+/**
+ * A triggered animation in progress.
+ */
+export interface AnimationRun {
+  animation: ComponentAnimation;
+  startedAt: number; // ms timestamp when the trigger fired
+  hiding: boolean; // Playing out because the component was hidden
+  from?: number; // countUp start value
+  to?: number; // countUp end value
+}
+
+const SLIDE_VECTORS: Record<SlideDirection, [number, number]> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0],
+};
+
+// Fade and slide start hidden, so they hold their first frame during the delay
+const startsHidden = (run: AnimationRun) =>
+  !run.hiding && (run.animation.effect === 'fade' || run.animation.effect === 'slide');
+
+/**
+ * Whether the run has finished at time `now`.
+ */
+export const isAnimationRunDone = (run: AnimationRun, now: number): boolean =>
+  now - run.startedAt >= (run.animation.delay ?? ANIMATION_DEFAULTS.delay) + Math.max(0, run.animation.duration);
+
+/**
+ * Apply one run's contribution at time `now` to a frame.
+ */
+export const applyAnimationRun = (frame: AnimationFrame, run: AnimationRun, now: number): AnimationFrame => {
+  const { animation } = run;
+  const elapsed = now - run.startedAt - (animation.delay ?? ANIMATION_DEFAULTS.delay);
+  if (elapsed < 0 && !startsHidden(run)) return frame;
+
+  const duration = Math.max(1, animation.duration);
+  const progress = applyEasing(Math.min(1, Math.max(0, elapsed / duration)), animation.easing);
+
+  switch (animation.effect) {
+    case 'flash':
+      return {
+        ...frame,
+        flashColor: animation.color || ANIMATION_DEFAULTS.color,
+        flashOpacity: Math.max(frame.flashOpacity, 1 - progress),
+      };
+    case 'pulse': {
+      const peak = animation.scale ?? ANIMATION_DEFAULTS.scale;
+      return { ...frame, scale: frame.scale * (1 + (peak - 1) * Math.sin(Math.PI * progress)) };
+    }
+    case 'fade':
+      return { ...frame, opacity: frame.opacity * (run.hiding ? 1 - progress : progress) };
+    case 'slide': {
+      const [dx, dy] = SLIDE_VECTORS[animation.direction || ANIMATION_DEFAULTS.direction];
+      const distance = animation.distance ?? ANIMATION_DEFAULTS.distance;
+      // Showing: travel the last `distance` pixels into place. Hiding: keep travelling out.
+      const offset = run.hiding ? distance * progress : -distance * (1 - progress);
+      return {
+        ...frame,
+        translateX: frame.translateX + dx * offset,
+        translateY: frame.translateY + dy * offset,
+        opacity: frame.opacity * (run.hiding ? 1 - progress : progress),
+      };
+    }
+    case 'countUp': {
+      if (run.from === undefined || run.to === undefined) return frame;
+      return { ...frame, countUpValue: run.from + (run.to - run.from) * progress };
+    }
+    default:
+      return frame;
+  }
+};
+
+/**
+ * Frame for a set of runs at time `now`.
+ */
+export const getAnimationFrame = (runs: AnimationRun[], now: number): AnimationFrame =>
+  runs.reduce((frame, run) => applyAnimationRun(frame, run, now), IDLE_ANIMATION_FRAME);
+
+/**
+ * React Native style transform for a frame, or undefined when it has no movement.
+ */
+export const getAnimationTransform = (
+  frame: AnimationFrame
+): [{ translateX: number }, { translateY: number }, { scale: number }] | undefined => {
+  if (frame.translateX === 0 && frame.translateY === 0 && frame.scale === 1) return undefined;
+  return [{ translateX: frame.translateX }, { translateY: frame.translateY }, { scale: frame.scale }];
+};
+
+/**
+ * Round a counting value to the precision of its target (12 -> integers, 12.5 -> one decimal).
+ */
+export const roundCountUpValue = (value: number, target: number): number => {
+  const decimals = (String(target).split('.')[1] || '').length;
+  return Number(value.toFixed(decimals));
+};
+
+const toCountableNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Marks "no value seen yet" so the first render never counts as a change
+const NO_VALUE = Symbol('noValue');
+
+const valueKey = (value: unknown) => (typeof value === 'object' && value !== null ? JSON.stringify(value) : value);
+
+/**
+ * Plays a component's animations as its value and visibility change.
+ * `holdVisible` is true while an out animation needs a hidden component to stay on screen.
+ */
+export function useComponentAnimations(
+  animations: ComponentAnimation[] | undefined,
+  value: unknown,
+  isVisible: boolean
+): { frame: AnimationFrame; animating: boolean; holdVisible: boolean } {
+  const [runs, setRuns] = useState<AnimationRun[]>([]);
+  const [now, setNow] = useState(0);
+  const previousValueRef = useRef<unknown>(NO_VALUE);
+  const previousVisibleRef = useRef<boolean | null>(null);
+  const enteredRef = useRef(false);
+  const animationsRef = useRef(animations);
+  animationsRef.current = animations;
+
+  const start = (trigger: AnimationTrigger, hiding: boolean, from?: number) => {
+    const matching = (animationsRef.current || []).filter(animation => animation.trigger === trigger);
+    if (matching.length === 0) return;
+    const startedAt = performance.now();
+    const to = toCountableNumber(value);
+    const started = matching.map(animation => ({
+      animation,
+      startedAt,
+      hiding,
+      ...(animation.effect === 'countUp' && from !== undefined && to !== undefined && { from, to }),
+    }));
+    // Retriggering restarts an animation rather than stacking a second copy
+    setRuns(current => [
+      ...current.filter(run => !started.some(next => next.animation.id === run.animation.id)),
+      ...started,
+    ]);
+    setNow(startedAt);
+  };
+
+  // Triggers start in layout effects so the first animated frame replaces the unanimated one before paint
+  const currentValueKey = valueKey(value);
+  useLayoutEffect(() => {
+    const previous = previousValueRef.current;
+    previousValueRef.current = value;
+    if (previous === NO_VALUE || valueKey(previous) === currentValueKey) return;
+    start('valueChange', false, toCountableNumber(previous));
+  }, [currentValueKey]);
+
+  useLayoutEffect(() => {
+    const wasVisible = previousVisibleRef.current;
+    previousVisibleRef.current = isVisible;
+    if (isVisible && !enteredRef.current) {
+      enteredRef.current = true;
+      start('enter', false, 0);
+    }
+    if (wasVisible !== null && wasVisible !== isVisible) {
+      start('visibilityChange', !isVisible, 0);
+    }
+  }, [isVisible]);
+
+  // Drive frames while anything is running
+  useEffect(() => {
+    if (runs.length === 0) return;
+    let frameId = requestAnimationFrame(function tick(timestamp) {
+      setNow(timestamp);
+      if (runs.every(run => isAnimationRunDone(run, timestamp))) {
+        setRuns(current => current.filter(run => !isAnimationRunDone(run, timestamp)));
+        return;
+      }
+      frameId = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [runs]);
+
+  // Runs removed from the component's settings stop immediately
+  const activeRuns = runs.filter(run => (animations || []).some(animation => animation.id === run.animation.id));
+
+  return {
+    frame: getAnimationFrame(activeRuns, now),
+    animating: activeRuns.length > 0,
+    holdVisible: activeRuns.some(run => run.hiding && !isAnimationRunDone(run, now)),
+  };
+}
@@ -0,0 +1,537 @@
+/**
+ * Data expressions for dataPath, visibilityPath and style rule conditions.
+ *
+ * A plain dotted path ("homeTeam.score") reads gameData exactly as before. Anything
+ * else is parsed as a small, side-effect free expression language:
+ *
+ *   homeTeam.score - awayTeam.score            arithmetic: + - * / %
+ *   homeTeam.score > awayTeam.score            comparison: == != < <= > >=
+ *   homeTeam.bonus && !homeTeam.doubleBonus    boolean logic: && || !
+ *   homeTeam.score > awayTeam.score ? "HOME" : "AWAY"
+ *   "Leads by " + abs(homeTeam.score - awayTeam.score)
+ *   currentPlayer.home.name ?? homeTeam.name   fallback when the left side is null
+ *   shootoutSlots[period - 1].homeState        computed member access
+ *
+ * Paths containing "-" (user_sequences.period-break) are plain paths, so subtraction
+ * has to be written with spaces around the "-".
+ *
+ * Semantics (kept deliberately simple so the TV app can mirror them):
+ * - Missing paths evaluate to null.
+ * - Arithmetic coerces booleans and numeric strings to numbers; any other operand,
+ *   division by zero or a non-finite result gives null.
+ * - "+" concatenates when either side is a string (null concatenates as "").
+ * - == and != are strict; < <= > >= compare two numbers or two strings, otherwise false.
+ * - && || ! and ?: use JS truthiness (false, null, 0, "" and NaN are falsy); && and ||
+ *   return one of their operands.
+ * - Only the helper functions in DATA_EXPRESSION_FUNCTIONS can be called.
+ */
+
+type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; root: string; start: number; members: PathMember[] }
+  | { kind: 'unary'; op: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type PathMember = { name: string } | { index: ExpressionNode };
+
+type Token =
+  | { type: 'number'; value: number; start: number }
+  | { type: 'string'; value: string; start: number }
+  | { type: 'identifier'; value: string; start: number }
+  | { type: 'punct'; value: string; start: number }
+  | { type: 'end'; start: number };
+
+const PLAIN_PATH_PATTERN = /^[A-Za-z_$][\w$-]*(\.[\w$-]+)*$/;
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[\w$]/;
+// Longest operators first so "===" style typos fail on the leftover "=" instead of parsing oddly
+const PUNCTUATORS = ['==', '!=', '<=', '>=', '&&', '||', '??', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', '[', ']', '.', ','];
+// Keys that would reach into object prototypes
+const UNSAFE_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 40;
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const toText = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+const finiteOrNull = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+const numeric = (fn: (...values: number[]) => number) => (...args: unknown[]): number | null => {
+  const values = args.map(toNumber);
+  if (values.length === 0 || values.some(value => value === null)) return null;
+  return finiteOrNull(fn(...(values as number[])));
+};
+
+/**
+ * Helper functions callable from expressions.
+ */
+export const DATA_EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  abs: numeric(Math.abs),
+  min: numeric(Math.min),
+  max: numeric(Math.max),
+  floor: numeric(Math.floor),
+  ceil: numeric(Math.ceil),
+  round: (value, digits = 0) => numeric((v, d) => {
+    const factor = Math.pow(10, Math.max(0, Math.floor(d)));
+    return Math.round(v * factor) / factor;
+  })(value, digits),
+  clamp: numeric((value, low, high) => Math.min(Math.max(value, low), high)),
+  fixed: (value, digits = 0) => {
+    const v = toNumber(value);
+    const d = toNumber(digits);
+    return v === null || d === null ? null : v.toFixed(Math.min(Math.max(Math.floor(d), 0), 10));
+  },
+  num: (value) => toNumber(value),
+  str: (value) => toText(value),
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  trim: (value) => toText(value).trim(),
+  len: (value) => (typeof value === 'string' || Array.isArray(value) ? value.length : null),
+  pad: (value, width, fill = '0') => {
+    const w = toNumber(width);
+    return w === null ? toText(value) : toText(value).padStart(Math.min(w, 100), toText(fill) || ' ');
+  },
+};
+
+// Own keys only, so Object.prototype members (toString, constructor...) aren't callable
+const isDataExpressionFunction = (name: string): boolean =>
+  Object.prototype.hasOwnProperty.call(DATA_EXPRESSION_FUNCTIONS, name);
+
+/**
+ * Whether a binding is a plain dotted path (read directly, no expression parsing).
+ */
+export const isPlainDataPath = (expression: string): boolean => PLAIN_PATH_PATTERN.test(expression);
+
+/**
+ * Read a member of a gameData value; missing members (and prototype members) are null.
+ */
+const readMember = (current: any, key: string): unknown => {
+  if (!current || UNSAFE_KEYS.has(key)) return null;
+  const value = current[key];
+  return value !== undefined && typeof value !== 'function' ? value : null;
+};
+
+/**
+ * Resolve a plain dotted path against gameData ("homeTeam.score").
+ */
+export const getDataPathValue = (data: any, path: string): any =>
+  path.split('.').reduce((current, key) => readMember(current, key), data);
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // After a "." everything up to the next separator is a member name, so "slots.0.active" works
+    const afterDot = tokens.length > 0 && tokens[tokens.length - 1].type === 'punct' &&
+      (tokens[tokens.length - 1] as { value: string }).value === '.';
+
+    if (IDENTIFIER_START.test(char) || (afterDot && IDENTIFIER_PART.test(char))) {
+      const start = pos;
+      while (pos < source.length && IDENTIFIER_PART.test(source[pos])) pos++;
+      tokens.push({ type: 'identifier', value: source.slice(start, pos), start });
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(pos))!;
+      tokens.push({ type: 'number', value: Number(match[0]), start: pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) pos++;
+        value += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) throw new Error(`Unterminated string starting at position ${start + 1}`);
+      pos++;
+      tokens.push({ type: 'string', value, start });
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find(p => source.startsWith(p, pos));
+    if (!punct) throw new Error(`Unexpected "${char}" at position ${pos + 1}`);
+    tokens.push({ type: 'punct', value: punct, start: pos });
+    pos += punct.length;
+  }
+
+  tokens.push({ type: 'end', start: source.length });
+  return tokens;
+};
+
+// Binary operators by precedence, loosest first
+const BINARY_PRECEDENCE: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const parse = (source: string): ExpressionNode => {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const isPunct = (value: string) => {
+    const token = peek();
+    return token.type === 'punct' && token.value === value;
+  };
+  const describeToken = (token: Token) =>
+    token.type === 'end' ? 'end of expression' : `"${source.slice(token.start, tokens[index + 1]?.start ?? source.length).trim()}"`;
+  const fail = (expected: string): never => {
+    throw new Error(`Expected ${expected} but found ${describeToken(peek())} at position ${peek().start + 1}`);
+  };
+  const expect = (value: string) => {
+    if (!isPunct(value)) fail(`"${value}"`);
+    index++;
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    if (++depth > MAX_NESTING_DEPTH) throw new Error('Expression is nested too deeply');
+    const test = parseBinary(0);
+    let node = test;
+    if (isPunct('?')) {
+      index++;
+      const consequent = parseConditional();
+      expect(':');
+      const alternate = parseConditional();
+      node = { kind: 'conditional', test, consequent, alternate };
+    }
+    depth--;
+    return node;
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek().type === 'punct' && BINARY_PRECEDENCE[level].includes((peek() as { value: string }).value)) {
+      const op = (tokens[index++] as { value: string }).value;
+      const right = parseBinary(level + 1);
+      left = { kind: 'binary', op, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isPunct('!') || isPunct('-')) {
+      const op = (tokens[index++] as { value: string }).value as '!' | '-';
+      if (++depth > MAX_NESTING_DEPTH) throw new Error('Expression is nested too deeply');
+      const operand = parseUnary();
+      depth--;
+      return { kind: 'unary', op, operand };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+
+    if (token.type === 'number' || token.type === 'string') {
+      index++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'punct' && token.value === '(') {
+      index++;
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      index++;
+      if (token.value === 'true') return { kind: 'literal', value: true };
+      if (token.value === 'false') return { kind: 'literal', value: false };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+
+      if (isPunct('(')) {
+        if (!isDataExpressionFunction(token.value)) {
+          throw new Error(`Unknown function "${token.value}" at position ${token.start + 1}`);
+        }
+        index++;
+        const args: ExpressionNode[] = [];
+        if (!isPunct(')')) {
+          args.push(parseConditional());
+          while (isPunct(',')) {
+            index++;
+            args.push(parseConditional());
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: token.value, args };
+      }
+
+      const members: PathMember[] = [];
+      while (isPunct('.') || isPunct('[')) {
+        if (isPunct('.')) {
+          index++;
+          const member = peek();
+          if (member.type !== 'identifier') fail('a property name');
+          members.push({ name: (member as { value: string }).value });
+          index++;
+        } else {
+          index++;
+          members.push({ index: parseConditional() });
+          expect(']');
+        }
+      }
+      return { kind: 'path', root: token.value, start: token.start, members };
+    }
+
+    return fail('a value');
+  };
+
+  const ast = parseConditional();
+  if (peek().type !== 'end') fail('an operator');
+  return ast;
+};
+
+type CompiledExpression = { ast: ExpressionNode; error?: undefined } | { ast?: undefined; error: string };
+
+// Parsed expressions by source; cleared when it grows past the limit
+const compiledCache = new Map<string, CompiledExpression>();
+const MAX_CACHED_EXPRESSIONS = 500;
+
+const compile = (expression: string): CompiledExpression => {
+  let compiled = compiledCache.get(expression);
+  if (!compiled) {
+    try {
+      compiled = { ast: parse(expression) };
+    } catch (error) {
+      compiled = { error: error instanceof Error ? error.message : String(error) };
+    }
+    if (compiledCache.size >= MAX_CACHED_EXPRESSIONS) compiledCache.clear();
+    compiledCache.set(expression, compiled);
+  }
+  return compiled;
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const compare = (op: string, left: unknown, right: unknown): boolean => {
+  const bothNumbers = typeof left === 'number' && typeof right === 'number';
+  const bothStrings = typeof left === 'string' && typeof right === 'string';
+  if (!bothNumbers && !bothStrings) return false;
+  const l = left as number | string;
+  const r = right as number | string;
+  switch (op) {
+    case '<': return l < r;
+    case '<=': return l <= r;
+    case '>': return l > r;
+    default: return l >= r;
+  }
+};
+
+const arithmetic = (op: string, left: unknown, right: unknown): unknown => {
+  if (op === '+' && (typeof left === 'string' || typeof right === 'string')) {
+    return toText(left) + toText(right);
+  }
+  const l = toNumber(left);
+  const r = toNumber(right);
+  if (l === null || r === null) return null;
+  switch (op) {
+    case '+': return finiteOrNull(l + r);
+    case '-': return finiteOrNull(l - r);
+    case '*': return finiteOrNull(l * r);
+    case '/': return r === 0 ? null : finiteOrNull(l / r);
+    default: return r === 0 ? null : finiteOrNull(l % r);
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, data: any): unknown => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'path': {
+      let current = readMember(data, node.root);
+      for (const member of node.members) {
+        const key = 'name' in member ? member.name : toText(evaluateNode(member.index, data));
+        current = readMember(current, key);
+      }
+      return current;
+    }
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, data);
+      if (node.op === '!') return !operand;
+      const value = toNumber(operand);
+      return value === null ? null : -value;
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, data)
+        ? evaluateNode(node.consequent, data)
+        : evaluateNode(node.alternate, data);
+
+    case 'call':
+      if (!isDataExpressionFunction(node.name)) return null;
+      return DATA_EXPRESSION_FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, data)));
+
+    case 'binary': {
+      const left = evaluateNode(node.left, data);
+      // Short-circuit operators only evaluate the right side when needed
+      if (node.op === '&&') return left ? evaluateNode(node.right, data) : left;
+      if (node.op === '||') return left ? left : evaluateNode(node.right, data);
+      if (node.op === '??') return left ?? evaluateNode(node.right, data);
+
+      const right = evaluateNode(node.right, data);
+      switch (node.op) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          return compare(node.op, left, right);
+        default:
+          return arithmetic(node.op, left, right);
+      }
+    }
+  }
+};
+
+/**
+ * Evaluate a dataPath, visibilityPath or style rule condition against gameData.
+ * Plain paths are read directly; invalid expressions evaluate to null.
+ */
+export const evaluateDataExpression = (data: any, expression: string): any => {
+  if (isPlainDataPath(expression)) return getDataPathValue(data, expression);
+  const compiled = compile(expression);
+  if (!compiled.ast) return null;
+  const value = evaluateNode(compiled.ast, data);
+  return value === undefined ? null : value;
+};
+
+/**
+ * Parse error for an expression, or null when it's valid (plain paths are always valid).
+ */
+export const getDataExpressionError = (expression: string): string | null => {
+  if (isPlainDataPath(expression)) return null;
+  return compile(expression).error ?? null;
+};
+
+const collectPathStarts = (node: ExpressionNode, starts: number[]): void => {
+  switch (node.kind) {
+    case 'path':
+      starts.push(node.start);
+      node.members.forEach(member => {
+        if ('index' in member) collectPathStarts(member.index, starts);
+      });
+      break;
+    case 'unary':
+      collectPathStarts(node.operand, starts);
+      break;
+    case 'binary':
+      collectPathStarts(node.left, starts);
+      collectPathStarts(node.right, starts);
+      break;
+    case 'conditional':
+      collectPathStarts(node.test, starts);
+      collectPathStarts(node.consequent, starts);
+      collectPathStarts(node.alternate, starts);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectPathStarts(arg, starts));
+      break;
+  }
+};
+
+const collectPaths = (node: ExpressionNode, paths: string[]): void => {
+  switch (node.kind) {
+    case 'path': {
+      // Named members up to the first computed one: shootoutSlots[period - 1].homeState → shootoutSlots
+      const firstIndex = node.members.findIndex(member => 'index' in member);
+      const names = node.members.slice(0, firstIndex === -1 ? undefined : firstIndex) as { name: string }[];
+      paths.push([node.root, ...names.map(member => member.name)].join('.'));
+      node.members.forEach(member => {
+        if ('index' in member) collectPaths(member.index, paths);
+      });
+      break;
+    }
+    case 'unary':
+      collectPaths(node.operand, paths);
+      break;
+    case 'binary':
+      collectPaths(node.left, paths);
+      collectPaths(node.right, paths);
+      break;
+    case 'conditional':
+      collectPaths(node.test, paths);
+      collectPaths(node.consequent, paths);
+      collectPaths(node.alternate, paths);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectPaths(arg, paths));
+      break;
+  }
+};
+
+/**
+ * gameData paths an expression reads, without duplicates. Computed members end a
+ * path ("inningSlots[i].homeScore" reads "inningSlots" and "i"). Invalid
+ * expressions read nothing.
+ */
+export const getDataExpressionPaths = (expression: string): string[] => {
+  if (isPlainDataPath(expression)) return [expression];
+  const compiled = compile(expression);
+  if (!compiled.ast) return [];
+  const paths: string[] = [];
+  collectPaths(compiled.ast, paths);
+  return Array.from(new Set(paths));
+};
+
+/**
+ * Scope every path in an expression under a prefix, e.g. for slot templates:
+ * prefixDataExpression('points > 20', 'leaderboardSlots.home.slot0')
+ *   → 'leaderboardSlots.home.slot0.points > 20'
+ */
+export const prefixDataExpression = (expression: string, prefix: string): string => {
+  const compiled = isPlainDataPath(expression) ? undefined : compile(expression);
+  if (!compiled?.ast) return `${prefix}.${expression}`;
+
+  const starts: number[] = [];
+  collectPathStarts(compiled.ast, starts);
+  // Splice from the end so earlier positions stay valid
+  return starts
+    .sort((a, b) => b - a)
+    .reduce((result, start) => `${result.slice(0, start)}${prefix}.${result.slice(start)}`, expression);
+};
@@ -1,65 +1,77 @@
 /**
- * Font configuration for CustomDataDisplay.
- * Defines web font mappings and bearing ratios for text alignment.
+ * Font registry for CustomDataDisplay.
+ * Defines web font mappings and bearing ratios for text alignment. Built-in fonts are
+ * listed in FONT_CONFIG; fonts uploaded in the builder are added with registerFont.
  */
 
 export interface FontConfig {
+  label: string;
   web: string;
   dyOffset: string;
   leftBearingRatio: number;
   rightBearingRatio: number;
+  custom?: boolean; // Uploaded font rather than one bundled with the apps
 }
 
 export const FONT_CONFIG: Record<string, FontConfig> = {
   'Score-Regular': {
+    label: 'Score-Regular (Numbers/Clocks)',
     web: 'Score-Regular',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Helvetica-Bold': {
+    label: 'Helvetica Bold (System)',
     web: 'Helvetica, Arial, sans-serif',
     dyOffset: '0.35em',
     leftBearingRatio: 0.06,
     rightBearingRatio: 0.06,
   },
   'Inter-Bold': {
+    label: 'Inter Bold (Clean/Modern)',
     web: 'Inter-Bold',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Roboto-Bold': {
+    label: 'Roboto Bold (Versatile)',
     web: 'Roboto-Bold',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Montserrat-Bold': {
+    label: 'Montserrat Bold (Geometric)',
     web: 'Montserrat-Bold',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Oswald-Bold': {
+    label: 'Oswald Bold (Condensed)',
     web: 'Oswald-Bold',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'BebasNeue': {
+    label: 'Bebas Neue (Athletic)',
     web: 'BebasNeue',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Anton': {
+    label: 'Anton (Impact)',
     web: 'Anton',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
     rightBearingRatio: 0.05,
   },
   'Teko-Bold': {
+    label: 'Teko Bold (Tech/Sport)',
     web: 'Teko-Bold',
     dyOffset: '0.35em',
     leftBearingRatio: 0.05,
@@ -69,8 +81,62 @@ export const FONT_CONFIG: Record<string, FontConfig> = {
 
 const DEFAULT_FONT = 'Score-Regular';
 
+const customFonts: Record<string, FontConfig> = {};
+const fontListeners = new Set<() => void>();
+let fontOptions: { value: string; label: string }[] | null = null;
+
+const notifyFontListeners = () => {
+  fontOptions = null;
+  fontListeners.forEach(listener => listener());
+};
+
+/**
+ * Adds (or replaces) a custom font. Built-in names can't be replaced.
+ */
+export const registerFont = (name: string, config: Omit<FontConfig, 'custom'>): void => {
+  if (FONT_CONFIG[name]) {
+    throw new Error(`"${name}" is a built-in font`);
+  }
+  customFonts[name] = { ...config, custom: true };
+  notifyFontListeners();
+};
+
+export const unregisterFont = (name: string): void => {
+  if (!customFonts[name]) return;
+  delete customFonts[name];
+  notifyFontListeners();
+};
+
+export const isFontRegistered = (name: string): boolean => !!(FONT_CONFIG[name] || customFonts[name]);
+
+export const isCustomFont = (name: string): boolean => !!customFonts[name];
+
+/**
+ * Font picker entries: built-in fonts first, then custom fonts by name.
+ * The same array is returned until the registry changes.
+ */
+export const getFontOptions = (): { value: string; label: string }[] => {
+  if (!fontOptions) {
+    fontOptions = [
+      ...Object.entries(FONT_CONFIG),
+      ...Object.entries(customFonts).sort(([a], [b]) => a.localeCompare(b)),
+    ].map(([value, config]) => ({ value, label: config.label }));
+  }
+  return fontOptions;
+};
+
+/**
+ * Calls `listener` whenever a font is registered or removed; returns the unsubscribe function.
+ */
+export const subscribeToFonts = (listener: () => void): (() => void) => {
+  fontListeners.add(listener);
+  return () => {
+    fontListeners.delete(listener);
+  };
+};
+
 export const getFontConfig = (fontFamily: string): FontConfig => {
-  return FONT_CONFIG[fontFamily] || FONT_CONFIG[DEFAULT_FONT];
+  return FONT_CONFIG[fontFamily] || customFonts[fontFamily] || FONT_CONFIG[DEFAULT_FONT];
 };
 
 /**
@@ -92,7 +158,7 @@ export const getTextBearings = (
     return { leftBearing: 0, rightBearing: 0 };
   }
 
-  ctx.font = `bold ${fontSize}px ${fontFamily}`;
+  ctx.font = `bold ${fontSize}px ${getFontConfig(fontFamily).web}`;
   const metrics = ctx.measureText(text);
 
   const leftBearing = metrics.actualBoundingBoxLeft || 0;
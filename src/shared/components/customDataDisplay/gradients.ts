@@ -0,0 +1,70 @@
+/**
+ * Gradient fills for component and layout backgrounds.
+ *
+ * Gradients are stored structurally (type, angle, stops) rather than as CSS so the
+ * TV app can rebuild them with its own renderer; getGradientCss is the web rendering.
+ */
+
+import type { Gradient, GradientType } from './types';
+
+export const GRADIENT_TYPES: readonly GradientType[] = ['linear', 'radial'];
+
+export const DEFAULT_GRADIENT_ANGLE = 180; // Top to bottom
+
+/**
+ * Gradient with stops sorted by position and clamped to 0-1, angle in [0, 360),
+ * or undefined when it has fewer than two stops (nothing to blend).
+ */
+export const normalizeGradient = (gradient: Gradient | undefined): Gradient | undefined => {
+  if (!gradient || !Array.isArray(gradient.stops)) return undefined;
+  const stops = gradient.stops
+    .filter(stop => stop && typeof stop.color === 'string' && Number.isFinite(stop.position))
+    .map(stop => ({ color: stop.color, position: Math.min(1, Math.max(0, stop.position)) }))
+    .sort((a, b) => a.position - b.position);
+  if (stops.length < 2) return undefined;
+
+  const normalized: Gradient = { type: gradient.type === 'radial' ? 'radial' : 'linear', stops };
+  if (normalized.type === 'linear') {
+    const angle = Number.isFinite(gradient.angle) ? gradient.angle! : DEFAULT_GRADIENT_ANGLE;
+    normalized.angle = ((angle % 360) + 360) % 360;
+  }
+  return normalized;
+};
+
+/**
+ * CSS background-image for a gradient, or undefined when it can't be drawn.
+ */
+export const getGradientCss = (gradient: Gradient | undefined): string | undefined => {
+  const normalized = normalizeGradient(gradient);
+  if (!normalized) return undefined;
+  const stops = normalized.stops
+    .map(stop => `${stop.color} ${Math.round(stop.position * 1000) / 10}%`)
+    .join(', ');
+  return normalized.type === 'radial'
+    ? `radial-gradient(circle, ${stops})`
+    : `linear-gradient(${normalized.angle}deg, ${stops})`;
+};
+
+/**
+ * Color of the stop nearest the middle - stands in for the gradient where one color
+ * is needed (auto-contrast text, swatches).
+ */
+export const getGradientMidColor = (gradient: Gradient | undefined): string | undefined => {
+  const normalized = normalizeGradient(gradient);
+  if (!normalized) return undefined;
+  return normalized.stops.reduce((nearest, stop) =>
+    Math.abs(stop.position - 0.5) < Math.abs(nearest.position - 0.5) ? stop : nearest
+  ).color;
+};
+
+/**
+ * Two-stop gradient from `color` to black, the starting point when switching a fill to a gradient.
+ */
+export const createGradient = (type: GradientType, color: string): Gradient => ({
+  type,
+  ...(type === 'linear' && { angle: DEFAULT_GRADIENT_ANGLE }),
+  stops: [
+    { color, position: 0 },
+    { color: '#000000', position: 1 },
+  ],
+});
@@ -2,10 +2,20 @@
  * CustomDataDisplay module exports.
  */
 
-export { getFontConfig, getTextBearings, FONT_CONFIG } from './fontConfig';
+export {
+  getFontConfig,
+  getTextBearings,
+  getFontOptions,
+  registerFont,
+  unregisterFont,
+  isFontRegistered,
+  isCustomFont,
+  subscribeToFonts,
+  FONT_CONFIG,
+} from './fontConfig';
 export type { FontConfig } from './fontConfig';
 
-export { mockGameData, mockBannerData } from './mockGameData';
+export { mockGameData, mockBannerData, createMockGameData } from './mockGameData';
 
 export {
   formatColor,
@@ -22,4 +32,85 @@ export {
 } from './imageUtils';
 export type { ImageAnchor } from './imageUtils';
 
-export type { CustomDataDisplayProps } from './types';
+export {
+  evaluateDataExpression,
+  getDataExpressionError,
+  getDataPathValue,
+  isPlainDataPath,
+  prefixDataExpression,
+  getDataExpressionPaths,
+  DATA_EXPRESSION_FUNCTIONS,
+} from './dataExpressions';
+
+export {
+  getGradientCss,
+  getGradientMidColor,
+  normalizeGradient,
+  createGradient,
+  GRADIENT_TYPES,
+  DEFAULT_GRADIENT_ANGLE,
+} from './gradients';
+
+export {
+  getTextEffectFilter,
+  getTextStrokeAttributes,
+  hasTextShadow,
+  TEXT_EFFECT_DEFAULTS,
+  FONT_WEIGHTS,
+} from './textEffects';
+
+export {
+  layoutTextLines,
+  fitFontSize,
+  getLineCenters,
+  createTextMeasurer,
+  TEXT_LAYOUT_DEFAULTS,
+  TEXT_VERTICAL_ALIGNS,
+  ELLIPSIS,
+} from './textLayout';
+export type { MeasureText, TextLayoutOptions, FitFontSizeOptions } from './textLayout';
+
+export {
+  formatValue,
+  cleanFormatOptions,
+  getOrdinal,
+  VALUE_FORMATS,
+  VALUE_FORMAT_DEFAULTS,
+  TEXT_CASES,
+} from './valueFormat';
+
+export { getActiveStyleRule, applyStyleRules, prefixStyleRules } from './styleRules';
+
+export {
+  useComponentAnimations,
+  applyEasing,
+  applyAnimationRun,
+  getAnimationFrame,
+  getAnimationTransform,
+  isAnimationRunDone,
+  roundCountUpValue,
+  IDLE_ANIMATION_FRAME,
+  ANIMATION_DEFAULTS,
+  ANIMATION_TRIGGERS,
+  ANIMATION_EFFECTS,
+  ANIMATION_EASINGS,
+  SLIDE_DIRECTIONS,
+} from './animations';
+export type { AnimationFrame, AnimationRun } from './animations';
+
+export type {
+  CustomDataDisplayProps,
+  StyleRule,
+  ComponentAnimation,
+  AnimationTrigger,
+  AnimationEffect,
+  AnimationEasing,
+  SlideDirection,
+  Gradient,
+  GradientStop,
+  GradientType,
+  TextVerticalAlign,
+  ValueFormat,
+  ValueFormatOptions,
+  TextCase,
+} from './types';
@@ -0,0 +1,43 @@
+/**
+ * Conditional style rules for CustomDataDisplay.
+ *
+ * A component keeps an ordered list of rules. Each rule has a condition (a data
+ * expression, see dataExpressions.ts) and a set of prop overrides. The first rule
+ * whose condition is truthy wins and its overrides are merged over the component's
+ * own props; when no rule matches the component renders with its own props.
+ */
+
+import { evaluateDataExpression, getDataExpressionError, prefixDataExpression } from './dataExpressions';
+import type { StyleRule } from './types';
+
+/**
+ * The rule that applies for the given game data, or null when none matches.
+ * Rules with an empty or invalid condition never match.
+ */
+export const getActiveStyleRule = (rules: StyleRule[] | undefined, data: any): StyleRule | null => {
+  if (!rules?.length) return null;
+  for (const rule of rules) {
+    const condition = rule.when?.trim();
+    if (!condition || getDataExpressionError(condition)) continue;
+    if (evaluateDataExpression(data, condition)) return rule;
+  }
+  return null;
+};
+
+/**
+ * Props with the active rule's overrides applied.
+ */
+export const applyStyleRules = <T extends Record<string, any>>(
+  props: T,
+  rules: StyleRule[] | undefined,
+  data: any
+): T => {
+  const activeRule = getActiveStyleRule(rules, data);
+  return activeRule ? { ...props, ...activeRule.set } : props;
+};
+
+/**
+ * Rules with every condition scoped under a prefix (slot templates).
+ */
+export const prefixStyleRules = (rules: StyleRule[], prefix: string): StyleRule[] =>
+  rules.map(rule => (rule.when?.trim() ? { ...rule, when: prefixDataExpression(rule.when.trim(), prefix) } : rule));
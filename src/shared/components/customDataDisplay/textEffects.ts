@@ -0,0 +1,81 @@
+/**
+ * Text effects for CustomDataDisplay: weight, letter spacing, outline, drop shadow and glow.
+ *
+ * The outline is an SVG stroke painted under the fill, so `textStrokeWidth` is the
+ * visible width outside the glyphs. Shadow and glow are CSS drop-shadow filters on
+ * the text (the shadow first, so the glow wraps the shadow too).
+ */
+
+import type { CustomDataDisplayProps } from './types';
+
+type TextEffectProps = Pick<
+  CustomDataDisplayProps,
+  | 'fontWeight'
+  | 'letterSpacing'
+  | 'textStrokeWidth'
+  | 'textStrokeColor'
+  | 'textShadowOffsetX'
+  | 'textShadowOffsetY'
+  | 'textShadowBlur'
+  | 'textShadowColor'
+  | 'textGlowRadius'
+  | 'textGlowColor'
+>;
+
+export const TEXT_EFFECT_DEFAULTS: Required<TextEffectProps> = {
+  fontWeight: 700,
+  letterSpacing: 0,
+  textStrokeWidth: 0,
+  textStrokeColor: '#000000',
+  textShadowOffsetX: 0,
+  textShadowOffsetY: 0,
+  textShadowBlur: 0,
+  textShadowColor: 'rgba(0, 0, 0, 0.75)',
+  textGlowRadius: 0,
+  textGlowColor: '#ffffff',
+};
+
+export const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+/**
+ * Whether the drop shadow is visible (any offset or blur).
+ */
+export const hasTextShadow = (props: TextEffectProps): boolean =>
+  !!(props.textShadowOffsetX || props.textShadowOffsetY || props.textShadowBlur);
+
+/**
+ * CSS filter drawing the drop shadow and glow, or undefined when neither is set.
+ */
+export const getTextEffectFilter = (props: TextEffectProps): string | undefined => {
+  const filters: string[] = [];
+  if (hasTextShadow(props)) {
+    const x = props.textShadowOffsetX || 0;
+    const y = props.textShadowOffsetY || 0;
+    const blur = Math.max(0, props.textShadowBlur || 0);
+    filters.push(`drop-shadow(${x}px ${y}px ${blur}px ${props.textShadowColor || TEXT_EFFECT_DEFAULTS.textShadowColor})`);
+  }
+  if ((props.textGlowRadius || 0) > 0) {
+    filters.push(`drop-shadow(0px 0px ${props.textGlowRadius}px ${props.textGlowColor || TEXT_EFFECT_DEFAULTS.textGlowColor})`);
+  }
+  return filters.length > 0 ? filters.join(' ') : undefined;
+};
+
+/**
+ * SVG stroke attributes for the outline (empty when there is none).
+ */
+export const getTextStrokeAttributes = (props: TextEffectProps): {
+  stroke?: string;
+  strokeWidth?: number;
+  strokeLinejoin?: 'round';
+  paintOrder?: string;
+} => {
+  const width = props.textStrokeWidth || 0;
+  if (width <= 0) return {};
+  return {
+    stroke: props.textStrokeColor || TEXT_EFFECT_DEFAULTS.textStrokeColor,
+    // Half the stroke is hidden under the fill
+    strokeWidth: width * 2,
+    strokeLinejoin: 'round',
+    paintOrder: 'stroke',
+  };
+};
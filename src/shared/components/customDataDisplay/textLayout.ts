@@ -0,0 +1,204 @@
+/**
+ * Multi-line text layout for CustomDataDisplay.
+ *
+ * Text is split on explicit line breaks, optionally word-wrapped to the padded box,
+ * cut to maxLines with an ellipsis, then stacked lineHeight * fontSize apart.
+ * Measurement is passed in so the TV app can lay text out with its own text metrics.
+ */
+
+import type { TextVerticalAlign } from './types';
+
+export const TEXT_LAYOUT_DEFAULTS = {
+  wrapText: false,
+  maxLines: 0, // 0 = unlimited
+  lineHeight: 1.2, // Multiple of the font size
+  verticalAlign: 'middle' as TextVerticalAlign,
+};
+
+export const TEXT_VERTICAL_ALIGNS: readonly TextVerticalAlign[] = ['top', 'middle', 'bottom'];
+
+export const ELLIPSIS = '…';
+
+/** Width in pixels of a run of text in the current font. */
+export type MeasureText = (text: string) => number;
+
+export interface TextLayoutOptions {
+  wrap?: boolean;
+  maxWidth: number;
+  maxLines?: number;
+}
+
+// Break a word wider than maxWidth into the longest pieces that fit (at least one character each)
+const breakWord = (word: string, maxWidth: number, measure: MeasureText): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of Array.from(word)) {
+    if (current && measure(current + char) > maxWidth) {
+      pieces.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+// Greedy word wrap of a single paragraph
+const wrapParagraph = (paragraph: string, maxWidth: number, measure: MeasureText): string[] => {
+  const words = paragraph.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [''];
+
+  const lines: string[] = [];
+  let current = '';
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    if (measure(word) <= maxWidth) {
+      current = word;
+    } else {
+      const pieces = breakWord(word, maxWidth, measure);
+      current = pieces.pop() || '';
+      lines.push(...pieces);
+    }
+  });
+  lines.push(current);
+  return lines;
+};
+
+// Shorten a line until it fits with an ellipsis on the end
+const withEllipsis = (line: string, maxWidth: number, measure: MeasureText): string => {
+  let chars = Array.from(line.trimEnd());
+  while (chars.length > 0 && measure(chars.join('') + ELLIPSIS) > maxWidth) {
+    chars = chars.slice(0, -1);
+  }
+  return chars.join('').trimEnd() + ELLIPSIS;
+};
+
+/**
+ * Lines to draw for `text`: explicit breaks always split, wrapping splits at spaces
+ * (or inside words too long for a line), and text past maxLines ends in an ellipsis.
+ */
+export const layoutTextLines = (
+  text: string,
+  measure: MeasureText,
+  { wrap = false, maxWidth, maxLines = 0 }: TextLayoutOptions
+): string[] => {
+  const paragraphs = text.split(/\r?\n/);
+  const lines = wrap && maxWidth > 0
+    ? paragraphs.flatMap(paragraph => wrapParagraph(paragraph, maxWidth, measure))
+    : paragraphs;
+
+  if (maxLines > 0 && lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = withEllipsis(kept[maxLines - 1], maxWidth > 0 ? maxWidth : Infinity, measure);
+    return kept;
+  }
+  return lines;
+};
+
+/**
+ * Vertical center of each line. `middle` centers the block on the component (as
+ * single-line text always has); `top` and `bottom` sit inside the vertical padding.
+ */
+export const getLineCenters = (
+  lineCount: number,
+  {
+    fontSize,
+    lineHeight,
+    verticalAlign,
+    height,
+    paddingTop,
+    paddingBottom,
+  }: {
+    fontSize: number;
+    lineHeight: number;
+    verticalAlign: TextVerticalAlign;
+    height: number;
+    paddingTop: number;
+    paddingBottom: number;
+  }
+): number[] => {
+  const lineSpacing = fontSize * lineHeight;
+  const blockHeight = lineCount * lineSpacing;
+  const blockTop = verticalAlign === 'top'
+    ? paddingTop
+    : verticalAlign === 'bottom'
+    ? height - paddingBottom - blockHeight
+    : (height - blockHeight) / 2;
+  return Array.from({ length: lineCount }, (_, index) => blockTop + (index + 0.5) * lineSpacing);
+};
+
+export interface FitFontSizeOptions {
+  fontSize: number; // Largest size to use
+  minFontScale?: number; // Smallest size as a fraction of fontSize (0 = no floor)
+  maxWidth: number;
+  maxHeight: number;
+  lineHeight: number;
+  wrap?: boolean;
+  maxLines?: number;
+}
+
+/**
+ * Largest font size (to 0.1px, between fontSize * minFontScale and fontSize) at which
+ * every one of `texts` fits the box: no line wider than maxWidth, no wrapped text cut
+ * by maxLines, and the lines no taller than maxHeight.
+ */
+export const fitFontSize = (
+  texts: string[],
+  measureAt: (fontSize: number) => MeasureText,
+  { fontSize, minFontScale = 0, maxWidth, maxHeight, lineHeight, wrap = false, maxLines = 0 }: FitFontSizeOptions
+): number => {
+  const fits = (size: number) => {
+    const measure = measureAt(size);
+    return texts.every(text => {
+      const lines = layoutTextLines(text, measure, { wrap, maxWidth });
+      if (wrap && maxLines > 0 && lines.length > maxLines) return false;
+      const shown = maxLines > 0 ? lines.slice(0, maxLines) : lines;
+      const blockHeight = size + (shown.length - 1) * size * lineHeight;
+      return blockHeight <= maxHeight && shown.every(line => measure(line) <= maxWidth);
+    });
+  };
+
+  const minSize = Math.max(1, fontSize * Math.min(1, Math.max(0, minFontScale)));
+  if (minSize >= fontSize || fits(fontSize)) return fontSize;
+  if (!fits(minSize)) return Math.round(minSize * 10) / 10;
+
+  let low = minSize;
+  let high = fontSize;
+  while (high - low > 0.1) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) low = mid; else high = mid;
+  }
+  return Math.floor(low * 10) / 10;
+};
+
+let measureCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Measurer for the web renderer: canvas text metrics where a DOM is available,
+ * otherwise an average glyph width of 0.6em. Letter spacing is added per character.
+ */
+export const createTextMeasurer = (
+  cssFontFamily: string,
+  fontSize: number,
+  fontWeight: number,
+  letterSpacing: number = 0
+): MeasureText => {
+  if (!measureCanvas && typeof document !== 'undefined') {
+    measureCanvas = document.createElement('canvas');
+  }
+  const ctx = measureCanvas ? measureCanvas.getContext('2d') : null;
+
+  return (text: string) => {
+    const length = Array.from(text).length;
+    const spacing = letterSpacing * length;
+    if (!ctx) return length * fontSize * 0.6 + spacing;
+    ctx.font = `${fontWeight} ${fontSize}px ${cssFontFamily}`;
+    return ctx.measureText(text).width + spacing;
+  };
+};
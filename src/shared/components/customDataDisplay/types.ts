@@ -2,20 +2,99 @@
  * Type definitions for CustomDataDisplay component.
  */
 
+/**
+ * A conditional style override, e.g. "when homeTeam.fouls >= 7 set textColor red".
+ */
+export interface StyleRule {
+  id: string;
+  name?: string;
+  when: string; // Data expression; the rule applies while it's truthy
+  set: Partial<CustomDataDisplayProps> & { tokenBindings?: Record<string, string> }; // Prop overrides
+}
+
+export type AnimationTrigger = 'valueChange' | 'visibilityChange' | 'enter';
+export type AnimationEffect = 'flash' | 'pulse' | 'slide' | 'fade' | 'countUp';
+export type AnimationEasing = 'linear' | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
+export type SlideDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * A motion effect played when its trigger fires, e.g. "flash yellow when the score changes".
+ * Stored on the component (ComponentConfig.animations), see animations.ts for playback.
+ */
+export interface ComponentAnimation {
+  id: string;
+  trigger: AnimationTrigger;
+  effect: AnimationEffect;
+  duration: number; // Milliseconds
+  delay?: number; // Milliseconds before the effect starts (default 0)
+  easing?: AnimationEasing; // Default 'ease-out'
+  color?: string; // flash: overlay color (default white)
+  scale?: number; // pulse: peak scale (default 1.2)
+  direction?: SlideDirection; // slide: direction of travel (default 'up')
+  distance?: number; // slide: travel in pixels (default 20)
+}
+
+export type GradientType = 'linear' | 'radial';
+
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+// How a bound value is read: time values are seconds (or "m:ss" strings), ordinal values are period numbers
+export type ValueFormat = 'text' | 'number' | 'time' | 'ordinal' | 'boolean';
+
+export type TextCase = 'none' | 'upper' | 'lower';
+
+/**
+ * Declarative formatting for bound values; each option only applies to the formats noted.
+ */
+export interface ValueFormatOptions {
+  minDigits?: number; // number: pad the integer part with leading zeros (default 1)
+  decimals?: number; // number: fixed decimal places (default: as many as the value has)
+  thousandsSeparator?: boolean; // number: 12,345
+  plusSign?: boolean; // number: +3 for positive values (deltas)
+  timeTenths?: boolean; // time: 45.3 under one minute
+  timePadMinutes?: boolean; // time: 05:00 instead of 5:00
+  regulationPeriods?: number; // ordinal: periods after this are OT, 2OT... (default 4, 0 = never)
+  overtimeLabel?: string; // ordinal: default 'OT'
+  textCase?: TextCase; // all formats
+  trueLabel?: string; // boolean: default 'YES'
+  falseLabel?: string; // boolean: default 'NO'
+}
+
+export interface GradientStop {
+  color: string;
+  position: number; // 0-1 along the gradient line (linear) or from the center out (radial)
+}
+
+/**
+ * A multi-stop background fill, see gradients.ts for rendering.
+ */
+export interface Gradient {
+  type: GradientType;
+  angle?: number; // linear: degrees, CSS convention (0 = bottom to top, 90 = left to right; default 180)
+  stops: GradientStop[];
+}
+
 export interface CustomDataDisplayProps {
   dataPath: string;
   gameData?: any;
   label?: string;
   backgroundColor?: string;
+  backgroundGradient?: Gradient; // Painted over backgroundColor (which TVs without gradient support fall back to)
   textColor?: string;
   width?: number;
   height?: number;
   fontSize?: number;
-  format?: 'number' | 'text' | 'time' | 'boolean';
+  format?: ValueFormat;
+  formatOptions?: ValueFormatOptions; // See valueFormat.ts
   prefix?: string;
   suffix?: string;
   customText?: string;
   textAlign?: 'left' | 'center' | 'right';
+  // Multi-line text (see textLayout.ts); explicit line breaks always start a new line
+  wrapText?: boolean; // Word-wrap to the padded width (default false)
+  maxLines?: number; // Lines shown before an ellipsis, 0 = unlimited (default 0)
+  lineHeight?: number; // Line spacing as a multiple of the font size (default 1.2)
+  verticalAlign?: TextVerticalAlign; // Default 'middle'
   paddingTop?: number;
   paddingRight?: number;
   paddingBottom?: number;
@@ -43,21 +122,31 @@ export interface CustomDataDisplayProps {
   useTeamColor?: boolean;
   teamColorSide?: 'home' | 'away';
   autoFitText?: boolean;
-  minFontScale?: number;
+  minFontScale?: number; // autoFitText never shrinks below fontSize * minFontScale
+  autoFitSampleText?: string; // Widest expected value (e.g. "88:88"); autoFitText also fits it so the size holds steady
   previewText?: string;
-  canToggle?: boolean;
-  toggleState?: boolean;
-  state1Props?: any;
-  state2Props?: any;
-  autoToggle?: boolean;
-  toggleDataPath?: string;
+  // Conditional overrides; the first rule whose condition holds is applied (see styleRules.ts)
+  styleRules?: StyleRule[];
   visibilityPath?: string;
   isVisible?: boolean;
   fontFamily?: string;
+  // Text effects (see textEffects.ts)
+  fontWeight?: number; // 100-900 (default 700)
+  letterSpacing?: number; // Pixels added after each character (default 0)
+  textStrokeWidth?: number; // Outline width in pixels outside the glyphs (default 0)
+  textStrokeColor?: string;
+  textShadowOffsetX?: number;
+  textShadowOffsetY?: number;
+  textShadowBlur?: number;
+  textShadowColor?: string;
+  textGlowRadius?: number; // Outer glow blur radius in pixels (default 0)
+  textGlowColor?: string;
   // Multi-state support (for penalty boxes with 0-3 states)
   multiStateEnabled?: boolean;
   statePath?: string;
   stateImages?: Record<string, string>;
   // Auto contrast
   autoContrastText?: boolean;
+  // Motion played on value/visibility changes and on entry (passed from ComponentConfig.animations)
+  animations?: ComponentAnimation[];
 }
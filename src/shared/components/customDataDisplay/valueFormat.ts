@@ -0,0 +1,160 @@
+/**
+ * Value formatting for CustomDataDisplay.
+ *
+ * `format` picks how a bound value is read (number, time in seconds, period number,
+ * boolean or plain text); `formatOptions` are the declarative per-sport settings on top
+ * (leading zeros, tenths under a minute, OT labels...). The TV app applies the same
+ * rules, so keep this free of builder-only behavior.
+ */
+
+import type { ValueFormat, ValueFormatOptions, TextCase } from './types';
+
+export const VALUE_FORMATS: readonly ValueFormat[] = ['text', 'number', 'time', 'ordinal', 'boolean'];
+
+export const TEXT_CASES: readonly TextCase[] = ['none', 'upper', 'lower'];
+
+export const VALUE_FORMAT_DEFAULTS: Required<Omit<ValueFormatOptions, 'decimals'>> = {
+  minDigits: 1,
+  thousandsSeparator: false,
+  plusSign: false,
+  timeTenths: false,
+  timePadMinutes: false,
+  regulationPeriods: 4,
+  overtimeLabel: 'OT',
+  textCase: 'none',
+  trueLabel: 'YES',
+  falseLabel: 'NO',
+};
+
+const TIME_STRING_PATTERN = /^(\d+):(\d{1,2}(?:\.\d+)?)$/;
+
+const formatNumber = (value: number, options: ValueFormatOptions): string => {
+  const magnitude = Math.abs(value);
+  const fixed = options.decimals !== undefined && options.decimals >= 0
+    ? magnitude.toFixed(Math.min(20, Math.floor(options.decimals)))
+    : String(magnitude);
+  let [integer, fraction] = fixed.split('.');
+  integer = integer.padStart(Math.max(1, Math.floor(options.minDigits ?? 1)), '0');
+  if (options.thousandsSeparator) {
+    integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+  const sign = value < 0 && Number(fixed) !== 0 ? '-' : value > 0 && options.plusSign ? '+' : '';
+  return `${sign}${integer}${fraction !== undefined ? `.${fraction}` : ''}`;
+};
+
+// Seconds from a number or an "m:ss" / "m:ss.t" string; undefined when it's neither
+const parseSeconds = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(TIME_STRING_PATTERN);
+  if (match) return Number(match[1]) * 60 + Number(match[2]);
+  const seconds = Number(value);
+  return value.trim() !== '' && Number.isFinite(seconds) ? seconds : undefined;
+};
+
+const formatTime = (value: unknown, options: ValueFormatOptions): string => {
+  // Clock strings from the feed pass through unless an option needs to reformat them
+  if (typeof value === 'string' && !options.timeTenths && !options.timePadMinutes) return value;
+  const seconds = parseSeconds(value);
+  if (seconds === undefined) return String(value);
+
+  const clamped = Math.max(0, seconds);
+  if (options.timeTenths && clamped < 60) {
+    // Scoreboard clocks truncate rather than round, so 0.09 still reads 0.0
+    return (Math.floor(clamped * 10) / 10).toFixed(1);
+  }
+  const total = Math.floor(clamped);
+  const minutes = String(Math.floor(total / 60));
+  return `${options.timePadMinutes ? minutes.padStart(2, '0') : minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * English ordinal for a positive integer: 1st, 2nd, 3rd, 4th, 11th, 22nd...
+ */
+export const getOrdinal = (n: number): string => {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+};
+
+const formatOrdinal = (value: unknown, options: ValueFormatOptions): string => {
+  const period = Number(value);
+  if (typeof value === 'boolean' || !Number.isInteger(period) || period < 1) return String(value);
+  const regulation = options.regulationPeriods ?? VALUE_FORMAT_DEFAULTS.regulationPeriods;
+  if (regulation > 0 && period > regulation) {
+    const overtime = period - regulation;
+    const label = options.overtimeLabel ?? VALUE_FORMAT_DEFAULTS.overtimeLabel;
+    return overtime === 1 ? label : `${overtime}${label}`;
+  }
+  return getOrdinal(period);
+};
+
+const applyTextCase = (text: string, textCase: TextCase | undefined): string => {
+  if (textCase === 'upper') return text.toUpperCase();
+  if (textCase === 'lower') return text.toLowerCase();
+  return text;
+};
+
+/**
+ * Display string for a bound value. Empty values are the caller's to handle.
+ */
+export const formatValue = (
+  value: unknown,
+  format: ValueFormat = 'text',
+  options: ValueFormatOptions = {}
+): string => {
+  let text: string;
+  switch (format) {
+    case 'number': {
+      const number = Number(value);
+      text = typeof value !== 'boolean' && Number.isFinite(number) ? formatNumber(number, options) : String(value);
+      break;
+    }
+    case 'time':
+      text = formatTime(value, options);
+      break;
+    case 'ordinal':
+      text = formatOrdinal(value, options);
+      break;
+    case 'boolean':
+      text = value
+        ? options.trueLabel ?? VALUE_FORMAT_DEFAULTS.trueLabel
+        : options.falseLabel ?? VALUE_FORMAT_DEFAULTS.falseLabel;
+      break;
+    case 'text':
+    default:
+      text = String(value);
+  }
+  return applyTextCase(text, options.textCase);
+};
+
+/**
+ * Options with unset and default entries dropped (undefined when nothing is left),
+ * keeping only those that apply to `format` - plus textCase, which applies to all.
+ */
+export const cleanFormatOptions = (
+  format: ValueFormat | undefined,
+  options: ValueFormatOptions | undefined
+): ValueFormatOptions | undefined => {
+  if (!options) return undefined;
+  const relevant: Record<ValueFormat, (keyof ValueFormatOptions)[]> = {
+    text: [],
+    number: ['minDigits', 'decimals', 'thousandsSeparator', 'plusSign'],
+    time: ['timeTenths', 'timePadMinutes'],
+    ordinal: ['regulationPeriods', 'overtimeLabel'],
+    boolean: ['trueLabel', 'falseLabel'],
+  };
+  const keys: (keyof ValueFormatOptions)[] = [...(relevant[format || 'text'] || []), 'textCase'];
+  const cleaned: Record<string, unknown> = {};
+  keys.forEach(key => {
+    const value = options[key];
+    if (value === undefined || value === (VALUE_FORMAT_DEFAULTS as Record<string, unknown>)[key]) return;
+    cleaned[key] = value;
+  });
+  return Object.keys(cleaned).length > 0 ? (cleaned as ValueFormatOptions) : undefined;
+};
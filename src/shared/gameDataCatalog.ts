@@ -0,0 +1,424 @@
+/**
+ * Catalog of the gameData fields the TV app sends.
+ *
+ * Every path a layout can bind to (dataPath, visibilityPath, style rule conditions)
+ * is listed here once, with its type, a description, an example value and the
+ * sports that send it. The builder's path pickers, the preview mock data and the
+ * export checks are all generated from this list, so a new TV field only needs
+ * an entry here.
+ *
+ * Shared with the TV app so both sides agree on the field names.
+ */
+
+export const GAME_DATA_SPORTS = [
+  'badminton',
+  'baseball',
+  'basketball',
+  'football',
+  'hockey',
+  'lacrosse',
+  'rugby',
+  'soccer',
+  'tennis',
+  'volleyball',
+  'waterpolo',
+  'wrestling',
+  'wrestlingTeamScore',
+] as const;
+
+export type GameDataSport = typeof GAME_DATA_SPORTS[number];
+
+/**
+ * Value types. `clock` is an "m:ss" string, `image` a URL, `sequence` a sponsorship
+ * sequence the TV app resolves itself (not part of the gameData it sends).
+ */
+export type GameDataFieldType = 'number' | 'string' | 'boolean' | 'clock' | 'color' | 'image' | 'sequence';
+
+export interface GameDataField {
+  path: string; // Dotted path into gameData, e.g. "homeTeam.score"
+  label: string;
+  group: string; // Picker group
+  type: GameDataFieldType;
+  description: string;
+  example: unknown; // Sample value; the preview mock data is built from these
+  sports?: readonly GameDataSport[]; // Sports that send it; omitted = every sport
+}
+
+type FieldDefinition = Omit<GameDataField, 'group' | 'sports'> & { sports?: readonly GameDataSport[] };
+
+const defineGroup = (
+  group: string,
+  sports: readonly GameDataSport[] | undefined,
+  fields: FieldDefinition[]
+): GameDataField[] => fields.map(field => ({ group, ...field, sports: field.sports ?? sports }));
+
+type Side = 'home' | 'away';
+
+const SIDES: readonly Side[] = ['home', 'away'];
+
+const SIDE_LABELS: Record<Side, string> = { home: 'Home', away: 'Away' };
+
+const range = (count: number): number[] => Array.from({ length: count }, (_, index) => index);
+
+// ---------------------------------------------------------------------------
+// Example values
+// ---------------------------------------------------------------------------
+
+const TEAM_EXAMPLES: Record<Side, { name: string; score: number; fouls: number; timeouts: number; bonus: boolean; doubleBonus: boolean; possession: boolean; color: string }> = {
+  home: { name: 'HOME', score: 1, fouls: 4, timeouts: 3, bonus: true, doubleBonus: false, possession: false, color: '#c41e3a' },
+  away: { name: 'AWAY', score: 0, fouls: 6, timeouts: 2, bonus: false, doubleBonus: true, possession: true, color: '#003f7f' },
+};
+
+// [homeScore, awayScore] per inning; the third inning is in progress
+const INNING_EXAMPLES = [[2, 1], [0, 3], [0, 0], [0, 0], [0, 0], [0, 0], [0, 0], [0, 0], [0, 0]];
+const CURRENT_INNING = 2;
+
+const PENALTY_EXAMPLES: Record<Side, { jersey: number; time: string }[]> = {
+  home: [{ jersey: 90, time: '0:45' }, { jersey: 3, time: '1:30' }, { jersey: 17, time: '2:15' }],
+  away: [{ jersey: 14, time: '1:00' }, { jersey: 22, time: '1:45' }, { jersey: 8, time: '2:30' }],
+};
+
+// Per round: taken by each side, and 1 = scored / 0 = missed; the third round is in progress
+const SHOOTOUT_EXAMPLES = [
+  { homeActive: true, awayActive: true, homeState: 1, awayState: 0 },
+  { homeActive: true, awayActive: true, homeState: 0, awayState: 1 },
+  { homeActive: true, awayActive: false, homeState: 1, awayState: 0 },
+  { homeActive: false, awayActive: false, homeState: 0, awayState: 0 },
+  { homeActive: false, awayActive: false, homeState: 0, awayState: 0 },
+];
+const CURRENT_SHOOTOUT_ROUND = 2;
+
+interface PlayerExample {
+  jersey: string;
+  name: string;
+  points?: number;
+  fouls?: number;
+  aces: number;
+  kills: number;
+  blocks: number;
+}
+
+const LEADERBOARD_EXAMPLES: Record<Side, PlayerExample[]> = {
+  home: [
+    { jersey: '23', name: 'M. Jordan', points: 30, fouls: 2, aces: 5, kills: 18, blocks: 2 },
+    { jersey: '33', name: 'S. Pippen', points: 22, fouls: 3, aces: 3, kills: 12, blocks: 4 },
+    { jersey: '91', name: 'D. Rodman', points: 8, fouls: 4, aces: 2, kills: 8, blocks: 6 },
+    { jersey: '7', name: 'T. Kukoc', points: 12, fouls: 1, aces: 4, kills: 6, blocks: 1 },
+    { jersey: '25', name: 'S. Kerr', points: 6, fouls: 0, aces: 1, kills: 10, blocks: 3 },
+    { jersey: '10', name: 'B. Harper', points: 4, fouls: 1, aces: 2, kills: 5, blocks: 2 },
+  ],
+  away: [
+    { jersey: '32', name: 'K. Malone', points: 28, fouls: 3, aces: 4, kills: 15, blocks: 3 },
+    { jersey: '12', name: 'J. Stockton', points: 18, fouls: 2, aces: 2, kills: 14, blocks: 5 },
+    { jersey: '4', name: 'J. Hornacek', points: 14, fouls: 1, aces: 6, kills: 7, blocks: 2 },
+    { jersey: '53', name: 'M. Eaton', points: 4, fouls: 4, aces: 1, kills: 9, blocks: 4 },
+    { jersey: '35', name: 'A. Carr', points: 10, fouls: 2, aces: 3, kills: 11, blocks: 1 },
+    { jersey: '24', name: 'T. Bailey', points: 8, fouls: 0, aces: 1, kills: 6, blocks: 3 },
+  ],
+};
+
+const VOLLEYBALL_LEADERBOARD_EXAMPLES: Record<Side, PlayerExample[]> = {
+  home: [
+    { jersey: '10', name: 'K. Plummer', aces: 5, kills: 18, blocks: 2 },
+    { jersey: '2', name: 'M. Ratterman', aces: 3, kills: 12, blocks: 4 },
+    { jersey: '15', name: 'T. Shoji', aces: 2, kills: 8, blocks: 6 },
+    { jersey: '8', name: 'J. Smith', aces: 4, kills: 6, blocks: 1 },
+    { jersey: '22', name: 'R. Chen', aces: 1, kills: 10, blocks: 3 },
+  ],
+  away: [
+    { jersey: '7', name: 'A. Johnson', aces: 4, kills: 15, blocks: 3 },
+    { jersey: '11', name: 'S. Williams', aces: 2, kills: 14, blocks: 5 },
+    { jersey: '3', name: 'D. Garcia', aces: 6, kills: 7, blocks: 2 },
+    { jersey: '19', name: 'M. Lee', aces: 1, kills: 9, blocks: 4 },
+    { jersey: '5', name: 'C. Brown', aces: 3, kills: 11, blocks: 1 },
+  ],
+};
+
+const playerImageUrl = (side: Side, index: number) => `/images/test_leaderboard/player_${side}_${index + 1}.png`;
+
+// ---------------------------------------------------------------------------
+// Player fields (leaderboard slots, the active player and slot templates)
+// ---------------------------------------------------------------------------
+
+interface PlayerFieldDefinition {
+  key: string;
+  label: string;
+  type: GameDataFieldType;
+  description: string;
+  sports: readonly GameDataSport[];
+  // Example for a slot, given the slot's player and the whole list (for the "top" flags)
+  example: (player: PlayerExample, players: PlayerExample[], side: Side, index: number) => unknown;
+}
+
+const isTop = (stat: 'points' | 'aces' | 'kills' | 'blocks') =>
+  (player: PlayerExample, players: PlayerExample[]) => player[stat] === Math.max(...players.map(p => p[stat] ?? 0));
+
+const LEADERBOARD_SPORTS: readonly GameDataSport[] = ['basketball', 'volleyball'];
+
+const PLAYER_FIELDS: PlayerFieldDefinition[] = [
+  { key: 'jersey', label: 'Jersey', type: 'string', description: 'Jersey number', sports: LEADERBOARD_SPORTS, example: p => p.jersey },
+  { key: 'name', label: 'Name', type: 'string', description: 'Player name', sports: LEADERBOARD_SPORTS, example: p => p.name },
+  { key: 'imageUrl', label: 'Image', type: 'image', description: 'Player headshot URL', sports: LEADERBOARD_SPORTS, example: (_p, _all, side, index) => playerImageUrl(side, index) },
+  { key: 'active', label: 'Active', type: 'boolean', description: 'The slot holds a player', sports: LEADERBOARD_SPORTS, example: () => true },
+  { key: 'points', label: 'Points', type: 'number', description: 'Points scored', sports: ['basketball'], example: p => p.points },
+  { key: 'fouls', label: 'Fouls', type: 'number', description: 'Personal fouls', sports: ['basketball'], example: p => p.fouls },
+  { key: 'isTopScorer', label: 'Is Top Scorer', type: 'boolean', description: 'Most points on the team', sports: ['basketball'], example: isTop('points') },
+  { key: 'aces', label: 'Aces', type: 'number', description: 'Service aces', sports: ['volleyball'], example: p => p.aces },
+  { key: 'kills', label: 'Kills', type: 'number', description: 'Attack kills', sports: ['volleyball'], example: p => p.kills },
+  { key: 'blocks', label: 'Blocks', type: 'number', description: 'Blocks', sports: ['volleyball'], example: p => p.blocks },
+  { key: 'isTopAces', label: 'Is Top Aces', type: 'boolean', description: 'Most aces on the team', sports: ['volleyball'], example: isTop('aces') },
+  { key: 'isTopKills', label: 'Is Top Kills', type: 'boolean', description: 'Most kills on the team', sports: ['volleyball'], example: isTop('kills') },
+  { key: 'isTopBlocks', label: 'Is Top Blocks', type: 'boolean', description: 'Most blocks on the team', sports: ['volleyball'], example: isTop('blocks') },
+];
+
+// Slot list of players: count, one isStateN flag per possible count, then slotN.<field>
+const playerSlotFields = (
+  root: string,
+  group: string,
+  sports: readonly GameDataSport[],
+  examples: Record<Side, PlayerExample[]>,
+  fieldKeys: string[]
+): GameDataField[] => SIDES.flatMap(side => {
+  const players = examples[side];
+  const sideLabel = SIDE_LABELS[side];
+  return defineGroup(`${group} (${sideLabel})`, sports, [
+    { path: `${root}.${side}.count`, label: `${sideLabel} Player Count`, type: 'number', description: 'Number of filled slots', example: players.length },
+    ...range(players.length + 1).map(count => ({
+      path: `${root}.${side}.isState${count}`,
+      label: `${sideLabel}: ${count} Players`,
+      type: 'boolean' as const,
+      description: `True while exactly ${count} slots are filled`,
+      example: count === players.length,
+    })),
+    ...players.flatMap((player, index) => PLAYER_FIELDS
+      .filter(field => fieldKeys.includes(field.key))
+      .map(field => ({
+        path: `${root}.${side}.slot${index}.${field.key}`,
+        label: `${sideLabel} Slot ${index + 1} ${field.label}`,
+        type: field.type,
+        description: field.description,
+        example: field.example(player, players, side, index),
+        sports: field.sports.filter(sport => sports.includes(sport)),
+      }))),
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// Catalog
+// ---------------------------------------------------------------------------
+
+const teamFields = (side: Side): GameDataField[] => {
+  const team = `${side}Team`;
+  const label = SIDE_LABELS[side];
+  const example = TEAM_EXAMPLES[side];
+  return defineGroup(`${label} Team`, undefined, [
+    { path: `${team}.name`, label: `${label} Team Name`, type: 'string', description: 'Team name', example: example.name },
+    { path: `${team}.score`, label: `${label} Score`, type: 'number', description: 'Team score', example: example.score },
+    { path: `${team}.color`, label: `${label} Team Color`, type: 'color', description: 'Primary team color', example: example.color },
+    { path: `${team}.possession`, label: `${label} Possession`, type: 'boolean', description: 'Team has possession (or serve)', example: example.possession },
+    { path: `${team}.timeouts`, label: `${label} Timeouts`, type: 'number', description: 'Timeouts remaining', example: example.timeouts, sports: ['basketball', 'football', 'hockey', 'lacrosse', 'volleyball', 'waterpolo'] },
+    { path: `${team}.fouls`, label: `${label} Fouls`, type: 'number', description: 'Team fouls', example: example.fouls, sports: ['basketball', 'soccer', 'waterpolo'] },
+    { path: `${team}.bonus`, label: `${label} Bonus`, type: 'boolean', description: 'Opponent is in the bonus', example: example.bonus, sports: ['basketball'] },
+    { path: `${team}.doubleBonus`, label: `${label} Double Bonus`, type: 'boolean', description: 'Opponent is in the double bonus', example: example.doubleBonus, sports: ['basketball'] },
+    { path: `${team}.hits`, label: `${label} Hits`, type: 'number', description: 'Hits', example: 0, sports: ['baseball'] },
+    { path: `${team}.errors`, label: `${label} Errors`, type: 'number', description: 'Errors', example: 0, sports: ['baseball'] },
+    { path: `${side}_team_color`, label: `${label} Team Color (flat)`, type: 'color', description: 'Team color, as a top-level field', example: example.color },
+    { path: `${side}_corner_kicks`, label: `${label} Corner Kicks`, type: 'number', description: 'Corner kicks', example: 0, sports: ['soccer'] },
+  ]);
+};
+
+export const GAME_DATA_FIELDS: readonly GameDataField[] = [
+  ...defineGroup('Game Info', undefined, [
+    { path: 'gameClock', label: 'Game Clock', type: 'clock', description: 'Main game clock', example: '5:42' },
+    { path: 'period', label: 'Period/Quarter', type: 'string', description: 'Current period: a number, or text such as OT, SD or 2OT', example: '3' },
+    { path: 'isOvertimeActive', label: 'Overtime Active', type: 'boolean', description: 'The game is in overtime', example: true },
+    { path: 'timeOfDay', label: 'Time of Day', type: 'string', description: 'Local wall clock time', example: '2:45' },
+    { path: 'timeoutClock', label: 'Timeout Clock', type: 'clock', description: 'Time left in the current timeout', example: '0:30' },
+    { path: 'preGameClock', label: 'Pre-Game Clock', type: 'clock', description: 'Countdown to the start of the game', example: '15:00' },
+    { path: 'halftimeClock', label: 'Halftime Clock', type: 'clock', description: 'Time left in halftime', example: '10:00' },
+    { path: 'periodBreakClock', label: 'Period Break Clock', type: 'clock', description: 'Time left in the break between periods', example: '5:00' },
+    { path: 'shotClock', label: 'Shot Clock (seconds)', type: 'number', description: 'Shot clock in whole seconds', example: 14, sports: ['basketball', 'lacrosse', 'waterpolo'] },
+    { path: 'shotClockClock', label: 'Shot Clock', type: 'clock', description: 'Shot clock as displayed', example: '24', sports: ['basketball', 'lacrosse', 'waterpolo'] },
+    { path: 'quarter', label: 'Quarter', type: 'number', description: 'Current quarter', example: 4, sports: ['basketball', 'football', 'lacrosse', 'waterpolo'] },
+    { path: 'half', label: 'Half', type: 'number', description: 'Current half', example: 2, sports: ['rugby', 'soccer'] },
+    { path: 'set', label: 'Set', type: 'number', description: 'Current set', example: 3, sports: ['badminton', 'tennis', 'volleyball'] },
+    { path: 'home_sets_won', label: 'Home Sets Won', type: 'number', description: 'Sets won by the home side', example: 0, sports: ['badminton', 'tennis', 'volleyball'] },
+    { path: 'away_sets_won', label: 'Away Sets Won', type: 'number', description: 'Sets won by the away side', example: 0, sports: ['badminton', 'tennis', 'volleyball'] },
+  ]),
+  ...defineGroup('Activity Timer', undefined, [
+    { path: 'activityClock', label: 'Activity Clock', type: 'clock', description: 'Activity timer countdown', example: '1:30' },
+    { path: 'timerName', label: 'Timer Name', type: 'string', description: 'Name of the running timer', example: 'Timer Name' },
+    { path: 'sessionName', label: 'Session Name', type: 'string', description: 'Name of the current session', example: 'Session Name' },
+    { path: 'nextUp', label: 'Next Up', type: 'string', description: 'Name of the next session', example: 'Next Up' },
+  ]),
+  ...teamFields('home'),
+  ...teamFields('away'),
+  ...defineGroup('Period Scores', undefined, range(9).flatMap(index => [
+    { path: `gamePeriodScores.${index}.period`, label: `Period ${index + 1} #`, type: 'number' as const, description: 'Period number', example: index + 1 },
+    { path: `gamePeriodScores.${index}.homeScore`, label: `Period ${index + 1} Home Score`, type: 'number' as const, description: 'Home points in the period', example: 0 },
+    { path: `gamePeriodScores.${index}.awayScore`, label: `Period ${index + 1} Away Score`, type: 'number' as const, description: 'Away points in the period', example: 0 },
+  ])),
+  ...defineGroup('Football', ['football'], [
+    { path: 'down', label: 'Down', type: 'number', description: 'Current down', example: 1 },
+    { path: 'yardsToGo', label: 'Yards to Go', type: 'number', description: 'Yards to a first down', example: 10 },
+    { path: 'ballOn', label: 'Ball On', type: 'number', description: 'Line of scrimmage', example: 35 },
+  ]),
+  ...defineGroup('Baseball', ['baseball'], [
+    { path: 'balls', label: 'Balls', type: 'number', description: 'Balls in the count', example: 0 },
+    { path: 'strikes', label: 'Strikes', type: 'number', description: 'Strikes in the count', example: 0 },
+    { path: 'outs', label: 'Outs', type: 'number', description: 'Outs in the half inning', example: 0 },
+    { path: 'firstBase', label: 'First Base', type: 'boolean', description: 'Runner on first', example: false },
+    { path: 'secondBase', label: 'Second Base', type: 'boolean', description: 'Runner on second', example: false },
+    { path: 'thirdBase', label: 'Third Base', type: 'boolean', description: 'Runner on third', example: false },
+    { path: 'onBase', label: 'On Base', type: 'string', description: 'Runners as "000" to "111" (first, second, third)', example: '000' },
+    { path: 'inningDisplayCount', label: 'Inning Slot Count', type: 'number', description: 'Number of inning slots shown', example: INNING_EXAMPLES.length },
+  ]),
+  ...defineGroup('Inning Slots - auto-shift for extra innings', ['baseball'], INNING_EXAMPLES.flatMap(([homeScore, awayScore], index) => [
+    { path: `inningSlots.${index}.period`, label: `Slot ${index + 1} Inning #`, type: 'number' as const, description: 'Inning shown in the slot', example: index + 1 },
+    { path: `inningSlots.${index}.homeScore`, label: `Slot ${index + 1} Home Score`, type: 'number' as const, description: 'Home runs in the inning', example: homeScore },
+    { path: `inningSlots.${index}.awayScore`, label: `Slot ${index + 1} Away Score`, type: 'number' as const, description: 'Away runs in the inning', example: awayScore },
+    { path: `inningSlots.${index}.isCurrentInning`, label: `Slot ${index + 1} Is Current Inning`, type: 'boolean' as const, description: 'The inning is in progress', example: index === CURRENT_INNING },
+    { path: `inningSlots.${index}.isTopHalf`, label: `Slot ${index + 1} Is Top Half`, type: 'boolean' as const, description: 'The current inning is in its top half', example: index === CURRENT_INNING },
+  ])),
+  ...defineGroup('Wrestling', ['wrestling'], [
+    { path: 'home_player_points', label: 'Home Player Score', type: 'number', description: 'Home wrestler points', example: 0 },
+    { path: 'away_player_points', label: 'Away Player Score', type: 'number', description: 'Away wrestler points', example: 0 },
+    { path: 'home_player_name', label: 'Home Player Name', type: 'string', description: 'Home wrestler name', example: 'Green' },
+    { path: 'away_player_name', label: 'Away Player Name', type: 'string', description: 'Away wrestler name', example: 'Red' },
+  ]),
+  ...defineGroup('Rugby', ['rugby'], SIDES.flatMap(side => [
+    { path: `${side}_tries`, label: `${SIDE_LABELS[side]} Tries`, type: 'number' as const, description: 'Tries scored', example: 0 },
+    { path: `${side}_conversions`, label: `${SIDE_LABELS[side]} Conversions`, type: 'number' as const, description: 'Conversions kicked', example: 0 },
+    { path: `${side}_penalty_goals`, label: `${SIDE_LABELS[side]} Penalty Goals`, type: 'number' as const, description: 'Penalty goals kicked', example: 0 },
+    { path: `${side}_dropped_goals`, label: `${SIDE_LABELS[side]} Dropped Goals`, type: 'number' as const, description: 'Dropped goals', example: 0 },
+  ])),
+  ...defineGroup('Shots & Saves', ['hockey', 'lacrosse'], SIDES.flatMap(side => [
+    { path: `${side}_shots`, label: `${SIDE_LABELS[side]} Shots`, type: 'number' as const, description: 'Shots on goal', example: 0 },
+    { path: `${side}_saves`, label: `${SIDE_LABELS[side]} Saves`, type: 'number' as const, description: 'Goalkeeper saves', example: 0 },
+  ])),
+  ...SIDES.flatMap(side => defineGroup(`${SIDE_LABELS[side]} Penalties`, ['hockey', 'lacrosse'], [
+    { path: `penaltySlots.${side}.count`, label: `${SIDE_LABELS[side]} Penalty Count`, type: 'number', description: 'Penalties being served', example: PENALTY_EXAMPLES[side].length },
+    ...range(PENALTY_EXAMPLES[side].length + 1).map(count => ({
+      path: `penaltySlots.${side}.isState${count}`,
+      label: `${SIDE_LABELS[side]}: ${count} ${count === 1 ? 'Penalty' : 'Penalties'}`,
+      type: 'boolean' as const,
+      description: `True while exactly ${count} penalties are being served`,
+      example: count === PENALTY_EXAMPLES[side].length,
+    })),
+    ...PENALTY_EXAMPLES[side].flatMap(({ jersey, time }, index) => [
+      { path: `penaltySlots.${side}.slot${index}.jersey`, label: `${SIDE_LABELS[side]} Penalty ${index + 1} Jersey`, type: 'number' as const, description: 'Penalized player', example: jersey },
+      { path: `penaltySlots.${side}.slot${index}.time`, label: `${SIDE_LABELS[side]} Penalty ${index + 1} Time`, type: 'clock' as const, description: 'Penalty time left', example: time },
+      { path: `penaltySlots.${side}.slot${index}.active`, label: `${SIDE_LABELS[side]} Penalty ${index + 1} Active`, type: 'boolean' as const, description: 'The slot holds a penalty', example: true },
+    ]),
+  ])),
+  ...defineGroup('Shootout', ['hockey', 'soccer', 'waterpolo'], [
+    { path: 'home_shootout_made', label: 'Home Shootout Made', type: 'number', description: 'Home shootout goals', example: 2 },
+    { path: 'away_shootout_made', label: 'Away Shootout Made', type: 'number', description: 'Away shootout goals', example: 1 },
+    ...SHOOTOUT_EXAMPLES.flatMap((round, index) => [
+      { path: `shootoutSlots.${index}.round`, label: `Slot ${index + 1} Round #`, type: 'number' as const, description: 'Round shown in the slot', example: index + 1 },
+      { path: `shootoutSlots.${index}.isCurrentRound`, label: `Slot ${index + 1} Is Current Round`, type: 'boolean' as const, description: 'The round is in progress', example: index === CURRENT_SHOOTOUT_ROUND },
+      { path: `shootoutSlots.${index}.homeActive`, label: `Slot ${index + 1} Home Active`, type: 'boolean' as const, description: 'Home has taken this round', example: round.homeActive },
+      { path: `shootoutSlots.${index}.awayActive`, label: `Slot ${index + 1} Away Active`, type: 'boolean' as const, description: 'Away has taken this round', example: round.awayActive },
+      { path: `shootoutSlots.${index}.homeState`, label: `Slot ${index + 1} Home Result`, type: 'number' as const, description: '1 = scored, 0 = missed', example: round.homeState },
+      { path: `shootoutSlots.${index}.awayState`, label: `Slot ${index + 1} Away Result`, type: 'number' as const, description: '1 = scored, 0 = missed', example: round.awayState },
+    ]),
+  ]),
+  ...playerSlotFields('leaderboardSlots', 'Leaderboard', LEADERBOARD_SPORTS, LEADERBOARD_EXAMPLES, PLAYER_FIELDS.map(field => field.key)),
+  ...playerSlotFields('volleyballLeaderboardSlots', 'Volleyball Leaderboard', ['volleyball'], VOLLEYBALL_LEADERBOARD_EXAMPLES, ['jersey', 'name', 'imageUrl', 'active', 'aces', 'kills', 'blocks', 'isTopAces', 'isTopKills', 'isTopBlocks']),
+  ...SIDES.flatMap(side => defineGroup('Active Player (Current Slot 0)', undefined, PLAYER_FIELDS
+    .filter(field => field.key !== 'active')
+    .map(field => ({
+      path: `currentPlayer.${side}.${field.key}`,
+      label: `${SIDE_LABELS[side]} Active Player ${field.label}`,
+      type: field.type,
+      description: `${field.description} of the player the leaderboard is showing`,
+      example: field.example(LEADERBOARD_EXAMPLES[side][0], LEADERBOARD_EXAMPLES[side], side, 0),
+      sports: field.sports,
+    })))),
+  ...defineGroup('Sponsorship', undefined, [
+    ['banner', 'Banner Ads'],
+    ['timeout', 'Timeout Ads'],
+    ['halftime', 'Halftime Ads'],
+    ['period-break', 'Period Break Ads'],
+    ['pre-game', 'Pre-Game Ads'],
+    ['standby', 'Standby Ads'],
+    ['general', 'General Ads'],
+    ['wrapper-16x9', 'Wrapper 16x9'],
+    ['wrapper-4x3', 'Wrapper 4x3'],
+  ].map(([key, label]) => ({
+    path: `user_sequences.${key}`,
+    label,
+    type: 'sequence' as const,
+    description: `Rotating "${key}" sponsorship sequence`,
+    example: null,
+  }))),
+];
+
+/**
+ * Paths inside a slot template, relative to the slot (a template bound to
+ * leaderboardSlots.home.slot2 reads "points" as leaderboardSlots.home.slot2.points).
+ */
+export const SLOT_TEMPLATE_FIELDS: readonly GameDataField[] = PLAYER_FIELDS.map(field => ({
+  path: field.key,
+  label: `Player ${field.label}`,
+  group: 'Slot Template',
+  type: field.type,
+  description: field.description,
+  example: field.example(LEADERBOARD_EXAMPLES.home[0], LEADERBOARD_EXAMPLES.home, 'home', 0),
+  sports: field.sports,
+}));
+
+const FIELDS_BY_PATH = new Map(GAME_DATA_FIELDS.map(field => [field.path, field]));
+
+/**
+ * Catalog entry for an exact gameData path, if there is one.
+ */
+export const getGameDataField = (path: string): GameDataField | undefined => FIELDS_BY_PATH.get(path);
+
+/**
+ * Whether a path reads something the TV app sends: a field, or an object or list
+ * holding fields ("currentPlayer.home", "inningSlots").
+ */
+export const isKnownGameDataPath = (path: string): boolean =>
+  FIELDS_BY_PATH.has(path) || GAME_DATA_FIELDS.some(field => field.path.startsWith(`${path}.`));
+
+/**
+ * Whether a field is sent for any of the given sports.
+ */
+export const isFieldForSports = (field: GameDataField, sports: readonly GameDataSport[]): boolean =>
+  !field.sports || field.sports.some(sport => sports.includes(sport));
+
+/**
+ * gameData object holding every field's example value. Numeric path segments
+ * build arrays ("inningSlots.0.period"); sequence fields are left out.
+ */
+export const buildGameDataFromCatalog = (fields: readonly GameDataField[] = GAME_DATA_FIELDS): Record<string, any> => {
+  const data: Record<string, any> = {};
+  fields.forEach(field => {
+    if (field.type === 'sequence') return;
+    const keys = field.path.split('.');
+    let current: any = data;
+    keys.slice(0, -1).forEach((key, index) => {
+      if (current[key] === undefined) {
+        current[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+      }
+      current = current[key];
+    });
+    current[keys[keys.length - 1]] = field.example;
+  });
+  return data;
+};
+
+/**
+ * Copy of a gameData object with one dotted path set. Objects and arrays along
+ * the path are copied, missing ones created (an array when the next segment is
+ * numeric).
+ */
+export const setGameDataValue = (data: Record<string, any>, path: string, value: unknown): Record<string, any> => {
+  const [key, ...rest] = path.split('.');
+  const copy: any = Array.isArray(data) ? [...data] : { ...data };
+  copy[key] = rest.length === 0
+    ? value
+    : setGameDataValue(data?.[key] ?? (/^\d+$/.test(rest[0]) ? [] : {}), rest.join('.'), value);
+  return copy;
+};
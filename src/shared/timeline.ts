@@ -0,0 +1,188 @@
+/**
+ * Keyframe timelines for intro/outro sequences.
+ *
+ * A layout (or scene) can carry a timeline: one track per component, each an
+ * ordered list of keyframes. A keyframe sets any of x, y, width, height,
+ * opacity and scale at a point in time; each property is interpolated between
+ * the keyframes that set it and holds its first/last value outside them.
+ *
+ * Tracks on groups move their children: the group's animated position offset
+ * and opacity carry down to every descendant (scale does not).
+ *
+ * Shared with the TV app so the builder preview and the broadcast play the same frames.
+ */
+
+import { applyEasing } from './components/customDataDisplay/animations';
+import type { AnimationEasing } from './components/customDataDisplay/types';
+
+export const TIMELINE_PROPERTIES = ['x', 'y', 'width', 'height', 'opacity', 'scale'] as const;
+export type TimelineProperty = typeof TIMELINE_PROPERTIES[number];
+
+export interface TimelineKeyframe {
+  id: string;
+  time: number; // Milliseconds from the start of the timeline
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  opacity?: number; // 0-1
+  scale?: number; // 1 = natural size, scaled around the center
+  easing?: AnimationEasing; // Easing of the segment arriving at this keyframe (default 'ease-in-out')
+}
+
+export interface TimelineTrack {
+  componentId: string;
+  keyframes: TimelineKeyframe[];
+}
+
+export interface LayoutTimeline {
+  duration: number; // Milliseconds
+  loop?: boolean;
+  tracks: TimelineTrack[];
+}
+
+export const DEFAULT_KEYFRAME_EASING: AnimationEasing = 'ease-in-out';
+
+/**
+ * A component's animated box and appearance at one point in time.
+ */
+export interface TimelineValues {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number;
+  scale: number;
+}
+
+interface TimelineComponent {
+  id: string;
+  parentId?: string;
+  position: { x: number; y: number };
+  size: { width: number; height: number };
+}
+
+/**
+ * Value of one property at `time`, or undefined when no keyframe sets it.
+ * Keyframes must be sorted by time.
+ */
+export const getKeyframedValue = (
+  keyframes: TimelineKeyframe[],
+  property: TimelineProperty,
+  time: number
+): number | undefined => {
+  const keyed = keyframes.filter(keyframe => typeof keyframe[property] === 'number');
+  if (keyed.length === 0) return undefined;
+  if (time <= keyed[0].time) return keyed[0][property];
+
+  for (let i = 1; i < keyed.length; i++) {
+    const next = keyed[i];
+    if (time < next.time) {
+      const previous = keyed[i - 1];
+      const span = next.time - previous.time;
+      const progress = span > 0 ? (time - previous.time) / span : 1;
+      const eased = applyEasing(progress, next.easing || DEFAULT_KEYFRAME_EASING);
+      return previous[property]! + (next[property]! - previous[property]!) * eased;
+    }
+  }
+  return keyed[keyed.length - 1][property];
+};
+
+export const sortKeyframes = (keyframes: TimelineKeyframe[]): TimelineKeyframe[] =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+/**
+ * Own (not inherited) values of a component at `time`, falling back to its static box.
+ */
+export const getTrackValues = (
+  component: TimelineComponent,
+  track: TimelineTrack,
+  time: number
+): TimelineValues => {
+  const keyframes = sortKeyframes(track.keyframes);
+  const value = (property: TimelineProperty, fallback: number) =>
+    getKeyframedValue(keyframes, property, time) ?? fallback;
+  return {
+    x: value('x', component.position.x),
+    y: value('y', component.position.y),
+    width: value('width', component.size.width),
+    height: value('height', component.size.height),
+    opacity: Math.min(1, Math.max(0, value('opacity', 1))),
+    scale: value('scale', 1),
+  };
+};
+
+/**
+ * Animated values at `time` for every component the timeline affects - those with
+ * a track and the descendants of tracked groups. Components missing from the
+ * result render with their static props.
+ */
+export const resolveTimelineFrame = (
+  components: TimelineComponent[],
+  timeline: LayoutTimeline | undefined,
+  time: number
+): Record<string, TimelineValues> => {
+  const frame: Record<string, TimelineValues> = {};
+  if (!timeline?.tracks.length) return frame;
+
+  const byId = new Map(components.map(component => [component.id, component]));
+  const tracks = new Map(
+    timeline.tracks.filter(track => track.keyframes.length > 0).map(track => [track.componentId, track])
+  );
+  const own = new Map<string, TimelineValues>();
+  tracks.forEach((track, componentId) => {
+    const component = byId.get(componentId);
+    if (component) own.set(componentId, getTrackValues(component, track, time));
+  });
+  if (own.size === 0) return frame;
+
+  components.forEach(component => {
+    const ownValues = own.get(component.id);
+    let dx = 0;
+    let dy = 0;
+    let opacity = 1;
+    let inherited = false;
+
+    // Accumulate offsets and opacity from tracked ancestors
+    const visited = new Set<string>();
+    let parentId = component.parentId;
+    while (parentId && !visited.has(parentId)) {
+      visited.add(parentId);
+      const parent = byId.get(parentId);
+      if (!parent) break;
+      const parentValues = own.get(parent.id);
+      if (parentValues) {
+        dx += parentValues.x - parent.position.x;
+        dy += parentValues.y - parent.position.y;
+        opacity *= parentValues.opacity;
+        inherited = true;
+      }
+      parentId = parent.parentId;
+    }
+
+    if (!ownValues && !inherited) return;
+    const base = ownValues || {
+      x: component.position.x,
+      y: component.position.y,
+      width: component.size.width,
+      height: component.size.height,
+      opacity: 1,
+      scale: 1,
+    };
+    frame[component.id] = { ...base, x: base.x + dx, y: base.y + dy, opacity: base.opacity * opacity };
+  });
+
+  return frame;
+};
+
+/**
+ * Timeline limited to the given components (tracks for other components and empty tracks dropped).
+ */
+export const filterTimeline = (
+  timeline: LayoutTimeline | undefined,
+  componentIds: Set<string>
+): LayoutTimeline | undefined => {
+  if (!timeline) return undefined;
+  const tracks = timeline.tracks.filter(track => componentIds.has(track.componentId) && track.keyframes.length > 0);
+  return tracks.length > 0 ? { ...timeline, tracks } : undefined;
+};
@@ -1,5 +1,93 @@
-export interface ComponentConfig {
-  type: 'teamName' | 'score' | 'clock' | 'period' | 'fouls' | 'timeouts' | 'bonus' | 'custom' | 'dynamicList' | 'leaderboardList' | 'slotList' | 'group';
+import type { CustomDataDisplayProps, StyleRule, ComponentAnimation, Gradient } from './shared/components/customDataDisplay/types';
+
+import type { LayoutTimeline } from './shared/timeline';
+import type { GameDataSport } from './shared/gameDataCatalog';
+import type { LeaderboardPlayer } from './shared/components/LeaderboardList';
+
+export type { StyleRule, ComponentAnimation, Gradient };
+export type { GradientStop, GradientType, TextVerticalAlign, ValueFormat, ValueFormatOptions, TextCase } from './shared/components/customDataDisplay/types';
+export type { LayoutTimeline, TimelineTrack, TimelineKeyframe } from './shared/timeline';
+
+// Component kinds rendered by CustomDataDisplay (text, images, toggles)
+export type DataDisplayComponentType = 'teamName' | 'score' | 'clock' | 'period' | 'fouls' | 'timeouts' | 'bonus' | 'custom';
+
+// Props every component kind may carry. Declared keys are type-checked here and
+// validated at runtime when a layout is loaded (see utils/layoutValidation). Keys
+// older builder versions wrote that no kind declares still ride along in the JSON;
+// read those with getPropByName and narrow the unknown value.
+export interface BaseComponentProps {
+  visibilityPath?: string; // Data path or expression that hides the component (and its children) when false
+  tokenBindings?: Record<string, string>; // Prop name -> design token name; bound props follow the token
+}
+
+// Props for text/image components - the stored subset of CustomDataDisplayProps
+export interface DataDisplayComponentProps
+  extends BaseComponentProps,
+    Omit<CustomDataDisplayProps, 'dataPath' | 'gameData' | 'width' | 'height' | 'isVisible' | 'animations'> {
+  dataPath?: string; // Data path or expression; 'none' or empty for static text/images
+  maxTimeouts?: number; // timeouts: how many each team starts with
+  showPossessionArrows?: boolean; // period: draw the possession arrows beside the period
+}
+
+// Props for dynamicList components (timeout dots, foul counters, etc.)
+export interface DynamicListComponentProps extends BaseComponentProps {
+  totalCountPath?: string;
+  activeCountPath?: string;
+  totalCount?: number;
+  activeCount?: number;
+  activeBackgroundColor?: string;
+  activeTextColor?: string;
+  activeBorderWidth?: number;
+  activeBorderColor?: string;
+  inactiveBackgroundColor?: string;
+  inactiveTextColor?: string;
+  inactiveBorderWidth?: number;
+  inactiveBorderColor?: string;
+  direction?: 'horizontal' | 'vertical';
+  itemAlignment?: 'start' | 'center' | 'end' | 'space-between' | 'space-around';
+  itemSpacing?: number;
+  borderRadius?: number;
+  showNumbers?: boolean;
+  reverseOrder?: boolean;
+  borderWidth?: number;
+  borderColor?: string;
+}
+
+// Props for leaderboardList components
+export interface LeaderboardListComponentProps extends BaseComponentProps {
+  mockPlayers?: LeaderboardPlayer[]; // Rows shown in the builder preview instead of gameData
+  visibleCount?: number;
+  maxVisible?: number;
+  rowHeight?: number;
+  rowSpacing?: number;
+  slotHeight?: number;
+  slotSpacing?: number;
+  backgroundColor?: string;
+  rowBackgroundColor?: string;
+  highlightColor?: string;
+  textColor?: string;
+  fontSize?: number;
+  showRank?: boolean;
+  showScore?: boolean;
+  showJersey?: boolean;
+  showName?: boolean;
+  showPoints?: boolean;
+  showFouls?: boolean;
+  rankWidth?: number;
+  scoreWidth?: number;
+  borderRadius?: number;
+  cycleEnabled?: boolean;
+  cycleInterval?: number;
+  cycleTransition?: 'fade' | 'slide' | 'none';
+  cycleDuration?: number;
+}
+
+// Props for group components (organizational only - never rendered)
+export type GroupComponentProps = BaseComponentProps;
+
+// Fields shared by every component kind
+interface ComponentConfigBase<TType extends string, TProps> {
+  type: TType;
   position: {
     x: number;
     y: number;
@@ -9,7 +97,7 @@ export interface ComponentConfig {
     height: number;
   };
   layer?: number; // z-index for stacking order (higher values appear on top)
-  props?: any;
+  props?: TProps;
   team?: 'home' | 'away' | 'both';
   id: string; // Hidden UUID identifier
   displayName?: string; // Human-readable name shown in UI
@@ -20,11 +108,47 @@ export interface ComponentConfig {
   originalAspectRatio?: number; // Stored aspect ratio (width/height) for precise scaling
   originalSize?: { width: number; height: number }; // Original/base dimensions for percentage-based scaling
   scaleAnchor?: 'center' | 'top' | 'bottom' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'; // Anchor point for scaling (default: corner being dragged)
+  rotation?: number; // Degrees clockwise around the center of the box (default: 0); position/size stay unrotated
   slot?: number; // Slot index (0-4) for leaderboard/slot components - used by TV app for cycling animation
+  sceneIds?: string[]; // Scenes this component appears in (see utils/scenes); missing = shared by every scene
+  animations?: ComponentAnimation[]; // Motion on value/visibility change or entry (played by CustomDataDisplay)
 }
 
+// A component on the canvas, discriminated by `type` so each kind has its own props shape
+export type ComponentConfig =
+  | ComponentConfigBase<DataDisplayComponentType, DataDisplayComponentProps>
+  | ComponentConfigBase<'dynamicList', DynamicListComponentProps>
+  | ComponentConfigBase<'leaderboardList', LeaderboardListComponentProps>
+  | ComponentConfigBase<'slotList', SlotListComponentProps>
+  | ComponentConfigBase<'group', GroupComponentProps>;
+
+export type ComponentType = ComponentConfig['type'];
+
+// A text/image component, i.e. one whose props are DataDisplayComponentProps
+export type DataDisplayComponentConfig = ComponentConfigOfType<DataDisplayComponentType>;
+
+export const DATA_DISPLAY_COMPONENT_TYPES: readonly DataDisplayComponentType[] = [
+  'teamName', 'score', 'clock', 'period', 'fouls', 'timeouts', 'bonus', 'custom',
+];
+
+// Narrow a component to the text/image kinds before reading their props
+export const isDataDisplayComponent = (component: ComponentConfig): component is DataDisplayComponentConfig =>
+  (DATA_DISPLAY_COMPONENT_TYPES as readonly string[]).includes(component.type);
+
+// Read a prop by name whatever the component's kind, for code that walks props
+// generically (binding checks, diffs, token lookups) rather than by declared key
+export const getPropByName = (component: ComponentConfig, name: string): unknown =>
+  (component.props as Record<string, unknown> | undefined)?.[name];
+
+// A component of one kind, e.g. ComponentConfigOfType<'slotList'>
+export type ComponentConfigOfType<T extends ComponentType> = Extract<ComponentConfig, { type: T }>;
+
+// Props shape for a given component type, e.g. ComponentPropsFor<'slotList'>
+export type ComponentPropsFor<T extends ComponentType> = NonNullable<Extract<ComponentConfig, { type: T }>['props']>;
+
 // Slot template for reusable slot designs (leaderboard rows, penalty boxes, etc.)
 export interface SlotTemplate {
+  schemaVersion?: number; // Format version (see utils/layoutMigrations); missing on pre-versioning saves
   id: string;
   name: string;
   description?: string;
@@ -55,8 +179,15 @@ export interface SlotListProps {
   dataPathPrefix: string; // e.g., 'leaderboardSlots' or 'penaltySlots'
 }
 
+// SlotList props as stored on a component (all optional - expandSlotList supplies defaults)
+export interface SlotListComponentProps extends BaseComponentProps, Partial<SlotListProps> {
+  templateName?: string; // Template name, used to repair references when IDs change on import
+  hideInactiveSlots?: boolean; // Bind each slot's visibility to its `active` field
+}
+
 // Component group template for reusable component groups (team names, score displays, etc.)
 export interface ComponentGroupTemplate {
+  schemaVersion?: number; // Format version (see utils/layoutMigrations); missing on pre-versioning saves
   id: string;
   name: string;
   description?: string;
@@ -76,42 +207,66 @@ export interface ComponentGroupTemplate {
   updatedAt: number;
 }
 
-// Predefined layout types that the TV app can load
+// Predefined layout types that the TV app can load. `sports` lists the sports whose
+// gameData fields the layout is built from (see shared/gameDataCatalog); layouts
+// without it can show any sport's data.
 export const LAYOUT_TYPES = [
   // Sports (alphabetical)
-  { value: 'badminton', label: 'Badminton' },
-  { value: 'baseball', label: 'Baseball' },
-  { value: 'basketball', label: 'Basketball' },
-  { value: 'football', label: 'Football' },
-  { value: 'hockey', label: 'Hockey' },
-  { value: 'lacrosse', label: 'Lacrosse' },
-  { value: 'rugby', label: 'Rugby' },
-  { value: 'soccer', label: 'Soccer' },
-  { value: 'tennis', label: 'Tennis' },
-  { value: 'volleyball', label: 'Volleyball' },
-  { value: 'waterpolo', label: 'Water Polo' },
-  { value: 'wrestling', label: 'Wrestling' },
-  { value: 'wrestlingTeamScore', label: 'Wrestling Team Score' },
+  { value: 'badminton', label: 'Badminton', sports: ['badminton'] },
+  { value: 'baseball', label: 'Baseball', sports: ['baseball'] },
+  { value: 'basketball', label: 'Basketball', sports: ['basketball'] },
+  { value: 'football', label: 'Football', sports: ['football'] },
+  { value: 'hockey', label: 'Hockey', sports: ['hockey'] },
+  { value: 'lacrosse', label: 'Lacrosse', sports: ['lacrosse'] },
+  { value: 'rugby', label: 'Rugby', sports: ['rugby'] },
+  { value: 'soccer', label: 'Soccer', sports: ['soccer'] },
+  { value: 'tennis', label: 'Tennis', sports: ['tennis'] },
+  { value: 'volleyball', label: 'Volleyball', sports: ['volleyball'] },
+  { value: 'waterpolo', label: 'Water Polo', sports: ['waterpolo'] },
+  { value: 'wrestling', label: 'Wrestling', sports: ['wrestling'] },
+  { value: 'wrestlingTeamScore', label: 'Wrestling Team Score', sports: ['wrestlingTeamScore'] },
   // Special layouts
   { value: 'universal', label: 'Universal' },
   { value: 'timeout', label: 'Timeout' },
   { value: 'timeout-no-game-time', label: 'Timeout (No Game Time)' },
   { value: 'activity-timer', label: 'Activity Timer' },
   { value: 'playlist', label: 'Playlist' },
-  { value: 'leaderboard', label: 'Leaderboard' },
-  { value: 'basketball-leaderboard', label: 'Basketball Leaderboard' },
-  { value: 'volleyball-leaderboard', label: 'Volleyball Leaderboard' },
+  { value: 'leaderboard', label: 'Leaderboard', sports: ['basketball', 'volleyball'] },
+  { value: 'basketball-leaderboard', label: 'Basketball Leaderboard', sports: ['basketball'] },
+  { value: 'volleyball-leaderboard', label: 'Volleyball Leaderboard', sports: ['volleyball'] },
   { value: 'pre-game', label: 'Pre-Game' },
   { value: 'halftime', label: 'Halftime' },
   { value: 'period-break', label: 'Period Break' },
-] as const;
+] as const satisfies readonly { value: string; label: string; sports?: readonly GameDataSport[] }[];
 
 export type LayoutType = typeof LAYOUT_TYPES[number]['value'];
 
+// Document-level design tokens that component props can bind to (see utils/designTokens)
+export interface DesignTokens {
+  colors: Record<string, string>; // e.g. primary: '#c8102e'
+  fonts: Record<string, string>; // e.g. clockFont: 'Score-Regular'
+  sizes: Record<string, number>; // e.g. scoreSize: 96
+}
+
+export type DesignTokenKind = keyof DesignTokens;
+
+// An additional screen in a layout document (see utils/scenes). The layout itself is the main scene.
+export interface LayoutScene {
+  id: string;
+  name: string; // Layout type the TV app loads for this scene (e.g. 'timeout', 'halftime')
+  timeline?: LayoutTimeline; // Intro/outro keyframes for this scene
+}
+
 export interface LayoutConfig {
+  schemaVersion?: number; // Format version (see utils/layoutMigrations); missing on pre-versioning saves
   name: string; // Layout type identifier (e.g., 'basketball', 'volleyball') - used by TV app to load correct layout
   components: ComponentConfig[];
   backgroundColor?: string;
+  backgroundGradient?: Gradient; // Drawn over backgroundColor (see shared/components/customDataDisplay/gradients)
+  tokens?: DesignTokens;
+  scenes?: LayoutScene[]; // Additional scenes that share this document's components
+  activeSceneId?: string; // Scene currently shown on the canvas (editor state)
+  timeline?: LayoutTimeline; // Intro/outro keyframes for the main scene (see shared/timeline)
   dimensions: {
     width: number;
     height: number;
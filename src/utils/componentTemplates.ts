@@ -1,21 +1,36 @@
 import { ComponentGroupTemplate, ComponentConfig } from '../types';
+import { migrateComponentTemplate, migrateEntries, reportUnmigratedEntries, COMPONENT_TEMPLATE_SCHEMA_VERSION } from './layoutMigrations';
 
 const STORAGE_KEY = 'sv-component-templates';
 
-// Load all component templates from localStorage
-export function loadComponentTemplates(): ComponentGroupTemplate[] {
+// Read the stored list. Templates that can't be migrated (malformed, or saved by a
+// newer builder) come back separately, exactly as stored, so saving never drops them.
+function readStoredTemplates(): { templates: ComponentGroupTemplate[]; unreadable: unknown[] } {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored);
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return { templates: [], unreadable: [] };
+
+    const results = migrateEntries(parsed, migrateComponentTemplate, 'Component template');
+    reportUnmigratedEntries(results);
+    return {
+      templates: results.flatMap(result => (result.ok ? [result.value] : [])),
+      unreadable: results.flatMap(result => (result.ok ? [] : [result.stored])),
+    };
   } catch {
-    return [];
+    return { templates: [], unreadable: [] };
   }
 }
 
-// Save templates to localStorage
+// Load all component templates from localStorage (upgrades old schema versions)
+export function loadComponentTemplates(): ComponentGroupTemplate[] {
+  return readStoredTemplates().templates;
+}
+
+// Save templates to localStorage, keeping any stored ones that couldn't be loaded
 export function saveComponentTemplates(templates: ComponentGroupTemplate[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  const { unreadable } = readStoredTemplates();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...templates, ...unreadable]));
 }
 
 // Get a single template by ID
@@ -111,6 +126,7 @@ export function createComponentTemplate(
   }));
 
   const template: ComponentGroupTemplate = {
+    schemaVersion: COMPONENT_TEMPLATE_SCHEMA_VERSION,
     id: existingIndex !== -1 ? templates[existingIndex].id : crypto.randomUUID(),
     name,
     description,
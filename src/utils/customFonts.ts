@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { ComponentConfig, StyleRule, isDataDisplayComponent } from '../types';
+import {
+  registerFont,
+  unregisterFont,
+  getFontOptions,
+  subscribeToFonts,
+  FONT_CONFIG,
+} from '../shared/components/customDataDisplay/fontConfig';
+
+// Uploaded fonts are kept in localStorage as data URLs, loaded with the FontFace API
+// and added to the shared font registry so every font picker and renderer sees them.
+
+const STORAGE_KEY = 'sv-custom-fonts';
+
+const DEFAULT_FONT_FAMILY = 'Score-Regular';
+
+const FONT_EXTENSIONS = ['ttf', 'otf', 'woff', 'woff2'];
+
+export const FONT_FILE_ACCEPT = FONT_EXTENSIONS.map(ext => `.${ext}`).join(',');
+
+interface StoredFont {
+  name: string;
+  fileName: string;
+  dataUrl: string;
+  dyOffset: string;
+  leftBearingRatio: number;
+  rightBearingRatio: number;
+}
+
+function readStoredFonts(): StoredFont[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStoredFonts(fonts: StoredFont[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fonts));
+  } catch {
+    throw new Error('Not enough browser storage left for this font');
+  }
+}
+
+function getCssFontFamily(name: string): string {
+  return `'${name}'`;
+}
+
+function registerStoredFont(font: StoredFont): void {
+  registerFont(font.name, {
+    label: `${font.name} (Custom)`,
+    web: getCssFontFamily(font.name),
+    dyOffset: font.dyOffset,
+    leftBearingRatio: font.leftBearingRatio,
+    rightBearingRatio: font.rightBearingRatio,
+  });
+}
+
+// The FontFace added for each custom font, so it can be taken out of document.fonts
+// again - otherwise a removed or replaced font keeps drawing until the page reloads
+const loadedFaces = new Map<string, FontFace>();
+
+async function loadFontFace(name: string, dataUrl: string): Promise<void> {
+  const face = new FontFace(name, `url(${dataUrl})`);
+  await face.load();
+  unloadFontFace(name);
+  document.fonts.add(face);
+  loadedFaces.set(name, face);
+}
+
+function unloadFontFace(name: string): void {
+  const face = loadedFaces.get(name);
+  if (!face) return;
+  document.fonts.delete(face);
+  loadedFaces.delete(name);
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`Couldn't read "${file.name}"`));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Vertical centering offset and side bearings, measured on digits at 100px.
+// dyOffset moves the baseline so the glyphs' ink is centered on the line
+// (the built-in fonts use 0.35em, about half their cap height).
+export function measureFontMetrics(cssFontFamily: string): Pick<StoredFont, 'dyOffset' | 'leftBearingRatio' | 'rightBearingRatio'> {
+  const fallback = { dyOffset: '0.35em', leftBearingRatio: 0.05, rightBearingRatio: 0.05 };
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return fallback;
+
+  const size = 100;
+  ctx.font = `bold ${size}px ${cssFontFamily}`;
+  const digits = ctx.measureText('0123456789');
+  const ascent = digits.actualBoundingBoxAscent;
+  const descent = digits.actualBoundingBoxDescent;
+  if (!Number.isFinite(ascent) || ascent <= 0) return fallback;
+
+  const zero = ctx.measureText('0');
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    dyOffset: `${round((ascent - (descent || 0)) / 2 / size)}em`,
+    leftBearingRatio: round(Math.max(0, -(zero.actualBoundingBoxLeft || 0)) / size),
+    rightBearingRatio: round(Math.max(0, zero.width - (zero.actualBoundingBoxRight || zero.width)) / size),
+  };
+}
+
+// Register stored fonts at startup. The registry entries are added straight away
+// (with the metrics measured at upload); the font files load in the background.
+export function loadCustomFonts(): void {
+  readStoredFonts().forEach(font => {
+    try {
+      registerStoredFont(font);
+    } catch (error) {
+      console.warn(`Skipping custom font "${font.name}":`, error);
+      return;
+    }
+    loadFontFace(font.name, font.dataUrl).catch(error => {
+      console.warn(`Failed to load custom font "${font.name}":`, error);
+    });
+  });
+}
+
+// Upload a TTF/OTF/WOFF/WOFF2 file; the font is named after the file and replaces
+// an earlier upload with the same name. Returns the registered font name.
+export async function addCustomFont(file: File): Promise<string> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (!FONT_EXTENSIONS.includes(extension)) {
+    throw new Error(`"${file.name}" isn't a font file (use TTF, OTF, WOFF or WOFF2)`);
+  }
+
+  const name = file.name.slice(0, -(extension.length + 1)).replace(/[^A-Za-z0-9 _-]/g, '').trim();
+  if (!name) {
+    throw new Error(`Can't name a font after "${file.name}"`);
+  }
+  if (FONT_CONFIG[name]) {
+    throw new Error(`"${name}" is already a built-in font`);
+  }
+
+  const dataUrl = await readFileAsDataUrl(file);
+  try {
+    await loadFontFace(name, dataUrl);
+  } catch {
+    throw new Error(`"${file.name}" couldn't be loaded as a font`);
+  }
+
+  const font: StoredFont = { name, fileName: file.name, dataUrl, ...measureFontMetrics(getCssFontFamily(name)) };
+  writeStoredFonts([...readStoredFonts().filter(stored => stored.name !== name), font]);
+  registerStoredFont(font);
+  return name;
+}
+
+export function removeCustomFont(name: string): void {
+  writeStoredFonts(readStoredFonts().filter(font => font.name !== name));
+  unregisterFont(name);
+  unloadFontFace(name);
+}
+
+// Font families the components draw text with, including style rule overrides and
+// the default font for text components that don't set one
+export function collectFontFamilies(components: ComponentConfig[]): string[] {
+  const fonts = new Set<string>();
+  components.forEach(component => {
+    if (!isDataDisplayComponent(component)) return;
+    const props = component.props;
+    if (!props) return;
+    if (props.fontFamily) {
+      fonts.add(props.fontFamily);
+    } else if (props.customText || (props.dataPath && props.dataPath !== 'none')) {
+      fonts.add(DEFAULT_FONT_FAMILY);
+    }
+    (props.styleRules || []).forEach((rule: StyleRule) => {
+      if (rule.set?.fontFamily) fonts.add(rule.set.fontFamily);
+    });
+  });
+  return Array.from(fonts).sort();
+}
+
+// Number of components drawing text with `name`
+export function countFontUsage(components: ComponentConfig[], name: string): number {
+  return components.filter(component => collectFontFamilies([component]).includes(name)).length;
+}
+
+// Font picker entries, kept current as fonts are uploaded or removed
+export function useFontOptions(): { value: string; label: string }[] {
+  const [options, setOptions] = useState(getFontOptions);
+  useEffect(() => subscribeToFonts(() => setOptions(getFontOptions())), []);
+  return options;
+}
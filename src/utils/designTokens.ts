@@ -0,0 +1,166 @@
+import { ComponentConfig, DesignTokens, DesignTokenKind, StyleRule, isDataDisplayComponent } from '../types';
+
+// Design tokens live on the layout (layout.tokens). A component binds a prop to a token
+// through props.tokenBindings ({ textColor: 'primary' }); the prop keeps holding the
+// token's literal value so Canvas, WebPreview and the TV app never have to look tokens up.
+// Changing a token rewrites every bound literal via applyTokensToComponents.
+
+export const EMPTY_DESIGN_TOKENS: DesignTokens = { colors: {}, fonts: {}, sizes: {} };
+
+// Which token table a prop binds to
+export function getTokenKindForProp(propName: string): DesignTokenKind {
+  if (propName === 'fontFamily') return 'fonts';
+  if (propName.endsWith('Color')) return 'colors';
+  return 'sizes';
+}
+
+export function getTokenValue(
+  tokens: DesignTokens | undefined,
+  kind: DesignTokenKind,
+  name: string
+): string | number | undefined {
+  return tokens?.[kind]?.[name];
+}
+
+// Pick an unused name like color1, font2, size3
+export function getNextTokenName(tokens: DesignTokens, kind: DesignTokenKind): string {
+  const base = kind === 'colors' ? 'color' : kind === 'fonts' ? 'font' : 'size';
+  let index = 1;
+  while (`${base}${index}` in tokens[kind]) index++;
+  return `${base}${index}`;
+}
+
+// Write token values into bound props. Returns the same object when nothing changed.
+function applyBindings(props: Record<string, any>, tokens: DesignTokens | undefined): Record<string, any> {
+  const bindings: Record<string, string> | undefined = props.tokenBindings;
+  if (!bindings) return props;
+
+  let updated = props;
+  Object.entries(bindings).forEach(([propName, tokenName]) => {
+    const value = getTokenValue(tokens, getTokenKindForProp(propName), tokenName);
+    // Missing tokens leave the last resolved literal in place
+    if (value !== undefined && updated[propName] !== value) {
+      if (updated === props) updated = { ...props };
+      updated[propName] = value;
+    }
+  });
+  return updated;
+}
+
+export function applyTokensToComponent(component: ComponentConfig, tokens: DesignTokens | undefined): ComponentConfig {
+  if (!component.props) return component;
+
+  let props = applyBindings(component.props, tokens);
+  // Style rule overrides can carry their own bindings
+  const rules: StyleRule[] | undefined = props.styleRules;
+  if (rules) {
+    const resolvedRules = rules.map(rule => {
+      const set = applyBindings(rule.set || {}, tokens);
+      return set === rule.set ? rule : { ...rule, set };
+    });
+    if (resolvedRules.some((rule, i) => rule !== rules[i])) props = { ...props, styleRules: resolvedRules };
+  }
+
+  return props === component.props ? component : ({ ...component, props } as ComponentConfig);
+}
+
+// Re-resolve every bound prop, e.g. after a token value changes
+export function applyTokensToComponents(components: ComponentConfig[], tokens: DesignTokens | undefined): ComponentConfig[] {
+  return components.map(comp => applyTokensToComponent(comp, tokens));
+}
+
+// Resolve tokens to literals and drop the bindings (exports don't know about tokens)
+export function resolveTokensForExport(components: ComponentConfig[], tokens: DesignTokens | undefined): ComponentConfig[] {
+  return applyTokensToComponents(components, tokens).map(comp => {
+    if (!comp.props) return comp;
+    const { tokenBindings, ...props } = comp.props;
+    if ('styleRules' in props && props.styleRules) {
+      props.styleRules = props.styleRules.map((rule: StyleRule) => {
+        if (!rule.set?.tokenBindings) return rule;
+        const { tokenBindings: _ruleBindings, ...set } = rule.set;
+        return { ...rule, set };
+      });
+    }
+    return { ...comp, props } as ComponentConfig;
+  });
+}
+
+// Bindings with one prop removed (undefined when none are left), used when a prop gets a literal value
+export function withoutTokenBinding(
+  bindings: Record<string, string> | undefined,
+  propName: string
+): Record<string, string> | undefined {
+  if (!bindings || !(propName in bindings)) return bindings;
+  const { [propName]: _removed, ...rest } = bindings;
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+// Props with the binding for one prop removed - call when the prop is given a literal value
+export function unbindToken<T extends Record<string, any>>(props: T, propName: string): T {
+  if (!props.tokenBindings || !(propName in props.tokenBindings)) return props;
+  return { ...props, tokenBindings: withoutTokenBinding(props.tokenBindings, propName) };
+}
+
+// Rewrite bindings in props (and style rule overrides) with the given function
+function mapBindings(
+  components: ComponentConfig[],
+  mapper: (bindings: Record<string, string>) => Record<string, string> | undefined
+): ComponentConfig[] {
+  const mapProps = (props: Record<string, any>) => {
+    if (!props.tokenBindings) return props;
+    return { ...props, tokenBindings: mapper(props.tokenBindings) };
+  };
+
+  return components.map(comp => {
+    if (!comp.props) return comp;
+    const props = mapProps(comp.props);
+    if ('styleRules' in props && props.styleRules) {
+      props.styleRules = props.styleRules.map((rule: StyleRule) => ({ ...rule, set: mapProps(rule.set || {}) }));
+    }
+    return { ...comp, props } as ComponentConfig;
+  });
+}
+
+// Point bindings of the given kind at a renamed token
+export function renameTokenBindings(
+  components: ComponentConfig[],
+  kind: DesignTokenKind,
+  fromName: string,
+  toName: string
+): ComponentConfig[] {
+  return mapBindings(components, bindings => {
+    const updated: Record<string, string> = {};
+    Object.entries(bindings).forEach(([propName, tokenName]) => {
+      updated[propName] = tokenName === fromName && getTokenKindForProp(propName) === kind ? toName : tokenName;
+    });
+    return updated;
+  });
+}
+
+// Unbind props from a deleted token (they keep the last literal value)
+export function removeTokenBindings(components: ComponentConfig[], kind: DesignTokenKind, name: string): ComponentConfig[] {
+  return mapBindings(components, bindings => {
+    let updated: Record<string, string> | undefined = bindings;
+    Object.entries(bindings).forEach(([propName, tokenName]) => {
+      if (tokenName === name && getTokenKindForProp(propName) === kind) {
+        updated = withoutTokenBinding(updated, propName);
+      }
+    });
+    return updated;
+  });
+}
+
+// How many bound props reference a token (shown in the token editor)
+export function countTokenUsage(components: ComponentConfig[], kind: DesignTokenKind, name: string): number {
+  let count = 0;
+  const countIn = (bindings: Record<string, string> | undefined) => {
+    Object.entries(bindings || {}).forEach(([propName, tokenName]) => {
+      if (tokenName === name && getTokenKindForProp(propName) === kind) count++;
+    });
+  };
+  components.forEach(comp => {
+    countIn(comp.props?.tokenBindings);
+    if (isDataDisplayComponent(comp)) comp.props?.styleRules?.forEach(rule => countIn(rule.set?.tokenBindings));
+  });
+  return count;
+}
@@ -0,0 +1,382 @@
+// =============================================================================
+// TV EXPORT JSON SCHEMA
+// =============================================================================
+// The TV app consumes the output of cleanLayoutForExport (utils/tvExport), whether
+// exported to a file or sent over the network. This module describes that contract
+// as a JSON Schema (draft 2020-12), generated from the same field tables the layout
+// validator uses, so the schema can't drift from types.ts. Documents with several
+// scenes export as { layouts: [...] }, one layout per scene.
+//
+// The export strips props that equal their default (see EXPORT_PROP_DEFAULTS);
+// the schema records those defaults so the TV knows what a missing prop means.
+//
+// validateTvExport checks a payload against the generated schema. It only
+// implements the keywords this module emits ($ref, type, enum, const,
+// properties, required, items, allOf, if/then/else).
+// =============================================================================
+
+import type { ComponentType } from '../types';
+import {
+  ANIMATION_DEFAULTS,
+  ANIMATION_TRIGGERS,
+  ANIMATION_EFFECTS,
+} from '../shared/components/customDataDisplay/animations';
+import { GRADIENT_TYPES, DEFAULT_GRADIENT_ANGLE } from '../shared/components/customDataDisplay/gradients';
+import { TEXT_EFFECT_DEFAULTS } from '../shared/components/customDataDisplay/textEffects';
+import { TEXT_LAYOUT_DEFAULTS } from '../shared/components/customDataDisplay/textLayout';
+import { VALUE_FORMAT_DEFAULTS } from '../shared/components/customDataDisplay/valueFormat';
+import { DEFAULT_KEYFRAME_EASING } from '../shared/timeline';
+import {
+  COMPONENT_TYPES,
+  COMPONENT_FIELDS,
+  ANIMATION_FIELDS,
+  FORMAT_OPTIONS_FIELDS,
+  KEYFRAME_FIELDS,
+  getPropsSpec,
+  FieldKind,
+  FieldSpec,
+  LayoutValidationIssue,
+} from './layoutValidation';
+
+export type JsonSchema = Record<string, any>;
+
+// Props removed by cleanComponentProps when they hold these values
+export const EXPORT_PROP_DEFAULTS: Record<string, unknown> = {
+  format: 'text',
+  textAlign: 'center',
+  objectFit: 'cover',
+  imageAnchor: 'center',
+  borderStyle: 'solid',
+  useImageTint: false,
+  useTeamColor: false,
+  autoFitText: false,
+  fontWeight: TEXT_EFFECT_DEFAULTS.fontWeight,
+  letterSpacing: TEXT_EFFECT_DEFAULTS.letterSpacing,
+  wrapText: TEXT_LAYOUT_DEFAULTS.wrapText,
+  maxLines: TEXT_LAYOUT_DEFAULTS.maxLines,
+  lineHeight: TEXT_LAYOUT_DEFAULTS.lineHeight,
+  verticalAlign: TEXT_LAYOUT_DEFAULTS.verticalAlign,
+};
+
+// Defaults the TV applies for props the export omits for other reasons (all-zero groups, transparent backgrounds)
+const IMPLIED_PROP_DEFAULTS: Record<string, unknown> = {
+  paddingTop: 0,
+  paddingRight: 0,
+  paddingBottom: 0,
+  paddingLeft: 0,
+  borderTopLeftRadius: 0,
+  borderTopRightRadius: 0,
+  borderBottomLeftRadius: 0,
+  borderBottomRightRadius: 0,
+  borderWidth: 0,
+  backgroundColor: 'transparent',
+  imageSource: 'none',
+  textStrokeWidth: 0,
+  textShadowOffsetX: 0,
+  textShadowOffsetY: 0,
+  textShadowBlur: 0,
+  textGlowRadius: 0,
+};
+
+// Props that only exist in TV exports (added by cleanComponentProps)
+const EXPORT_ONLY_PROPS: Record<string, JsonSchema> = {
+  measuredLeftBearing: {
+    type: 'number',
+    description: 'Measured left bearing in pixels for left/right aligned text, so the TV can position text without its own measurement API',
+  },
+  measuredRightBearing: {
+    type: 'number',
+    description: 'Measured right bearing in pixels for left/right aligned text',
+  },
+  fittedFontSize: {
+    type: 'number',
+    description: 'Font size in pixels autoFitText resolves to for autoFitSampleText (or a representative value); values wider than that need refitting with the same parameters',
+  },
+};
+
+// Props that hold a dotted gameData path or a data expression
+const EXPRESSION_PROPS = ['dataPath', 'visibilityPath'];
+const EXPRESSION_DESCRIPTION = 'Dotted gameData path ("homeTeam.score") or data expression ("homeTeam.score - awayTeam.score"). The grammar and evaluation rules are documented in shared/components/customDataDisplay/dataExpressions.ts.';
+
+// Editor-only fields that the export resolves away
+const EDITOR_ONLY_FIELDS = ['tokenBindings', 'sceneIds'];
+
+// slotLists are expanded into concrete components before export
+const EXPORTED_COMPONENT_TYPES = COMPONENT_TYPES.filter(type => type !== 'slotList');
+
+function fieldToSchema(kind: FieldKind): JsonSchema {
+  if (typeof kind !== 'string') return { type: 'string', enum: [...kind] };
+  return { type: kind };
+}
+
+function specToProperties(spec: FieldSpec, defaults: Record<string, unknown> = {}): Record<string, JsonSchema> {
+  const properties: Record<string, JsonSchema> = {};
+  Object.entries(spec).forEach(([key, kind]) => {
+    if (EDITOR_ONLY_FIELDS.includes(key)) return;
+    properties[key] = fieldToSchema(kind);
+    if (key in defaults) properties[key].default = defaults[key];
+  });
+  return properties;
+}
+
+function propsSchema(type: ComponentType, withExportOnly: boolean): JsonSchema {
+  const properties = specToProperties(getPropsSpec(type), { ...IMPLIED_PROP_DEFAULTS, ...EXPORT_PROP_DEFAULTS });
+  EXPRESSION_PROPS.forEach(key => {
+    if (properties[key]) properties[key].description = EXPRESSION_DESCRIPTION;
+  });
+  return {
+    type: 'object',
+    properties: withExportOnly ? { ...properties, ...EXPORT_ONLY_PROPS } : properties,
+  };
+}
+
+const positionSchema: JsonSchema = {
+  type: 'object',
+  required: ['x', 'y'],
+  properties: { x: { type: 'number' }, y: { type: 'number' } },
+};
+
+const sizeSchema: JsonSchema = {
+  type: 'object',
+  required: ['width', 'height'],
+  properties: { width: { type: 'number' }, height: { type: 'number' } },
+};
+
+// Build the JSON Schema describing a TV layout export
+export function buildTvExportSchema(): JsonSchema {
+  const dataDisplayTypes = EXPORTED_COMPONENT_TYPES.filter(
+    type => getPropsSpec(type) === getPropsSpec('custom')
+  );
+  const dataDisplayProps = propsSchema('custom', true);
+  dataDisplayProps.properties.styleRules = { type: 'array', items: { $ref: '#/$defs/styleRule' } };
+  dataDisplayProps.properties.backgroundGradient = { $ref: '#/$defs/gradient' };
+  dataDisplayProps.properties.formatOptions = { $ref: '#/$defs/formatOptions' };
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'TV Layout Export',
+    description: 'Layout produced by "Export for TV" and sent to the TV app, or { layouts: [...] } with one layout per scene. Slot lists are expanded, layers are unique per sibling group, and props equal to their default are omitted.',
+    type: 'object',
+    if: { required: ['layouts'] },
+    then: {
+      properties: {
+        layouts: { type: 'array', items: { $ref: '#/$defs/layout' } },
+      },
+    },
+    else: { $ref: '#/$defs/layout' },
+    $defs: {
+      layout: {
+        type: 'object',
+        required: ['name', 'dimensions', 'components'],
+        properties: {
+          schemaVersion: { type: 'number', description: 'Layout builder document version' },
+          name: { type: 'string', description: 'Layout type identifier used by the TV app to pick the layout' },
+          backgroundColor: { type: 'string' },
+          backgroundGradient: { $ref: '#/$defs/gradient' },
+          dimensions: sizeSchema,
+          components: { type: 'array', items: { $ref: '#/$defs/component' } },
+          timeline: { $ref: '#/$defs/timeline' },
+          fonts: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Font families (fontFamily values) the components use, including style rule overrides. Uploaded fonts are named after their font file',
+          },
+        },
+      },
+      gradient: {
+        type: 'object',
+        description: 'Multi-stop fill drawn over backgroundColor (TVs without gradient support can keep showing backgroundColor). Stops are sorted by position. Linear angles follow the CSS convention: 0 runs bottom to top, 90 left to right. Radial gradients are circles from the center out.',
+        required: ['type', 'stops'],
+        properties: {
+          type: { type: 'string', enum: [...GRADIENT_TYPES] },
+          angle: { type: 'number', default: DEFAULT_GRADIENT_ANGLE, description: 'Degrees, linear gradients only' },
+          stops: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['color', 'position'],
+              properties: {
+                color: { type: 'string' },
+                position: { type: 'number', description: '0-1' },
+              },
+            },
+          },
+        },
+      },
+      timeline: {
+        type: 'object',
+        description: 'Intro/outro keyframes. Each property is interpolated between the keyframes that set it and holds its first/last value outside them; tracks on groups offset and fade their children. Playback math is in shared/timeline.ts.',
+        required: ['duration', 'tracks'],
+        properties: {
+          duration: { type: 'number', description: 'Milliseconds' },
+          loop: { type: 'boolean', default: false },
+          tracks: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['componentId', 'keyframes'],
+              properties: {
+                componentId: { type: 'string' },
+                keyframes: { type: 'array', items: { $ref: '#/$defs/keyframe' } },
+              },
+            },
+          },
+        },
+      },
+      keyframe: {
+        type: 'object',
+        required: ['id', 'time'],
+        properties: {
+          id: { type: 'string' },
+          time: { type: 'number', description: 'Milliseconds from the start of the timeline' },
+          ...specToProperties(KEYFRAME_FIELDS, { easing: DEFAULT_KEYFRAME_EASING }),
+        },
+      },
+      component: {
+        type: 'object',
+        required: ['id', 'type', 'position', 'size'],
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: EXPORTED_COMPONENT_TYPES },
+          position: positionSchema,
+          size: sizeSchema,
+          ...specToProperties(COMPONENT_FIELDS, { visible: true, layer: 0, rotation: 0 }),
+          animations: { type: 'array', items: { $ref: '#/$defs/animation' } },
+          props: { type: 'object' },
+        },
+        allOf: [
+          {
+            if: { properties: { type: { enum: dataDisplayTypes } } },
+            then: { properties: { props: { $ref: '#/$defs/dataDisplayProps' } } },
+          },
+          {
+            if: { properties: { type: { const: 'dynamicList' } } },
+            then: { properties: { props: { $ref: '#/$defs/dynamicListProps' } } },
+          },
+          {
+            if: { properties: { type: { const: 'leaderboardList' } } },
+            then: { properties: { props: { $ref: '#/$defs/leaderboardListProps' } } },
+          },
+        ],
+      },
+      dataDisplayProps,
+      styleRule: {
+        type: 'object',
+        description: 'Conditional overrides. The first rule whose condition is truthy has its `set` merged over the component props; when none match the props apply as-is.',
+        required: ['id', 'when', 'set'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          when: { type: 'string', description: EXPRESSION_DESCRIPTION },
+          // Overrides share the data display props shape
+          set: { $ref: '#/$defs/dataDisplayProps' },
+        },
+      },
+      formatOptions: {
+        type: 'object',
+        description: 'Formatting for bound values; options only apply to the formats named in shared/components/customDataDisplay/valueFormat.ts. number: minDigits, decimals, thousandsSeparator, plusSign. time (value in seconds or "m:ss"): timeTenths (s.t under a minute, truncated), timePadMinutes. ordinal (period number): regulationPeriods, overtimeLabel (5 -> OT, 6 -> 2OT with 4 regulation periods). boolean: trueLabel, falseLabel. textCase applies to every format.',
+        properties: specToProperties(FORMAT_OPTIONS_FIELDS, VALUE_FORMAT_DEFAULTS),
+      },
+      animation: {
+        type: 'object',
+        description: 'Motion played when the trigger fires: valueChange (data value changed), visibilityChange (visibilityPath flipped; fade/slide play out when hiding) or enter (first shown). Frame math is in shared/components/customDataDisplay/animations.ts.',
+        required: ['id', 'trigger', 'effect', 'duration'],
+        properties: {
+          id: { type: 'string' },
+          trigger: { type: 'string', enum: [...ANIMATION_TRIGGERS] },
+          effect: { type: 'string', enum: [...ANIMATION_EFFECTS] },
+          duration: { type: 'number', description: 'Milliseconds' },
+          ...specToProperties(ANIMATION_FIELDS, ANIMATION_DEFAULTS),
+        },
+      },
+      dynamicListProps: propsSchema('dynamicList', false),
+      leaderboardListProps: propsSchema('leaderboardList', false),
+    },
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return (actual === 'number' && Number.isFinite(value)) || actual === 'integer';
+  return actual === type;
+}
+
+function joinPath(basePath: string, key: string): string {
+  return basePath ? `${basePath}.${key}` : key;
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  issues: LayoutValidationIssue[]
+): void {
+  if (schema.$ref) {
+    const name = String(schema.$ref).replace('#/$defs/', '');
+    validateNode(value, root.$defs[name], root, path, issues);
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path: path || 'layout', message: `expected ${schema.type}, got ${typeOf(value)}` });
+    return;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path: path || 'layout', message: `expected ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path: path || 'layout',
+      message: `expected one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`,
+    });
+    return;
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    (schema.required || []).forEach((key: string) => {
+      if (obj[key] === undefined) issues.push({ path: joinPath(path, key), message: 'is required' });
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+      if (obj[key] !== undefined) validateNode(obj[key], propSchema as JsonSchema, root, joinPath(path, key), issues);
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateNode(item, schema.items, root, `${path}[${index}]`, issues));
+  }
+
+  validateConditional(value, schema, root, path, issues);
+  (schema.allOf || []).forEach((sub: JsonSchema) => validateNode(value, sub, root, path, issues));
+}
+
+function validateConditional(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  issues: LayoutValidationIssue[]
+): void {
+  if (!schema.if) return;
+  // `if` only decides which branch applies - its failures aren't reported
+  const conditionIssues: LayoutValidationIssue[] = [];
+  validateNode(value, schema.if, root, path, conditionIssues);
+  const branch = conditionIssues.length === 0 ? schema.then : schema.else;
+  if (branch) validateNode(value, branch, root, path, issues);
+}
+
+// Check a TV export payload against the generated schema. Returns an empty list when it conforms.
+export function validateTvExport(payload: unknown, schema: JsonSchema = buildTvExportSchema()): LayoutValidationIssue[] {
+  const issues: LayoutValidationIssue[] = [];
+  validateNode(payload, schema, schema, '', issues);
+  return issues;
+}
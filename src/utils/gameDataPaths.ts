@@ -0,0 +1,66 @@
+import { ComponentConfig, StyleRule, LAYOUT_TYPES, getPropByName, isDataDisplayComponent } from '../types';
+import {
+  GameDataSport,
+  getGameDataField,
+  isKnownGameDataPath,
+  isFieldForSports,
+} from '../shared/gameDataCatalog';
+import { getDataExpressionPaths } from '../shared/components/customDataDisplay/dataExpressions';
+import type { LayoutValidationIssue } from './layoutValidation';
+
+// Ties the gameData catalog (shared/gameDataCatalog) to layout types: which sports a
+// layout shows, and which of a layout's bindings read fields its sport doesn't send.
+
+// Sports whose data a layout type shows; undefined for layouts that can show any sport
+export function getLayoutSports(layoutType: string | undefined): readonly GameDataSport[] | undefined {
+  const type = LAYOUT_TYPES.find(t => t.value === layoutType);
+  return type && 'sports' in type ? type.sports : undefined;
+}
+
+export function getLayoutTypeLabel(layoutType: string | undefined): string {
+  return LAYOUT_TYPES.find(t => t.value === layoutType)?.label || layoutType || 'this';
+}
+
+// Props that bind a component to gameData
+export const BINDING_PROPS = ['dataPath', 'visibilityPath', 'activeCountPath', 'totalCountPath', 'dataPathPrefix'];
+
+export interface DataPathIssue extends LayoutValidationIssue {
+  kind: 'unknown' | 'wrong-sport'; // Not a TV field at all, or not one the layout's sport sends
+}
+
+// Bindings that read paths the TV app doesn't send, or doesn't send for the layout's
+// sport. Components in slot templates must already be expanded (their paths are
+// relative to the slot until then).
+export function findDataPathIssues(
+  components: ComponentConfig[],
+  layoutType: string | undefined,
+  basePath = 'components'
+): DataPathIssue[] {
+  const sports = getLayoutSports(layoutType);
+  const issues: DataPathIssue[] = [];
+
+  const checkExpression = (expression: unknown, path: string) => {
+    if (typeof expression !== 'string' || !expression.trim() || expression === 'none') return;
+    getDataExpressionPaths(expression.trim()).forEach(dataPath => {
+      if (!isKnownGameDataPath(dataPath)) {
+        issues.push({ kind: 'unknown', path, message: `"${dataPath}" isn't a gameData field the TV app sends` });
+        return;
+      }
+      const field = getGameDataField(dataPath);
+      if (field && sports && !isFieldForSports(field, sports)) {
+        issues.push({ kind: 'wrong-sport', path, message: `"${dataPath}" isn't sent for ${getLayoutTypeLabel(layoutType)} layouts` });
+      }
+    });
+  };
+
+  components.forEach((component, index) => {
+    if (!component.props) return;
+    const propsPath = `${basePath}[${index}].props`;
+    BINDING_PROPS.forEach(prop => checkExpression(getPropByName(component, prop), `${propsPath}.${prop}`));
+    if (!isDataDisplayComponent(component)) return;
+    (component.props?.styleRules || []).forEach((rule: StyleRule, ruleIndex: number) => {
+      checkExpression(rule.when, `${propsPath}.styleRules[${ruleIndex}].when`);
+    });
+  });
+  return issues;
+}
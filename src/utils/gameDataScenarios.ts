@@ -0,0 +1,145 @@
+import { setGameDataValue } from '../shared/gameDataCatalog';
+import { createMockGameData } from '../shared/components/customDataDisplay/mockGameData';
+
+// Named preview gameData snapshots. Built-in scenarios cover the edge cases layouts
+// most often get wrong; designers can save the current preview data as their own
+// (kept in localStorage, included in the data backup).
+
+const SCENARIOS_STORAGE_KEY = 'sv-gamedata-scenarios';
+
+export interface GameDataScenario {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  data: Record<string, any>;
+}
+
+type GameData = Record<string, any>;
+
+// Fill `count` of a slot list's slots: count, isStateN flags and slotN.active
+const withSlotCount = (data: GameData, root: string, side: 'home' | 'away', count: number): GameData => {
+  const slotCount = Object.keys(data[root]?.[side] || {}).filter(key => /^slot\d+$/.test(key)).length;
+  let result = setGameDataValue(data, `${root}.${side}.count`, count);
+  for (let state = 0; state <= slotCount; state++) {
+    result = setGameDataValue(result, `${root}.${side}.isState${state}`, state === count);
+  }
+  for (let slot = 0; slot < slotCount; slot++) {
+    result = setGameDataValue(result, `${root}.${side}.slot${slot}.active`, slot < count);
+  }
+  return result;
+};
+
+const withValues = (data: GameData, values: Record<string, unknown>): GameData =>
+  Object.entries(values).reduce((result, [path, value]) => setGameDataValue(result, path, value), data);
+
+const BUILT_IN_SCENARIOS: { id: string; name: string; build: (data: GameData) => GameData }[] = [
+  { id: 'builtin-default', name: 'Default mock data', build: data => data },
+  {
+    id: 'builtin-pregame',
+    name: 'Before the game',
+    build: data => withValues(data, {
+      'homeTeam.score': 0, 'awayTeam.score': 0, 'homeTeam.fouls': 0, 'awayTeam.fouls': 0,
+      'homeTeam.bonus': false, 'homeTeam.doubleBonus': false, 'awayTeam.bonus': false, 'awayTeam.doubleBonus': false,
+      period: '1', quarter: 1, gameClock: '8:00', preGameClock: '12:30', isOvertimeActive: false,
+    }),
+  },
+  {
+    id: 'builtin-halftime',
+    name: 'Halftime',
+    build: data => withValues(data, { period: '2', quarter: 2, gameClock: '0:00', halftimeClock: '7:30', isOvertimeActive: false }),
+  },
+  {
+    id: 'builtin-overtime-double-bonus',
+    name: 'Overtime, home in double bonus',
+    build: data => withValues(data, {
+      'homeTeam.score': 72, 'awayTeam.score': 72, 'homeTeam.fouls': 10, 'awayTeam.fouls': 4,
+      'homeTeam.bonus': true, 'homeTeam.doubleBonus': true, 'awayTeam.bonus': false, 'awayTeam.doubleBonus': false,
+      period: 'OT', quarter: 5, gameClock: '2:15', isOvertimeActive: true,
+    }),
+  },
+  {
+    id: 'builtin-final-seconds',
+    name: 'Tied, final seconds',
+    build: data => withValues(data, {
+      'homeTeam.score': 88, 'awayTeam.score': 88, period: '4', quarter: 4, gameClock: '0:04', shotClock: 4, shotClockClock: '4',
+    }),
+  },
+  {
+    id: 'builtin-triple-digits',
+    name: 'Triple-digit scores',
+    build: data => withValues(data, { 'homeTeam.score': 108, 'awayTeam.score': 112 }),
+  },
+  {
+    id: 'builtin-long-names',
+    name: 'Long team names',
+    build: data => withValues(data, { 'homeTeam.name': 'NORTHWESTERN STATE', 'awayTeam.name': 'SOUTHEASTERN LOUISIANA' }),
+  },
+  {
+    id: 'builtin-empty-leaderboard',
+    name: 'Empty leaderboard',
+    build: data => ['leaderboardSlots', 'volleyballLeaderboardSlots'].reduce(
+      (result, root) => withSlotCount(withSlotCount(result, root, 'home', 0), root, 'away', 0),
+      data
+    ),
+  },
+  {
+    id: 'builtin-three-penalties',
+    name: '3 penalties each',
+    build: data => withSlotCount(withSlotCount(data, 'penaltySlots', 'home', 3), 'penaltySlots', 'away', 3),
+  },
+  {
+    id: 'builtin-no-penalties',
+    name: 'No penalties',
+    build: data => withSlotCount(withSlotCount(data, 'penaltySlots', 'home', 0), 'penaltySlots', 'away', 0),
+  },
+];
+
+function readStoredScenarios(): GameDataScenario[] {
+  try {
+    const stored = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStoredScenarios(scenarios: GameDataScenario[]): void {
+  try {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    throw new Error('Not enough browser storage left for this scenario');
+  }
+}
+
+// Built-in scenarios first, then saved ones in the order they were saved
+export function loadScenarios(): GameDataScenario[] {
+  return [
+    ...BUILT_IN_SCENARIOS.map(({ id, name, build }) => ({ id, name, builtIn: true, data: build(createMockGameData()) })),
+    ...readStoredScenarios().map(scenario => ({ ...scenario, builtIn: false })),
+  ];
+}
+
+// Save gameData under a name, replacing a saved scenario with the same name
+export function saveScenario(name: string, data: GameData): GameDataScenario {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the scenario a name');
+  if (BUILT_IN_SCENARIOS.some(scenario => scenario.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`"${trimmed}" is a built-in scenario - pick another name`);
+  }
+  const stored = readStoredScenarios();
+  const existing = stored.find(scenario => scenario.name.toLowerCase() === trimmed.toLowerCase());
+  const scenario: GameDataScenario = {
+    id: existing?.id ?? `scenario-${Date.now()}`,
+    name: trimmed,
+    builtIn: false,
+    data: structuredClone(data),
+  };
+  writeStoredScenarios(existing
+    ? stored.map(s => (s.id === existing.id ? scenario : s))
+    : [...stored, scenario]);
+  return scenario;
+}
+
+export function deleteScenario(id: string): void {
+  writeStoredScenarios(readStoredScenarios().filter(scenario => scenario.id !== id));
+}
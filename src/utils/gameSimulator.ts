@@ -0,0 +1,790 @@
+// =============================================================================
+// GAME SIMULATOR
+// =============================================================================
+// Plays a game forward in simulated seconds so the preview moves the way it will
+// on the TV: the game and shot clocks run, periods end into breaks and halftime,
+// teams go on scoring runs, fouls build up to the bonus, timeouts are called and
+// penalties count down. Events come from a script, from the random game
+// generator, or both.
+//
+// The simulation keeps its own state; applySimulationToGameData writes it onto
+// a gameData object using the field names in shared/gameDataCatalog, leaving
+// every field it doesn't simulate alone.
+// =============================================================================
+
+import { GameDataSport, setGameDataValue } from '../shared/gameDataCatalog';
+
+export type TeamSide = 'home' | 'away';
+
+const SIDES: readonly TeamSide[] = ['home', 'away'];
+
+const other = (side: TeamSide): TeamSide => (side === 'home' ? 'away' : 'home');
+
+// =============================================================================
+// SPORT RULES
+// =============================================================================
+
+type RateKey = 'score' | 'foul' | 'timeout' | 'penalty' | 'shot' | 'corner';
+
+interface SportRules {
+  periods: number;
+  periodSeconds: number; // 0 = untimed (set and inning sports)
+  countUp?: boolean; // Clock counts up across periods (soccer, rugby)
+  periodField?: 'quarter' | 'half' | 'set'; // Extra numeric period field the sport sends
+  breakSeconds: number; // Between periods
+  halftimeSeconds?: number; // Middle break, if the sport has halves
+  overtimeSeconds?: number; // Tied games go to overtime periods of this length
+  shotClockSeconds?: number;
+  timeouts?: number;
+  timeoutSeconds?: number;
+  bonusFouls?: number; // Team fouls that put the opponent in the bonus
+  doubleBonusFouls?: number;
+  foulResetPeriods?: number; // Team fouls reset every N periods
+  penaltySeconds?: number;
+  scoreValues: number[]; // Points per score, picked at random
+  rates: Partial<Record<RateKey, number>>; // Random events per second of live play
+  pointsPerSet?: number; // Set sports: points to win a set (by 2)
+  finalSetPoints?: number;
+}
+
+const SPORT_RULES: Record<GameDataSport, SportRules> = {
+  basketball: {
+    periods: 4, periodSeconds: 480, periodField: 'quarter', breakSeconds: 60, halftimeSeconds: 600, overtimeSeconds: 240,
+    shotClockSeconds: 30, timeouts: 5, timeoutSeconds: 60, bonusFouls: 7, doubleBonusFouls: 10, foulResetPeriods: 2,
+    scoreValues: [2, 2, 2, 3, 1], rates: { score: 1 / 22, foul: 1 / 35, timeout: 1 / 500 },
+  },
+  football: {
+    periods: 4, periodSeconds: 720, periodField: 'quarter', breakSeconds: 120, halftimeSeconds: 720, overtimeSeconds: 600,
+    timeouts: 3, timeoutSeconds: 90, scoreValues: [7, 7, 3, 6, 2], rates: { score: 1 / 300, timeout: 1 / 900 },
+  },
+  hockey: {
+    periods: 3, periodSeconds: 1200, breakSeconds: 900, overtimeSeconds: 300, timeouts: 1, timeoutSeconds: 30,
+    penaltySeconds: 120, scoreValues: [1], rates: { shot: 1 / 40, penalty: 1 / 300, timeout: 1 / 3000 },
+  },
+  lacrosse: {
+    periods: 4, periodSeconds: 720, periodField: 'quarter', breakSeconds: 120, halftimeSeconds: 600, overtimeSeconds: 240,
+    shotClockSeconds: 80, timeouts: 2, timeoutSeconds: 60, penaltySeconds: 60,
+    scoreValues: [1], rates: { shot: 1 / 30, penalty: 1 / 240, timeout: 1 / 1500 },
+  },
+  waterpolo: {
+    periods: 4, periodSeconds: 480, periodField: 'quarter', breakSeconds: 120, halftimeSeconds: 300, overtimeSeconds: 180,
+    shotClockSeconds: 30, timeouts: 2, timeoutSeconds: 60, scoreValues: [1], rates: { score: 1 / 90, foul: 1 / 40, timeout: 1 / 1200 },
+  },
+  soccer: {
+    periods: 2, periodSeconds: 2700, countUp: true, periodField: 'half', breakSeconds: 900,
+    scoreValues: [1], rates: { score: 1 / 1800, foul: 1 / 150, corner: 1 / 400 },
+  },
+  rugby: {
+    periods: 2, periodSeconds: 2400, countUp: true, periodField: 'half', breakSeconds: 600,
+    scoreValues: [5, 5, 3], rates: { score: 1 / 420 },
+  },
+  wrestling: {
+    periods: 3, periodSeconds: 120, breakSeconds: 30, scoreValues: [1, 2, 2, 3], rates: { score: 1 / 45 },
+  },
+  wrestlingTeamScore: {
+    periods: 3, periodSeconds: 120, breakSeconds: 30, scoreValues: [3, 3, 4, 5, 6], rates: { score: 1 / 60 },
+  },
+  volleyball: {
+    periods: 5, periodSeconds: 0, periodField: 'set', breakSeconds: 180, timeouts: 2, timeoutSeconds: 30,
+    scoreValues: [1], rates: { score: 1 / 15, timeout: 1 / 600 }, pointsPerSet: 25, finalSetPoints: 15,
+  },
+  badminton: {
+    periods: 3, periodSeconds: 0, periodField: 'set', breakSeconds: 120,
+    scoreValues: [1], rates: { score: 1 / 12 }, pointsPerSet: 21,
+  },
+  tennis: {
+    periods: 3, periodSeconds: 0, periodField: 'set', breakSeconds: 120,
+    scoreValues: [1], rates: { score: 1 / 240 }, pointsPerSet: 6, // Games in a set
+  },
+  baseball: {
+    periods: 9, periodSeconds: 0, breakSeconds: 120, scoreValues: [1], rates: {},
+  },
+};
+
+// Seconds between pitches in the baseball model
+const PITCH_SECONDS = 20;
+
+// Chance that the team that just scored also scores next (scoring runs)
+const MOMENTUM = 0.6;
+
+// Penalties a team can serve at once (penaltySlots has three slots)
+const MAX_PENALTIES = 3;
+
+const MAX_LOG_ENTRIES = 50;
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+interface TeamState {
+  score: number;
+  fouls: number;
+  timeouts: number;
+  possession: boolean;
+  periodScores: number[]; // Points per period, set or inning
+  penalties: { jersey: number; seconds: number }[];
+  setsWon: number;
+  shots: number;
+  saves: number;
+  corners: number;
+  hits: number;
+  errors: number;
+  tries: number;
+  conversions: number;
+  penaltyGoals: number;
+}
+
+export type SimulationPhase = 'live' | 'timeout' | 'break' | 'final';
+
+export interface SimulationLogEntry {
+  at: number; // Seconds since the simulation started
+  text: string;
+}
+
+export interface SimulationState {
+  sport: GameDataSport;
+  elapsed: number; // Seconds since the simulation started, including stoppages
+  period: number; // Period, set or inning (1-based)
+  clock: number; // Seconds played in the current period
+  shotClock: number;
+  phase: SimulationPhase;
+  phaseClock: number; // Seconds left in a timeout or break
+  teams: Record<TeamSide, TeamState>;
+  momentum: TeamSide; // Side on a scoring run
+  seed: number; // Random generator state, so a reset replays the same game
+  scriptIndex: number; // Next scripted event to run
+  overrides: Record<string, unknown>; // gameData values set by "set" events
+  football: { down: number; yardsToGo: number; ballOn: number };
+  baseball: { balls: number; strikes: number; outs: number; bases: [boolean, boolean, boolean]; topHalf: boolean };
+  log: SimulationLogEntry[];
+}
+
+const createTeam = (rules: SportRules, possession: boolean): TeamState => ({
+  score: 0,
+  fouls: 0,
+  timeouts: rules.timeouts ?? 0,
+  possession,
+  periodScores: [0],
+  penalties: [],
+  setsWon: 0,
+  shots: 0,
+  saves: 0,
+  corners: 0,
+  hits: 0,
+  errors: 0,
+  tries: 0,
+  conversions: 0,
+  penaltyGoals: 0,
+});
+
+export function createSimulation(sport: GameDataSport, seed = Date.now()): SimulationState {
+  const rules = SPORT_RULES[sport];
+  return {
+    sport,
+    elapsed: 0,
+    period: 1,
+    clock: 0,
+    shotClock: rules.shotClockSeconds ?? 0,
+    phase: 'live',
+    phaseClock: 0,
+    teams: { home: createTeam(rules, false), away: createTeam(rules, true) },
+    momentum: 'home',
+    seed: seed >>> 0,
+    scriptIndex: 0,
+    overrides: {},
+    football: { down: 1, yardsToGo: 10, ballOn: 25 },
+    baseball: { balls: 0, strikes: 0, outs: 0, bases: [false, false, false], topHalf: true },
+    log: [],
+  };
+}
+
+// =============================================================================
+// SCRIPTED EVENTS
+// =============================================================================
+
+export type SimulationEventType = 'score' | 'foul' | 'timeout' | 'penalty' | 'possession' | 'endPeriod' | 'set';
+
+const EVENT_TYPES: readonly SimulationEventType[] = ['score', 'foul', 'timeout', 'penalty', 'possession', 'endPeriod', 'set'];
+
+export interface SimulationEvent {
+  at: number; // Seconds since the simulation started
+  type: SimulationEventType;
+  team?: TeamSide; // score, foul, timeout, penalty, possession
+  points?: number; // score; defaults to the sport's most common score
+  jersey?: number; // penalty
+  path?: string; // set: gameData path, e.g. "homeTeam.name"
+  value?: unknown; // set
+}
+
+export const EXAMPLE_SIMULATION_SCRIPT: SimulationEvent[] = [
+  { at: 5, type: 'score', team: 'home', points: 3 },
+  { at: 20, type: 'foul', team: 'away' },
+  { at: 30, type: 'timeout', team: 'away' },
+  { at: 120, type: 'set', path: 'homeTeam.name', value: 'EAGLES' },
+  { at: 200, type: 'endPeriod' },
+];
+
+// Parse a JSON event list; throws with the offending event's number
+export function parseSimulationScript(text: string): SimulationEvent[] {
+  if (!text.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Script is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Script must be a JSON array of events');
+  }
+  const events = parsed.map((event: any, index): SimulationEvent => {
+    const fail = (message: string): never => {
+      throw new Error(`Event ${index + 1}: ${message}`);
+    };
+    if (!event || typeof event !== 'object') fail('must be an object');
+    if (typeof event.at !== 'number' || !(event.at >= 0)) fail('"at" must be a number of seconds');
+    if (!EVENT_TYPES.includes(event.type)) fail(`"type" must be one of ${EVENT_TYPES.join(', ')}`);
+    if (event.team !== undefined && !SIDES.includes(event.team)) fail('"team" must be "home" or "away"');
+    if (event.points !== undefined && typeof event.points !== 'number') fail('"points" must be a number');
+    if (event.jersey !== undefined && typeof event.jersey !== 'number') fail('"jersey" must be a number');
+    if (event.type === 'set' && (typeof event.path !== 'string' || !event.path)) fail('"set" events need a "path"');
+    return event;
+  });
+  // Stable sort keeps events at the same second in script order
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+// mulberry32: small, fast and good enough for a preview
+function nextRandom(state: SimulationState): number {
+  state.seed = (state.seed + 0x6d2b79f5) >>> 0;
+  let t = state.seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+const chance = (state: SimulationState, probability: number) => nextRandom(state) < probability;
+
+const pick = <T,>(state: SimulationState, values: readonly T[]): T => values[Math.floor(nextRandom(state) * values.length)];
+
+const randomSide = (state: SimulationState): TeamSide => (chance(state, 0.5) ? 'home' : 'away');
+
+const scoringSide = (state: SimulationState): TeamSide => (chance(state, MOMENTUM) ? state.momentum : other(state.momentum));
+
+export const formatClock = (seconds: number): string => {
+  const whole = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const teamLabel = (side: TeamSide) => side.toUpperCase();
+
+function log(state: SimulationState, text: string) {
+  state.log.push({ at: state.elapsed, text });
+  if (state.log.length > MAX_LOG_ENTRIES) state.log.shift();
+}
+
+export function getPeriodLabel(state: SimulationState): string {
+  const rules = SPORT_RULES[state.sport];
+  const overtime = state.period - rules.periods;
+  if (overtime <= 0 || rules.periodSeconds === 0) return String(state.period);
+  return overtime === 1 ? 'OT' : `${overtime}OT`;
+}
+
+const periodLength = (state: SimulationState, rules: SportRules) =>
+  state.period > rules.periods ? rules.overtimeSeconds ?? rules.periodSeconds : rules.periodSeconds;
+
+// Seconds shown on the game clock: time left, or time played for count-up sports
+const getClockSeconds = (state: SimulationState, rules: SportRules) =>
+  rules.countUp ? (state.period - 1) * rules.periodSeconds + state.clock : periodLength(state, rules) - state.clock;
+
+function setPossession(state: SimulationState, side: TeamSide) {
+  const rules = SPORT_RULES[state.sport];
+  state.teams[side].possession = true;
+  state.teams[other(side)].possession = false;
+  state.shotClock = rules.shotClockSeconds ?? 0;
+}
+
+function addScore(state: SimulationState, side: TeamSide, points: number) {
+  const team = state.teams[side];
+  team.score += points;
+  team.periodScores[state.period - 1] = (team.periodScores[state.period - 1] || 0) + points;
+  if (state.sport === 'rugby') {
+    if (points === 5) team.tries++;
+    else if (points === 2) team.conversions++;
+    else if (points === 3) team.penaltyGoals++;
+  }
+  state.momentum = side;
+  log(state, `${teamLabel(side)} +${points} (${state.teams.home.score}-${state.teams.away.score})`);
+}
+
+function addFoul(state: SimulationState, side: TeamSide) {
+  const rules = SPORT_RULES[state.sport];
+  const team = state.teams[side];
+  team.fouls++;
+  if (team.fouls === rules.bonusFouls) log(state, `${teamLabel(side)} foul ${team.fouls} - ${teamLabel(other(side))} in the bonus`);
+  else if (team.fouls === rules.doubleBonusFouls) log(state, `${teamLabel(side)} foul ${team.fouls} - ${teamLabel(other(side))} in the double bonus`);
+  else log(state, `${teamLabel(side)} foul (${team.fouls})`);
+}
+
+function callTimeout(state: SimulationState, side: TeamSide) {
+  const rules = SPORT_RULES[state.sport];
+  const team = state.teams[side];
+  if (team.timeouts <= 0 || state.phase !== 'live') return;
+  team.timeouts--;
+  state.phase = 'timeout';
+  state.phaseClock = rules.timeoutSeconds ?? 60;
+  log(state, `${teamLabel(side)} timeout (${team.timeouts} left)`);
+}
+
+function addPenalty(state: SimulationState, side: TeamSide, jersey: number) {
+  const rules = SPORT_RULES[state.sport];
+  const team = state.teams[side];
+  if (team.penalties.length >= MAX_PENALTIES) return;
+  team.penalties.push({ jersey, seconds: rules.penaltySeconds ?? 120 });
+  log(state, `${teamLabel(side)} #${jersey} penalty`);
+}
+
+function startPeriod(state: SimulationState) {
+  const rules = SPORT_RULES[state.sport];
+  state.period++;
+  state.clock = 0;
+  state.phase = 'live';
+  state.shotClock = rules.shotClockSeconds ?? 0;
+  SIDES.forEach(side => {
+    const team = state.teams[side];
+    team.periodScores[state.period - 1] = 0;
+    if (rules.foulResetPeriods && (state.period - 1) % rules.foulResetPeriods === 0) team.fouls = 0;
+    if (rules.pointsPerSet) team.score = 0;
+    if (state.period === Math.floor(rules.periods / 2) + 1 && rules.timeouts !== undefined) team.timeouts = rules.timeouts;
+  });
+  log(state, `Start of ${state.sport === 'baseball' ? 'inning' : rules.pointsPerSet ? 'set' : 'period'} ${getPeriodLabel(state)}`);
+}
+
+function endPeriod(state: SimulationState) {
+  const rules = SPORT_RULES[state.sport];
+  const { home, away } = state.teams;
+  const regulationOver = state.period >= rules.periods;
+  const tied = home.score === away.score;
+  if (rules.pointsPerSet) {
+    const setsToWin = Math.floor(rules.periods / 2) + 1;
+    if (home.setsWon >= setsToWin || away.setsWon >= setsToWin) {
+      state.phase = 'final';
+      log(state, `Final: ${home.setsWon}-${away.setsWon} in sets`);
+      return;
+    }
+  } else if (state.sport === 'baseball' ? regulationOver && !tied : regulationOver && (!tied || !rules.overtimeSeconds)) {
+    state.phase = 'final';
+    log(state, `Final: ${home.score}-${away.score}`);
+    return;
+  }
+  const isHalftime = rules.halftimeSeconds !== undefined && state.period * 2 === rules.periods;
+  state.phase = 'break';
+  state.phaseClock = isHalftime ? rules.halftimeSeconds! : rules.breakSeconds;
+  log(state, isHalftime ? 'Halftime' : `End of ${getPeriodLabel(state)}`);
+}
+
+// A point in a set sport; the winner serves next
+function playPoint(state: SimulationState, side: TeamSide) {
+  const rules = SPORT_RULES[state.sport];
+  addScore(state, side, 1);
+  state.teams[side].possession = true;
+  state.teams[other(side)].possession = false;
+  const setsToWin = Math.floor(rules.periods / 2) + 1;
+  const isFinalSet = state.period === rules.periods;
+  const target = isFinalSet && rules.finalSetPoints ? rules.finalSetPoints : rules.pointsPerSet!;
+  const points = state.teams[side].score;
+  const lead = points - state.teams[other(side)].score;
+  if (points >= target && lead >= 2) {
+    state.teams[side].setsWon++;
+    log(state, `${teamLabel(side)} wins set ${state.period} (${state.teams.home.setsWon}-${state.teams.away.setsWon})`);
+    if (state.teams[side].setsWon >= setsToWin || isFinalSet) {
+      state.phase = 'final';
+      log(state, `Final: ${state.teams.home.setsWon}-${state.teams.away.setsWon} in sets`);
+    } else {
+      state.phase = 'break';
+      state.phaseClock = rules.breakSeconds;
+    }
+  }
+}
+
+// One pitch of the simplified baseball model; the batting side is away in the top half
+function playPitch(state: SimulationState) {
+  const game = state.baseball;
+  const batting: TeamSide = game.topHalf ? 'away' : 'home';
+  const fielding = other(batting);
+  const nextBatter = () => {
+    game.balls = 0;
+    game.strikes = 0;
+  };
+  const advanceRunners = (bases: number) => {
+    let runs = 0;
+    for (let i = 0; i < bases; i++) {
+      if (game.bases[2]) runs++;
+      game.bases = [i === 0, game.bases[0], game.bases[1]];
+    }
+    if (runs > 0) addScore(state, batting, runs);
+  };
+  const roll = nextRandom(state);
+  if (roll < 0.35) {
+    game.balls++;
+    if (game.balls === 4) {
+      log(state, `${teamLabel(batting)} walk`);
+      // Runners only move when forced
+      const [first, second, third] = game.bases;
+      if (first && second && third) addScore(state, batting, 1);
+      game.bases = [true, first || second, (first && second) || third];
+      nextBatter();
+    }
+  } else if (roll < 0.7) {
+    game.strikes++;
+    if (game.strikes === 3) {
+      game.outs++;
+      log(state, `${teamLabel(batting)} strikeout (${game.outs} out)`);
+      nextBatter();
+    }
+  } else if (roll < 0.88) {
+    game.outs++;
+    nextBatter();
+  } else if (roll < 0.9) {
+    state.teams[fielding].errors++;
+    log(state, `${teamLabel(fielding)} error`);
+    advanceRunners(1);
+    nextBatter();
+  } else {
+    const bases = pick(state, [1, 1, 1, 2, 2, 3, 4]);
+    state.teams[batting].hits++;
+    log(state, `${teamLabel(batting)} ${['single', 'double', 'triple', 'home run'][bases - 1]}`);
+    advanceRunners(bases);
+    if (bases === 4) addScore(state, batting, 1);
+    nextBatter();
+  }
+  const { home, away } = state.teams;
+  if (!game.topHalf && state.period >= SPORT_RULES.baseball.periods && home.score > away.score) {
+    state.phase = 'final';
+    log(state, `Final: ${home.score}-${away.score}`);
+    return;
+  }
+  if (game.outs >= 3) {
+    game.outs = 0;
+    game.bases = [false, false, false];
+    nextBatter();
+    // No bottom of the last inning when home is already ahead
+    if (game.topHalf && state.period >= SPORT_RULES.baseball.periods && home.score > away.score) {
+      endPeriod(state);
+    } else if (game.topHalf) {
+      game.topHalf = false;
+      setPossession(state, 'home');
+    } else {
+      game.topHalf = true;
+      setPossession(state, 'away');
+      endPeriod(state);
+    }
+  }
+}
+
+// One play of the football model: gain yards toward a first down or a turnover on downs
+function playDown(state: SimulationState) {
+  const drive = state.football;
+  const offense: TeamSide = state.teams.home.possession ? 'home' : 'away';
+  const gain = pick(state, [-2, 0, 1, 3, 4, 5, 7, 9, 12, 20]);
+  drive.ballOn = Math.min(99, Math.max(1, drive.ballOn + gain));
+  if (gain >= drive.yardsToGo) {
+    drive.down = 1;
+    drive.yardsToGo = 10;
+  } else if (drive.down === 4) {
+    log(state, `${teamLabel(offense)} turnover on downs`);
+    setPossession(state, other(offense));
+    Object.assign(drive, { down: 1, yardsToGo: 10, ballOn: 100 - drive.ballOn });
+  } else {
+    drive.down++;
+    drive.yardsToGo -= gain;
+  }
+}
+
+function runRandomEvents(state: SimulationState) {
+  const rules = SPORT_RULES[state.sport];
+  const { rates } = rules;
+  if (state.sport === 'baseball') {
+    if (state.elapsed % PITCH_SECONDS === 0) playPitch(state);
+    return;
+  }
+  if (rules.pointsPerSet) {
+    if (chance(state, rates.score!)) playPoint(state, scoringSide(state));
+    if (state.phase === 'live' && rates.timeout && chance(state, rates.timeout)) callTimeout(state, randomSide(state));
+    return;
+  }
+  if (state.sport === 'football' && state.clock % 30 === 0) playDown(state);
+  if (rates.score && chance(state, rates.score)) {
+    const side = scoringSide(state);
+    const points = pick(state, rules.scoreValues);
+    addScore(state, side, points);
+    if (state.sport === 'rugby' && points === 5 && chance(state, 0.6)) addScore(state, side, 2);
+    if (state.sport === 'football') Object.assign(state.football, { down: 1, yardsToGo: 10, ballOn: 25 });
+    setPossession(state, other(side));
+  }
+  if (rates.shot && chance(state, rates.shot)) {
+    const side = scoringSide(state);
+    state.teams[side].shots++;
+    // Power plays convert more often
+    const powerPlay = state.teams[other(side)].penalties.length > state.teams[side].penalties.length;
+    if (chance(state, powerPlay ? 0.2 : 0.1)) {
+      addScore(state, side, 1);
+    } else {
+      state.teams[other(side)].saves++;
+      state.momentum = other(side);
+    }
+  }
+  if (rates.foul && chance(state, rates.foul)) addFoul(state, randomSide(state));
+  if (rates.corner && chance(state, rates.corner)) state.teams[scoringSide(state)].corners++;
+  if (rates.penalty && chance(state, rates.penalty)) addPenalty(state, randomSide(state), 2 + Math.floor(nextRandom(state) * 97));
+  if (rates.timeout && chance(state, rates.timeout)) callTimeout(state, randomSide(state));
+}
+
+function runScriptedEvent(state: SimulationState, event: SimulationEvent) {
+  const rules = SPORT_RULES[state.sport];
+  const side = event.team ?? 'home';
+  switch (event.type) {
+    case 'score':
+      if (rules.pointsPerSet) {
+        playPoint(state, side);
+      } else {
+        addScore(state, side, event.points ?? rules.scoreValues[0]);
+        if (rules.shotClockSeconds || state.sport === 'football') setPossession(state, other(side));
+      }
+      break;
+    case 'foul':
+      addFoul(state, side);
+      break;
+    case 'timeout':
+      callTimeout(state, side);
+      break;
+    case 'penalty':
+      addPenalty(state, side, event.jersey ?? 10);
+      break;
+    case 'possession':
+      setPossession(state, side);
+      break;
+    case 'endPeriod':
+      if (state.phase === 'live' || state.phase === 'timeout') endPeriod(state);
+      break;
+    case 'set':
+      state.overrides[event.path!] = event.value;
+      log(state, `${event.path} = ${JSON.stringify(event.value)}`);
+      break;
+  }
+}
+
+// One second of play
+function tick(state: SimulationState, script: readonly SimulationEvent[], random: boolean) {
+  const rules = SPORT_RULES[state.sport];
+  state.elapsed++;
+
+  if (state.phase === 'timeout' || state.phase === 'break') {
+    state.phaseClock--;
+    if (state.phaseClock <= 0) {
+      if (state.phase === 'break') startPeriod(state);
+      else state.phase = 'live';
+    }
+  } else if (state.phase === 'live') {
+    if (rules.periodSeconds > 0) state.clock++;
+    if (rules.shotClockSeconds) {
+      state.shotClock--;
+      if (state.shotClock <= 0) {
+        const offense: TeamSide = state.teams.home.possession ? 'home' : 'away';
+        log(state, `${teamLabel(offense)} shot clock violation`);
+        setPossession(state, other(offense));
+      }
+    }
+    SIDES.forEach(side => {
+      const team = state.teams[side];
+      team.penalties.forEach(penalty => penalty.seconds--);
+      team.penalties = team.penalties.filter(penalty => penalty.seconds > 0);
+    });
+    if (random) runRandomEvents(state);
+  }
+
+  while (state.scriptIndex < script.length && script[state.scriptIndex].at <= state.elapsed) {
+    runScriptedEvent(state, script[state.scriptIndex]);
+    state.scriptIndex++;
+  }
+
+  if (state.phase === 'live' && rules.periodSeconds > 0 && state.clock >= periodLength(state, rules)) {
+    endPeriod(state);
+  }
+}
+
+/**
+ * The simulation after `seconds` more seconds of play. Scripted events run at
+ * their `at` time; with `random` on the generator adds its own events.
+ */
+export function advanceSimulation(
+  state: SimulationState,
+  seconds: number,
+  script: readonly SimulationEvent[] = [],
+  random = true
+): SimulationState {
+  const next = structuredClone(state);
+  for (let i = 0; i < seconds && next.phase !== 'final'; i++) {
+    tick(next, script, random);
+  }
+  return next;
+}
+
+// =============================================================================
+// GAMEDATA OUTPUT
+// =============================================================================
+
+/**
+ * `gameData` with the simulated fields replaced. Fields the sport doesn't
+ * simulate keep their current values.
+ */
+export function applySimulationToGameData(gameData: Record<string, any>, state: SimulationState): Record<string, any> {
+  const rules = SPORT_RULES[state.sport];
+  const { home, away } = state.teams;
+  const data: Record<string, any> = { ...gameData };
+
+  SIDES.forEach(side => {
+    const team = state.teams[side];
+    data[`${side}Team`] = {
+      ...gameData[`${side}Team`],
+      score: team.score,
+      possession: team.possession,
+      ...(rules.timeouts !== undefined && { timeouts: team.timeouts }),
+      ...(rules.rates.foul && { fouls: team.fouls }),
+      ...(rules.bonusFouls && {
+        bonus: team.fouls >= rules.bonusFouls,
+        doubleBonus: team.fouls >= (rules.doubleBonusFouls ?? Infinity),
+      }),
+      ...(state.sport === 'baseball' && { hits: team.hits, errors: team.errors }),
+    };
+  });
+
+  const inPhase = (phase: SimulationPhase) => (state.phase === phase ? formatClock(state.phaseClock) : '0:00');
+  data.period = getPeriodLabel(state);
+  data.isOvertimeActive = rules.periodSeconds > 0 && state.period > rules.periods;
+  if (rules.periodField) data[rules.periodField] = state.period;
+  data.timeoutClock = inPhase('timeout');
+  const isHalftime = state.phase === 'break' && rules.halftimeSeconds !== undefined && state.period * 2 === rules.periods;
+  data.halftimeClock = isHalftime ? formatClock(state.phaseClock) : '0:00';
+  data.periodBreakClock = isHalftime ? '0:00' : inPhase('break');
+
+  if (rules.periodSeconds > 0) data.gameClock = formatClock(getClockSeconds(state, rules));
+  if (rules.shotClockSeconds) {
+    const shotClock = Math.max(0, state.shotClock);
+    data.shotClock = shotClock;
+    data.shotClockClock = String(shotClock);
+  }
+
+  if (Array.isArray(gameData.gamePeriodScores)) {
+    data.gamePeriodScores = gameData.gamePeriodScores.map((slot: any, index: number) => ({
+      ...slot,
+      period: index + 1,
+      homeScore: home.periodScores[index] ?? 0,
+      awayScore: away.periodScores[index] ?? 0,
+    }));
+  }
+
+  if (rules.penaltySeconds) {
+    data.penaltySlots = { ...gameData.penaltySlots };
+    SIDES.forEach(side => {
+      const penalties = state.teams[side].penalties;
+      const slots: Record<string, any> = { ...gameData.penaltySlots?.[side], count: penalties.length };
+      for (let count = 0; count <= MAX_PENALTIES; count++) slots[`isState${count}`] = penalties.length === count;
+      for (let index = 0; index < MAX_PENALTIES; index++) {
+        const penalty = penalties[index];
+        slots[`slot${index}`] = penalty
+          ? { jersey: penalty.jersey, time: formatClock(penalty.seconds), active: true }
+          : { ...slots[`slot${index}`], active: false };
+      }
+      data.penaltySlots[side] = slots;
+    });
+  }
+
+  if (rules.pointsPerSet) {
+    data.home_sets_won = home.setsWon;
+    data.away_sets_won = away.setsWon;
+  }
+
+  switch (state.sport) {
+    case 'football':
+      Object.assign(data, state.football);
+      break;
+    case 'hockey':
+    case 'lacrosse':
+      SIDES.forEach(side => {
+        data[`${side}_shots`] = state.teams[side].shots;
+        data[`${side}_saves`] = state.teams[side].saves;
+      });
+      break;
+    case 'soccer':
+      SIDES.forEach(side => { data[`${side}_corner_kicks`] = state.teams[side].corners; });
+      break;
+    case 'rugby':
+      SIDES.forEach(side => {
+        const team = state.teams[side];
+        Object.assign(data, {
+          [`${side}_tries`]: team.tries,
+          [`${side}_conversions`]: team.conversions,
+          [`${side}_penalty_goals`]: team.penaltyGoals,
+        });
+      });
+      break;
+    case 'wrestling':
+      data.home_player_points = home.score;
+      data.away_player_points = away.score;
+      break;
+    case 'baseball': {
+      const game = state.baseball;
+      Object.assign(data, {
+        balls: game.balls,
+        strikes: game.strikes,
+        outs: game.outs,
+        firstBase: game.bases[0],
+        secondBase: game.bases[1],
+        thirdBase: game.bases[2],
+        onBase: game.bases.map(Number).join(''),
+      });
+      if (Array.isArray(gameData.inningSlots)) {
+        // Slots shift along in extra innings so the current inning stays on screen
+        const slotCount = gameData.inningSlots.length;
+        const first = Math.max(0, state.period - slotCount);
+        data.inningSlots = gameData.inningSlots.map((slot: any, index: number) => {
+          const inning = first + index;
+          return {
+            ...slot,
+            period: inning + 1,
+            homeScore: home.periodScores[inning] ?? 0,
+            awayScore: away.periodScores[inning] ?? 0,
+            isCurrentInning: inning === state.period - 1 && state.phase !== 'final',
+            isTopHalf: inning === state.period - 1 && game.topHalf,
+          };
+        });
+      }
+      break;
+    }
+  }
+
+  return Object.entries(state.overrides).reduce((result, [path, value]) => setGameDataValue(result, path, value), data);
+}
+
+/**
+ * One-line summary for the simulator controls, e.g. "Q3 5:42 · HOME 45 - 40 AWAY".
+ */
+export function describeSimulation(state: SimulationState): string {
+  const rules = SPORT_RULES[state.sport];
+  const { home, away } = state.teams;
+  const score = `HOME ${home.score} - ${away.score} AWAY`;
+  if (state.phase === 'final') return `Final · ${score}`;
+  const period = state.sport === 'baseball'
+    ? `${state.baseball.topHalf ? 'Top' : 'Bot'} ${state.period}`
+    : rules.pointsPerSet ? `Set ${state.period}` : `P${getPeriodLabel(state)}`;
+  const clock = rules.periodSeconds > 0 ? ` ${formatClock(getClockSeconds(state, rules))}` : '';
+  const stoppage = state.phase === 'timeout' ? ' · Timeout' : state.phase === 'break' ? ' · Break' : '';
+  return `${period}${clock}${stoppage} · ${score}`;
+}
@@ -0,0 +1,119 @@
+import { BINDING_PROPS } from './gameDataPaths';
+
+// Component-level diff between two TV layouts (the payloads built by utils/tvPayload),
+// e.g. what a TV is running against what the editor would send it. Components are
+// matched by ID; each change is filed under what it does to the board.
+
+export type ComponentChangeKind = 'added' | 'removed' | 'moved' | 'restyled' | 'rebound';
+
+export const COMPONENT_CHANGE_KINDS: { kind: ComponentChangeKind; label: string }[] = [
+  { kind: 'added', label: 'Added' },
+  { kind: 'removed', label: 'Removed' },
+  { kind: 'moved', label: 'Moved' },
+  { kind: 'restyled', label: 'Restyled' },
+  { kind: 'rebound', label: 'Rebound' },
+];
+
+export interface PropertyChange {
+  path: string; // e.g. "position.x" or "props.dataPath"
+  before: unknown;
+  after: unknown;
+}
+
+export interface ComponentDiff {
+  id: string;
+  name: string;
+  kinds: ComponentChangeKind[];
+  changes: PropertyChange[];
+  before?: Record<string, any>; // The component in the first layout (missing when added)
+  after?: Record<string, any>; // The component in the second layout (missing when removed)
+}
+
+export interface LayoutDiff {
+  components: ComponentDiff[];
+  layoutChanges: PropertyChange[]; // Name, dimensions, background, timeline, fonts
+  unchangedCount: number;
+}
+
+// Position, size, stacking and rotation - where the component sits on the board
+const GEOMETRY_PATHS = ['position.x', 'position.y', 'size.width', 'size.height', 'layer', 'rotation'];
+
+const LAYOUT_FIELDS = ['name', 'dimensions', 'backgroundColor', 'backgroundGradient', 'timeline', 'fonts'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const getPath = (object: Record<string, any>, path: string) =>
+  path.split('.').reduce<any>((value, key) => value?.[key], object);
+
+const getComponentName = (component: Record<string, any>) => component.displayName || `${component.type || 'component'} ${component.id}`;
+
+function diffComponent(before: Record<string, any>, after: Record<string, any>): ComponentDiff {
+  const changes: PropertyChange[] = [];
+  const kinds = new Set<ComponentChangeKind>();
+  const record = (path: string, kind: ComponentChangeKind) => {
+    const beforeValue = getPath(before, path);
+    const afterValue = getPath(after, path);
+    if (sameValue(beforeValue, afterValue)) return;
+    changes.push({ path, before: beforeValue, after: afterValue });
+    kinds.add(kind);
+  };
+
+  GEOMETRY_PATHS.forEach(path => record(path, 'moved'));
+  ['type', 'displayName', 'visible', 'animations'].forEach(path => record(path, 'restyled'));
+  const propKeys = new Set([...Object.keys(before.props || {}), ...Object.keys(after.props || {})]);
+  Array.from(propKeys).sort().forEach(key => {
+    record(`props.${key}`, BINDING_PROPS.includes(key) ? 'rebound' : 'restyled');
+  });
+
+  return {
+    id: after.id,
+    name: getComponentName(after),
+    kinds: COMPONENT_CHANGE_KINDS.map(entry => entry.kind).filter(kind => kinds.has(kind)),
+    changes,
+    before,
+    after,
+  };
+}
+
+/**
+ * What changes going from `before` to `after`: components only in `after` are
+ * added, ones only in `before` removed. Changed components are listed in
+ * `after`'s order, removed ones at the end.
+ */
+export function diffLayouts(before: Record<string, any>, after: Record<string, any>): LayoutDiff {
+  const beforeComponents: Record<string, any>[] = before.components || [];
+  const afterComponents: Record<string, any>[] = after.components || [];
+  const beforeById = new Map(beforeComponents.map(component => [component.id, component]));
+  const afterIds = new Set(afterComponents.map(component => component.id));
+
+  const components: ComponentDiff[] = [];
+  let unchangedCount = 0;
+  afterComponents.forEach(component => {
+    const previous = beforeById.get(component.id);
+    if (!previous) {
+      components.push({ id: component.id, name: getComponentName(component), kinds: ['added'], changes: [], after: component });
+      return;
+    }
+    const diff = diffComponent(previous, component);
+    if (diff.changes.length > 0) components.push(diff);
+    else unchangedCount++;
+  });
+  beforeComponents
+    .filter(component => !afterIds.has(component.id))
+    .forEach(component => {
+      components.push({ id: component.id, name: getComponentName(component), kinds: ['removed'], changes: [], before: component });
+    });
+
+  const layoutChanges = LAYOUT_FIELDS
+    .filter(field => !sameValue(before[field], after[field]))
+    .map(field => ({ path: field, before: before[field], after: after[field] }));
+
+  return { components, layoutChanges, unchangedCount };
+}
+
+// Short display form of a changed value
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
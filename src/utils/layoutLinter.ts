@@ -0,0 +1,203 @@
+// =============================================================================
+// LAYOUT LINTER
+// =============================================================================
+// Checks a layout for mistakes that are valid JSON but wrong on the TV: bindings
+// to data the sport doesn't send, components off the canvas, images that aren't
+// in the image manifest, slot lists without a template, components that can
+// never be shown and hard-to-read text. Shape errors are layoutValidation's job.
+//
+// Errors mean the TV will show something broken or nothing at all; warnings are
+// probably mistakes. Results feed the problems panel and the send/export prompts.
+// =============================================================================
+
+import { ComponentConfig, DataDisplayComponentConfig, LayoutConfig, isDataDisplayComponent } from '../types';
+import { findDataPathIssues } from './gameDataPaths';
+import { SPORT_IMAGE_DATA, Sport } from './imageUtils';
+import { repairTemplateReferences } from './slotTemplates';
+import { getScenes, isInScene } from './scenes';
+import { evaluateDataExpression, getDataExpressionPaths } from '../shared/components/customDataDisplay/dataExpressions';
+import { getLuminance } from '../shared/components/customDataDisplay/colorUtils';
+import { getGradientMidColor } from '../shared/components/customDataDisplay/gradients';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'unknown-data-path'
+  | 'off-canvas'
+  | 'zero-size'
+  | 'missing-image'
+  | 'broken-template'
+  | 'never-visible'
+  | 'low-contrast';
+
+export interface LintProblem {
+  rule: LintRule;
+  severity: LintSeverity;
+  componentId: string;
+  componentName: string;
+  message: string;
+}
+
+// Below this the text is hard to read even at scoreboard sizes (WCAG large-text minimum)
+export const MIN_TEXT_CONTRAST = 3;
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const getComponentName = (component: ComponentConfig) => component.displayName || component.type;
+
+// WCAG contrast ratio between two hex colors (1 to 21)
+export function getContrastRatio(a: string, b: string): number {
+  const [light, dark] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+// Whether a local image path ("/images/{sport}/{file}" or "/images/{sport}/{subsection}/{file}")
+// is in the generated image manifest
+export function isKnownImagePath(imagePath: string): boolean {
+  const match = imagePath.match(/^\/?images\/([^/]+)\/(.+)$/);
+  if (!match) return false;
+  const data = SPORT_IMAGE_DATA[match[1] as Sport];
+  if (!data) return false;
+  const rest = match[2];
+  if (data.rootImages.includes(rest)) return true;
+  const slash = rest.indexOf('/');
+  return slash > 0 && (data.subsections[rest.slice(0, slash)] || []).includes(rest.slice(slash + 1));
+}
+
+const overlaps = (a: ComponentConfig, b: ComponentConfig) =>
+  a.position.x < b.position.x + b.size.width &&
+  b.position.x < a.position.x + a.size.width &&
+  a.position.y < b.position.y + b.size.height &&
+  b.position.y < a.position.y + a.size.height;
+
+// Whether a component shows text (as opposed to only an image or nothing)
+const showsText = (component: DataDisplayComponentConfig): boolean => {
+  const props = component.props || {};
+  if (props.customText) return true;
+  const dataPath = props.dataPath;
+  return !!dataPath && dataPath !== 'none' && !dataPath.startsWith('user_sequences.') &&
+    !/(^|\.)(imageUrl|image)$/.test(dataPath);
+};
+
+// The opaque color behind a component's text, if it can be known without rendering
+const getBackdropColor = (component: DataDisplayComponentConfig, layout: LayoutConfig): string | undefined => {
+  const props = component.props || {};
+  if (props.backgroundGradient) return getGradientMidColor(props.backgroundGradient);
+  if (props.backgroundColor && HEX_COLOR_PATTERN.test(props.backgroundColor)) return props.backgroundColor;
+  if (props.backgroundColor && props.backgroundColor !== 'none' && props.backgroundColor !== 'transparent') return undefined;
+  // Transparent: the layout background shows through unless something else is underneath
+  const covered = layout.components.some(other =>
+    other.id !== component.id && other.type !== 'group' && other.visible !== false && overlaps(component, other)
+  );
+  if (covered || layout.backgroundGradient) return undefined;
+  return layout.backgroundColor || '#000000';
+};
+
+function lintGeometry(
+  component: ComponentConfig,
+  layout: LayoutConfig,
+  isAnimated: boolean,
+  report: (rule: LintRule, severity: LintSeverity, message: string) => void
+) {
+  if (component.type === 'group') return;
+  const { width, height } = component.size;
+  if (!(width > 0) || !(height > 0)) {
+    report('zero-size', 'error', `Has no area (${width} × ${height})`);
+    return;
+  }
+  // Components that move can start off the canvas on purpose (slide-in intros)
+  if (isAnimated) return;
+  const { x, y } = component.position;
+  const canvas = layout.dimensions;
+  if (x >= canvas.width || y >= canvas.height || x + width <= 0 || y + height <= 0) {
+    report('off-canvas', 'error', `Is entirely off the ${canvas.width} × ${canvas.height} canvas`);
+  } else if (x < 0 || y < 0 || x + width > canvas.width || y + height > canvas.height) {
+    report('off-canvas', 'warning', 'Extends past the edge of the canvas');
+  }
+}
+
+function lintVisibility(component: ComponentConfig, sceneIds: string[], report: (rule: LintRule, severity: LintSeverity, message: string) => void) {
+  if (component.visible === false) {
+    report('never-visible', 'warning', 'Is hidden - the TV app will never show it');
+    return;
+  }
+  if (!sceneIds.some(sceneId => isInScene(component, sceneId))) {
+    report('never-visible', 'warning', "Isn't in any scene");
+    return;
+  }
+  // A condition that reads no data evaluates the same way every time
+  const visibilityPath = component.props?.visibilityPath?.trim();
+  if (visibilityPath && getDataExpressionPaths(visibilityPath).length === 0 &&
+      evaluateDataExpression({}, visibilityPath) === false) {
+    report('never-visible', 'warning', `Visibility "${visibilityPath}" is always false`);
+  }
+}
+
+/**
+ * Problems in a layout, errors first. Components of every scene are checked
+ * against the layout's sport.
+ */
+export function lintLayout(layout: LayoutConfig): LintProblem[] {
+  const problems: LintProblem[] = [];
+  // Slot lists whose template can't be found by ID or name
+  const brokenTemplateRefs = new Set(repairTemplateReferences(layout.components).brokenRefs);
+  const scenes = getScenes(layout);
+  const sceneIds = scenes.map(scene => scene.id);
+  const timelineComponentIds = new Set(
+    scenes.flatMap(scene => scene.timeline?.tracks || [])
+      .map(track => track.componentId)
+  );
+
+  layout.components.forEach(component => {
+    const report = (rule: LintRule, severity: LintSeverity, message: string) => {
+      problems.push({ rule, severity, componentId: component.id, componentName: getComponentName(component), message });
+    };
+    findDataPathIssues([component], layout.name).forEach(issue => {
+      const prop = issue.path.replace(/^components\[0\]\.props\./, '');
+      report('unknown-data-path', issue.kind === 'unknown' ? 'error' : 'warning', `${prop}: ${issue.message}`);
+    });
+
+    const isAnimated = timelineComponentIds.has(component.id) || (component.animations || []).length > 0;
+    lintGeometry(component, layout, isAnimated, report);
+
+    if (isDataDisplayComponent(component)) {
+      const { imageSource, imagePath } = component.props || {};
+      if (imageSource === 'local' && imagePath && !isKnownImagePath(imagePath)) {
+        report('missing-image', 'error', `Image "${imagePath}" isn't in the image manifest`);
+      }
+    }
+
+    if (component.type === 'slotList') {
+      const props = component.props || {};
+      if (!props.templateId) {
+        report('broken-template', 'error', 'No slot template selected');
+      } else if (brokenTemplateRefs.has(component.id)) {
+        const name = props.templateName ? ` "${props.templateName}"` : '';
+        report('broken-template', 'error', `Slot template${name} is missing - re-select it or import it`);
+      }
+    }
+
+    lintVisibility(component, sceneIds, report);
+
+    if (isDataDisplayComponent(component) && showsText(component) && !component.props?.autoContrastText && !component.useTeamColor) {
+      const textColor = component.props?.textColor || '#ffffff';
+      const backdrop = getBackdropColor(component, layout);
+      if (backdrop && HEX_COLOR_PATTERN.test(textColor) && HEX_COLOR_PATTERN.test(backdrop)) {
+        const ratio = getContrastRatio(textColor, backdrop);
+        if (ratio < MIN_TEXT_CONTRAST) {
+          report('low-contrast', 'warning', `Text ${textColor} on ${backdrop} has a contrast of ${ratio.toFixed(1)}:1 (aim for ${MIN_TEXT_CONTRAST}:1)`);
+        }
+      }
+    }
+  });
+
+  return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+export function countLintErrors(problems: LintProblem[]): number {
+  return problems.filter(problem => problem.severity === 'error').length;
+}
+
+export function formatLintProblem(problem: LintProblem): string {
+  return `${problem.componentName}: ${problem.message}`;
+}
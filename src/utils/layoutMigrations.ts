@@ -0,0 +1,257 @@
+// =============================================================================
+// LAYOUT SCHEMA MIGRATIONS
+// =============================================================================
+// Layouts, slot templates and component group templates carry a schemaVersion.
+// Documents saved before versioning existed have no field and are treated as
+// version 0. Every load path (presets, pasted JSON, backup restore, template
+// import) runs documents through these migrations so old saves keep working
+// when the format changes.
+//
+// To change the format: bump the matching *_SCHEMA_VERSION constant and append
+// a migration whose `version` is the new number. Never edit a shipped step.
+// =============================================================================
+
+import { LayoutConfig, SlotTemplate, ComponentGroupTemplate, ComponentConfig } from '../types';
+import { isPlainDataPath } from '../shared/components/customDataDisplay/dataExpressions';
+
+export const LAYOUT_SCHEMA_VERSION = 2;
+export const SLOT_TEMPLATE_SCHEMA_VERSION = 2;
+export const COMPONENT_TEMPLATE_SCHEMA_VERSION = 2;
+
+interface Migration {
+  version: number; // Version the document is at after this step runs
+  description: string;
+  migrate: (doc: any) => any;
+}
+
+// Give every component an id and numeric position/size (hand-edited JSON often omits these)
+function normalizeComponents(components: any): ComponentConfig[] {
+  if (!Array.isArray(components)) return [];
+  return components
+    .filter(c => c && typeof c === 'object')
+    .map(c => ({
+      ...c,
+      id: typeof c.id === 'string' && c.id ? c.id : `${c.type || 'custom'}_${crypto.randomUUID()}`,
+      position: {
+        x: Number(c.position?.x) || 0,
+        y: Number(c.position?.y) || 0,
+      },
+      size: {
+        width: Number(c.size?.width) || 0,
+        height: Number(c.size?.height) || 0,
+      },
+    }));
+}
+
+// A plain dotted path as an expression operand. In an expression "-" is subtraction,
+// so members like "period-break" are written as ["period-break"].
+function toExpressionPath(path: string): string {
+  if (!isPlainDataPath(path)) return `(${path})`;
+  const [root, ...members] = path.split('.');
+  return members.reduce((result, member) => (/^[\w$]+$/.test(member) ? `${result}.${member}` : `${result}[${JSON.stringify(member)}]`), root);
+}
+
+// Condition reproducing the old toggle state: the first of the toggle data path and
+// the data path holding a boolean or number decides (a number is on unless 0), and
+// with neither the manually set toggleState applies
+function toggleCondition(toggleDataPath: unknown, dataPath: unknown, toggleState: unknown): string {
+  const paths = [toggleDataPath, dataPath].filter(
+    (path, index, all): path is string => typeof path === 'string' && path !== '' && path !== 'none' && all.indexOf(path) === index
+  );
+  // == is strict, and num() only returns its argument unchanged for a number
+  const holdsToggleValue = (path: string) => `(${path} == true || ${path} == false || (${path} != null && num(${path}) == ${path}))`;
+  // Parenthesized so the constant isn't read as a plain path named "true"/"false"
+  return paths.map(toExpressionPath).reduceRight(
+    (fallback, path) => `${holdsToggleValue(path)} ? ${path} : ${fallback}`,
+    toggleState ? '(true)' : '(false)'
+  );
+}
+
+// Replace the two-state toggle (canToggle + state1Props/state2Props) with style rules.
+// State 1 becomes the component's own props and state 2 a rule that applies while the
+// toggle is on (see toggleCondition).
+function toggleToStyleRules(props: any): any {
+  if (!props || typeof props !== 'object') return props;
+  const { canToggle, toggleState, autoToggle: _autoToggle, toggleDataPath, state1Props, state2Props, ...rest } = props;
+  if (!canToggle) return rest;
+
+  const state1 = state1Props && typeof state1Props === 'object' ? state1Props : {};
+  const state2 = state2Props && typeof state2Props === 'object' ? state2Props : {};
+  const bindings = { ...rest.tokenBindings, ...state1.tokenBindings };
+
+  const when = toggleCondition(toggleDataPath, rest.dataPath, toggleState);
+
+  return {
+    ...rest,
+    ...state1,
+    tokenBindings: Object.keys(bindings).length > 0 ? bindings : undefined,
+    styleRules: [
+      ...(Array.isArray(rest.styleRules) ? rest.styleRules : []),
+      { id: `rule_${crypto.randomUUID()}`, name: 'State 2', when, set: state2 },
+    ],
+  };
+}
+
+function migrateToggleComponents(components: ComponentConfig[]): ComponentConfig[] {
+  return components.map(c => (c.props ? { ...c, props: toggleToStyleRules(c.props) } : c));
+}
+
+const LAYOUT_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Introduce schemaVersion and normalize components and dimensions',
+    migrate: (doc) => ({
+      ...doc,
+      components: normalizeComponents(doc.components),
+      dimensions: {
+        width: Number(doc.dimensions?.width) || 1920,
+        height: Number(doc.dimensions?.height) || 1080,
+      },
+    }),
+  },
+  {
+    version: 2,
+    description: 'Replace two-state toggles with conditional style rules',
+    migrate: (doc) => ({ ...doc, components: migrateToggleComponents(doc.components) }),
+  },
+];
+
+const SLOT_TEMPLATE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Introduce schemaVersion and backfill originalSlotSize for percentage-based scaling',
+    migrate: (doc) => ({
+      ...doc,
+      components: normalizeComponents(doc.components),
+      originalSlotSize: doc.originalSlotSize || (doc.slotSize ? { ...doc.slotSize } : undefined),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Replace two-state toggles with conditional style rules',
+    migrate: (doc) => ({ ...doc, components: migrateToggleComponents(doc.components) }),
+  },
+];
+
+const COMPONENT_TEMPLATE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Introduce schemaVersion and backfill boundingBox from components',
+    migrate: (doc) => {
+      const components = normalizeComponents(doc.components);
+      if (doc.boundingBox || components.length === 0) {
+        return { ...doc, components };
+      }
+      const maxX = Math.max(...components.map(c => c.position.x + c.size.width));
+      const maxY = Math.max(...components.map(c => c.position.y + c.size.height));
+      return { ...doc, components, boundingBox: { width: maxX, height: maxY } };
+    },
+  },
+  {
+    version: 2,
+    description: 'Replace two-state toggles with conditional style rules',
+    migrate: (doc) => ({ ...doc, components: migrateToggleComponents(doc.components) }),
+  },
+];
+
+// Run every migration newer than the document's version, in order
+function runMigrations(doc: any, migrations: Migration[], currentVersion: number, kind: string): any {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error(`Invalid ${kind}: expected an object`);
+  }
+
+  const fromVersion = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+  if (fromVersion > currentVersion) {
+    throw new Error(
+      `${kind} uses schema v${fromVersion}, but this builder only supports up to v${currentVersion}. Update the layout builder to open it.`
+    );
+  }
+
+  let migrated = doc;
+  for (const step of migrations) {
+    if (step.version <= fromVersion) continue;
+    migrated = { ...step.migrate(migrated), schemaVersion: step.version };
+  }
+  return migrated;
+}
+
+// Upgrade a layout document of any supported version to the current schema
+export function migrateLayout(doc: any): LayoutConfig {
+  return runMigrations(doc, LAYOUT_MIGRATIONS, LAYOUT_SCHEMA_VERSION, 'Layout');
+}
+
+// Upgrade a slot template of any supported version to the current schema
+export function migrateSlotTemplate(doc: any): SlotTemplate {
+  return runMigrations(doc, SLOT_TEMPLATE_MIGRATIONS, SLOT_TEMPLATE_SCHEMA_VERSION, 'Slot template');
+}
+
+// Upgrade a component group template of any supported version to the current schema
+export function migrateComponentTemplate(doc: any): ComponentGroupTemplate {
+  return runMigrations(doc, COMPONENT_TEMPLATE_MIGRATIONS, COMPONENT_TEMPLATE_SCHEMA_VERSION, 'Component template');
+}
+
+// Upgrade the layout inside each saved preset entry ({ id, name, layout, ... })
+export function migratePresetList<T extends { layout: LayoutConfig }>(presets: T[]): T[] {
+  return presets.map(migratePreset);
+}
+
+function migratePreset<T extends { layout: LayoutConfig }>(preset: T): T {
+  return { ...preset, layout: migrateLayout(preset.layout) };
+}
+
+// Outcome of migrating one entry of a stored list
+export type EntryMigration<T> =
+  | { ok: true; value: T }
+  | { ok: false; stored: unknown; error: string };
+
+// Migrate a stored list one entry at a time. An entry that fails (malformed, or saved
+// by a newer builder) is handed back exactly as stored, so callers can keep it instead
+// of losing it along with the rest of the list.
+export function migrateEntries<T>(entries: unknown[], migrate: (doc: any) => T, kind: string): EntryMigration<T>[] {
+  return entries.map((entry, index) => {
+    try {
+      return { ok: true, value: migrate(entry) };
+    } catch (error) {
+      const name = (entry as { name?: unknown } | null)?.name;
+      const label = typeof name === 'string' && name ? `"${name}"` : `#${index + 1}`;
+      return { ok: false, stored: entry, error: `${kind} ${label}: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  });
+}
+
+const reportedErrors = new Set<string>();
+
+// Log entries that couldn't be migrated, once each (stores are re-read on every lookup)
+export function reportUnmigratedEntries(results: EntryMigration<unknown>[]): void {
+  results.forEach(result => {
+    if (result.ok || reportedErrors.has(result.error)) return;
+    reportedErrors.add(result.error);
+    console.warn(`Kept without upgrading - ${result.error}`);
+  });
+}
+
+// Migrate the raw JSON string stored under a localStorage key used by backup/restore.
+// Keys that don't hold versioned documents are returned unchanged. Entries that can't
+// be migrated are kept as they were and listed in `errors`.
+export function migrateStoredValue(key: string, value: string): { value: string; errors: string[] } {
+  const migrateList = (migrate: (doc: any) => unknown, kind: string) => {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return { value, errors: [] };
+    const results = migrateEntries(parsed, migrate, kind);
+    return {
+      value: JSON.stringify(results.map(result => (result.ok ? result.value : result.stored))),
+      errors: results.flatMap(result => (result.ok ? [] : [result.error])),
+    };
+  };
+
+  switch (key) {
+    case 'scoreboard-layout-presets':
+      return migrateList(migratePreset, 'Preset');
+    case 'sv-slot-templates':
+      return migrateList(migrateSlotTemplate, 'Slot template');
+    case 'sv-component-templates':
+      return migrateList(migrateComponentTemplate, 'Component template');
+    default:
+      return { value, errors: [] };
+  }
+}
@@ -0,0 +1,532 @@
+// =============================================================================
+// LAYOUT VALIDATION
+// =============================================================================
+// Runtime checks that mirror the component props interfaces in types.ts.
+// Imported or hand-edited layouts are plain JSON, so TypeScript can't vouch for
+// them - this walks the document and reports every field with the wrong shape
+// using a path like `components[12].props.fontSize: expected number, got string`.
+//
+// Keep the spec tables below in sync with the interfaces in types.ts. Unknown
+// props are allowed (older builder versions wrote extra keys). The TV export
+// JSON Schema (utils/exportSchema) is generated from the same tables.
+// =============================================================================
+
+import type { ComponentType } from '../types';
+import { getDataExpressionError } from '../shared/components/customDataDisplay/dataExpressions';
+import {
+  ANIMATION_TRIGGERS,
+  ANIMATION_EFFECTS,
+  ANIMATION_EASINGS,
+  SLIDE_DIRECTIONS,
+} from '../shared/components/customDataDisplay/animations';
+import { GRADIENT_TYPES } from '../shared/components/customDataDisplay/gradients';
+import { TEXT_VERTICAL_ALIGNS } from '../shared/components/customDataDisplay/textLayout';
+import { VALUE_FORMATS, TEXT_CASES } from '../shared/components/customDataDisplay/valueFormat';
+
+export interface LayoutValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type FieldKind = 'number' | 'string' | 'boolean' | 'object' | 'array' | readonly string[];
+export type FieldSpec = Record<string, FieldKind>;
+
+export const COMPONENT_TYPES: readonly ComponentType[] = [
+  'teamName', 'score', 'clock', 'period', 'fouls', 'timeouts', 'bonus', 'custom',
+  'dynamicList', 'leaderboardList', 'slotList', 'group',
+];
+
+const BASE_PROPS: FieldSpec = {
+  visibilityPath: 'string',
+  tokenBindings: 'object',
+};
+
+// Mirrors DataDisplayComponentProps
+const DATA_DISPLAY_PROPS: FieldSpec = {
+  ...BASE_PROPS,
+  dataPath: 'string',
+  label: 'string',
+  backgroundColor: 'string',
+  backgroundGradient: 'object',
+  textColor: 'string',
+  fontSize: 'number',
+  format: VALUE_FORMATS,
+  formatOptions: 'object',
+  prefix: 'string',
+  suffix: 'string',
+  customText: 'string',
+  textAlign: ['left', 'center', 'right'],
+  wrapText: 'boolean',
+  maxLines: 'number',
+  lineHeight: 'number',
+  verticalAlign: TEXT_VERTICAL_ALIGNS,
+  paddingTop: 'number',
+  paddingRight: 'number',
+  paddingBottom: 'number',
+  paddingLeft: 'number',
+  imageSource: ['none', 'local', 'url'],
+  imagePath: 'string',
+  imageUrl: 'string',
+  objectFit: ['fill', 'contain', 'cover', 'none', 'scale-down'],
+  imageAnchor: ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'],
+  flipHorizontal: 'boolean',
+  flipVertical: 'boolean',
+  imageTintColor: 'string',
+  useImageTint: 'boolean',
+  borderWidth: 'number',
+  borderColor: 'string',
+  borderStyle: 'string',
+  borderTopWidth: 'number',
+  borderBottomWidth: 'number',
+  borderLeftWidth: 'number',
+  borderRightWidth: 'number',
+  borderTopLeftRadius: 'number',
+  borderTopRightRadius: 'number',
+  borderBottomLeftRadius: 'number',
+  borderBottomRightRadius: 'number',
+  useTeamColor: 'boolean',
+  teamColorSide: ['home', 'away'],
+  autoFitText: 'boolean',
+  minFontScale: 'number',
+  autoFitSampleText: 'string',
+  previewText: 'string',
+  styleRules: 'array',
+  fontFamily: 'string',
+  fontWeight: 'number',
+  letterSpacing: 'number',
+  textStrokeWidth: 'number',
+  textStrokeColor: 'string',
+  textShadowOffsetX: 'number',
+  textShadowOffsetY: 'number',
+  textShadowBlur: 'number',
+  textShadowColor: 'string',
+  textGlowRadius: 'number',
+  textGlowColor: 'string',
+  multiStateEnabled: 'boolean',
+  statePath: 'string',
+  stateImages: 'object',
+  autoContrastText: 'boolean',
+  maxTimeouts: 'number',
+  showPossessionArrows: 'boolean',
+};
+
+// Mirrors DynamicListComponentProps
+const DYNAMIC_LIST_PROPS: FieldSpec = {
+  ...BASE_PROPS,
+  totalCountPath: 'string',
+  activeCountPath: 'string',
+  totalCount: 'number',
+  activeCount: 'number',
+  activeBackgroundColor: 'string',
+  activeTextColor: 'string',
+  activeBorderWidth: 'number',
+  activeBorderColor: 'string',
+  inactiveBackgroundColor: 'string',
+  inactiveTextColor: 'string',
+  inactiveBorderWidth: 'number',
+  inactiveBorderColor: 'string',
+  direction: ['horizontal', 'vertical'],
+  itemAlignment: ['start', 'center', 'end', 'space-between', 'space-around'],
+  itemSpacing: 'number',
+  borderRadius: 'number',
+  showNumbers: 'boolean',
+  reverseOrder: 'boolean',
+  borderWidth: 'number',
+  borderColor: 'string',
+};
+
+// Mirrors LeaderboardListComponentProps
+const LEADERBOARD_LIST_PROPS: FieldSpec = {
+  ...BASE_PROPS,
+  mockPlayers: 'array',
+  visibleCount: 'number',
+  maxVisible: 'number',
+  rowHeight: 'number',
+  rowSpacing: 'number',
+  slotHeight: 'number',
+  slotSpacing: 'number',
+  backgroundColor: 'string',
+  rowBackgroundColor: 'string',
+  highlightColor: 'string',
+  textColor: 'string',
+  fontSize: 'number',
+  showRank: 'boolean',
+  showScore: 'boolean',
+  showJersey: 'boolean',
+  showName: 'boolean',
+  showPoints: 'boolean',
+  showFouls: 'boolean',
+  rankWidth: 'number',
+  scoreWidth: 'number',
+  borderRadius: 'number',
+  cycleEnabled: 'boolean',
+  cycleInterval: 'number',
+  cycleTransition: ['fade', 'slide', 'none'],
+  cycleDuration: 'number',
+};
+
+// Mirrors SlotListComponentProps
+const SLOT_LIST_PROPS: FieldSpec = {
+  ...BASE_PROPS,
+  templateId: 'string',
+  templateName: 'string',
+  team: ['home', 'away'],
+  slotCount: 'number',
+  slotSpacing: 'number',
+  direction: ['vertical', 'horizontal'],
+  dataPathPrefix: 'string',
+  hideInactiveSlots: 'boolean',
+};
+
+// Mirrors the optional fields of ComponentConfigBase (id/type/position/size are checked separately)
+export const COMPONENT_FIELDS: FieldSpec = {
+  layer: 'number',
+  team: ['home', 'away', 'both'],
+  displayName: 'string',
+  visible: 'boolean',
+  useTeamColor: 'boolean',
+  teamColorSide: ['home', 'away'],
+  parentId: 'string',
+  originalAspectRatio: 'number',
+  originalSize: 'object',
+  scaleAnchor: ['center', 'top', 'bottom', 'left', 'right', 'top-left', 'top-right', 'bottom-left', 'bottom-right'],
+  rotation: 'number',
+  slot: 'number',
+  sceneIds: 'array',
+  animations: 'array',
+};
+
+// Mirrors ComponentAnimation (id/trigger/effect/duration are required)
+export const ANIMATION_FIELDS: FieldSpec = {
+  delay: 'number',
+  easing: ANIMATION_EASINGS,
+  color: 'string',
+  scale: 'number',
+  direction: SLIDE_DIRECTIONS,
+  distance: 'number',
+};
+
+// Mirrors ValueFormatOptions (all optional)
+export const FORMAT_OPTIONS_FIELDS: FieldSpec = {
+  minDigits: 'number',
+  decimals: 'number',
+  thousandsSeparator: 'boolean',
+  plusSign: 'boolean',
+  timeTenths: 'boolean',
+  timePadMinutes: 'boolean',
+  regulationPeriods: 'number',
+  overtimeLabel: 'string',
+  textCase: TEXT_CASES,
+  trueLabel: 'string',
+  falseLabel: 'string',
+};
+
+export function getPropsSpec(type: ComponentType): FieldSpec {
+  switch (type) {
+    case 'dynamicList':
+      return DYNAMIC_LIST_PROPS;
+    case 'leaderboardList':
+      return LEADERBOARD_LIST_PROPS;
+    case 'slotList':
+      return SLOT_LIST_PROPS;
+    case 'group':
+      return BASE_PROPS;
+    default:
+      return DATA_DISPLAY_PROPS;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  if (typeof value === 'string') return `string "${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+  return typeof value;
+}
+
+// Root-level fields have no prefix, so `name` rather than `.name`
+function joinPath(basePath: string, key: string): string {
+  return basePath ? `${basePath}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Returns an error message if value doesn't match kind, otherwise null
+function checkKind(value: unknown, kind: FieldKind): string | null {
+  if (typeof kind !== 'string') {
+    if (typeof value === 'string' && kind.includes(value)) return null;
+    return `expected one of ${kind.map(k => `"${k}"`).join(', ')}, got ${describe(value)}`;
+  }
+  switch (kind) {
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return null;
+      break;
+    case 'object':
+      if (isPlainObject(value)) return null;
+      break;
+    case 'array':
+      if (Array.isArray(value)) return null;
+      break;
+    default:
+      if (typeof value === kind) return null;
+  }
+  return `expected ${kind}, got ${describe(value)}`;
+}
+
+// Props holding data expressions (see shared/components/customDataDisplay/dataExpressions)
+const EXPRESSION_PROPS = ['dataPath', 'visibilityPath'];
+
+function checkDataExpressions(props: Record<string, any>, basePath: string, issues: LayoutValidationIssue[]): void {
+  EXPRESSION_PROPS.forEach(key => {
+    if (typeof props[key] !== 'string') return;
+    const error = getDataExpressionError(props[key]);
+    if (error) issues.push({ path: joinPath(basePath, key), message: `invalid expression: ${error}` });
+  });
+}
+
+// Check declared fields of an object; missing/undefined fields are optional
+function checkFields(
+  obj: Record<string, any>,
+  spec: FieldSpec,
+  basePath: string,
+  issues: LayoutValidationIssue[]
+): void {
+  for (const [key, kind] of Object.entries(spec)) {
+    if (obj[key] === undefined) continue;
+    const message = checkKind(obj[key], kind);
+    if (message) issues.push({ path: joinPath(basePath, key), message });
+  }
+}
+
+function checkRequired(
+  obj: Record<string, any>,
+  key: string,
+  kind: FieldKind,
+  basePath: string,
+  issues: LayoutValidationIssue[]
+): void {
+  const path = joinPath(basePath, key);
+  if (obj[key] === undefined) {
+    issues.push({ path, message: 'is required' });
+    return;
+  }
+  const message = checkKind(obj[key], kind);
+  if (message) issues.push({ path, message });
+}
+
+function validateComponent(
+  comp: unknown,
+  path: string,
+  componentIds: Set<string>,
+  issues: LayoutValidationIssue[]
+): void {
+  if (!isPlainObject(comp)) {
+    issues.push({ path, message: `expected object, got ${describe(comp)}` });
+    return;
+  }
+
+  checkRequired(comp, 'id', 'string', path, issues);
+  checkRequired(comp, 'type', COMPONENT_TYPES, path, issues);
+
+  for (const [key, fields] of [['position', ['x', 'y']], ['size', ['width', 'height']]] as const) {
+    if (!isPlainObject(comp[key])) {
+      issues.push({ path: `${path}.${key}`, message: `expected object, got ${describe(comp[key])}` });
+      continue;
+    }
+    fields.forEach(field => checkRequired(comp[key], field, 'number', `${path}.${key}`, issues));
+  }
+
+  checkFields(comp, COMPONENT_FIELDS, path, issues);
+
+  if (typeof comp.parentId === 'string' && !componentIds.has(comp.parentId)) {
+    issues.push({ path: `${path}.parentId`, message: `references missing component "${comp.parentId}"` });
+  }
+
+  if (Array.isArray(comp.animations)) {
+    comp.animations.forEach((animation: unknown, index: number) =>
+      validateAnimation(animation, `${path}.animations[${index}]`, issues)
+    );
+  }
+
+  if (comp.props === undefined) return;
+  if (!isPlainObject(comp.props)) {
+    issues.push({ path: `${path}.props`, message: `expected object, got ${describe(comp.props)}` });
+    return;
+  }
+
+  // Skip per-type checks when the type itself is unknown - the type issue is already reported
+  if (!COMPONENT_TYPES.includes(comp.type)) return;
+  const spec = getPropsSpec(comp.type);
+  checkFields(comp.props, spec, `${path}.props`, issues);
+  checkDataExpressions(comp.props, `${path}.props`, issues);
+  if (isPlainObject(comp.props.backgroundGradient)) {
+    validateGradient(comp.props.backgroundGradient, `${path}.props.backgroundGradient`, issues);
+  }
+  if (isPlainObject(comp.props.formatOptions)) {
+    checkFields(comp.props.formatOptions, FORMAT_OPTIONS_FIELDS, `${path}.props.formatOptions`, issues);
+  }
+
+  if (Array.isArray(comp.props.styleRules)) {
+    comp.props.styleRules.forEach((rule: unknown, index: number) =>
+      validateStyleRule(rule, spec, `${path}.props.styleRules[${index}]`, issues)
+    );
+  }
+}
+
+// Style rule overrides use the same shape as the component's own props
+function validateStyleRule(rule: unknown, spec: FieldSpec, path: string, issues: LayoutValidationIssue[]): void {
+  if (!isPlainObject(rule)) {
+    issues.push({ path, message: `expected object, got ${describe(rule)}` });
+    return;
+  }
+  checkRequired(rule, 'id', 'string', path, issues);
+  checkRequired(rule, 'when', 'string', path, issues);
+  checkFields(rule, { name: 'string' }, path, issues);
+  if (typeof rule.when === 'string' && rule.when.trim()) {
+    const error = getDataExpressionError(rule.when.trim());
+    if (error) issues.push({ path: `${path}.when`, message: `invalid expression: ${error}` });
+  }
+  if (!isPlainObject(rule.set)) {
+    issues.push({ path: `${path}.set`, message: `expected object, got ${describe(rule.set)}` });
+    return;
+  }
+  checkFields(rule.set, spec, `${path}.set`, issues);
+  if (isPlainObject(rule.set.backgroundGradient)) {
+    validateGradient(rule.set.backgroundGradient, `${path}.set.backgroundGradient`, issues);
+  }
+  if (isPlainObject(rule.set.formatOptions)) {
+    checkFields(rule.set.formatOptions, FORMAT_OPTIONS_FIELDS, `${path}.set.formatOptions`, issues);
+  }
+}
+
+// Mirrors Gradient in shared/components/customDataDisplay/types (type and stops are required)
+function validateGradient(gradient: Record<string, any>, path: string, issues: LayoutValidationIssue[]): void {
+  checkRequired(gradient, 'type', GRADIENT_TYPES, path, issues);
+  checkRequired(gradient, 'stops', 'array', path, issues);
+  checkFields(gradient, { angle: 'number' }, path, issues);
+  if (!Array.isArray(gradient.stops)) return;
+  gradient.stops.forEach((stop: unknown, index: number) => {
+    const stopPath = `${path}.stops[${index}]`;
+    if (!isPlainObject(stop)) {
+      issues.push({ path: stopPath, message: `expected object, got ${describe(stop)}` });
+      return;
+    }
+    checkRequired(stop, 'color', 'string', stopPath, issues);
+    checkRequired(stop, 'position', 'number', stopPath, issues);
+  });
+}
+
+function validateAnimation(animation: unknown, path: string, issues: LayoutValidationIssue[]): void {
+  if (!isPlainObject(animation)) {
+    issues.push({ path, message: `expected object, got ${describe(animation)}` });
+    return;
+  }
+  checkRequired(animation, 'id', 'string', path, issues);
+  checkRequired(animation, 'trigger', ANIMATION_TRIGGERS, path, issues);
+  checkRequired(animation, 'effect', ANIMATION_EFFECTS, path, issues);
+  checkRequired(animation, 'duration', 'number', path, issues);
+  checkFields(animation, ANIMATION_FIELDS, path, issues);
+}
+
+// Mirrors TimelineKeyframe in shared/timeline (id and time are required)
+export const KEYFRAME_FIELDS: FieldSpec = {
+  x: 'number',
+  y: 'number',
+  width: 'number',
+  height: 'number',
+  opacity: 'number',
+  scale: 'number',
+  easing: ANIMATION_EASINGS,
+};
+
+function validateTimeline(timeline: unknown, path: string, issues: LayoutValidationIssue[]): void {
+  if (!isPlainObject(timeline)) {
+    issues.push({ path, message: `expected object, got ${describe(timeline)}` });
+    return;
+  }
+  checkRequired(timeline, 'duration', 'number', path, issues);
+  checkRequired(timeline, 'tracks', 'array', path, issues);
+  checkFields(timeline, { loop: 'boolean' }, path, issues);
+  if (!Array.isArray(timeline.tracks)) return;
+
+  timeline.tracks.forEach((track: unknown, trackIndex: number) => {
+    const trackPath = `${path}.tracks[${trackIndex}]`;
+    if (!isPlainObject(track)) {
+      issues.push({ path: trackPath, message: `expected object, got ${describe(track)}` });
+      return;
+    }
+    checkRequired(track, 'componentId', 'string', trackPath, issues);
+    checkRequired(track, 'keyframes', 'array', trackPath, issues);
+    if (!Array.isArray(track.keyframes)) return;
+    track.keyframes.forEach((keyframe: unknown, keyframeIndex: number) => {
+      const keyframePath = `${trackPath}.keyframes[${keyframeIndex}]`;
+      if (!isPlainObject(keyframe)) {
+        issues.push({ path: keyframePath, message: `expected object, got ${describe(keyframe)}` });
+        return;
+      }
+      checkRequired(keyframe, 'id', 'string', keyframePath, issues);
+      checkRequired(keyframe, 'time', 'number', keyframePath, issues);
+      checkFields(keyframe, KEYFRAME_FIELDS, keyframePath, issues);
+    });
+  });
+}
+
+// Validate a list of components; basePath is the path of the array itself
+export function validateComponents(components: unknown, basePath = 'components'): LayoutValidationIssue[] {
+  const issues: LayoutValidationIssue[] = [];
+  if (!Array.isArray(components)) {
+    issues.push({ path: basePath, message: `expected array, got ${describe(components)}` });
+    return issues;
+  }
+
+  const componentIds = new Set(
+    components.filter(isPlainObject).map(c => c.id).filter((id): id is string => typeof id === 'string')
+  );
+  components.forEach((comp, index) => validateComponent(comp, `${basePath}[${index}]`, componentIds, issues));
+  return issues;
+}
+
+// Validate a whole layout document. Returns an empty list when the layout is well-formed.
+export function validateLayout(layout: unknown): LayoutValidationIssue[] {
+  if (!isPlainObject(layout)) {
+    return [{ path: 'layout', message: `expected object, got ${describe(layout)}` }];
+  }
+
+  const issues: LayoutValidationIssue[] = [];
+  checkRequired(layout, 'name', 'string', '', issues);
+  checkFields(layout, { schemaVersion: 'number', backgroundColor: 'string', backgroundGradient: 'object', tokens: 'object' }, '', issues);
+  if (isPlainObject(layout.backgroundGradient)) validateGradient(layout.backgroundGradient, 'backgroundGradient', issues);
+  if (isPlainObject(layout.tokens)) {
+    checkFields(layout.tokens, { colors: 'object', fonts: 'object', sizes: 'object' }, 'tokens', issues);
+  }
+  checkFields(layout, { scenes: 'array', activeSceneId: 'string' }, '', issues);
+  if (Array.isArray(layout.scenes)) {
+    layout.scenes.forEach((scene: unknown, index: number) => {
+      const scenePath = `scenes[${index}]`;
+      if (!isPlainObject(scene)) {
+        issues.push({ path: scenePath, message: `expected object, got ${describe(scene)}` });
+        return;
+      }
+      checkRequired(scene, 'id', 'string', scenePath, issues);
+      checkRequired(scene, 'name', 'string', scenePath, issues);
+      if (scene.timeline !== undefined) validateTimeline(scene.timeline, `${scenePath}.timeline`, issues);
+    });
+  }
+  if (layout.timeline !== undefined) validateTimeline(layout.timeline, 'timeline', issues);
+
+  if (!isPlainObject(layout.dimensions)) {
+    issues.push({ path: 'dimensions', message: `expected object, got ${describe(layout.dimensions)}` });
+  } else {
+    checkRequired(layout.dimensions, 'width', 'number', 'dimensions', issues);
+    checkRequired(layout.dimensions, 'height', 'number', 'dimensions', issues);
+  }
+
+  issues.push(...validateComponents(layout.components));
+  return issues;
+}
+
+export function formatValidationIssue(issue: LayoutValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
@@ -0,0 +1,253 @@
+// =============================================================================
+// LIVE DATA FEED
+// =============================================================================
+// Connects the preview to a scoreboard controller (or the bundled stand-in,
+// server/live-feed-server.mjs) over a WebSocket or a polled HTTP endpoint, and
+// folds each message into the preview gameData.
+//
+// Messages are JSON:
+//   { "type": "gameData", "data": { ... } }          - snapshot, merged in
+//   { "type": "patch", "changes": { "path": value } } - dotted-path updates
+//   { ... }                                            - any other object, merged in
+// A field map renames controller fields to gameData paths
+// ({ "HomeScore": "homeTeam.score" }); only mapped fields are used when it is set.
+// =============================================================================
+
+import { setGameDataValue } from '../shared/gameDataCatalog';
+
+export type LiveFeedTransport = 'websocket' | 'http';
+
+export type LiveFeedStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface LiveFeedSettings {
+  transport: LiveFeedTransport;
+  url: string;
+  pollIntervalMs: number; // HTTP only
+  fieldMap: Record<string, string>; // Controller field path -> gameData path
+}
+
+const STORAGE_KEY = 'sv-live-feed-settings';
+
+export const DEFAULT_LIVE_FEED_SETTINGS: LiveFeedSettings = {
+  transport: 'websocket',
+  url: 'ws://localhost:8787',
+  pollIntervalMs: 1000,
+  fieldMap: {},
+};
+
+// Waits between reconnect attempts; the last one repeats until the feed is back
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export function loadLiveFeedSettings(): LiveFeedSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LIVE_FEED_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LIVE_FEED_SETTINGS;
+  } catch {
+    return DEFAULT_LIVE_FEED_SETTINGS;
+  }
+}
+
+export function saveLiveFeedSettings(settings: LiveFeedSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// =============================================================================
+// MESSAGE MAPPING
+// =============================================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deep merge of a snapshot into gameData; arrays merge element by element
+function mergeGameData(target: any, source: any): any {
+  if (Array.isArray(source)) {
+    const base: any[] = Array.isArray(target) ? [...target] : [];
+    source.forEach((value, index) => { base[index] = mergeGameData(base[index], value); });
+    return base;
+  }
+  if (!isObject(source)) return source;
+  const base: Record<string, any> = isObject(target) ? { ...target } : {};
+  Object.entries(source).forEach(([key, value]) => { base[key] = mergeGameData(base[key], value); });
+  return base;
+}
+
+const getPath = (data: unknown, path: string) => path.split('.').reduce<any>((current, key) => current?.[key], data);
+
+// Slot lists the layouts read through count-based flags (isStateN, slotN.active)
+const SLOT_LIST_ROOTS = ['penaltySlots', 'leaderboardSlots', 'volleyballLeaderboardSlots'];
+
+// Keep a slot list's isStateN and slotN.active flags in line with its count,
+// for controllers that only send the count
+function syncSlotFlags(data: Record<string, any>, changedPaths: string[]): Record<string, any> {
+  let result = data;
+  SLOT_LIST_ROOTS.forEach(root => {
+    (['home', 'away'] as const).forEach(side => {
+      const countPath = `${root}.${side}.count`;
+      if (!changedPaths.some(path => path === countPath || countPath.startsWith(`${path}.`))) return;
+      const list = result[root]?.[side];
+      const count = Number(list?.count);
+      if (!isObject(list) || !Number.isFinite(count)) return;
+      Object.keys(list).forEach(key => {
+        const state = key.match(/^isState(\d+)$/);
+        if (state) result = setGameDataValue(result, `${root}.${side}.${key}`, Number(state[1]) === count);
+        const slot = key.match(/^slot(\d+)$/);
+        if (slot && isObject(list[key])) result = setGameDataValue(result, `${root}.${side}.${key}.active`, Number(slot[1]) < count);
+      });
+    });
+  });
+  return result;
+}
+
+/**
+ * gameData with one feed message applied. Throws for messages that aren't
+ * JSON objects in one of the supported shapes.
+ */
+export function applyFeedMessage(
+  gameData: Record<string, any>,
+  message: unknown,
+  fieldMap: Record<string, string> = {}
+): Record<string, any> {
+  if (!isObject(message)) throw new Error('Feed message is not a JSON object');
+
+  let changes: Record<string, unknown>;
+  if (message.type === 'patch') {
+    if (!isObject(message.changes)) throw new Error('Patch message has no "changes" object');
+    changes = message.changes;
+  } else {
+    const snapshot = message.type === 'gameData' ? message.data : message;
+    if (!isObject(snapshot)) throw new Error('gameData message has no "data" object');
+    const mapped = Object.entries(fieldMap);
+    if (mapped.length === 0) {
+      return syncSlotFlags(mergeGameData(gameData, snapshot), Object.keys(snapshot));
+    }
+    changes = {};
+    mapped.forEach(([source, target]) => {
+      const value = getPath(snapshot, source);
+      if (value !== undefined) changes[target] = value;
+    });
+  }
+
+  const updated = Object.entries(changes).reduce(
+    (result, [path, value]) => setGameDataValue(result, fieldMap[path] ?? path, value),
+    gameData
+  );
+  return syncSlotFlags(updated, Object.keys(changes).map(path => fieldMap[path] ?? path));
+}
+
+// Parse the field map editor's JSON; throws with a readable message
+export function parseFieldMap(text: string): Record<string, string> {
+  if (!text.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Field map is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(parsed) || Object.values(parsed).some(value => typeof value !== 'string' || !value)) {
+    throw new Error('Field map must be an object of "controller field": "gameData.path" pairs');
+  }
+  return parsed as Record<string, string>;
+}
+
+// =============================================================================
+// CONNECTION
+// =============================================================================
+
+export interface LiveFeedHandlers {
+  onMessage: (message: unknown) => void;
+  onStatus: (status: LiveFeedStatus, detail?: string) => void;
+}
+
+export interface LiveFeedConnection {
+  close: () => void;
+}
+
+/**
+ * Opens the feed and keeps it open: dropped WebSockets and failed polls retry
+ * with a growing delay until close() is called.
+ */
+export function connectLiveFeed(settings: LiveFeedSettings, handlers: LiveFeedHandlers): LiveFeedConnection {
+  let closed = false;
+  let attempt = 0;
+  let socket: WebSocket | null = null;
+  let timer: number | undefined;
+  let abort: AbortController | null = null;
+
+  const receive = (text: string) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      console.warn('Live feed: ignoring message that is not JSON:', text.slice(0, 200));
+      return;
+    }
+    handlers.onMessage(message);
+  };
+
+  const retry = (detail: string) => {
+    if (closed) return;
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+    attempt++;
+    handlers.onStatus('reconnecting', `${detail} - retrying in ${Math.round(delay / 1000)}s`);
+    timer = window.setTimeout(open, delay);
+  };
+
+  const openSocket = () => {
+    try {
+      socket = new WebSocket(settings.url);
+    } catch (error) {
+      retry((error as Error).message);
+      return;
+    }
+    socket.onopen = () => {
+      attempt = 0;
+      handlers.onStatus('connected');
+    };
+    socket.onmessage = event => {
+      if (typeof event.data === 'string') receive(event.data);
+    };
+    socket.onclose = event => {
+      socket = null;
+      retry(event.reason || `Connection closed (${event.code})`);
+    };
+  };
+
+  const poll = async () => {
+    abort = new AbortController();
+    try {
+      const response = await fetch(settings.url, { signal: abort.signal, cache: 'no-store' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const text = await response.text();
+      if (closed) return;
+      if (attempt > 0 || timer === undefined) handlers.onStatus('connected');
+      attempt = 0;
+      receive(text);
+      timer = window.setTimeout(poll, settings.pollIntervalMs);
+    } catch (error) {
+      if (closed) return;
+      retry((error as Error).message);
+    }
+  };
+
+  function open() {
+    if (closed) return;
+    if (attempt === 0) handlers.onStatus('connecting');
+    if (settings.transport === 'websocket') openSocket();
+    else poll();
+  }
+
+  open();
+
+  return {
+    close: () => {
+      closed = true;
+      window.clearTimeout(timer);
+      abort?.abort();
+      if (socket) {
+        socket.onclose = null;
+        socket.close();
+      }
+      handlers.onStatus('disconnected');
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { ComponentConfig } from '../types';
+
+// component.rotation is in degrees, clockwise, around the center of the component's box.
+// position/size always describe the unrotated box; these helpers give the area it
+// actually covers on the canvas.
+
+type RotatableBox = Pick<ComponentConfig, 'position' | 'size' | 'rotation'>;
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Angle in (-180, 180], rounded to 0.01deg; 0 means "not rotated"
+export function normalizeRotation(degrees: number): number {
+  if (!Number.isFinite(degrees)) return 0;
+  let normalized = degrees % 360;
+  if (normalized > 180) normalized -= 360;
+  if (normalized <= -180) normalized += 360;
+  return Math.round(normalized * 100) / 100 || 0;
+}
+
+export function isRotated(component: Pick<ComponentConfig, 'rotation'>): boolean {
+  return normalizeRotation(component.rotation || 0) !== 0;
+}
+
+// Rotate (x, y) by `degrees` clockwise around (centerX, centerY)
+export function rotatePoint(
+  x: number,
+  y: number,
+  centerX: number,
+  centerY: number,
+  degrees: number
+): { x: number; y: number } {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = x - centerX;
+  const dy = y - centerY;
+  return {
+    x: centerX + dx * cos - dy * sin,
+    y: centerY + dx * sin + dy * cos,
+  };
+}
+
+// Axis-aligned box around a rect of the given size rotated around its center
+export function getRotatedBoundsForBox(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  degrees: number = 0
+): Bounds {
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+  const radians = (degrees * Math.PI) / 180;
+  const halfWidth = (Math.abs(width * Math.cos(radians)) + Math.abs(height * Math.sin(radians))) / 2;
+  const halfHeight = (Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians))) / 2;
+  return {
+    left: centerX - halfWidth,
+    top: centerY - halfHeight,
+    right: centerX + halfWidth,
+    bottom: centerY + halfHeight,
+  };
+}
+
+// Axis-aligned box the rotated component covers (its own box when unrotated)
+export function getRotatedBounds(component: RotatableBox): Bounds {
+  return getRotatedBoundsForBox(
+    component.position.x,
+    component.position.y,
+    component.size.width,
+    component.size.height,
+    component.rotation || 0
+  );
+}
+
+// Whether a canvas point falls inside the component's rotated box
+export function isPointInComponent(x: number, y: number, component: RotatableBox): boolean {
+  const { position, size } = component;
+  const local = isRotated(component)
+    ? rotatePoint(x, y, position.x + size.width / 2, position.y + size.height / 2, -(component.rotation || 0))
+    : { x, y };
+  return (
+    local.x >= position.x &&
+    local.x <= position.x + size.width &&
+    local.y >= position.y &&
+    local.y <= position.y + size.height
+  );
+}
+
+// CSS transform for a component's rotation, or undefined when it isn't rotated
+export function getRotationTransform(component: Pick<ComponentConfig, 'rotation'>): string | undefined {
+  return isRotated(component) ? `rotate(${normalizeRotation(component.rotation || 0)}deg)` : undefined;
+}
@@ -0,0 +1,140 @@
+import { ComponentConfig, LayoutConfig, LayoutScene, LayoutTimeline } from '../types';
+
+// A layout document can hold several scenes (e.g. basketball + timeout + halftime).
+// The layout itself is the main scene - its name is the main scene's layout type -
+// and layout.scenes lists the extra ones. All scenes share layout.components;
+// component.sceneIds says which scenes a component appears in, and a component
+// without sceneIds is shared by every scene. Each scene has its own timeline
+// (layout.timeline for the main scene, scene.timeline for the others).
+
+export const MAIN_SCENE_ID = 'main';
+
+// Layout types offered (in order) when adding a scene
+const SUGGESTED_SCENE_NAMES = ['timeout', 'halftime', 'pre-game', 'period-break'];
+
+// All scenes, main scene first
+export function getScenes(layout: LayoutConfig): LayoutScene[] {
+  return [{ id: MAIN_SCENE_ID, name: layout.name, timeline: layout.timeline }, ...(layout.scenes || [])];
+}
+
+export function hasMultipleScenes(layout: LayoutConfig): boolean {
+  return (layout.scenes?.length ?? 0) > 0;
+}
+
+export function getActiveSceneId(layout: LayoutConfig): string {
+  const activeId = layout.activeSceneId;
+  return activeId && layout.scenes?.some(scene => scene.id === activeId) ? activeId : MAIN_SCENE_ID;
+}
+
+export function isInScene(component: ComponentConfig, sceneId: string): boolean {
+  return !component.sceneIds || component.sceneIds.includes(sceneId);
+}
+
+// The layout as a single scene: that scene's name and only the components it contains.
+// Used for the canvas view and for exporting each scene as its own TV layout.
+export function getSceneLayout(layout: LayoutConfig, sceneId: string): LayoutConfig {
+  const { scenes, activeSceneId, ...rest } = layout;
+  if (!scenes?.length) return rest;
+
+  const scene = getScenes(layout).find(s => s.id === sceneId);
+  return {
+    ...rest,
+    name: scene?.name ?? layout.name,
+    timeline: scene?.timeline,
+    components: layout.components.filter(comp => isInScene(comp, sceneId)),
+  };
+}
+
+// Replace a scene's timeline (undefined removes it)
+export function setSceneTimeline(layout: LayoutConfig, sceneId: string, timeline: LayoutTimeline | undefined): LayoutConfig {
+  if (sceneId === MAIN_SCENE_ID) return { ...layout, timeline };
+  return {
+    ...layout,
+    scenes: (layout.scenes || []).map(scene => scene.id === sceneId ? { ...scene, timeline } : scene),
+  };
+}
+
+// Put a newly created component in the active scene (no-op for single-scene layouts)
+export function withActiveScene(component: ComponentConfig, layout: LayoutConfig): ComponentConfig {
+  if (!hasMultipleScenes(layout)) return component;
+  return { ...component, sceneIds: [getActiveSceneId(layout)] };
+}
+
+export function getNextSceneName(layout: LayoutConfig): string {
+  const usedNames = new Set(getScenes(layout).map(scene => scene.name));
+  return SUGGESTED_SCENE_NAMES.find(name => !usedNames.has(name)) ?? 'universal';
+}
+
+// Add a scene and make it active. The first extra scene pins existing components to
+// the main scene, so nothing is shared until it's marked shared explicitly.
+export function addScene(layout: LayoutConfig, name: string): LayoutConfig {
+  const scene: LayoutScene = { id: `scene_${crypto.randomUUID()}`, name };
+  const components = hasMultipleScenes(layout)
+    ? layout.components
+    : layout.components.map(comp => comp.sceneIds ? comp : { ...comp, sceneIds: [MAIN_SCENE_ID] });
+
+  return {
+    ...layout,
+    components,
+    scenes: [...(layout.scenes || []), scene],
+    activeSceneId: scene.id,
+  };
+}
+
+// Remove a scene. Components that only appeared in it are deleted; the main scene can't be removed.
+export function removeScene(layout: LayoutConfig, sceneId: string): LayoutConfig {
+  if (sceneId === MAIN_SCENE_ID) return layout;
+
+  const removedIds = new Set(
+    layout.components
+      .filter(comp => comp.sceneIds?.length === 1 && comp.sceneIds[0] === sceneId)
+      .map(comp => comp.id)
+  );
+  const components = layout.components
+    .filter(comp => !removedIds.has(comp.id))
+    .map(comp => comp.sceneIds?.includes(sceneId)
+      ? { ...comp, sceneIds: comp.sceneIds.filter(id => id !== sceneId) }
+      : comp
+    )
+    // Children of removed groups move to the root instead of pointing at a missing parent
+    .map(comp => comp.parentId && removedIds.has(comp.parentId) ? { ...comp, parentId: undefined } : comp);
+
+  const scenes = (layout.scenes || []).filter(scene => scene.id !== sceneId);
+  return {
+    ...layout,
+    components,
+    scenes: scenes.length > 0 ? scenes : undefined,
+    activeSceneId: layout.activeSceneId === sceneId ? MAIN_SCENE_ID : layout.activeSceneId,
+  };
+}
+
+// Set a scene's layout type (the main scene's name is the layout name)
+export function renameScene(layout: LayoutConfig, sceneId: string, name: string): LayoutConfig {
+  if (sceneId === MAIN_SCENE_ID) return { ...layout, name };
+  return {
+    ...layout,
+    scenes: (layout.scenes || []).map(scene => scene.id === sceneId ? { ...scene, name } : scene),
+  };
+}
+
+// Set which scenes a component (and all its descendants) appears in; undefined shares it with every scene
+export function setComponentScenes(
+  components: ComponentConfig[],
+  componentId: string,
+  sceneIds: string[] | undefined
+): ComponentConfig[] {
+  const affected = new Set([componentId]);
+  // Collect descendants until no new ones turn up
+  let added = true;
+  while (added) {
+    added = false;
+    components.forEach(comp => {
+      if (comp.parentId && affected.has(comp.parentId) && !affected.has(comp.id)) {
+        affected.add(comp.id);
+        added = true;
+      }
+    });
+  }
+
+  return components.map(comp => affected.has(comp.id) ? { ...comp, sceneIds } : comp);
+}
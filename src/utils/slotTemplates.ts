@@ -1,31 +1,51 @@
-import { SlotTemplate, ComponentConfig } from '../types';
+import { SlotTemplate, ComponentConfig, ComponentConfigOfType, isDataDisplayComponent } from '../types';
+import { migrateSlotTemplate, migrateEntries, reportUnmigratedEntries, SLOT_TEMPLATE_SCHEMA_VERSION } from './layoutMigrations';
+import { prefixDataExpression } from '../shared/components/customDataDisplay/dataExpressions';
+import { prefixStyleRules } from '../shared/components/customDataDisplay/styleRules';
 
 const STORAGE_KEY = 'sv-slot-templates';
 
-// Load all templates from localStorage (filters out old preset templates)
-export function loadTemplates(): SlotTemplate[] {
+// Read the stored list. Templates that can't be migrated (malformed, or saved by a
+// newer builder) come back separately, exactly as stored, so saving never drops them.
+function readStoredTemplates(): { templates: SlotTemplate[]; unreadable: unknown[]; changed: boolean } {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
+    const parsed = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return { templates: [], unreadable: [], changed: false };
 
-    const templates: SlotTemplate[] = JSON.parse(stored);
+    const results = migrateEntries(parsed, migrateSlotTemplate, 'Slot template');
+    reportUnmigratedEntries(results);
+    const migrated = results.flatMap(result => (result.ok ? [result.value] : []));
     // Filter out any old preset templates
-    const filtered = templates.filter(t => !t.isPreset && !t.name.startsWith('[Preset]'));
+    const templates = migrated.filter(t => !t.isPreset && !t.name?.startsWith('[Preset]'));
+    return {
+      templates,
+      unreadable: results.flatMap(result => (result.ok ? [] : [result.stored])),
+      changed: templates.length !== migrated.length || results.some((result, i) => result.ok && result.value !== parsed[i]),
+    };
+  } catch {
+    return { templates: [], unreadable: [], changed: false };
+  }
+}
 
-    // If we filtered any out, save the cleaned list
-    if (filtered.length !== templates.length) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+// Load all templates from localStorage (filters out old preset templates, upgrades old schema versions)
+export function loadTemplates(): SlotTemplate[] {
+  const { templates, changed } = readStoredTemplates();
+  // If we filtered or upgraded any, save the cleaned list
+  if (changed) {
+    try {
+      saveTemplates(templates);
+    } catch {
+      // Storage full - the upgrade runs again on the next load
     }
-
-    return filtered;
-  } catch {
-    return [];
   }
+  return templates;
 }
 
-// Save templates to localStorage
+// Save templates to localStorage, keeping any stored ones that couldn't be loaded
 export function saveTemplates(templates: SlotTemplate[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  const { unreadable } = readStoredTemplates();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...templates, ...unreadable]));
 }
 
 // Get a single template by ID, or by name as fallback
@@ -87,6 +107,7 @@ export function createTemplate(
   const slotSize = customSlotSize || { width: bounds.width, height: bounds.height };
 
   const template: SlotTemplate = {
+    schemaVersion: SLOT_TEMPLATE_SCHEMA_VERSION,
     // Keep existing ID if replacing, otherwise generate new one
     id: existingIndex !== -1 ? templates[existingIndex].id : crypto.randomUUID(),
     name,
@@ -139,7 +160,7 @@ export function deleteTemplate(id: string): boolean {
 
 // Expand a slotList component into concrete components with full data paths
 export function expandSlotList(
-  slotListComponent: ComponentConfig,
+  slotListComponent: ComponentConfigOfType<'slotList'>,
   template: SlotTemplate
 ): ComponentConfig[] {
   const props = slotListComponent.props || {};
@@ -190,25 +211,26 @@ export function expandSlotList(
         props: templateComp.props ? { ...templateComp.props } : {},
       };
 
-      // Prefix data paths
-      if (clonedComp.props?.dataPath && clonedComp.props.dataPath !== 'none') {
-        clonedComp.props.dataPath = `${dataPathPrefix}.${team}.slot${i}.${clonedComp.props.dataPath}`;
+      // Prefix data paths (expressions get every path they reference prefixed)
+      const slotPrefix = `${dataPathPrefix}.${team}.slot${i}`;
+      if (isDataDisplayComponent(clonedComp) && clonedComp.props?.dataPath && clonedComp.props.dataPath !== 'none') {
+        clonedComp.props.dataPath = prefixDataExpression(clonedComp.props.dataPath, slotPrefix);
       }
 
       // Prefix visibility paths (if template component has one)
       if (clonedComp.props?.visibilityPath) {
-        clonedComp.props.visibilityPath = `${dataPathPrefix}.${team}.slot${i}.${clonedComp.props.visibilityPath}`;
+        clonedComp.props.visibilityPath = prefixDataExpression(clonedComp.props.visibilityPath, slotPrefix);
       }
       // If hideInactiveSlots is enabled and component doesn't already have a visibilityPath,
       // add one that binds to the slot's active field
       else if (hideInactiveSlots) {
         clonedComp.props = clonedComp.props || {};
-        clonedComp.props.visibilityPath = `${dataPathPrefix}.${team}.slot${i}.active`;
+        clonedComp.props.visibilityPath = `${slotPrefix}.active`;
       }
 
-      // Prefix toggle data paths (if template component has one)
-      if (clonedComp.props?.toggleDataPath) {
-        clonedComp.props.toggleDataPath = `${dataPathPrefix}.${team}.slot${i}.${clonedComp.props.toggleDataPath}`;
+      // Prefix style rule conditions so they read the slot's data
+      if (isDataDisplayComponent(clonedComp) && clonedComp.props?.styleRules) {
+        clonedComp.props.styleRules = prefixStyleRules(clonedComp.props.styleRules, slotPrefix);
       }
 
       expandedComponents.push(clonedComp);
@@ -225,7 +247,7 @@ export function expandLayoutForExport(components: ComponentConfig[]): ComponentC
   components.forEach(comp => {
     if (comp.type === 'slotList') {
       // Try to get template by ID first, then fallback to name for imported layouts
-      const template = getTemplate(comp.props?.templateId, comp.props?.templateName);
+      const template = getTemplate(comp.props?.templateId ?? '', comp.props?.templateName);
       if (template) {
         expandedComponents.push(...expandSlotList(comp, template));
       }
@@ -251,12 +273,13 @@ export function repairTemplateReferences(components: ComponentConfig[]): {
 
   const repairedComponents = components.map(comp => {
     if (comp.type === 'slotList' && comp.props?.templateId) {
+      const { templateId, templateName } = comp.props;
       // Check if template exists by ID
-      const existsById = templates.find(t => t.id === comp.props.templateId);
+      const existsById = templates.find(t => t.id === templateId);
       if (!existsById) {
         // Try to find by name if templateName is stored
-        if (comp.props.templateName) {
-          const byName = templates.find(t => t.name === comp.props.templateName);
+        if (templateName) {
+          const byName = templates.find(t => t.name === templateName);
           if (byName) {
             repaired++;
             return {
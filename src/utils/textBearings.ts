@@ -6,18 +6,7 @@
 // can position text identically without needing its own measurement API.
 // =============================================================================
 
-// Font family mapping (matches CustomDataDisplay FONT_CONFIG)
-const FONT_FAMILY_MAP: Record<string, string> = {
-  'Score-Regular': 'Score-Regular',
-  'Helvetica-Bold': 'Helvetica, Arial, sans-serif',
-  'Inter-Bold': 'Inter-Bold',
-  'Roboto-Bold': 'Roboto-Bold',
-  'Montserrat-Bold': 'Montserrat-Bold',
-  'Oswald-Bold': 'Oswald-Bold',
-  'BebasNeue': 'BebasNeue',
-  'Anton': 'Anton',
-  'Teko-Bold': 'Teko-Bold',
-};
+import { getFontConfig } from '../shared/components/customDataDisplay/fontConfig';
 
 /**
  * Measure the left and right bearing of text using Canvas TextMetrics.
@@ -25,12 +14,16 @@ const FONT_FAMILY_MAP: Record<string, string> = {
  * @param text - The text to measure
  * @param fontFamily - Font family key (e.g., 'Score-Regular')
  * @param fontSize - Font size in pixels
+ * @param letterSpacing - Extra pixels after each character (as rendered by CustomDataDisplay)
+ * @param fontWeight - Numeric font weight (default bold)
  * @returns Object with leftBearing and rightBearing in pixels
  */
 export function measureTextBearings(
   text: string,
   fontFamily: string,
-  fontSize: number
+  fontSize: number,
+  letterSpacing: number = 0,
+  fontWeight: number = 700
 ): { leftBearing: number; rightBearing: number } {
   if (typeof document === 'undefined' || !text) {
     return { leftBearing: 0, rightBearing: 0 };
@@ -42,17 +35,20 @@ export function measureTextBearings(
     return { leftBearing: 0, rightBearing: 0 };
   }
 
-  // Map font family key to actual CSS font
-  const cssFontFamily = FONT_FAMILY_MAP[fontFamily] || fontFamily;
-  ctx.font = `bold ${fontSize}px ${cssFontFamily}`;
+  // Map font family key to actual CSS font (custom fonts included)
+  const cssFontFamily = getFontConfig(fontFamily).web;
+  ctx.font = `${fontWeight} ${fontSize}px ${cssFontFamily}`;
   const metrics = ctx.measureText(text);
 
   // Left bearing: distance from origin to leftmost pixel
   const leftBearing = metrics.actualBoundingBoxLeft || 0;
 
   // Right bearing: distance from rightmost pixel to end of advance width
-  const advanceWidth = metrics.width || 0;
-  const actualBoundingBoxRight = metrics.actualBoundingBoxRight || advanceWidth;
+  // Letter spacing is added after every character, so the advance grows by
+  // letterSpacing per character and the last glyph ends letterSpacing before it
+  const spacing = letterSpacing * (Array.from(text).length - 1);
+  const advanceWidth = (metrics.width || 0) + spacing + letterSpacing;
+  const actualBoundingBoxRight = (metrics.actualBoundingBoxRight || metrics.width || 0) + spacing;
   const rightBearing = Math.max(0, advanceWidth - actualBoundingBoxRight);
 
   return {
@@ -0,0 +1,138 @@
+import { LayoutConfig } from '../types';
+import { getScenes, getSceneLayout, getActiveSceneId } from './scenes';
+import { getTvBaseUrl, TV_PORT } from './tvTransfer';
+
+// The venue's TVs (main board, corner displays, concourse screens), kept in
+// localStorage so addresses don't have to be re-typed at every visit. Each device
+// runs one layout type; sending to it sends the scene with that layout type.
+
+const DEVICES_STORAGE_KEY = 'sv-tv-devices';
+
+const PING_TIMEOUT_MS = 3000;
+
+export interface TvDevice {
+  id: string;
+  name: string;
+  address: string; // Host or IP, without the port
+  port: number;
+  width: number;
+  height: number;
+  layoutType: string; // Scene name to send; empty sends whichever scene is being edited
+  lastSentAt?: string; // ISO timestamp of the last successful send
+  lastSentLayout?: string; // Layout type that was sent
+  lastSentVersion?: string; // SHA-256 of the layout JSON that was sent
+}
+
+export type TvDeviceInput = Omit<TvDevice, 'id' | 'lastSentAt' | 'lastSentLayout' | 'lastSentVersion'>;
+
+export interface TvDeviceHealth {
+  online: boolean;
+  latencyMs?: number;
+  loadedVersion?: string; // SHA-256 of the layout the TV reports it is showing
+  error?: string;
+}
+
+export const DEFAULT_TV_DEVICE: TvDeviceInput = {
+  name: '',
+  address: '',
+  port: TV_PORT,
+  width: 1920,
+  height: 1080,
+  layoutType: '',
+};
+
+function writeDevices(devices: TvDevice[]): void {
+  try {
+    localStorage.setItem(DEVICES_STORAGE_KEY, JSON.stringify(devices));
+  } catch {
+    throw new Error('Not enough browser storage left for the device list');
+  }
+}
+
+export function loadTvDevices(): TvDevice[] {
+  try {
+    const stored = localStorage.getItem(DEVICES_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Add a device, or update the one with `id`; returns the new list
+export function saveTvDevice(input: TvDeviceInput, id?: string): TvDevice[] {
+  const name = input.name.trim();
+  // An address pasted as "http://192.168.1.20:3081" keeps its port
+  const [address, typedPort] = input.address.trim().replace(/^https?:\/\//, '').replace(/\/.*$/, '').split(':');
+  const port = typedPort ? Number(typedPort) : input.port;
+  if (!name) throw new Error('Give the device a name');
+  if (!address) throw new Error(`Enter the IP address of "${name}"`);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error('Port must be 1-65535');
+  if (!(input.width > 0) || !(input.height > 0)) throw new Error('Resolution must be positive');
+
+  const devices = loadTvDevices();
+  if (devices.some(device => device.id !== id && device.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`There is already a device called "${name}"`);
+  }
+  const existing = devices.find(device => device.id === id);
+  const device: TvDevice = {
+    ...existing,
+    ...input,
+    name,
+    address,
+    port,
+    id: existing?.id ?? `tv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  };
+  const updated = existing ? devices.map(d => (d.id === device.id ? device : d)) : [...devices, device];
+  writeDevices(updated);
+  return updated;
+}
+
+export function deleteTvDevice(id: string): TvDevice[] {
+  const updated = loadTvDevices().filter(device => device.id !== id);
+  writeDevices(updated);
+  return updated;
+}
+
+// Note a successful send; returns the new list
+export function recordTvSend(id: string, layoutType: string, sha256: string): TvDevice[] {
+  const updated = loadTvDevices().map(device => device.id === id
+    ? { ...device, lastSentAt: new Date().toISOString(), lastSentLayout: layoutType, lastSentVersion: sha256 }
+    : device);
+  writeDevices(updated);
+  return updated;
+}
+
+export const getTvDeviceUrl = (device: TvDevice) => getTvBaseUrl(device.address, device.port);
+
+// Short form of a layout hash for display ("v3f9a1c2e")
+export const formatLayoutVersion = (sha256: string) => `v${sha256.slice(0, 8)}`;
+
+// The scene a device should show, or null when the layout has no scene of its layout type
+export function getDeviceSceneLayout(layout: LayoutConfig, device: TvDevice): LayoutConfig | null {
+  const sceneId = device.layoutType
+    ? getScenes(layout).find(scene => scene.name === device.layoutType)?.id
+    : getActiveSceneId(layout);
+  return sceneId ? getSceneLayout(layout, sceneId) : null;
+}
+
+/**
+ * Check a TV is reachable. TV apps that report status (GET /status with
+ * { layout: { sha256 } }) also say which layout they are showing; older ones
+ * count as online if they answer at all.
+ */
+export async function pingTvDevice(device: TvDevice): Promise<TvDeviceHealth> {
+  const abort = new AbortController();
+  const timeout = setTimeout(() => abort.abort(), PING_TIMEOUT_MS);
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(`${getTvDeviceUrl(device)}/status`, { signal: abort.signal, cache: 'no-store' });
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const status = response.ok ? await response.json().catch(() => null) : null;
+    return { online: true, latencyMs, loadedVersion: status?.layout?.sha256 };
+  } catch (error) {
+    return { online: false, error: abort.signal.aborted ? `No answer in ${PING_TIMEOUT_MS / 1000}s` : (error as Error).message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,361 @@
+// =============================================================================
+// TV EXPORT SERIALIZER
+// =============================================================================
+// Turns an editor layout into the document the TV app loads, as described by the
+// TV export schema (utils/exportSchema). The Export modal's TV export and the
+// network send (utils/tvPayload: Send to TVs, Compare, watch mode) both go
+// through cleanLayoutForExport, so a layout looks the same on a TV whichever way
+// it got there and the checksum the TV echoes covers that same document. Both run
+// the checks at the bottom of this file before handing a document out.
+// =============================================================================
+
+import { LayoutConfig, ComponentConfig, ComponentAnimation, StyleRule } from '../types';
+import { findDataPathIssues } from './gameDataPaths';
+import { lintLayout, formatLintProblem } from './layoutLinter';
+import { expandLayoutForExport } from './slotTemplates';
+import { resolveTokensForExport } from './designTokens';
+import { EXPORT_PROP_DEFAULTS } from './exportSchema';
+import { normalizeRotation } from './rotation';
+import { collectFontFamilies } from './customFonts';
+import { measureTextBearings, getSampleTextForBearing } from './textBearings';
+import { filterTimeline } from '../shared/timeline';
+import { normalizeGradient } from '../shared/components/customDataDisplay/gradients';
+import { cleanFormatOptions } from '../shared/components/customDataDisplay/valueFormat';
+import { ANIMATION_DEFAULTS } from '../shared/components/customDataDisplay/animations';
+import { hasTextShadow, TEXT_EFFECT_DEFAULTS } from '../shared/components/customDataDisplay/textEffects';
+import { fitFontSize, createTextMeasurer, TEXT_LAYOUT_DEFAULTS } from '../shared/components/customDataDisplay/textLayout';
+import { getFontConfig } from '../shared/components/customDataDisplay/fontConfig';
+
+// Effect-specific animation settings; other effects ignore them
+const ANIMATION_EFFECT_FIELDS: Record<string, (keyof ComponentAnimation)[]> = {
+  flash: ['color'],
+  pulse: ['scale'],
+  slide: ['direction', 'distance'],
+};
+
+// Keep only the settings an animation's effect uses, minus values equal to their default
+function cleanAnimation(animation: ComponentAnimation): ComponentAnimation {
+  const options: Record<string, unknown> = { ...animation };
+  const defaults: Record<string, unknown> = ANIMATION_DEFAULTS;
+  const cleaned: Record<string, unknown> = {
+    id: animation.id,
+    trigger: animation.trigger,
+    effect: animation.effect,
+    duration: Math.round(animation.duration),
+  };
+  ['delay', 'easing', ...(ANIMATION_EFFECT_FIELDS[animation.effect] || [])].forEach(key => {
+    if (options[key] !== undefined && options[key] !== defaults[key]) cleaned[key] = options[key];
+  });
+  return cleaned as unknown as ComponentAnimation;
+}
+
+// A component's animations as the TV gets them; animations with no duration never play
+function cleanAnimations(animations: ComponentAnimation[] | undefined): ComponentAnimation[] {
+  return (animations || []).filter(animation => animation.duration > 0).map(cleanAnimation);
+}
+
+// Components showing an image and no bound text value
+function isImageOnly(props: Record<string, any>): boolean {
+  const hasImage = !!(props.imagePath || props.imageUrl);
+  const hasTextDataPath = props.dataPath && props.dataPath !== 'none' && props.dataPath !== '';
+  return hasImage && !hasTextDataPath;
+}
+
+interface MeasuredTextProps {
+  fittedFontSize?: number; // Auto-fit font size for the widest expected value
+  measuredLeftBearing?: number; // Glyph bearings at the alignment edge of left/right aligned text
+  measuredRightBearing?: number;
+}
+
+// Text measurements the TV app can't make itself, taken with the same measurement
+// the preview uses
+function measureTextForTv(props: Record<string, any>, box: { width: number; height: number }): MeasuredTextProps {
+  const hasTextContent = props.dataPath || props.customText;
+  if (isImageOnly(props) || !hasTextContent) return {};
+
+  const measured: MeasuredTextProps = {};
+  const textAlign = props.textAlign || 'center';
+  let fontSize = props.fontSize || 24;
+
+  // Resolve auto-fit for the widest expected value (or a representative sample); the
+  // fit parameters still go out for the TV to refit values wider than that
+  if (props.autoFitText) {
+    const sampleText = props.autoFitSampleText
+      ? `${props.prefix || ''}${props.autoFitSampleText}${props.suffix || ''}`
+      : getSampleTextForBearing(props);
+    const cssFontFamily = getFontConfig(props.fontFamily || 'Score-Regular').web;
+    fontSize = fitFontSize(
+      [sampleText],
+      size => createTextMeasurer(cssFontFamily, size, props.fontWeight ?? TEXT_EFFECT_DEFAULTS.fontWeight, props.letterSpacing || 0),
+      {
+        fontSize,
+        minFontScale: props.minFontScale,
+        maxWidth: box.width - (props.paddingLeft || 0) - (props.paddingRight || 0),
+        maxHeight: box.height - (props.paddingTop || 0) - (props.paddingBottom || 0),
+        lineHeight: props.lineHeight || TEXT_LAYOUT_DEFAULTS.lineHeight,
+        wrap: props.wrapText,
+        maxLines: props.maxLines,
+      }
+    );
+    measured.fittedFontSize = fontSize;
+  }
+
+  // Bearings for non-center aligned text, so the TV app can position it identically
+  // without its own measurement API
+  if (textAlign === 'left' || textAlign === 'right') {
+    // Lines share the alignment edge, so the first line stands in for all of them
+    const sampleText = getSampleTextForBearing(props).split(/\r?\n/)[0];
+    const bearings = measureTextBearings(sampleText, props.fontFamily || 'Score-Regular', fontSize, props.letterSpacing || 0, props.fontWeight);
+    measured.measuredLeftBearing = bearings.leftBearing;
+    measured.measuredRightBearing = bearings.rightBearing;
+  }
+
+  return measured;
+}
+
+// Clean up component props to remove unnecessary/default values
+export function cleanComponentProps(component: ComponentConfig): ComponentConfig {
+  // Round position and size values to prevent sub-pixel rendering differences
+  const roundedComponent = {
+    ...component,
+    position: {
+      x: Math.round(component.position.x),
+      y: Math.round(component.position.y),
+    },
+    size: {
+      width: Math.round(component.size.width),
+      height: Math.round(component.size.height),
+    },
+  };
+
+  // Rotation in (-180, 180]; unrotated components omit it
+  const rotation = normalizeRotation(component.rotation || 0);
+  if (rotation !== 0) {
+    roundedComponent.rotation = rotation;
+  } else {
+    delete roundedComponent.rotation;
+  }
+
+  const animations = cleanAnimations(component.animations);
+  if (animations.length > 0) {
+    roundedComponent.animations = animations;
+  } else {
+    delete roundedComponent.animations;
+  }
+
+  if (!roundedComponent.props) return roundedComponent;
+
+  const props: Record<string, any> = { ...roundedComponent.props };
+
+  // Set imageSource based on what's available:
+  // - If imageUrl is set -> 'url'
+  // - If imagePath is set -> 'local'
+  // - Otherwise -> 'none'
+  if (props.imageUrl) {
+    props.imageSource = 'url';
+  } else if (props.imagePath) {
+    props.imageSource = 'local';
+  } else if (!props.imageSource) {
+    props.imageSource = 'none';
+  }
+
+  const imageOnly = isImageOnly(props);
+
+  // Fitted font size and text bearings, which the TV app can't measure itself
+  Object.assign(props, measureTextForTv(props, roundedComponent.size));
+
+  // Remove empty strings
+  const emptyStringProps = ['label', 'prefix', 'suffix', 'imagePath', 'imageUrl'];
+  emptyStringProps.forEach(key => {
+    if (props[key] === '') delete props[key];
+  });
+
+  // Remove zero padding if all are zero
+  const paddingProps = ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'];
+  const allPaddingZero = paddingProps.every(key => !props[key] || props[key] === 0);
+  if (allPaddingZero) {
+    paddingProps.forEach(key => delete props[key]);
+  }
+
+  // Remove zero border radius if all are zero
+  const radiusProps = ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius'];
+  const allRadiusZero = radiusProps.every(key => !props[key] || props[key] === 0);
+  if (allRadiusZero) {
+    radiusProps.forEach(key => delete props[key]);
+  }
+
+  // Remove border-related props when borderWidth is 0
+  if (!props.borderWidth || props.borderWidth === 0) {
+    delete props.borderWidth;
+    delete props.borderColor;
+    delete props.borderStyle;
+    delete props.borderTopWidth;
+    delete props.borderRightWidth;
+    delete props.borderBottomWidth;
+    delete props.borderLeftWidth;
+  }
+
+  // Format options go out only when they change something for the component's format
+  const formatOptions = cleanFormatOptions(props.format, props.formatOptions);
+  if (formatOptions) {
+    props.formatOptions = formatOptions;
+  } else {
+    delete props.formatOptions;
+  }
+
+  // Remove text effect colors when the effect they belong to is off
+  if (!props.textStrokeWidth) {
+    delete props.textStrokeWidth;
+    delete props.textStrokeColor;
+  }
+  if (!hasTextShadow(props)) {
+    delete props.textShadowOffsetX;
+    delete props.textShadowOffsetY;
+    delete props.textShadowBlur;
+    delete props.textShadowColor;
+  }
+  if (!props.textGlowRadius) {
+    delete props.textGlowRadius;
+    delete props.textGlowColor;
+  }
+
+  // Remove text-related props for image-only components
+  if (imageOnly) {
+    const textProps = [
+      'fontSize', 'textColor', 'textAlign', 'format', 'formatOptions', 'label', 'prefix', 'suffix', 'fontFamily', 'autoFitText',
+      'minFontScale', 'autoFitSampleText',
+      'fontWeight', 'letterSpacing', 'textStrokeWidth', 'textStrokeColor', 'textShadowOffsetX', 'textShadowOffsetY',
+      'textShadowBlur', 'textShadowColor', 'textGlowRadius', 'textGlowColor',
+      'wrapText', 'maxLines', 'lineHeight', 'verticalAlign',
+    ];
+    textProps.forEach(key => delete props[key]);
+  }
+
+  // Remove default values that don't need to be specified (the TV export schema documents these)
+  Object.entries(EXPORT_PROP_DEFAULTS).forEach(([key, defaultValue]) => {
+    if (props[key] === defaultValue) delete props[key];
+  });
+
+  // Remove transparent/none background (it's effectively the default)
+  // Also check for rgba with 0 alpha (e.g., "rgba(155, 89, 181, 0)")
+  const isTransparentBg = (color: string | undefined) => {
+    if (!color) return true;
+    if (color === 'transparent' || color === 'none') return true;
+    // Check for rgba with 0 alpha
+    const rgbaMatch = color.match(/rgba\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*,\s*0\s*\)/i);
+    if (rgbaMatch) return true;
+    return false;
+  };
+  if (isTransparentBg(props.backgroundColor)) delete props.backgroundColor;
+
+  // Gradients go out with sorted, clamped stops; ones with fewer than two stops draw nothing
+  const backgroundGradient = normalizeGradient(props.backgroundGradient);
+  if (backgroundGradient) {
+    props.backgroundGradient = backgroundGradient;
+  } else {
+    delete props.backgroundGradient;
+  }
+
+  // Rules without a condition never apply, so they don't need exporting
+  if (props.styleRules) {
+    props.styleRules = props.styleRules
+      .filter((rule: StyleRule) => rule.when?.trim())
+      .map((rule: StyleRule) => rule.set.backgroundGradient
+        ? { ...rule, set: { ...rule.set, backgroundGradient: normalizeGradient(rule.set.backgroundGradient) } }
+        : rule);
+    if (props.styleRules.length === 0) delete props.styleRules;
+  }
+
+  return { ...roundedComponent, props };
+}
+
+// Normalize layer values so siblings have unique values reflecting their visual order
+// This ensures the TV app renders components in the same z-order as the Layout Builder
+export function normalizeLayerValues(components: ComponentConfig[]): ComponentConfig[] {
+  // Group components by parentId
+  const byParent = new Map<string | undefined, ComponentConfig[]>();
+
+  components.forEach(comp => {
+    const parentId = comp.parentId;
+    if (!byParent.has(parentId)) {
+      byParent.set(parentId, []);
+    }
+    byParent.get(parentId)!.push(comp);
+  });
+
+  // For each group of siblings, normalize their layer values
+  const layerUpdates = new Map<string, number>();
+
+  byParent.forEach((siblings) => {
+    if (siblings.length <= 1) return; // No normalization needed for single components
+
+    // Sort siblings by layer (descending) - higher layer = renders on top = first in list
+    // For equal layers, maintain original array order (which is the order they appear in components array)
+    const sortedSiblings = [...siblings].sort((a, b) => {
+      const layerDiff = (b.layer ?? 0) - (a.layer ?? 0);
+      if (layerDiff !== 0) return layerDiff;
+      // For equal layers, use original array position
+      return components.indexOf(a) - components.indexOf(b);
+    });
+
+    // Assign unique layer values: first gets highest (length-1), last gets 0
+    sortedSiblings.forEach((comp, index) => {
+      const newLayer = sortedSiblings.length - 1 - index;
+      layerUpdates.set(comp.id, newLayer);
+    });
+  });
+
+  // Apply layer updates to components
+  return components.map(comp => {
+    const newLayer = layerUpdates.get(comp.id);
+    if (newLayer !== undefined && newLayer !== comp.layer) {
+      return { ...comp, layer: newLayer };
+    }
+    return comp;
+  });
+}
+
+// Clean one scene layout (see getSceneLayout) for the TV: slot lists expanded into
+// concrete components, design tokens resolved, props cleaned as above
+export function cleanLayoutForExport(layout: LayoutConfig): LayoutConfig & { fonts: string[] } {
+  // First expand any slotList components into concrete components, then resolve
+  // design tokens to literal values (the TV app doesn't know about tokens)
+  const { tokens, ...layoutWithoutTokens } = layout;
+  const expandedComponents = resolveTokensForExport(expandLayoutForExport(layout.components), tokens)
+    // Scene membership is resolved by getSceneLayout before export
+    .map(({ sceneIds: _sceneIds, ...comp }) => comp as ComponentConfig);
+
+  // Normalize layer values to ensure siblings have unique z-index values
+  const normalizedComponents = normalizeLayerValues(expandedComponents);
+
+  // Keyframe tracks only for exported components (slotList tracks have no exported component)
+  const timeline = filterTimeline(layout.timeline, new Set(normalizedComponents.map(comp => comp.id)));
+
+  const components = normalizedComponents.map(cleanComponentProps);
+
+  return {
+    ...layoutWithoutTokens,
+    backgroundGradient: normalizeGradient(layout.backgroundGradient),
+    timeline,
+    // Lets the TV app check it has every font before showing the layout
+    fonts: collectFontFamilies(components),
+    components,
+  };
+}
+
+// Linter errors in the editor layout - the TV would show something broken. The whole
+// layout is linted whichever scenes go out (warnings stay in the Problems panel).
+export function findExportLintErrors(layout: LayoutConfig): string[] {
+  return lintLayout(layout).filter(problem => problem.severity === 'error').map(formatLintProblem);
+}
+
+// Bindings to fields the layout's sport doesn't send. Scene layouts are named after
+// the scene (timeout, halftime...), so the main layout's type decides the sport.
+export function findExportDataPathIssues(payload: LayoutConfig | { layouts: LayoutConfig[] }, layoutType: string) {
+  if ('layouts' in payload) {
+    return payload.layouts.flatMap((sceneLayout, index) =>
+      findDataPathIssues(sceneLayout.components, layoutType, `layouts[${index}].components`)
+    );
+  }
+  return findDataPathIssues(payload.components, layoutType);
+}
@@ -0,0 +1,27 @@
+import { LayoutConfig } from '../types';
+import { validateTvExport } from './exportSchema';
+import { formatValidationIssue } from './layoutValidation';
+import { cleanLayoutForExport, findExportDataPathIssues } from './tvExport';
+
+// Builds the layout JSON the TV app loads from one scene of the editor layout,
+// and the checks to run on it before it goes over the network - the Export modal's
+// checks (the whole layout is linted once with findExportLintErrors, as it does).
+
+export interface TvPayloadChecks {
+  schemaIssues: string[]; // Payload doesn't match the TV export schema - the TV may reject it
+  dataPathIssues: string[]; // Bindings to fields the TV app won't send
+}
+
+// Payload for a scene layout (see getSceneLayout) - the same document the Export
+// modal's TV export writes for that scene
+export function buildTvPayload(sceneLayout: LayoutConfig) {
+  return cleanLayoutForExport(sceneLayout);
+}
+
+// layout is the full editor layout: its type (not the scene's name) decides the sport
+export function checkTvPayload(layout: LayoutConfig, payload: ReturnType<typeof buildTvPayload>): TvPayloadChecks {
+  return {
+    schemaIssues: validateTvExport(payload).map(formatValidationIssue),
+    dataPathIssues: findExportDataPathIssues(payload, layout.name).map(formatValidationIssue),
+  };
+}
@@ -0,0 +1,387 @@
+// =============================================================================
+// TV TRANSFER PROTOCOL
+// =============================================================================
+// Sends a layout to the TV app's HTTP server (port 3080) in small gzip-compressed
+// chunks, so large layouts survive flaky venue networks:
+//
+//   POST /layout/transfers                 { sha256, size, rawSize, encoding, chunkSize, chunkCount }
+//                                          -> { transferId, receivedChunks: number[] }
+//   PUT  /layout/transfers/{id}/chunks/{n} chunk bytes, X-Chunk-SHA256 header
+//                                          -> 200, or an error status with { error }
+//   POST /layout/transfers/{id}/complete   -> { sha256 } once the TV has unzipped,
+//                                             hashed and loaded the layout
+//   GET  /layout                           -> the layout JSON the TV is showing
+//
+// Watch mode keeps a session open and sends only what changed (see openTvWatchSession):
+//
+//   POST   /layout/session                 -> { sessionId }
+//   POST   /layout/session/{id}/delta      LayoutDelta -> { sha256 }, or 409 when the TV's layout
+//                                          isn't the delta's base (the builder then resends in full)
+//   DELETE /layout/session/{id}
+//
+// `sha256` is the hash of the uncompressed layout JSON; the TV echoes the hash of
+// what it rebuilt and the send only succeeds if the two match. The TV keys
+// transfers by that hash, so sending the same layout again after a failure
+// resumes with the chunks it is missing. TVs without the protocol (404 on the
+// first request) get the layout in one POST /layout as before.
+//
+// server/mock-tv-server.mjs implements the TV side for testing.
+// =============================================================================
+
+export const TV_PORT = 3080;
+
+// Small enough to get through venue Wi-Fi in one go, large enough to keep the request count low
+const CHUNK_SIZE = 64 * 1024;
+
+// Waits before retrying a chunk that failed on the network or with a server error
+const CHUNK_RETRY_DELAYS_MS = [500, 1500, 4000];
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+export type TvTransferPhase = 'preparing' | 'uploading' | 'verifying';
+
+export interface TvTransferProgress {
+  phase: TvTransferPhase;
+  sentBytes: number;
+  totalBytes: number;
+}
+
+export interface TvTransferResult {
+  sha256: string;
+  rawBytes: number;
+  sentBytes: number; // Compressed size; chunks the TV already had count too
+  resumedChunks: number; // Chunks the TV already had from an earlier attempt
+  compressed: boolean;
+  legacy: boolean; // The TV doesn't speak the protocol and got a single POST
+}
+
+// Base URL of the TV app's server for an address typed as "192.168.1.20" or "192.168.1.20:3081"
+export function getTvBaseUrl(address: string, port = TV_PORT): string {
+  const [host, typedPort] = address.trim().replace(/^https?:\/\//, '').split(':');
+  return `http://${host}:${Number(typedPort) || port}`;
+}
+
+export async function sha256Hex(data: Bytes): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// gzip with the browser's CompressionStream; null where the browser doesn't have it
+async function gzip(data: Bytes): Promise<Bytes | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request(url: string, init: RequestInit): Promise<Response> {
+  const abort = new AbortController();
+  const timeout = setTimeout(() => abort.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: abort.signal });
+  } catch (error) {
+    if (abort.signal.aborted) throw new Error(`No answer from the TV after ${REQUEST_TIMEOUT_MS / 1000}s`);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// The TV's error text: { error } JSON, plain text, or just the status
+async function describeFailure(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  let reason = text.trim();
+  try {
+    reason = JSON.parse(text).error || reason;
+  } catch {
+    // Not JSON - use the text as is
+  }
+  return `HTTP ${response.status}${reason ? `: ${reason}` : ''}`;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw Object.assign(new Error(await describeFailure(response)), { status: response.status });
+  return response.json();
+}
+
+// Errors worth retrying: network failures, timeouts, rate limiting and server errors
+const isRetryable = (status: number | undefined) => status === undefined || status === 408 || status === 429 || status >= 500;
+
+async function sendLegacy(baseUrl: string, json: string, raw: Bytes, sha256: string): Promise<TvTransferResult> {
+  const response = await request(`${baseUrl}/layout`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: json,
+  });
+  if (!response.ok) throw new Error(`The TV rejected the layout (${await describeFailure(response)})`);
+  return { sha256, rawBytes: raw.length, sentBytes: raw.length, resumedChunks: 0, compressed: false, legacy: true };
+}
+
+async function uploadChunk(url: string, chunk: Bytes, index: number, chunkCount: number): Promise<void> {
+  const checksum = await sha256Hex(chunk);
+  for (let attempt = 0; ; attempt++) {
+    let status: number | undefined;
+    let reason: string;
+    try {
+      const response = await request(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'X-Chunk-SHA256': checksum },
+        body: chunk,
+      });
+      if (response.ok) return;
+      status = response.status;
+      reason = await describeFailure(response);
+    } catch (error) {
+      reason = (error as Error).message;
+    }
+    if (!isRetryable(status) || attempt >= CHUNK_RETRY_DELAYS_MS.length) {
+      throw new Error(`The TV rejected chunk ${index + 1} of ${chunkCount} (${reason})`);
+    }
+    console.warn(`TV transfer: chunk ${index + 1}/${chunkCount} failed (${reason}), retrying`);
+    await delay(CHUNK_RETRY_DELAYS_MS[attempt]);
+  }
+}
+
+/**
+ * Send layout JSON to the TV at `baseUrl` (see getTvBaseUrl). Resolves once the
+ * TV has echoed the checksum of what it loaded; rejects with a message naming
+ * the step, and chunk, that failed.
+ */
+export async function transferLayoutToTv(
+  baseUrl: string,
+  json: string,
+  onProgress: (progress: TvTransferProgress) => void = () => {}
+): Promise<TvTransferResult> {
+  const raw = new TextEncoder().encode(json);
+  onProgress({ phase: 'preparing', sentBytes: 0, totalBytes: raw.length });
+  const [sha256, compressed] = await Promise.all([sha256Hex(raw), gzip(raw)]);
+  const body = compressed ?? raw;
+  const chunkCount = Math.max(1, Math.ceil(body.length / CHUNK_SIZE));
+
+  let transfer: { transferId: string; receivedChunks?: number[] };
+  try {
+    transfer = await postJson(`${baseUrl}/layout/transfers`, {
+      sha256,
+      size: body.length,
+      rawSize: raw.length,
+      encoding: compressed ? 'gzip' : 'identity',
+      chunkSize: CHUNK_SIZE,
+      chunkCount,
+    });
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      console.warn('TV transfer: the TV app has no chunked transfer endpoint, sending in one request');
+      return sendLegacy(baseUrl, json, raw, sha256);
+    }
+    throw new Error(`Could not start the transfer (${(error as Error).message})`);
+  }
+
+  const transferUrl = `${baseUrl}/layout/transfers/${encodeURIComponent(transfer.transferId)}`;
+  const alreadyReceived = new Set(transfer.receivedChunks ?? []);
+  const chunkBytes = (index: number) => Math.min(CHUNK_SIZE, body.length - index * CHUNK_SIZE);
+  let sentBytes = Array.from(alreadyReceived).reduce((total, index) => total + chunkBytes(index), 0);
+  onProgress({ phase: 'uploading', sentBytes, totalBytes: body.length });
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (alreadyReceived.has(index)) continue;
+    const chunk = body.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+    await uploadChunk(`${transferUrl}/chunks/${index}`, chunk, index, chunkCount);
+    sentBytes += chunk.length;
+    onProgress({ phase: 'uploading', sentBytes, totalBytes: body.length });
+  }
+
+  onProgress({ phase: 'verifying', sentBytes, totalBytes: body.length });
+  let echo: { sha256?: string };
+  try {
+    echo = await postJson(`${transferUrl}/complete`, {});
+  } catch (error) {
+    throw new Error(`The TV could not load the layout (${(error as Error).message})`);
+  }
+  if (echo.sha256 !== sha256) {
+    throw new Error(`Checksum mismatch - the TV loaded ${echo.sha256?.slice(0, 12) ?? 'nothing'}..., expected ${sha256.slice(0, 12)}...`);
+  }
+
+  return {
+    sha256,
+    rawBytes: raw.length,
+    sentBytes: body.length,
+    resumedChunks: alreadyReceived.size,
+    compressed: compressed !== null,
+    legacy: false,
+  };
+}
+
+export interface TvLayoutSnapshot {
+  layout: Record<string, any>;
+  sha256: string; // Hash of the JSON as the TV returned it - matches the hash recorded when it was sent
+}
+
+// The layout the TV is currently showing, exactly as it was sent
+export async function fetchTvLayout(baseUrl: string): Promise<TvLayoutSnapshot> {
+  const response = await request(`${baseUrl}/layout`, { method: 'GET', cache: 'no-store' });
+  if (response.status === 404) throw new Error('The TV has no layout loaded, or its app is too old to send it back');
+  if (!response.ok) throw new Error(`The TV could not send its layout (${await describeFailure(response)})`);
+  const raw = new Uint8Array(await response.arrayBuffer());
+  let layout: Record<string, any>;
+  try {
+    layout = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new Error('The TV sent back something that is not layout JSON');
+  }
+  return { layout, sha256: await sha256Hex(raw) };
+}
+
+// -----------------------------------------------------------------------------
+// Watch sessions
+// -----------------------------------------------------------------------------
+
+// Delay before retrying after a failed watch update
+const WATCH_RETRY_DELAYS_MS = [2000, 5000, 10000, 30000];
+
+/**
+ * Changes between two payloads. The TV rebuilds the layout as `layout` with its
+ * `components: null` placeholder replaced by `componentIds` in order - upserted
+ * components where given, its own copy otherwise - and checks the JSON of the
+ * result hashes to `sha256`.
+ */
+export interface LayoutDelta {
+  baseSha256: string;
+  sha256: string;
+  layout: Record<string, unknown>;
+  componentIds: string[];
+  upsert: Record<string, unknown>[];
+}
+
+export function buildLayoutDelta(
+  base: { payload: Record<string, any>; sha256: string },
+  payload: Record<string, any>,
+  sha256: string
+): LayoutDelta {
+  const baseComponents = new Map<string, string>(
+    (base.payload.components || []).map((component: Record<string, any>) => [component.id, JSON.stringify(component)])
+  );
+  const components: Record<string, any>[] = payload.components || [];
+  return {
+    baseSha256: base.sha256,
+    sha256,
+    layout: { ...payload, components: null },
+    componentIds: components.map(component => component.id),
+    upsert: components.filter(component => baseComponents.get(component.id) !== JSON.stringify(component)),
+  };
+}
+
+export type TvWatchStatus = 'connecting' | 'sending' | 'live' | 'error';
+
+export interface TvWatchHandlers {
+  onStatus: (status: TvWatchStatus, detail?: string) => void;
+  onSent?: (sent: { sha256: string; name: string; mode: 'delta' | 'full' }) => void;
+}
+
+export interface TvWatchSession {
+  push: (payload: Record<string, any>) => void; // Send this payload next; replaces one still waiting
+  close: () => void;
+}
+
+/**
+ * Keep one TV in step with the editor. The first update (and any after the TV
+ * falls out of step) is a full chunked transfer; later ones send a LayoutDelta
+ * of the components that changed. TV apps without sessions get full transfers.
+ * Updates are sent one at a time, and only the latest waiting payload is sent.
+ */
+export function openTvWatchSession(baseUrl: string, handlers: TvWatchHandlers): TvWatchSession {
+  let closed = false;
+  let sessionId: string | null = null;
+  let sessionsSupported = true;
+  let synced: { payload: Record<string, any>; sha256: string } | null = null;
+  let pending: Record<string, any> | null = null;
+  let busy = false;
+  let attempt = 0;
+  let retryTimer: number | undefined;
+
+  const openSession = async () => {
+    handlers.onStatus('connecting');
+    try {
+      sessionId = (await postJson<{ sessionId: string }>(`${baseUrl}/layout/session`, {})).sessionId;
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) throw error;
+      console.warn('TV watch: the TV app has no live sessions, sending every change in full');
+      sessionsSupported = false;
+    }
+  };
+
+  const sendFull = async (json: string) => {
+    await transferLayoutToTv(baseUrl, json);
+    return 'full' as const;
+  };
+
+  const sendDelta = async (delta: LayoutDelta, json: string) => {
+    try {
+      const echo = await postJson<{ sha256?: string }>(`${baseUrl}/layout/session/${encodeURIComponent(sessionId!)}/delta`, delta);
+      if (echo.sha256 !== delta.sha256) throw Object.assign(new Error('Checksum mismatch'), { status: 409 });
+      return 'delta' as const;
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 404) sessionId = null; // Session expired (TV app restarted) - a new one opens next time
+      if (status !== 409 && status !== 404) throw error;
+      console.warn(`TV watch: resyncing in full (${(error as Error).message})`);
+      return sendFull(json);
+    }
+  };
+
+  const flush = async () => {
+    if (busy || closed || !pending) return;
+    busy = true;
+    const payload = pending;
+    pending = null;
+    try {
+      const json = JSON.stringify(payload);
+      const sha256 = await sha256Hex(new TextEncoder().encode(json));
+      if (sha256 !== synced?.sha256) {
+        if (sessionsSupported && !sessionId) await openSession();
+        handlers.onStatus('sending');
+        const mode = synced && sessionId ? await sendDelta(buildLayoutDelta(synced, payload, sha256), json) : await sendFull(json);
+        synced = { payload, sha256 };
+        if (!closed) handlers.onSent?.({ sha256, name: payload.name, mode });
+      }
+      attempt = 0;
+      if (!closed) handlers.onStatus('live');
+    } catch (error) {
+      if (closed) return;
+      // The TV's layout is unknown now, so the retry is a full send
+      synced = null;
+      pending = pending ?? payload;
+      const delay = WATCH_RETRY_DELAYS_MS[Math.min(attempt, WATCH_RETRY_DELAYS_MS.length - 1)];
+      attempt++;
+      handlers.onStatus('error', `${(error as Error).message} - retrying in ${Math.round(delay / 1000)}s`);
+      retryTimer = window.setTimeout(() => {
+        retryTimer = undefined;
+        flush();
+      }, delay);
+    } finally {
+      busy = false;
+    }
+    if (pending && retryTimer === undefined) flush();
+  };
+
+  return {
+    push: payload => {
+      pending = payload;
+      if (retryTimer === undefined) flush();
+    },
+    close: () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      if (sessionId) {
+        request(`${baseUrl}/layout/session/${encodeURIComponent(sessionId)}`, { method: 'DELETE' }).catch(() => {});
+      }
+    },
+  };
+}